@@ -1,10 +1,24 @@
 
-import React, { useState, useEffect } from 'react';
-import { generatePoliticalReport } from './services/geminiService';
-import { Report, SearchState } from './types';
+import React, { useState, useEffect, useRef } from 'react';
+import { generateReportCached } from './services/reportCache';
+import { listReports, putReport, deleteReport, listTopicSets, putTopicSet, deleteTopicSet } from './services/historyStore';
+import { BatchJob, Language, Report, SearchState, TopicSet } from './types';
 import { ReportView } from './components/ReportView';
 import { Icons } from './components/Icons';
 import { ChatBot } from './components/ChatBot';
+import { GenerationLog } from './components/GenerationLog';
+import { BatchPanel } from './components/BatchPanel';
+import { ErrorNotice } from './components/ErrorNotice';
+import { CompareView } from './components/CompareView';
+import { toTopicKey, getVersionChain } from './services/reportVersions';
+import { ImportPanel } from './components/ImportPanel';
+import { mergeIntoHistory } from './services/reportImport';
+import { exportBundle, downloadFile } from './services/reportExport';
+import { createBatchQueue, BatchQueue, BATCH_CONCURRENCY } from './services/batchQueue';
+import { toFailure } from './services/reportErrors';
+import { LANGUAGES, LANGUAGE_CODES, languageTopicKey, loadLanguage, reportLanguage, saveLanguage } from './services/languages';
+import { UI_STRINGS } from './services/uiStrings';
+import { translateReport } from './services/reportTranslation';
 
 const SUGGESTIONS = [
   "Uttar Pradesh Vidhan Sabha 2027 projections",
@@ -14,6 +28,18 @@ const SUGGESTIONS = [
   "Caste census impact on Lok Sabha 2029"
 ];
 
+// Typical length of a full report, used to fill the progress bar while the answer streams
+const EXPECTED_REPORT_TOKENS = 6000;
+
+const progressWidth = (state: SearchState) => {
+  if (state.stage === 'researching') return '15%';
+  if (state.stage === 'analyzing') {
+    const streamed = Math.min((state.progress?.tokens ?? 0) / EXPECTED_REPORT_TOKENS, 1);
+    return `${Math.round(25 + streamed * 55)}%`;
+  }
+  return state.stage === 'formatting' ? '85%' : '95%';
+};
+
 function App() {
   const [searchState, setSearchState] = useState<SearchState>({
     isSearching: false,
@@ -22,60 +48,197 @@ function App() {
   });
   const [report, setReport] = useState<Report | null>(null);
   const [history, setHistory] = useState<Report[]>([]);
+  const [isSelectingCompare, setIsSelectingCompare] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<[Report, Report] | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
+  const [batchJobs, setBatchJobs] = useState<BatchJob[]>([]);
+  const [topicSets, setTopicSets] = useState<TopicSet[]>([]);
+  const [cacheHit, setCacheHit] = useState<{ reportId: string, cachedAt: number } | null>(null);
+  const [focusRequest, setFocusRequest] = useState<{ anchor: string, requestedAt: number } | undefined>(undefined);
+  const [language, setLanguage] = useState<Language>(loadLanguage);
+  const t = UI_STRINGS[language];
+
+  // Batch jobs finish long after the render that queued them, so they read history through a ref
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  const languageRef = useRef(language);
+  languageRef.current = language;
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+    saveLanguage(language);
+  }, [language]);
 
   // Load history on mount
   useEffect(() => {
-    const saved = localStorage.getItem('politisight_history');
-    if (saved) {
-      try {
-        setHistory(JSON.parse(saved));
-      } catch (e) {
-        console.error("Failed to load history", e);
-      }
-    }
+    listReports()
+      .then(setHistory)
+      .catch(e => console.error("Failed to load history", e));
+    listTopicSets()
+      .then(setTopicSets)
+      .catch(e => console.error("Failed to load topic sets", e));
   }, []);
 
   const saveToHistory = (newReport: Report) => {
-    const updatedHistory = [newReport, ...history];
-    setHistory(updatedHistory);
-    localStorage.setItem('politisight_history', JSON.stringify(updatedHistory));
+    setHistory(prev => [newReport, ...prev]);
+    putReport(newReport).catch(e => console.error("Failed to save report", e));
+  };
+
+  const updateInHistory = (updated: Report) => {
+    setHistory(prev => prev.map(r => r.id === updated.id ? updated : r));
+    putReport(updated).catch(e => console.error("Failed to save report", e));
+  };
+
+  const importToHistory = (reports: Report[]) => {
+    setHistory(prev => mergeIntoHistory(prev, reports));
+    reports.forEach(r => putReport(r).catch(e => console.error("Failed to save imported report", e)));
   };
 
   const deleteFromHistory = (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
-    const updated = history.filter(r => r.id !== id);
-    setHistory(updated);
-    localStorage.setItem('politisight_history', JSON.stringify(updated));
+    setHistory(prev => prev.filter(r => r.id !== id));
+    deleteReport(id).catch(e => console.error("Failed to delete report", e));
+  };
+
+  // Places a freshly generated report in its topic's version chain and saves it
+  const saveGenerated = (result: Report, query: string, base?: Report): Report => {
+    const current = historyRef.current;
+    const topicKey = base?.topicKey ?? languageTopicKey(toTopicKey(query), reportLanguage(result));
+    const chain = getVersionChain(current, topicKey);
+    const previous = chain.length > 0 ? chain[chain.length - 1] : base;
+
+    // Reports saved before version tracking become v1 of their chain
+    if (base && !base.topicKey) {
+      updateInHistory({ ...base, topic: query, topicKey, version: 1 });
+    }
+
+    const versioned: Report = {
+      ...result,
+      topic: query,
+      topicKey,
+      version: previous ? (previous.version ?? 1) + 1 : 1,
+      previousVersionId: previous?.id
+    };
+    saveToHistory(versioned);
+    return versioned;
+  };
+
+  const batchRef = useRef<BatchQueue | null>(null);
+  if (!batchRef.current) {
+    batchRef.current = createBatchQueue({
+      concurrency: BATCH_CONCURRENCY,
+      // Batches exist to pick up the week's changes, so they always regenerate
+      generate: (topic, signal, onProgress) => generateReportCached(
+        topic,
+        historyRef.current.slice(0, 3).map(h => h.title),
+        onProgress,
+        signal,
+        { forceRefresh: true, language: languageRef.current }
+      ).then(({ report }) => report),
+      onChange: setBatchJobs,
+      onComplete: (result, topic) => { saveGenerated(result, topic); }
+    });
+  }
+  const batch = batchRef.current;
+
+  const saveTopicSet = (name: string, topics: string[]) => {
+    // Saving under an existing name replaces that set
+    const existing = topicSets.find(s => s.name.toLowerCase() === name.toLowerCase());
+    const set: TopicSet = { id: existing?.id ?? crypto.randomUUID(), name, topics, updatedAt: Date.now() };
+    setTopicSets(prev => [set, ...prev.filter(s => s.id !== set.id)]);
+    putTopicSet(set).catch(e => console.error("Failed to save topic set", e));
+  };
+
+  const removeTopicSet = (id: string) => {
+    setTopicSets(prev => prev.filter(s => s.id !== id));
+    deleteTopicSet(id).catch(e => console.error("Failed to delete topic set", e));
+  };
+
+  const openSavedReport = (id: string) => {
+    const saved = historyRef.current.find(r => r.id === id);
+    if (!saved) return;
+    setReport(saved);
+    setIsBatchOpen(false);
+  };
+
+  const toggleCompareSelection = (id: string) => {
+    setCompareIds(prev => {
+      if (prev.includes(id)) return prev.filter(x => x !== id);
+      // Keep the two most recent picks
+      return [...prev, id].slice(-2);
+    });
+  };
+
+  const startComparison = () => {
+    const [left, right] = compareIds.map(id => history.find(r => r.id === id));
+    if (!left || !right) return;
+    setComparison([left, right]);
+    setIsSelectingCompare(false);
+    setCompareIds([]);
   };
 
-  const handleSearch = async (query: string) => {
+  // `base` is set when refreshing an existing report, so the result joins its version chain.
+  // Refreshing always bypasses the cache and keeps the report's language.
+  const handleSearch = async (query: string, base?: Report) => {
     if (!query.trim()) return;
 
     setSearchState({ isSearching: true, stage: 'researching', query });
     setReport(null);
+    setCacheHit(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
       // Pass recent history titles for better context
       const historyContext = history.slice(0, 3).map(h => h.title);
       
-      const result = await generatePoliticalReport(query, historyContext, (stage) => {
-        setSearchState(prev => ({ ...prev, stage }));
-      });
-      
-      setReport(result);
-      saveToHistory(result);
+      const { report: result, cachedAt } = await generateReportCached(query, historyContext, (progress) => {
+        if (controller.signal.aborted) return;
+        setSearchState(prev => ({ ...prev, stage: progress.stage, progress }));
+      }, controller.signal, { forceRefresh: !!base, language: base ? reportLanguage(base) : language });
+      if (controller.signal.aborted) return;
+
+      if (cachedAt) {
+        // A cache hit is usually still in history; only save it again if it was deleted
+        setReport(historyRef.current.find(r => r.id === result.id) ?? saveGenerated(result, query));
+        setCacheHit({ reportId: result.id, cachedAt });
+      } else {
+        setReport(saveGenerated(result, query, base));
+      }
       setSearchState(prev => ({ ...prev, stage: 'complete' }));
     } catch (error) {
+      // cancelSearch has already reset the screen
+      if (controller.signal.aborted) return;
       console.error(error);
       setSearchState(prev => ({ 
         ...prev, 
         stage: 'idle', 
         isSearching: false, 
-        error: "Failed to generate report. Please try again." 
+        error: toFailure(error)
       }));
     }
   };
 
+  // Opens an earlier translation of the same report if there is one; errors are shown by ReportView
+  const translateCurrent = async (source: Report, to: Language) => {
+    const existing = historyRef.current.find(r => r.translatedFrom?.id === source.id && r.language === to);
+    if (existing) {
+      setReport(existing);
+      return;
+    }
+    const translated = await translateReport(source, to);
+    setReport(saveGenerated(translated, source.topic ?? source.title));
+  };
+
+  const cancelSearch = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setSearchState({ isSearching: false, stage: 'idle', query: '' });
+  };
+
   const resetApp = () => {
     setReport(null);
     setSearchState({ isSearching: false, stage: 'idle', query: '' });
@@ -102,43 +265,77 @@ function App() {
           </div>
           
           <h2 className="text-3xl font-display font-bold text-white mb-4 animate-pulse">
-            {searchState.stage === 'researching' && 'Gathering Data Sources...'}
-            {searchState.stage === 'analyzing' && 'Analyzing Political Trends...'}
-            {searchState.stage === 'formatting' && 'Generating Report...'}
+            {searchState.stage !== 'idle' && searchState.stage !== 'complete' && t.stageTitles[searchState.stage]}
           </h2>
           
           <p className="text-slate-400 text-lg mb-8">
-            Investigating "{searchState.query}"
+            {t.investigating(searchState.query)}
           </p>
 
           <div className="w-full bg-slate-800 h-2 rounded-full overflow-hidden">
             <div 
               className="h-full bg-gradient-to-r from-violet-500 to-cyan-400 transition-all duration-1000 ease-in-out"
-              style={{ 
-                width: searchState.stage === 'researching' ? '30%' : 
-                       searchState.stage === 'analyzing' ? '65%' : '90%' 
-              }}
+              style={{ width: progressWidth(searchState) }}
             ></div>
           </div>
           
           <div className="mt-8 flex justify-between text-xs text-slate-500 font-mono uppercase tracking-widest">
-            <span className={searchState.stage === 'researching' ? 'text-cyan-400' : 'text-slate-600'}>Research</span>
-            <span className={searchState.stage === 'analyzing' ? 'text-cyan-400' : 'text-slate-600'}>Analysis</span>
-            <span className={searchState.stage === 'formatting' ? 'text-cyan-400' : 'text-slate-600'}>Report</span>
+            {(['researching', 'analyzing', 'formatting', 'verifying'] as const).map(stage => (
+              <span key={stage} className={searchState.stage === stage ? 'text-cyan-400' : 'text-slate-600'}>{t.stageLabels[stage]}</span>
+            ))}
+          </div>
+
+          <div className="mt-8">
+            <GenerationLog progress={searchState.progress} language={language} />
           </div>
+
+          <button
+            onClick={cancelSearch}
+            className="mt-6 px-5 py-2 rounded-full border border-slate-700 text-slate-400 hover:text-white hover:border-red-500/60 hover:bg-red-500/10 transition-colors text-sm inline-flex items-center gap-2"
+          >
+            <Icons.Close size={14} /> {t.cancel}
+          </button>
         </div>
       </div>
     );
   }
 
+  // ----------------------------------------------------
+  // Render: Comparison View
+  // ----------------------------------------------------
+  if (comparison) {
+    return <CompareView left={comparison[0]} right={comparison[1]} onClose={() => setComparison(null)} language={language} />;
+  }
+
   // ----------------------------------------------------
   // Render: Report View
   // ----------------------------------------------------
   if (report) {
     return (
       <>
-        <ReportView report={report} onReset={resetApp} />
-        <ChatBot currentReport={report} history={history} />
+        <ReportView
+          report={report}
+          onReset={resetApp}
+          versions={getVersionChain(history, report.topicKey)}
+          onSelectVersion={setReport}
+          onRefresh={() => handleSearch(report.topic ?? report.title, report)}
+          cachedAt={cacheHit?.reportId === report.id ? cacheHit.cachedAt : undefined}
+          focusRequest={focusRequest}
+          onUpdateReport={(updated) => {
+            setReport(updated);
+            updateInHistory(updated);
+          }}
+          language={language}
+          onTranslate={(to) => translateCurrent(report, to)}
+        />
+        <ChatBot
+          currentReport={report}
+          history={history}
+          onOpenSection={anchor => setFocusRequest({ anchor, requestedAt: Date.now() })}
+          onGenerateReport={topic => handleSearch(topic)}
+          onOpenReport={openSavedReport}
+          language={language}
+        />
       </>
     );
   }
@@ -157,9 +354,25 @@ function App() {
           </div>
           <span className="font-display font-bold text-xl tracking-tight">PolitiSight</span>
         </div>
-        <a href="https://ai.google.dev" target="_blank" rel="noreferrer" className="text-xs font-medium text-slate-500 hover:text-slate-300 transition-colors">
-          Powered by Gemini
-        </a>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-1.5 text-xs text-slate-500">
+            <Icons.Languages size={14} />
+            <span className="sr-only">{t.language}</span>
+            <select
+              value={language}
+              onChange={(e) => setLanguage(e.target.value as Language)}
+              className="bg-transparent text-slate-300 border border-white/10 rounded-lg px-2 py-1 focus:outline-none focus:ring-1 focus:ring-violet-500"
+              title={t.language}
+            >
+              {LANGUAGE_CODES.map(code => (
+                <option key={code} value={code} lang={code} className="bg-slate-800">{LANGUAGES[code].nativeName}</option>
+              ))}
+            </select>
+          </label>
+          <a href="https://ai.google.dev" target="_blank" rel="noreferrer" className="text-xs font-medium text-slate-500 hover:text-slate-300 transition-colors">
+            {t.poweredBy}
+          </a>
+        </div>
       </header>
 
       {/* Main Hero */}
@@ -170,15 +383,15 @@ function App() {
 
         <div className="relative z-10 w-full max-w-4xl text-center">
           <span className="inline-block py-1 px-3 rounded-full bg-violet-500/10 border border-violet-500/20 text-violet-300 text-xs font-bold uppercase tracking-widest mb-6">
-            Indian Political Intelligence
+            {t.tagline}
           </span>
           
           <h1 className="text-5xl md:text-7xl font-display font-bold mb-6 leading-tight bg-clip-text text-transparent bg-gradient-to-b from-white to-slate-400">
-            Decode the <br/> democracy.
+            {t.heroTitle[0]} <br/> {t.heroTitle[1]}
           </h1>
           
           <p className="text-lg md:text-xl text-slate-400 mb-10 max-w-2xl mx-auto font-light">
-            Advanced AI-powered analysis for elections, voting patterns, and political dynamics using real-time data sources.
+            {t.heroSubtitle}
           </p>
 
           {/* Search Box */}
@@ -188,7 +401,7 @@ function App() {
               <Icons.Search className="ml-4 text-slate-400" size={24} />
               <input
                 type="text"
-                placeholder="Ask about 2027 elections, constituencies, or trends..."
+                placeholder={t.searchPlaceholder}
                 className="w-full bg-transparent border-none focus:ring-0 text-lg px-4 py-3 text-white placeholder-slate-500"
                 onKeyDown={(e) => {
                   if (e.key === 'Enter') handleSearch(e.currentTarget.value);
@@ -208,7 +421,7 @@ function App() {
 
           {/* Suggestions */}
           <div className="mb-16">
-            <p className="text-slate-500 text-sm mb-4">Trending Analysis & Projections</p>
+            <p className="text-slate-500 text-sm mb-4">{t.trending}</p>
             <div className="flex flex-wrap justify-center gap-3">
               {SUGGESTIONS.map((s, i) => (
                 <button
@@ -222,44 +435,106 @@ function App() {
             </div>
           </div>
 
+          {/* Import / Export */}
+          <div className="flex justify-center gap-4 -mt-10 mb-16 text-xs">
+            <button
+              onClick={() => setIsImportOpen(true)}
+              className="flex items-center gap-1.5 text-slate-500 hover:text-slate-300 transition-colors"
+            >
+              <Icons.Upload size={14} /> {t.importReports}
+            </button>
+            <button
+              onClick={() => setIsBatchOpen(true)}
+              className="flex items-center gap-1.5 text-slate-500 hover:text-slate-300 transition-colors"
+            >
+              <Icons.Batch size={14} /> {t.batchReports}
+              {batchJobs.some(j => j.status === 'queued' || j.status === 'running' || j.status === 'waiting') && (
+                <span className="px-1.5 rounded-full bg-cyan-500/20 text-cyan-300 font-mono">
+                  {batchJobs.filter(j => j.status === 'done').length}/{batchJobs.length}
+                </span>
+              )}
+            </button>
+            {history.length > 0 && (
+              <button
+                onClick={() => downloadFile(exportBundle(history))}
+                className="flex items-center gap-1.5 text-slate-500 hover:text-slate-300 transition-colors"
+              >
+                <Icons.Download size={14} /> {t.exportHistory}
+              </button>
+            )}
+          </div>
+
           {/* History Section */}
           {history.length > 0 && (
             <div className="w-full text-left animate-slide-up">
               <div className="flex items-center gap-2 mb-6 border-b border-white/5 pb-4">
                 <Icons.History className="text-violet-400" size={20} />
-                <h2 className="text-xl font-display font-semibold text-white">Recent Analyses</h2>
+                <h2 className="text-xl font-display font-semibold text-white">{t.recentAnalyses}</h2>
+                {history.length > 1 && (
+                  <div className="ml-auto flex items-center gap-2">
+                    {isSelectingCompare && (
+                      <button
+                        onClick={startComparison}
+                        disabled={compareIds.length !== 2}
+                        className="px-3 py-1.5 rounded-lg bg-violet-600 hover:bg-violet-700 text-white text-xs font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                      >
+                        {t.compare} {compareIds.length}/2
+                      </button>
+                    )}
+                    <button
+                      onClick={() => {
+                        setIsSelectingCompare(!isSelectingCompare);
+                        setCompareIds([]);
+                      }}
+                      className="px-3 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-slate-300 text-xs font-medium flex items-center gap-2 transition-colors"
+                    >
+                      {isSelectingCompare ? <Icons.Close size={14} /> : <Icons.Compare size={14} />}
+                      {isSelectingCompare ? t.cancel : t.compare}
+                    </button>
+                  </div>
+                )}
               </div>
               
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                 {history.map((item) => (
                   <div 
                     key={item.id} 
-                    onClick={() => setReport(item)}
-                    className="group relative bg-slate-800/30 hover:bg-slate-800/50 border border-white/5 hover:border-violet-500/30 rounded-xl p-5 cursor-pointer transition-all duration-300 hover:-translate-y-1"
+                    onClick={() => isSelectingCompare ? toggleCompareSelection(item.id) : setReport(item)}
+                    className={`group relative bg-slate-800/30 hover:bg-slate-800/50 border rounded-xl p-5 cursor-pointer transition-all duration-300 hover:-translate-y-1 ${
+                      compareIds.includes(item.id) ? 'border-violet-500' : 'border-white/5 hover:border-violet-500/30'
+                    }`}
                   >
                     <div className="flex justify-between items-start mb-3">
                       <span className="text-xs font-mono text-cyan-400 bg-cyan-900/20 px-2 py-1 rounded">
                         {item.date}
                       </span>
-                      <button 
-                        onClick={(e) => deleteFromHistory(e, item.id)}
-                        className="text-slate-600 hover:text-red-400 transition-colors p-1"
-                        title="Delete from history"
-                      >
-                        <Icons.Trash size={16} />
-                      </button>
+                      {isSelectingCompare ? (
+                        <span className={`w-5 h-5 rounded border flex items-center justify-center ${
+                          compareIds.includes(item.id) ? 'bg-violet-600 border-violet-500' : 'border-slate-600'
+                        }`}>
+                          {compareIds.includes(item.id) && <Icons.Check size={14} className="text-white" />}
+                        </span>
+                      ) : (
+                        <button 
+                          onClick={(e) => deleteFromHistory(e, item.id)}
+                          className="text-slate-600 hover:text-red-400 transition-colors p-1"
+                          title={t.deleteFromHistory}
+                        >
+                          <Icons.Trash size={16} />
+                        </button>
+                      )}
                     </div>
                     
-                    <h3 className="text-lg font-bold text-slate-200 group-hover:text-white mb-2 line-clamp-2">
+                    <h3 lang={reportLanguage(item)} className="text-lg font-bold text-slate-200 group-hover:text-white mb-2 line-clamp-2">
                       {item.title}
                     </h3>
                     
-                    <p className="text-slate-400 text-sm line-clamp-3 mb-4">
+                    <p lang={reportLanguage(item)} className="text-slate-400 text-sm line-clamp-3 mb-4">
                       {item.executiveSummary}
                     </p>
 
                     <div className="flex items-center text-violet-400 text-xs font-medium group-hover:translate-x-1 transition-transform">
-                      View Report <Icons.ArrowRight size={12} className="ml-1" />
+                      {t.viewReport} <Icons.ArrowRight size={12} className="ml-1" />
                     </div>
                   </div>
                 ))}
@@ -268,16 +543,36 @@ function App() {
           )}
 
           {searchState.error && (
-            <div className="mt-6 p-4 bg-red-500/10 border border-red-500/20 text-red-200 rounded-lg text-sm max-w-md mx-auto">
-              <div className="flex items-center justify-center gap-2">
-                <Icons.Alert size={16} />
-                {searchState.error}
-              </div>
-            </div>
+            <ErrorNotice failure={searchState.error} onRetry={() => handleSearch(searchState.query)} language={language} />
           )}
         </div>
       </main>
-      <ChatBot currentReport={null} history={history} />
+      {isImportOpen && (
+        <ImportPanel history={history} onImport={importToHistory} onClose={() => setIsImportOpen(false)} language={language} />
+      )}
+      {isBatchOpen && (
+        <BatchPanel
+          jobs={batchJobs}
+          topicSets={topicSets}
+          onRun={batch.add}
+          onCancel={batch.cancel}
+          onCancelAll={batch.cancelAll}
+          onRetry={batch.retry}
+          onClearFinished={batch.clearFinished}
+          onOpen={openSavedReport}
+          onSaveSet={saveTopicSet}
+          onDeleteSet={removeTopicSet}
+          onClose={() => setIsBatchOpen(false)}
+          language={language}
+        />
+      )}
+      <ChatBot
+        currentReport={null}
+        history={history}
+        onGenerateReport={topic => handleSearch(topic)}
+        onOpenReport={openSavedReport}
+        language={language}
+      />
     </div>
   );
 }
@@ -0,0 +1,266 @@
+import React, { useState } from 'react';
+import { Annotation, AnnotationStatus, Language, Report } from '../types';
+import { Icons } from './Icons';
+import {
+  ANNOTATION_STATUSES, ANNOTATION_STATUS_ORDER, annotationAnchorId, annotationFields, fieldLabel, isDetached, reviewCounts
+} from '../services/annotations';
+import { citationField } from '../services/citations';
+import { INSIGHTS_ANCHOR, SUMMARY_ANCHOR } from '../services/chatContext';
+import { DEFAULT_LANGUAGE } from '../services/languages';
+import { UI_STRINGS } from '../services/uiStrings';
+
+const scrollToAnnotation = (id: string) =>
+  document.getElementById(annotationAnchorId(id))?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+const fieldAnchor = (field: string) => {
+  if (field === citationField.summary) return SUMMARY_ANCHOR;
+  if (field.startsWith('insight:')) return INSIGHTS_ANCHOR;
+  return field.slice('section:'.length);
+};
+
+const StatusBadge = ({ status, language }: { status: AnnotationStatus; language: Language }) => {
+  const { color } = ANNOTATION_STATUSES[status];
+  return (
+    <span className="text-[10px] font-bold uppercase tracking-wide px-1.5 py-0.5 rounded border" style={{ color, borderColor: color }}>
+      {UI_STRINGS[language].annotationStatuses[status]}
+    </span>
+  );
+};
+
+const NoteBadge = ({ language }: { language: Language }) => (
+  <span className="text-[10px] font-bold uppercase tracking-wide text-slate-400">{UI_STRINGS[language].note}</span>
+);
+
+export const AnnotationHighlight = ({ annotation, language = DEFAULT_LANGUAGE, children }: { annotation?: Annotation; language?: Language; children: React.ReactNode }) => {
+  if (!annotation) return <>{children}</>;
+  const { color } = ANNOTATION_STATUSES[annotation.status];
+  const label = UI_STRINGS[language].annotationStatuses[annotation.status];
+  return (
+    <mark
+      onClick={() => scrollToAnnotation(annotation.id)}
+      title={annotation.comment ? `${label}: ${annotation.comment}` : label}
+      className="text-inherit rounded-sm cursor-pointer border-b-2"
+      style={{ backgroundColor: `${color}26`, borderBottomColor: color }}
+    >
+      {children}
+    </mark>
+  );
+};
+
+interface AnnotationComposerProps {
+  quote?: string;         // Omit for a section note, which has no status
+  onSave: (status: AnnotationStatus, comment: string) => void;
+  onCancel: () => void;
+  language?: Language;
+}
+
+export const AnnotationComposer: React.FC<AnnotationComposerProps> = ({ quote, onSave, onCancel, language = DEFAULT_LANGUAGE }) => {
+  const t = UI_STRINGS[language];
+  const [status, setStatus] = useState<AnnotationStatus>('comment');
+  const [comment, setComment] = useState('');
+  // A status is a verdict on its own; plain comments and notes need text
+  const canSave = comment.trim().length > 0 || (!!quote && status !== 'comment');
+
+  return (
+    <div className="glass-panel rounded-xl p-3 shadow-2xl w-72 text-sm no-print" onMouseUp={e => e.stopPropagation()}>
+      {quote && (
+        <>
+          <p className="text-xs text-slate-400 italic line-clamp-2 mb-2">“{quote}”</p>
+          <div className="flex flex-wrap gap-1 mb-2">
+            {ANNOTATION_STATUS_ORDER.map(s => (
+              <button
+                key={s}
+                onClick={() => setStatus(s)}
+                className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${status === s ? 'text-white' : 'text-slate-400 border-white/10 hover:text-white'}`}
+                style={status === s ? { borderColor: ANNOTATION_STATUSES[s].color, backgroundColor: `${ANNOTATION_STATUSES[s].color}33` } : undefined}
+              >
+                {t.annotationStatuses[s]}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+      <textarea
+        autoFocus
+        value={comment}
+        onChange={e => setComment(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey) && canSave) onSave(status, comment);
+          if (e.key === 'Escape') onCancel();
+        }}
+        rows={3}
+        placeholder={quote ? t.commentPlaceholder : t.notePlaceholder}
+        className="w-full bg-slate-900/60 border border-white/10 rounded-lg p-2 text-slate-200 placeholder-slate-500 focus:outline-none focus:ring-1 focus:ring-violet-500 resize-none"
+      />
+      <div className="mt-2 flex justify-end gap-2">
+        <button onClick={onCancel} className="px-2.5 py-1 rounded-md border border-white/10 text-slate-300 hover:bg-white/5 text-xs">
+          {t.cancel}
+        </button>
+        <button
+          onClick={() => onSave(status, comment)}
+          disabled={!canSave}
+          className="px-2.5 py-1 rounded-md bg-violet-600 hover:bg-violet-700 text-white text-xs disabled:opacity-40"
+        >
+          {t.save}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+interface AnnotationCardProps {
+  annotation: Annotation;
+  detached: boolean;
+  onChangeStatus?: (status: AnnotationStatus) => void;
+  onDelete?: () => void;
+  language: Language;
+}
+
+const AnnotationCard = ({ annotation, detached, onChangeStatus, onDelete, language }: AnnotationCardProps) => {
+  const t = UI_STRINGS[language];
+  return (
+    <li
+      id={annotationAnchorId(annotation.id)}
+      className="glass-card rounded-lg p-2.5 text-xs border-l-2 scroll-mt-28 break-inside-avoid print:border print:border-gray-300"
+      style={{ borderLeftColor: annotation.quote ? ANNOTATION_STATUSES[annotation.status].color : '#64748B' }}
+    >
+      <div className="flex items-center justify-between gap-2 mb-1">
+        {annotation.quote ? (
+          onChangeStatus ? (
+            <select
+              value={annotation.status}
+              onChange={e => onChangeStatus(e.target.value as AnnotationStatus)}
+              className="bg-transparent text-[10px] font-bold uppercase tracking-wide focus:outline-none cursor-pointer print:hidden"
+              style={{ color: ANNOTATION_STATUSES[annotation.status].color }}
+              aria-label={t.status}
+            >
+              {ANNOTATION_STATUS_ORDER.map(s => <option key={s} value={s} className="bg-slate-900">{t.annotationStatuses[s]}</option>)}
+            </select>
+          ) : <StatusBadge status={annotation.status} language={language} />
+        ) : <NoteBadge language={language} />}
+        {onChangeStatus && annotation.quote && <span className="hidden print:inline"><StatusBadge status={annotation.status} language={language} /></span>}
+        {onDelete && (
+          <button onClick={onDelete} className="text-slate-500 hover:text-red-400 no-print" title={t.delete}>
+            <Icons.Trash size={12} />
+          </button>
+        )}
+      </div>
+      {annotation.quote && (
+        <p className="text-slate-400 italic line-clamp-3 print:text-gray-600">“{annotation.quote}”</p>
+      )}
+      {detached && <p className="text-amber-300/80 mt-1">{t.annotationDetached}</p>}
+      {annotation.comment && <p className="text-slate-200 mt-1 whitespace-pre-wrap print:text-black">{annotation.comment}</p>}
+    </li>
+  );
+};
+
+interface AnnotationMarginProps {
+  report: Report;
+  fields: string[];  // Fields whose annotations this margin lists
+  noteField?: string; // Field that new notes attach to; omit to disallow notes
+  onUpdate?: (annotations: Annotation[]) => void; // Omit for a read-only margin
+  onAddNote?: (field: string, comment: string) => void;
+  language?: Language;
+}
+
+export const AnnotationMargin: React.FC<AnnotationMarginProps> = ({ report, fields, noteField, onUpdate, onAddNote, language = DEFAULT_LANGUAGE }) => {
+  const [isAddingNote, setIsAddingNote] = useState(false);
+  const all = report.annotations || [];
+  const annotations = all.filter(a => fields.includes(a.field)).sort((a, b) => a.createdAt - b.createdAt);
+  if (annotations.length === 0 && !(noteField && onAddNote)) return null;
+
+  const replace = (id: string, change: Partial<Annotation> | null) =>
+    onUpdate?.(change ? all.map(a => a.id === id ? { ...a, ...change } : a) : all.filter(a => a.id !== id));
+
+  return (
+    <aside className="space-y-2 mt-4 xl:mt-0">
+      {annotations.length > 0 && (
+        <ul className="space-y-2">
+          {annotations.map(a => (
+            <AnnotationCard
+              key={a.id}
+              annotation={a}
+              detached={isDetached(report, a)}
+              onChangeStatus={onUpdate && (status => replace(a.id, { status }))}
+              onDelete={onUpdate && (() => replace(a.id, null))}
+              language={language}
+            />
+          ))}
+        </ul>
+      )}
+      {noteField && onAddNote && (
+        isAddingNote ? (
+          <AnnotationComposer
+            onSave={(_, comment) => {
+              onAddNote(noteField, comment);
+              setIsAddingNote(false);
+            }}
+            onCancel={() => setIsAddingNote(false)}
+            language={language}
+          />
+        ) : (
+          <button
+            onClick={() => setIsAddingNote(true)}
+            className="no-print text-xs text-slate-500 hover:text-violet-300 flex items-center gap-1"
+          >
+            <Icons.Plus size={12} /> {UI_STRINGS[language].addNote}
+          </button>
+        )
+      )}
+    </aside>
+  );
+};
+
+export const ReviewPanel = ({ report, language = DEFAULT_LANGUAGE }: { report: Report; language?: Language }) => {
+  const t = UI_STRINGS[language];
+  const annotations = report.annotations || [];
+  if (annotations.length === 0) return null;
+  const counts = reviewCounts(annotations);
+  const groups = annotationFields(report)
+    .map(field => ({ field, items: annotations.filter(a => a.field === field) }))
+    .filter(g => g.items.length > 0);
+  // Annotations on sections that no longer exist
+  const orphans = annotations.filter(a => !groups.some(g => g.field === a.field));
+
+  return (
+    <div id="analyst-review" className="glass-card rounded-2xl p-8 scroll-mt-28 break-inside-avoid">
+      <h2 className="text-2xl font-display font-bold text-white mb-4 flex items-center gap-2 print:text-black">
+        <Icons.Edit size={22} className="text-violet-400 no-print" /> {t.analystReview}
+      </h2>
+      <div className="flex flex-wrap gap-3 mb-6 text-sm">
+        {ANNOTATION_STATUS_ORDER.filter(s => counts[s] > 0).map(s => (
+          <span key={s} className="flex items-center gap-1.5 text-slate-300 print:text-black">
+            <StatusBadge status={s} language={language} /> {counts[s]}
+          </span>
+        ))}
+        {counts.notes > 0 && (
+          <span className="text-slate-400 print:text-black">{t.noteCount(counts.notes)}</span>
+        )}
+      </div>
+      <div className="space-y-5">
+        {[...groups, ...(orphans.length > 0 ? [{ field: '', items: orphans }] : [])].map(({ field, items }) => (
+          <div key={field || 'orphans'}>
+            <button
+              onClick={() => field && document.getElementById(fieldAnchor(field))?.scrollIntoView({ behavior: 'smooth' })}
+              className="text-sm font-bold text-slate-300 hover:text-cyan-400 mb-2 print:text-black"
+            >
+              {field ? fieldLabel(report, field, language) : t.removedSections}
+            </button>
+            <ul className="space-y-1.5">
+              {items.map(a => (
+                <li key={a.id} className="text-sm flex gap-2 items-baseline">
+                  {a.quote ? <StatusBadge status={a.status} language={language} /> : <NoteBadge language={language} />}
+                  <button onClick={() => scrollToAnnotation(a.id)} className="text-left text-slate-400 hover:text-slate-200 print:text-gray-700">
+                    {a.quote && <span className="italic">“{a.quote}”</span>}
+                    {a.quote && a.comment && ' — '}
+                    {a.comment}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { BatchJob, BatchJobStatus, Language, TopicSet } from '../types';
+import { Icons } from './Icons';
+import { DEFAULT_LANGUAGE, LANGUAGES } from '../services/languages';
+import { UI_STRINGS } from '../services/uiStrings';
+
+interface BatchPanelProps {
+  jobs: BatchJob[];
+  topicSets: TopicSet[];
+  onRun: (topics: string[]) => void;
+  onCancel: (id: string) => void;
+  onCancelAll: () => void;
+  onRetry: (id: string) => void;
+  onClearFinished: () => void;
+  onOpen: (reportId: string) => void;
+  onSaveSet: (name: string, topics: string[]) => void;
+  onDeleteSet: (id: string) => void;
+  onClose: () => void;
+  language?: Language;
+}
+
+const STATUS_STYLES: Record<BatchJobStatus, string> = {
+  queued: 'text-slate-400 bg-white/5 border-white/10',
+  running: 'text-cyan-300 bg-cyan-500/10 border-cyan-500/20',
+  waiting: 'text-amber-300 bg-amber-500/10 border-amber-500/20',
+  done: 'text-emerald-300 bg-emerald-500/10 border-emerald-500/20',
+  failed: 'text-red-300 bg-red-500/10 border-red-500/20',
+  cancelled: 'text-slate-500 bg-white/5 border-white/10'
+};
+
+const parseTopics = (text: string) => text.split('\n').map(t => t.trim()).filter(Boolean);
+
+const jobDetail = (job: BatchJob, language: Language) => {
+  const t = UI_STRINGS[language];
+  if (job.status === 'waiting' && job.retryAt) {
+    const time = new Date(job.retryAt).toLocaleTimeString(`${LANGUAGES[language].locale}-u-nu-latn`);
+    return t.retryingAt(time, job.attempts + 1);
+  }
+  if (job.status === 'running' && job.progress) {
+    const latest = job.progress.log[job.progress.log.length - 1];
+    const tokens = t.tokens(job.progress.tokens.toLocaleString('en-IN'));
+    return latest ? `${tokens} · ${latest.text}` : tokens;
+  }
+  if (job.status === 'failed') return job.error;
+  return undefined;
+};
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({
+  jobs, topicSets, onRun, onCancel, onCancelAll, onRetry, onClearFinished, onOpen, onSaveSet, onDeleteSet, onClose, language = DEFAULT_LANGUAGE
+}) => {
+  const t = UI_STRINGS[language];
+  const [text, setText] = useState('');
+  const [setName, setSetName] = useState('');
+  const topics = parseTopics(text);
+  const pending = jobs.filter(j => j.status === 'queued' || j.status === 'running' || j.status === 'waiting').length;
+
+  const handleRun = () => {
+    onRun(topics);
+    setText('');
+  };
+
+  const handleSaveSet = () => {
+    if (!setName.trim() || topics.length === 0) return;
+    onSaveSet(setName.trim(), topics);
+    setSetName('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="glass-panel rounded-2xl w-full max-w-3xl max-h-[85vh] flex flex-col shadow-2xl animate-slide-up text-left"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-5 border-b border-white/5 flex items-center justify-between">
+          <h2 className="text-xl font-display font-bold text-white flex items-center gap-2">
+            <Icons.Batch size={20} className="text-violet-400" /> {t.batchReports}
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white p-1" title={t.closeKeepsQueue}>
+            <Icons.Close size={18} />
+          </button>
+        </div>
+
+        <div className="p-5 overflow-y-auto flex-1 space-y-5">
+          <div>
+            <textarea
+              value={text}
+              onChange={e => setText(e.target.value)}
+              rows={5}
+              placeholder={t.batchPlaceholder}
+              className="w-full bg-slate-900/60 border border-white/10 focus:border-violet-500/50 rounded-xl p-3 text-sm text-slate-200 placeholder-slate-600 focus:ring-0 resize-y"
+            />
+
+            {topicSets.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 mt-3">
+                <span className="text-xs text-slate-500">{t.savedSets}</span>
+                {topicSets.map(set => (
+                  <span key={set.id} className="group flex items-center rounded-full bg-white/5 border border-white/10 text-xs text-slate-300">
+                    <button
+                      onClick={() => setText(set.topics.join('\n'))}
+                      className="pl-3 pr-2 py-1 hover:text-white"
+                      title={set.topics.join('\n')}
+                    >
+                      {set.name} <span className="text-slate-500">({set.topics.length})</span>
+                    </button>
+                    <button
+                      onClick={() => onDeleteSet(set.id)}
+                      className="pr-2 py-1 text-slate-600 hover:text-red-400"
+                      title={t.deleteSet}
+                    >
+                      <Icons.Close size={12} />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-3 mt-3">
+              <input
+                type="text"
+                value={setName}
+                onChange={e => setSetName(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter') handleSaveSet(); }}
+                placeholder={t.nameSet}
+                className="flex-1 min-w-[10rem] bg-slate-900/60 border border-white/10 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder-slate-600 focus:ring-0"
+              />
+              <button
+                onClick={handleSaveSet}
+                disabled={!setName.trim() || topics.length === 0}
+                className="px-3 py-2 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-slate-300 text-sm flex items-center gap-2 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <Icons.Save size={14} /> {t.saveSet}
+              </button>
+              <button
+                onClick={handleRun}
+                disabled={topics.length === 0}
+                className="px-4 py-2 bg-violet-600 hover:bg-violet-700 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                {t.runReports(topics.length)}
+              </button>
+            </div>
+          </div>
+
+          {jobs.length > 0 && (
+            <div className="bg-slate-800/30 border border-white/5 rounded-xl p-4">
+              <div className="flex items-center justify-between mb-3">
+                <p className="text-sm text-slate-400">
+                  {t.queue} <span className="text-slate-500">· {t.pendingOf(pending, jobs.length)}</span>
+                </p>
+                <div className="flex items-center gap-3 text-xs">
+                  {pending > 0 && (
+                    <button onClick={onCancelAll} className="text-slate-400 hover:text-red-400">{t.cancelAll}</button>
+                  )}
+                  {pending < jobs.length && (
+                    <button onClick={onClearFinished} className="text-slate-400 hover:text-white">{t.clearFinished}</button>
+                  )}
+                </div>
+              </div>
+
+              <ul className="space-y-2">
+                {jobs.map(job => {
+                  const detail = jobDetail(job, language);
+                  return (
+                    <li key={job.id} className="flex items-center gap-3 text-sm">
+                      <span className={`text-[10px] uppercase tracking-wider px-2 py-0.5 rounded border flex-shrink-0 w-24 text-center ${STATUS_STYLES[job.status]}`}>
+                        {t.batchStatuses[job.status]}
+                      </span>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-slate-200 truncate">{job.topic}</p>
+                        {detail && <p className="text-xs text-slate-500 truncate">{detail}</p>}
+                      </div>
+                      {job.status === 'done' && job.reportId && (
+                        <button onClick={() => onOpen(job.reportId!)} className="text-xs text-cyan-400 hover:text-cyan-300 flex-shrink-0">
+                          {t.open}
+                        </button>
+                      )}
+                      {(job.status === 'failed' || job.status === 'cancelled') && (
+                        <button onClick={() => onRetry(job.id)} className="text-slate-500 hover:text-white p-1 flex-shrink-0" title={t.runAgain}>
+                          <Icons.Refresh size={14} />
+                        </button>
+                      )}
+                      {(job.status === 'queued' || job.status === 'running' || job.status === 'waiting') && (
+                        <button onClick={() => onCancel(job.id)} className="text-slate-500 hover:text-red-400 p-1 flex-shrink-0" title={t.cancel}>
+                          <Icons.Close size={14} />
+                        </button>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
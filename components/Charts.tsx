@@ -14,100 +14,195 @@ import {
   LineChart,
   Line
 } from 'recharts';
-import { ChartDataPoint } from '../types';
+import { ChartDataPoint, ChartSeries, ChartConfig, Language } from '../types';
+import { groupByAlliance, identityColor } from '../services/partyRegistry';
+import { DEFAULT_LANGUAGE } from '../services/languages';
+import { UI_STRINGS } from '../services/uiStrings';
 
 interface ChartProps {
   data: ChartDataPoint[];
-  config?: {
-    xLabel?: string;
-    yLabel?: string;
-    title?: string;
-  };
+  config?: ChartConfig;
+  series?: ChartSeries[]; // Plot these keys instead of the single `value` key; defaults to config.series
+  language?: Language;
 }
 
 const COLORS = ['#8B5CF6', '#06B6D4', '#10B981', '#F59E0B', '#EF4444', '#EC4899'];
 
-const CustomTooltip = ({ active, payload, label }: any) => {
+// Registry colours win over the model's overrides so a party looks the same in every chart
+const pointColor = (point: ChartDataPoint, index: number) =>
+  identityColor(point.name) || point.fill || COLORS[index % COLORS.length];
+
+const seriesColor = (series: ChartSeries, index: number) =>
+  identityColor(series.label) || identityColor(series.key) || series.color || COLORS[index % COLORS.length];
+
+const CustomTooltip = ({ active, payload, label, stacked, totalLabel }: any) => {
   if (active && payload && payload.length) {
+    const total = payload.reduce((sum: number, entry: any) => sum + (Number(entry.value) || 0), 0);
     return (
       <div className="bg-slate-800 border border-slate-700 p-3 rounded-lg shadow-xl">
         <p className="text-slate-200 font-semibold mb-1">{label}</p>
-        <p className="text-cyan-400 font-mono">
-          {payload[0].value.toLocaleString()}
-        </p>
+        {payload.length === 1 ? (
+          <p className="text-cyan-400 font-mono">
+            {payload[0].value.toLocaleString()}
+          </p>
+        ) : (
+          <>
+            {payload.map((entry: any) => (
+              <p key={entry.dataKey} className="font-mono text-sm flex items-center gap-2">
+                <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: entry.color }}></span>
+                <span className="text-slate-400">{entry.name}:</span>
+                <span style={{ color: entry.color }}>{entry.value?.toLocaleString() ?? '—'}</span>
+              </p>
+            ))}
+            {stacked && (
+              <p className="font-mono text-sm text-slate-200 border-t border-slate-700 mt-1 pt-1">
+                {totalLabel}: {total.toLocaleString()}
+              </p>
+            )}
+          </>
+        )}
       </div>
     );
   }
   return null;
 };
 
-export const AnalysisBarChart: React.FC<ChartProps> = ({ data, config }) => {
+const legendFormatter = (value: string) => <span className="text-slate-300 ml-2">{value}</span>;
+
+const PartyLegend = ({ names, language }: { names: string[], language: Language }) => {
+  const groups = groupByAlliance(names);
+  if (groups.length === 0) return null;
+
   return (
-    <div className="w-full h-80 my-6 bg-slate-800/30 rounded-xl p-4 border border-slate-700/50">
-      {config?.title && <h4 className="text-center text-slate-300 mb-4 font-display text-sm uppercase tracking-wider">{config.title}</h4>}
-      <ResponsiveContainer width="100%" height="100%">
-        <BarChart
-          data={data}
-          margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
-        >
-          <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
-          <XAxis dataKey="name" stroke="#94a3b8" tick={{fontSize: 12}} />
-          <YAxis stroke="#94a3b8" tick={{fontSize: 12}} />
-          <Tooltip content={<CustomTooltip />} cursor={{fill: 'rgba(255,255,255,0.05)'}} />
-          <Bar dataKey="value" fill="#8B5CF6" radius={[4, 4, 0, 0]}>
-            {data.map((entry, index) => (
-              <Cell key={`cell-${index}`} fill={entry.fill || COLORS[index % COLORS.length]} />
-            ))}
-          </Bar>
-        </BarChart>
-      </ResponsiveContainer>
+    <div className="flex flex-wrap justify-center gap-x-6 gap-y-2 mt-3 text-xs">
+      {groups.map(group => (
+        <div key={group.alliance?.id || 'other'} className="flex items-center gap-2" title={group.alliance?.name}>
+          <span
+            className="font-bold uppercase tracking-wider"
+            style={{ color: group.alliance?.color || '#64748b' }}
+          >
+            {group.alliance?.id || UI_STRINGS[language].nonAligned}
+          </span>
+          {group.parties.map(party => (
+            <span key={party.abbreviation} className="flex items-center gap-1 text-slate-400 print:text-black" title={party.name}>
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: party.color }}></span>
+              {party.abbreviation}
+            </span>
+          ))}
+        </div>
+      ))}
     </div>
   );
 };
 
-export const AnalysisPieChart: React.FC<ChartProps> = ({ data, config }) => {
-  return (
-    <div className="w-full h-80 my-6 bg-slate-800/30 rounded-xl p-4 border border-slate-700/50">
-       {config?.title && <h4 className="text-center text-slate-300 mb-4 font-display text-sm uppercase tracking-wider">{config.title}</h4>}
+interface ChartFrameProps {
+  title?: string;
+  names: string[]; // Category or series labels, checked against the party registry for the legend
+  language?: Language;
+  children: React.ReactElement;
+}
+
+const ChartFrame = ({ title, names, language = DEFAULT_LANGUAGE, children }: ChartFrameProps) => (
+  <div className="w-full my-6 bg-slate-800/30 rounded-xl p-4 border border-slate-700/50">
+    {title && <h4 className="text-center text-slate-300 mb-4 font-display text-sm uppercase tracking-wider">{title}</h4>}
+    <div className="h-72">
       <ResponsiveContainer width="100%" height="100%">
-        <PieChart>
-          <Pie
-            data={data}
-            cx="50%"
-            cy="50%"
-            innerRadius={60}
-            outerRadius={100}
-            paddingAngle={5}
-            dataKey="value"
-          >
-            {data.map((entry, index) => (
-              <Cell key={`cell-${index}`} fill={entry.fill || COLORS[index % COLORS.length]} stroke="rgba(0,0,0,0)" />
-            ))}
-          </Pie>
-          <Tooltip content={<CustomTooltip />} />
-          <Legend formatter={(value) => <span className="text-slate-300 ml-2">{value}</span>} />
-        </PieChart>
+        {children}
       </ResponsiveContainer>
     </div>
+    <PartyLegend names={names} language={language} />
+  </div>
+);
+
+const legendNames = (data: ChartDataPoint[], series?: ChartSeries[]) =>
+  series ? series.map(s => s.label) : data.map(p => p.name);
+
+export const AnalysisBarChart: React.FC<ChartProps> = ({ data, config, series = config?.series, language = DEFAULT_LANGUAGE }) => {
+  const stacked = !!config?.stacked && !!series;
+
+  return (
+    <ChartFrame title={config?.title} names={legendNames(data, series)} language={language}>
+      <BarChart
+        data={data}
+        margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+      >
+        <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+        <XAxis dataKey="name" stroke="#94a3b8" tick={{fontSize: 12}} />
+        <YAxis stroke="#94a3b8" tick={{fontSize: 12}} />
+        <Tooltip content={<CustomTooltip stacked={stacked} totalLabel={UI_STRINGS[language].total} />} cursor={{fill: 'rgba(255,255,255,0.05)'}} />
+        {series ? (
+          <>
+            <Legend formatter={legendFormatter} />
+            {series.map((s, index) => (
+              <Bar
+                key={s.key}
+                dataKey={s.key}
+                name={s.label}
+                fill={seriesColor(s, index)}
+                stackId={stacked ? 'stack' : undefined}
+                // Only the top segment of a stack gets rounded corners
+                radius={!stacked || index === series.length - 1 ? [4, 4, 0, 0] : [0, 0, 0, 0]}
+              />
+            ))}
+          </>
+        ) : (
+          <Bar dataKey="value" fill="#8B5CF6" radius={[4, 4, 0, 0]}>
+            {data.map((entry, index) => (
+              <Cell key={`cell-${index}`} fill={pointColor(entry, index)} />
+            ))}
+          </Bar>
+        )}
+      </BarChart>
+    </ChartFrame>
   );
 };
 
-export const AnalysisLineChart: React.FC<ChartProps> = ({ data, config }) => {
+export const AnalysisPieChart: React.FC<ChartProps> = ({ data, config, language }) => {
   return (
-    <div className="w-full h-80 my-6 bg-slate-800/30 rounded-xl p-4 border border-slate-700/50">
-       {config?.title && <h4 className="text-center text-slate-300 mb-4 font-display text-sm uppercase tracking-wider">{config.title}</h4>}
-      <ResponsiveContainer width="100%" height="100%">
-        <LineChart
+    <ChartFrame title={config?.title} names={legendNames(data)} language={language}>
+      <PieChart>
+        <Pie
           data={data}
-          margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+          cx="50%"
+          cy="50%"
+          innerRadius={60}
+          outerRadius={100}
+          paddingAngle={5}
+          dataKey="value"
         >
-          <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
-          <XAxis dataKey="name" stroke="#94a3b8" tick={{fontSize: 12}} />
-          <YAxis stroke="#94a3b8" tick={{fontSize: 12}} />
-          <Tooltip content={<CustomTooltip />} />
+          {data.map((entry, index) => (
+            <Cell key={`cell-${index}`} fill={pointColor(entry, index)} stroke="rgba(0,0,0,0)" />
+          ))}
+        </Pie>
+        <Tooltip content={<CustomTooltip />} />
+        <Legend formatter={legendFormatter} />
+      </PieChart>
+    </ChartFrame>
+  );
+};
+
+export const AnalysisLineChart: React.FC<ChartProps> = ({ data, config, series = config?.series, language }) => {
+  return (
+    <ChartFrame title={config?.title} names={legendNames(data, series)} language={language}>
+      <LineChart
+        data={data}
+        margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+      >
+        <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+        <XAxis dataKey="name" stroke="#94a3b8" tick={{fontSize: 12}} />
+        <YAxis stroke="#94a3b8" tick={{fontSize: 12}} />
+        <Tooltip content={<CustomTooltip />} />
+        {series ? (
+          <>
+            <Legend formatter={legendFormatter} />
+            {series.map((s, index) => (
+              <Line key={s.key} type="monotone" dataKey={s.key} name={s.label} stroke={seriesColor(s, index)} strokeWidth={3} dot={{fill: seriesColor(s, index), strokeWidth: 2}} activeDot={{r: 8}} connectNulls />
+            ))}
+          </>
+        ) : (
           <Line type="monotone" dataKey="value" stroke="#06B6D4" strokeWidth={3} dot={{fill: '#06B6D4', strokeWidth: 2}} activeDot={{r: 8}} />
-        </LineChart>
-      </ResponsiveContainer>
-    </div>
+        )}
+      </LineChart>
+    </ChartFrame>
   );
 };
\ No newline at end of file
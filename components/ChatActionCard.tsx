@@ -0,0 +1,65 @@
+import React from 'react';
+import { ChatAction, Language, Report, SectionType } from '../types';
+import { Icons } from './Icons';
+import { AnalysisBarChart, AnalysisLineChart, AnalysisPieChart } from './Charts';
+import { describeAction, toInlineChart } from '../services/chatTools';
+import { DEFAULT_LANGUAGE } from '../services/languages';
+import { UI_STRINGS } from '../services/uiStrings';
+
+interface ChatActionCardProps {
+  action: ChatAction;
+  history: Report[];
+  live: boolean; // False once the session that proposed it is gone, so it can no longer run
+  onConfirm: () => void;
+  onDecline: () => void;
+  language?: Language;
+}
+
+export const ChatActionCard: React.FC<ChatActionCardProps> = ({ action, history, live, onConfirm, onDecline, language = DEFAULT_LANGUAGE }) => {
+  const t = UI_STRINGS[language];
+  const chart = action.name === 'show_chart' && action.status === 'done' ? toInlineChart(action.args) : null;
+  const awaiting = action.status === 'pending' && live;
+
+  return (
+    <div className="mt-2 not-prose">
+      <div className={`p-2.5 rounded-lg border text-xs ${
+        awaiting ? 'bg-violet-500/10 border-violet-500/30' : 'bg-slate-900/40 border-white/5'
+      }`}>
+        <div className="flex items-start gap-2">
+          <Icons.Activity size={14} className="text-violet-300 mt-0.5 flex-shrink-0" />
+          <div className="flex-1 min-w-0">
+            <p className="text-slate-200 font-medium">{describeAction(action, history, language)}</p>
+            <p className={`mt-0.5 ${action.status === 'failed' ? 'text-red-300' : 'text-slate-500'}`}>
+              {action.status === 'pending' && !live ? t.actionExpired : t.actionStatuses[action.status]}
+              {action.error && ` • ${action.error}`}
+            </p>
+          </div>
+        </div>
+        {awaiting && (
+          <div className="mt-2 flex justify-end gap-2">
+            <button
+              onClick={onDecline}
+              className="px-2.5 py-1 rounded-md border border-white/10 text-slate-300 hover:bg-white/5 transition-colors"
+            >
+              {t.cancel}
+            </button>
+            <button
+              onClick={onConfirm}
+              className="px-2.5 py-1 rounded-md bg-violet-600 hover:bg-violet-700 text-white flex items-center gap-1 transition-colors"
+            >
+              <Icons.Check size={12} /> {t.run}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {chart && (
+        <div className="-mx-2">
+          {chart.type === SectionType.BAR_CHART && <AnalysisBarChart data={chart.data} config={chart.config} language={language} />}
+          {chart.type === SectionType.PIE_CHART && <AnalysisPieChart data={chart.data} config={chart.config} language={language} />}
+          {chart.type === SectionType.LINE_CHART && <AnalysisLineChart data={chart.data} config={chart.config} language={language} />}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,84 +1,126 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Chat, GenerateContentResponse } from "@google/genai";
 import { createChatSession } from '../services/geminiService';
-import { ChatMessage, Report } from '../types';
+import { getProvider, ChatChunk, ChatSession } from '../services/llmProvider';
+import { ChatAction, ChatMessage, ChatThread, Language, Report } from '../types';
 import { Icons } from './Icons';
-import ReactMarkdown from 'react-markdown';
+import ReactMarkdown, { Components } from 'react-markdown';
+import { buildChatContext, linkSectionCitations, ChatContext } from '../services/chatContext';
+import { deleteChatThread, listChatThreads, putChatThread } from '../services/historyStore';
+import { exportThread, newThread, seedHistory, titleFromMessage, NEW_THREAD_TITLE } from '../services/chatThreads';
+import { downloadFile } from '../services/reportExport';
+import { savedReportsContext, toAction, toToolResult, ChatToolName } from '../services/chatTools';
+import { ChatActionCard } from './ChatActionCard';
+import { DEFAULT_LANGUAGE, LANGUAGES } from '../services/languages';
+import { UI_STRINGS } from '../services/uiStrings';
+
+const MAX_AUTO_ANSWERS = 2;
 
 interface ChatBotProps {
   currentReport: Report | null;
   history: Report[];
+  onOpenSection?: (anchor: string) => void; // Scrolls the report to a cited section
+  onGenerateReport?: (topic: string) => void;
+  onOpenReport?: (id: string) => void;
+  language?: Language; // Reply and interface language
 }
 
-export const ChatBot: React.FC<ChatBotProps> = ({ currentReport, history }) => {
+export const ChatBot: React.FC<ChatBotProps> = ({ currentReport, history, onOpenSection, onGenerateReport, onOpenReport, language = DEFAULT_LANGUAGE }) => {
   const [isOpen, setIsOpen] = useState(false);
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [threads, setThreads] = useState<ChatThread[] | null>(null); // null until loaded
+  const [activeThread, setActiveThread] = useState<ChatThread>(() => newThread(currentReport));
+  const [showThreads, setShowThreads] = useState(false);
+  const [renaming, setRenaming] = useState<{ id: string, title: string } | null>(null);
   const [input, setInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
-  const chatSession = useRef<Chat | null>(null);
+  const chatSession = useRef<ChatSession | null>(null);
+  const reportContext = useRef<ChatContext | null>(null);
+  const liveActions = useRef(new Set<string>()); // Replies whose tool calls the current session can still answer
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messages = activeThread.messages;
+  // Each call needs an answer before the conversation can go on
+  const awaitingActions = messages.some(msg => liveActions.current.has(msg.id) && msg.actions?.some(a => a.status === 'pending'));
+
+  useEffect(() => {
+    listChatThreads()
+      .then(setThreads)
+      .catch(e => {
+        console.error("Failed to load chat threads", e);
+        setThreads([]);
+      });
+  }, []);
+
+  // Resume the latest thread for the open report (or the latest general one), else start fresh
+  useEffect(() => {
+    if (!threads) return;
+    const latest = threads.find(t => currentReport ? t.reportId === currentReport.id : !t.reportId);
+    setActiveThread(latest ?? newThread(currentReport));
+    setShowThreads(false);
+  }, [currentReport?.id, threads !== null]);
 
-  // Re-initialize chat when context changes significantly
+  // One session per thread, seeded with its earlier turns so the model keeps the conversation;
+  // rebuilt when the report is edited so answers use the saved figures
   useEffect(() => {
     try {
       let contextString = "";
+      const threadReport = activeThread.reportId
+        ? (currentReport?.id === activeThread.reportId ? currentReport : history.find(r => r.id === activeThread.reportId))
+        : null;
+      reportContext.current = threadReport ? buildChatContext(threadReport) : null;
       
-      if (currentReport) {
-        contextString += `User is currently viewing a report titled: "${currentReport.title}". 
-        Executive Summary: ${currentReport.executiveSummary}.
-        Key Insights: ${currentReport.keyInsights.map(k => k.text).join('; ')}. `;
+      if (reportContext.current) {
+        contextString += `${reportContext.current.instruction}\n`;
       }
 
       if (history.length > 0) {
         const recentTitles = history.slice(0, 3).map(h => h.title).join(", ");
-        contextString += `User has previously analyzed: ${recentTitles}.`;
+        contextString += `User has previously analyzed: ${recentTitles}.\n${savedReportsContext(history)}`;
       }
 
-      chatSession.current = createChatSession(contextString);
-
-      // Only add greeting if it's the very first load
-      if (messages.length === 0) {
-        setMessages([{
-          id: 'init',
-          role: 'model',
-          text: currentReport 
-            ? `I'm here to help you dig deeper into "${currentReport.title}". What would you like to know?`
-            : "Namaste! I'm your PolitiSight assistant. Ask me about Indian politics or start a new analysis.",
-          timestamp: new Date()
-        }]);
-      }
+      chatSession.current = createChatSession(contextString, seedHistory(activeThread.messages), language);
+      liveActions.current = new Set();
     } catch (e) {
       console.error("Failed to init chat", e);
     }
-  }, [currentReport?.id, history.length]);
+  }, [activeThread.id, language, currentReport?.editedAt]);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, isOpen]);
-
-  const handleSend = async () => {
-    if (!input.trim() || !chatSession.current) return;
+  }, [messages, isOpen, showThreads]);
 
-    const userMsg: ChatMessage = {
-      id: Date.now().toString(),
-      role: 'user',
-      text: input,
-      timestamp: new Date()
-    };
+  const saveThread = async (thread: ChatThread) => {
+    setThreads(prev => [thread, ...(prev ?? []).filter(t => t.id !== thread.id)]);
+    try {
+      await putChatThread(thread);
+    } catch (e) {
+      console.error("Failed to save chat thread", e);
+    }
+  };
 
-    setMessages(prev => [...prev, userMsg]);
-    setInput('');
+  // Streams a model reply into the thread. Tool calls arrive as actions for the user to confirm.
+  // `depth` counts automatic answers in a row, so a model stuck on invalid calls cannot loop forever.
+  const streamReply = async (start: ChatThread, send: (session: ChatSession) => Promise<AsyncIterable<ChatChunk>>, depth = 0) => {
+    const session = chatSession.current;
+    if (!session) return;
+    let thread = start;
     setIsTyping(true);
 
+    // Streamed text only lands in the thread it was asked in
+    const update = (messages: ChatMessage[]) => {
+      thread = { ...thread, messages, updatedAt: Date.now() };
+      setActiveThread(prev => prev.id === thread.id ? thread : prev);
+    };
+
+    const botMsgId = (Date.now() + 1).toString();
     try {
-      const result = await chatSession.current.sendMessageStream({ message: userMsg.text });
+      const chunks = reportContext.current?.chunks ?? [];
+      const actionContext = { currentReport, history, chunks };
+      const result = await send(session);
       
       let fullResponse = '';
-      const botMsgId = (Date.now() + 1).toString();
       
       // Add placeholder bot message
-      setMessages(prev => [...prev, {
+      update([...thread.messages, {
         id: botMsgId,
         role: 'model',
         text: '',
@@ -86,24 +128,184 @@ export const ChatBot: React.FC<ChatBotProps> = ({ currentReport, history }) => {
       }]);
 
       for await (const chunk of result) {
-        const c = chunk as GenerateContentResponse;
-        if (c.text) {
-          fullResponse += c.text;
-          setMessages(prev => prev.map(msg => 
-            msg.id === botMsgId ? { ...msg, text: fullResponse } : msg
+        if (chunk.text) fullResponse += chunk.text;
+        const actions = (chunk.toolCalls ?? []).map(call => toAction(call, actionContext));
+        if (chunk.text || actions.length > 0) {
+          const linked = linkSectionCitations(fullResponse, chunks);
+          update(thread.messages.map(msg => 
+            msg.id === botMsgId
+              ? { ...msg, text: linked, actions: actions.length > 0 ? [...(msg.actions ?? []), ...actions] : msg.actions }
+              : msg
           ));
         }
       }
+      if (thread.messages.some(msg => msg.id === botMsgId && msg.actions)) liveActions.current.add(botMsgId);
     } catch (error) {
       console.error("Chat error", error);
-      setMessages(prev => [...prev, {
+      update([...thread.messages, {
         id: Date.now().toString(),
         role: 'model',
-        text: "I'm sorry, I encountered an error. Please try again.",
-        timestamp: new Date()
+        text: UI_STRINGS[language].chatError,
+        timestamp: new Date(),
+        isError: true
       }]);
     } finally {
       setIsTyping(false);
+      saveThread(thread);
+    }
+
+    // Calls that failed their checks are answered straight away
+    const reply = thread.messages.find(msg => msg.id === botMsgId);
+    if (reply?.actions?.every(a => a.status !== 'pending') && liveActions.current.has(botMsgId) && depth < MAX_AUTO_ANSWERS) {
+      await answerActions(thread, reply, depth + 1);
+    }
+  };
+
+  const answerActions = async (thread: ChatThread, reply: ChatMessage, depth = 0) => {
+    liveActions.current.delete(reply.id);
+    await streamReply(thread, session => session.sendToolResults(reply.actions!.map(toToolResult)), depth);
+  };
+
+  const runAction = (action: ChatAction) => {
+    switch (action.name as ChatToolName) {
+      case 'generate_report':
+        onGenerateReport?.(String(action.args.topic).trim());
+        break;
+      case 'open_report':
+        onOpenReport?.(String(action.args.reportId));
+        break;
+      case 'scroll_to_section':
+        onOpenSection?.(String(action.args.anchor));
+        break;
+      case 'show_chart':
+        break; // Drawn by the action card once done
+    }
+  };
+
+  const resolveAction = async (messageId: string, index: number, confirmed: boolean) => {
+    const reply = activeThread.messages.find(msg => msg.id === messageId);
+    const action = reply?.actions?.[index];
+    if (!reply || !action || action.status !== 'pending') return;
+
+    let resolved: ChatAction = { ...action, status: confirmed ? 'done' : 'declined' };
+    // Generating a report replaces the chat view, so it waits until the model's answer has streamed in
+    const deferred = confirmed && action.name === 'generate_report';
+    if (confirmed && !deferred) {
+      try {
+        runAction(action);
+      } catch (e) {
+        console.error("Chat action failed", e);
+        resolved = { ...action, status: 'failed', error: UI_STRINGS[language].actionFailed };
+      }
+    }
+
+    const updated: ChatMessage = { ...reply, actions: reply.actions!.map((a, i) => i === index ? resolved : a) };
+    const thread: ChatThread = {
+      ...activeThread,
+      messages: activeThread.messages.map(msg => msg.id === messageId ? updated : msg),
+      updatedAt: Date.now()
+    };
+    setActiveThread(thread);
+
+    // The model hears back once every call in the reply is settled
+    if (updated.actions!.every(a => a.status !== 'pending')) {
+      await answerActions(thread, updated);
+    } else {
+      await saveThread(thread);
+    }
+    if (deferred) runAction(action);
+  };
+
+  const handleSend = async () => {
+    if (!input.trim() || !chatSession.current || awaitingActions) return;
+
+    const userMsg: ChatMessage = {
+      id: Date.now().toString(),
+      role: 'user',
+      text: input,
+      timestamp: new Date()
+    };
+
+    const thread: ChatThread = {
+      ...activeThread,
+      title: activeThread.title === NEW_THREAD_TITLE ? titleFromMessage(userMsg.text) : activeThread.title,
+      messages: [...activeThread.messages, userMsg],
+      updatedAt: Date.now()
+    };
+    setActiveThread(thread);
+    setInput('');
+
+    // Long reports send only the excerpts that match the question
+    const excerpts = reportContext.current?.excerptsFor?.(userMsg.text);
+    const message = excerpts ? `${excerpts}\n\nQuestion: ${userMsg.text}` : userMsg.text;
+    await streamReply(thread, session => session.sendMessageStream({ message }));
+  };
+
+  const startThread = () => {
+    setActiveThread(newThread(currentReport));
+    setShowThreads(false);
+  };
+
+  const resumeThread = (thread: ChatThread) => {
+    setActiveThread(thread);
+    setShowThreads(false);
+  };
+
+  const commitRename = async () => {
+    if (!renaming) return;
+    const title = renaming.title.trim();
+    const thread = threads?.find(t => t.id === renaming.id);
+    setRenaming(null);
+    if (!thread || !title || title === thread.title) return;
+    // Renaming is not activity, so the thread keeps its place in the list
+    const renamed = { ...thread, title };
+    setThreads(prev => prev && prev.map(t => t.id === renamed.id ? renamed : t));
+    setActiveThread(prev => prev.id === renamed.id ? { ...prev, title } : prev);
+    try {
+      await putChatThread(renamed);
+    } catch (e) {
+      console.error("Failed to rename chat thread", e);
+    }
+  };
+
+  const removeThread = async (thread: ChatThread) => {
+    if (!window.confirm(UI_STRINGS[language].confirmDeleteChat(thread.title))) return;
+    setThreads(prev => prev && prev.filter(t => t.id !== thread.id));
+    if (thread.id === activeThread.id) setActiveThread(newThread(currentReport));
+    try {
+      await deleteChatThread(thread.id);
+    } catch (e) {
+      console.error("Failed to delete chat thread", e);
+    }
+  };
+
+  // Citation chips only scroll when the thread's report is the one on screen
+  const citationsLive = !!activeThread.reportId && activeThread.reportId === currentReport?.id;
+  const t = UI_STRINGS[language];
+  const greeting = activeThread.reportTitle ? t.chatGreetingReport(activeThread.reportTitle) : t.chatGreeting;
+  const threadGroups: { key: string, label: string, items: ChatThread[] }[] = [
+    { key: 'current', label: t.thisReport, items: (threads ?? []).filter(t => currentReport && t.reportId === currentReport.id) },
+    { key: 'general', label: t.generalChats, items: (threads ?? []).filter(t => !t.reportId) },
+    { key: 'other', label: t.otherReports, items: (threads ?? []).filter(t => t.reportId && t.reportId !== currentReport?.id) }
+  ].filter(group => group.items.length > 0);
+
+  // Section citations render as chips that scroll the report; other links open in a new tab
+  const markdownComponents: Components = {
+    a: ({ href, children }) => {
+      const anchor = href?.startsWith('#cite:') ? href.slice('#cite:'.length) : null;
+      if (anchor) {
+        return (
+          <button
+            onClick={() => citationsLive && onOpenSection?.(anchor)}
+            disabled={!citationsLive}
+            className="inline-flex items-center gap-1 align-baseline px-1.5 py-0.5 rounded bg-cyan-500/10 border border-cyan-500/20 text-cyan-300 hover:bg-cyan-500/20 text-[0.7rem] font-medium not-prose no-underline"
+            title={citationsLive ? t.showInReport : t.fromReport(activeThread.reportTitle || '')}
+          >
+            <Icons.File size={10} /> {children}
+          </button>
+        );
+      }
+      return <a href={href} target="_blank" rel="noreferrer">{children}</a>;
     }
   };
 
@@ -130,17 +332,112 @@ export const ChatBot: React.FC<ChatBotProps> = ({ currentReport, history }) => {
           <div className="w-8 h-8 rounded-full bg-violet-600 flex items-center justify-center">
             <Icons.Bot size={18} className="text-white" />
           </div>
-          <div>
-            <h3 className="font-display font-bold text-white">AI Assistant</h3>
+          <div className="flex-1 min-w-0">
+            <h3 className="font-display font-bold text-white truncate" title={activeThread.title}>
+              {activeThread.title === NEW_THREAD_TITLE ? t.assistantName : activeThread.title}
+            </h3>
             <p className="text-xs text-slate-400 flex items-center gap-1">
               <span className="w-1.5 h-1.5 rounded-full bg-green-500 animate-pulse"></span>
-              {currentReport ? 'Report Context Active' : 'Online • Gemini 3 Pro'}
+              {activeThread.reportId ? t.reportContextActive : t.online(getProvider().chatModelLabel)}
             </p>
           </div>
+          <button
+            onClick={startThread}
+            disabled={isTyping}
+            className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-40"
+            title={t.newChat}
+          >
+            <Icons.Plus size={16} />
+          </button>
+          <button
+            onClick={() => setShowThreads(!showThreads)}
+            disabled={isTyping}
+            className={`p-1.5 rounded-lg transition-colors disabled:opacity-40 ${showThreads ? 'text-white bg-white/10' : 'text-slate-400 hover:text-white hover:bg-white/10'}`}
+            title={t.savedChats}
+          >
+            <Icons.History size={16} />
+          </button>
         </div>
 
-        {/* Messages */}
+        {showThreads ? (
+          /* Saved threads */
+          <div className="flex-1 overflow-y-auto p-3 space-y-4">
+            {threadGroups.length === 0 && (
+              <p className="text-sm text-slate-500 text-center mt-8">{t.noSavedChats}</p>
+            )}
+            {threadGroups.map(group => (
+              <div key={group.key}>
+                <h4 className="px-1 mb-1 text-[0.65rem] uppercase tracking-wider text-slate-500 font-semibold">{group.label}</h4>
+                <ul className="space-y-1">
+                  {group.items.map(thread => (
+                    <li
+                      key={thread.id}
+                      className={`group flex items-center gap-2 p-2 rounded-lg border transition-colors ${
+                        thread.id === activeThread.id ? 'bg-violet-500/10 border-violet-500/30' : 'border-transparent hover:bg-white/5'
+                      }`}
+                    >
+                      {renaming?.id === thread.id ? (
+                        <input
+                          autoFocus
+                          value={renaming.title}
+                          onChange={(e) => setRenaming({ id: thread.id, title: e.target.value })}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitRename();
+                            if (e.key === 'Escape') setRenaming(null);
+                          }}
+                          onBlur={commitRename}
+                          className="flex-1 min-w-0 bg-slate-800 text-white rounded px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-violet-500 border border-white/10"
+                        />
+                      ) : (
+                        <button onClick={() => resumeThread(thread)} className="flex-1 min-w-0 text-left">
+                          <p className="text-sm text-slate-200 truncate">{thread.title}</p>
+                          <p className="text-[0.7rem] text-slate-500 truncate">
+                            {group.key === 'other' && `${thread.reportTitle} • `}
+                            {t.messageCount(thread.messages.length)} • {new Date(thread.updatedAt).toLocaleDateString(`${LANGUAGES[language].locale}-u-nu-latn`)}
+                          </p>
+                        </button>
+                      )}
+                      <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                        <button
+                          onClick={() => setRenaming({ id: thread.id, title: thread.title })}
+                          className="p-1 rounded text-slate-400 hover:text-white"
+                          title={t.rename}
+                        >
+                          <Icons.Edit size={13} />
+                        </button>
+                        <button
+                          onClick={() => downloadFile(exportThread(thread, language))}
+                          className="p-1 rounded text-slate-400 hover:text-white"
+                          title={t.exportAsMarkdown}
+                        >
+                          <Icons.Download size={13} />
+                        </button>
+                        <button
+                          onClick={() => removeThread(thread)}
+                          className="p-1 rounded text-slate-400 hover:text-red-400"
+                          title={t.delete}
+                        >
+                          <Icons.Trash size={13} />
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        ) : (
+        /* Messages */
         <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {/* The greeting is not part of the thread, so it is never saved or replayed */}
+          <div className="flex gap-3">
+            <div className="w-8 h-8 rounded-full flex-shrink-0 flex items-center justify-center mt-1 bg-violet-600">
+              <Icons.Bot size={14} />
+            </div>
+            <div className="max-w-[80%] p-3 rounded-2xl text-sm leading-relaxed bg-white/10 text-slate-200 rounded-tl-none border border-white/5">
+              {greeting}
+            </div>
+          </div>
           {messages.map((msg) => (
             <div
               key={msg.id}
@@ -157,14 +454,29 @@ export const ChatBot: React.FC<ChatBotProps> = ({ currentReport, history }) => {
                 className={`max-w-[80%] p-3 rounded-2xl text-sm leading-relaxed ${
                   msg.role === 'user' 
                     ? 'bg-slate-700 text-white rounded-tr-none' 
-                    : 'bg-white/10 text-slate-200 rounded-tl-none border border-white/5'
+                    : msg.isError
+                      ? 'bg-red-500/10 text-red-200 rounded-tl-none border border-red-500/20'
+                      : 'bg-white/10 text-slate-200 rounded-tl-none border border-white/5'
                 }`}
               >
-                <div className="prose prose-invert prose-sm max-w-none">
-                  <ReactMarkdown>
-                    {msg.text}
-                  </ReactMarkdown>
-                </div>
+                {msg.text && (
+                  <div className="prose prose-invert prose-sm max-w-none">
+                    <ReactMarkdown components={markdownComponents}>
+                      {msg.text}
+                    </ReactMarkdown>
+                  </div>
+                )}
+                {msg.actions?.map((action, i) => (
+                  <ChatActionCard
+                    key={`${msg.id}-${i}`}
+                    action={action}
+                    history={history}
+                    live={liveActions.current.has(msg.id) && !isTyping}
+                    onConfirm={() => resolveAction(msg.id, i, true)}
+                    onDecline={() => resolveAction(msg.id, i, false)}
+                    language={language}
+                  />
+                ))}
               </div>
             </div>
           ))}
@@ -182,6 +494,7 @@ export const ChatBot: React.FC<ChatBotProps> = ({ currentReport, history }) => {
           )}
           <div ref={messagesEndRef} />
         </div>
+        )}
 
         {/* Input */}
         <div className="p-4 border-t border-white/5 bg-slate-900/50 rounded-b-2xl">
@@ -191,13 +504,13 @@ export const ChatBot: React.FC<ChatBotProps> = ({ currentReport, history }) => {
               value={input}
               onChange={(e) => setInput(e.target.value)}
               onKeyDown={(e) => e.key === 'Enter' && handleSend()}
-              placeholder="Ask a question..."
+              placeholder={awaitingActions ? t.answerActionFirst : t.askQuestion}
               className="w-full bg-slate-800 text-white rounded-xl pl-4 pr-12 py-3 text-sm focus:outline-none focus:ring-1 focus:ring-violet-500 border border-white/10"
-              disabled={isTyping}
+              disabled={isTyping || awaitingActions}
             />
             <button
               onClick={handleSend}
-              disabled={!input.trim() || isTyping}
+              disabled={!input.trim() || isTyping || awaitingActions}
               className="absolute right-2 top-1/2 -translate-y-1/2 p-2 bg-violet-600 hover:bg-violet-700 rounded-lg text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <Icons.Send size={16} />
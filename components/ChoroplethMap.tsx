@@ -0,0 +1,245 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Language, MapData, MapRegion } from '../types';
+import { DataTable } from './DataTable';
+import { Icons } from './Icons';
+import { identityColor } from '../services/partyRegistry';
+import {
+  BoundaryFeature,
+  createProjection,
+  featureBounds,
+  featurePath,
+  loadBoundaries,
+  mapTableData,
+  matchRegions,
+  metricValue,
+  MissingBoundariesError,
+  stateName
+} from '../services/geoBoundaries';
+import { DEFAULT_LANGUAGE } from '../services/languages';
+import { UI_STRINGS } from '../services/uiStrings';
+
+interface ChoroplethMapProps {
+  data: MapData;
+  title?: string;
+  language?: Language;
+}
+
+interface HoverState {
+  feature: BoundaryFeature;
+  region?: MapRegion;
+  x: number;
+  y: number;
+}
+
+const WIDTH = 600;
+const HEIGHT = 640;
+const NO_DATA = '#1e293b';
+const FALLBACK_COLORS = ['#8B5CF6', '#06B6D4', '#10B981', '#F59E0B', '#EF4444', '#EC4899'];
+
+// Sequential ramp for margins, diverging ramp for swings (red = swing away, green = swing towards)
+const MARGIN_RAMP = ['#312e81', '#c4b5fd'];
+const SWING_RAMP = { negative: '#EF4444', neutral: '#334155', positive: '#10B981' };
+
+const mix = (from: string, to: string, t: number) => {
+  const a = parseInt(from.slice(1), 16);
+  const b = parseInt(to.slice(1), 16);
+  const channel = (shift: number) => Math.round(((a >> shift) & 255) + (((b >> shift) & 255) - ((a >> shift) & 255)) * t);
+  return `#${[16, 8, 0].map(s => channel(s).toString(16).padStart(2, '0')).join('')}`;
+};
+
+export const ChoroplethMap: React.FC<ChoroplethMapProps> = ({ data, title, language = DEFAULT_LANGUAGE }) => {
+  const t = UI_STRINGS[language];
+  const formatPoints = (n: number, signed = true) => t.points(`${signed && n > 0 ? '+' : ''}${Number(n.toFixed(1))}`);
+  const [features, setFeatures] = useState<BoundaryFeature[] | null>(null);
+  const [error, setError] = useState<'needs-state' | 'missing' | 'failed' | null>(null);
+  const [focus, setFocus] = useState<string | null>(data.state || null);
+  const [hover, setHover] = useState<HoverState | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setFeatures(null);
+    setError(null);
+    if (data.level === 'ac' && !data.state) {
+      setError('needs-state');
+      return;
+    }
+    loadBoundaries(data.level, data.state)
+      .then(loaded => { if (!cancelled) setFeatures(loaded); })
+      .catch((e: Error) => { if (!cancelled) setError(e instanceof MissingBoundariesError ? 'missing' : 'failed'); });
+    return () => { cancelled = true; };
+  }, [data.level, data.state]);
+
+  const { matched, unmatched } = useMemo(
+    () => features ? matchRegions(data.regions, features, data.state) : { matched: new Map<string, MapRegion>(), unmatched: [] },
+    [data.regions, data.state, features]
+  );
+
+  const visible = useMemo(() => {
+    if (!features) return [];
+    const inFocus = focus ? features.filter(f => f.state === focus) : features;
+    return inFocus.length > 0 ? inFocus : features;
+  }, [features, focus]);
+
+  // Paths only change with the zoom, not on every hover
+  const paths = useMemo(() => {
+    if (visible.length === 0) return null;
+    const project = createProjection(featureBounds(visible), WIDTH, HEIGHT);
+    return new Map(visible.map(f => [f.id, featurePath(f, project)]));
+  }, [visible]);
+
+  // Colour scale for the chosen metric
+  const scale = useMemo(() => {
+    if (data.metric === 'winner') {
+      const parties = Array.from(new Set(data.regions.map(r => r.winner).filter((w): w is string => !!w)));
+      const colors = new Map(parties.map((p, i) => [p, identityColor(p) || FALLBACK_COLORS[i % FALLBACK_COLORS.length]]));
+      return {
+        color: (region?: MapRegion) => (region?.winner && colors.get(region.winner)) || NO_DATA,
+        parties: parties.map(p => ({
+          party: p,
+          color: colors.get(p)!,
+          count: Array.from(matched.values()).filter(r => r.winner === p).length
+        }))
+      };
+    }
+    const values = data.regions.map(r => metricValue(r, data.metric)).filter((v): v is number => v !== undefined);
+    const min = Math.min(...values, 0);
+    const max = Math.max(...values, 0);
+    const extent = Math.max(Math.abs(min), Math.abs(max)) || 1;
+    return {
+      color: (region?: MapRegion) => {
+        const value = region && metricValue(region, data.metric);
+        if (value === undefined) return NO_DATA;
+        if (data.metric === 'margin') return mix(MARGIN_RAMP[0], MARGIN_RAMP[1], max > 0 ? value / max : 0);
+        return value < 0
+          ? mix(SWING_RAMP.neutral, SWING_RAMP.negative, -value / extent)
+          : mix(SWING_RAMP.neutral, SWING_RAMP.positive, value / extent);
+      },
+      min: data.metric === 'swing' ? -extent : 0,
+      max: data.metric === 'swing' ? extent : max
+    };
+  }, [data.metric, data.regions, matched]);
+
+  const handleHover = (e: React.MouseEvent, feature: BoundaryFeature) => {
+    const box = e.currentTarget.closest('svg')!.parentElement!.getBoundingClientRect();
+    setHover({ feature, region: matched.get(feature.id), x: e.clientX - box.left, y: e.clientY - box.top });
+  };
+
+  // Clicking a state zooms into it; there is nothing further to zoom into on a single-state map
+  const handleClick = (feature: BoundaryFeature) => {
+    if (!focus && feature.state) setFocus(feature.state);
+  };
+
+  if (error) {
+    const errorMessage = {
+      'needs-state': t.mapNeedsState,
+      missing: t.noBoundaries(t.mapLevels[data.level], data.state && stateName(data.state)),
+      failed: t.boundariesFailed
+    };
+    return (
+      <div className="my-6">
+        <p className="text-xs text-amber-400/80 flex items-center gap-2 mb-2 no-print">
+          <Icons.Alert size={14} /> {errorMessage[error]} {t.mapAsTable}
+        </p>
+        <DataTable data={mapTableData(data, t)} title={title} language={language} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full my-6 bg-slate-800/30 rounded-xl p-4 border border-slate-700/50 break-inside-avoid print:bg-white print:border-gray-300">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-slate-300 font-display text-sm uppercase tracking-wider print:text-black">
+          {title || t.mapMetrics[data.metric]}
+          <span className="text-slate-500 normal-case tracking-normal ml-2">
+            {t.mapLevels[data.level]}{focus ? ` · ${stateName(focus)}` : ''}
+          </span>
+        </h4>
+        {focus && data.level !== 'ac' && (
+          <button onClick={() => setFocus(null)} className="text-xs text-cyan-400 hover:text-cyan-300 no-print">
+            {t.showAllIndia}
+          </button>
+        )}
+      </div>
+
+      <div className="relative" onMouseLeave={() => setHover(null)}>
+        {!features || !paths ? (
+          <div className="h-72 flex items-center justify-center text-slate-500 text-sm">{t.loadingBoundaries}</div>
+        ) : (
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full max-h-[32rem]" role="img" aria-label={title || t.mapMetrics[data.metric]}>
+            {visible.map(feature => {
+              const region = matched.get(feature.id);
+              const isHovered = hover?.feature.id === feature.id;
+              return (
+                <path
+                  key={feature.id}
+                  d={paths.get(feature.id)}
+                  fill={scale.color(region)}
+                  stroke={isHovered ? '#f8fafc' : '#0f172a'}
+                  strokeWidth={isHovered ? 1.5 : 0.6}
+                  className={!focus ? 'cursor-zoom-in' : undefined}
+                  onMouseMove={e => handleHover(e, feature)}
+                  onClick={() => handleClick(feature)}
+                />
+              );
+            })}
+          </svg>
+        )}
+
+        {hover && (
+          <div
+            className="absolute pointer-events-none bg-slate-800 border border-slate-700 p-3 rounded-lg shadow-xl text-sm z-10 no-print"
+            style={{ left: hover.x + 12, top: hover.y + 12 }}
+          >
+            <p className="text-slate-200 font-semibold mb-1">{hover.region?.region || hover.feature.name}</p>
+            {hover.region ? (
+              <div className="font-mono text-xs space-y-0.5">
+                {hover.region.winner && (
+                  <p style={{ color: identityColor(hover.region.winner) || '#22d3ee' }}>{hover.region.winner}</p>
+                )}
+                {hover.region.margin !== undefined && <p className="text-slate-400">{t.margin}: {formatPoints(hover.region.margin, false)}</p>}
+                {hover.region.swing !== undefined && <p className="text-slate-400">{t.swing}: {formatPoints(hover.region.swing)}</p>}
+              </div>
+            ) : (
+              <p className="text-slate-500 text-xs">{t.noData}</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-2 mt-3 text-xs text-slate-400 print:text-black">
+        {'parties' in scale ? (
+          scale.parties.map(p => (
+            <span key={p.party} className="flex items-center gap-1">
+              <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: p.color }}></span>
+              {p.party} <span className="text-slate-500">({p.count})</span>
+            </span>
+          ))
+        ) : (
+          <span className="flex items-center gap-2">
+            <span className="font-mono">{formatPoints(scale.min, data.metric === 'swing')}</span>
+            <span
+              className="w-32 h-3 rounded-sm"
+              style={{
+                background: data.metric === 'swing'
+                  ? `linear-gradient(to right, ${SWING_RAMP.negative}, ${SWING_RAMP.neutral}, ${SWING_RAMP.positive})`
+                  : `linear-gradient(to right, ${MARGIN_RAMP[0]}, ${MARGIN_RAMP[1]})`
+              }}
+            ></span>
+            <span className="font-mono">{formatPoints(scale.max, data.metric === 'swing')}</span>
+          </span>
+        )}
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded-sm border border-slate-600" style={{ backgroundColor: NO_DATA }}></span>
+          {t.noData}
+        </span>
+      </div>
+
+      {unmatched.length > 0 && (
+        <p className="text-xs text-slate-500 mt-2 text-center">
+          {t.notOnMap(unmatched.map(r => r.region).join(', '))}
+        </p>
+      )}
+    </div>
+  );
+};
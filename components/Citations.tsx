@@ -0,0 +1,141 @@
+import React from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import { Annotation, Citation, GroundingSource, Language } from '../types';
+import { Icons } from './Icons';
+import { AnnotationHighlight } from './Annotations';
+import { injectMarkdownCitations, locateCitations, sourceAnchorId } from '../services/citations';
+import { locateAnnotations, rehypeAnnotations } from '../services/annotations';
+import { DEFAULT_LANGUAGE } from '../services/languages';
+import { UI_STRINGS } from '../services/uiStrings';
+
+// Short blocks and headings are not claims, so they are never flagged as unsupported
+const MIN_CLAIM_LENGTH = 60;
+
+const scrollToSource = (e: React.MouseEvent, sourceIndex: number) => {
+  e.preventDefault();
+  document.getElementById(sourceAnchorId(sourceIndex))?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+};
+
+export const CitationMarker = ({ sourceIndex }: { sourceIndex: number }) => (
+  <sup className="ml-0.5">
+    <a
+      href={`#${sourceAnchorId(sourceIndex)}`}
+      onClick={e => scrollToSource(e, sourceIndex)}
+      className="text-cyan-400 hover:text-cyan-300 font-mono text-[0.7em] no-underline print:text-black"
+    >
+      [{sourceIndex + 1}]
+    </a>
+  </sup>
+);
+
+const markdownComponents: Components = {
+  a: ({ href, children }) => {
+    const match = href?.match(/^#source-(\d+)$/);
+    if (match) return <CitationMarker sourceIndex={Number(match[1]) - 1} />;
+    return <a href={href} target="_blank" rel="noreferrer">{children}</a>;
+  }
+};
+
+// Plain-text fields (summary, insights) with superscript citations after each supported span
+export const CitedText = ({ text, citations, annotations = [], language }: { text: string; citations: Citation[]; annotations?: Annotation[]; language?: Language }) => {
+  const anchors = locateCitations(text, citations);
+  const ranges = locateAnnotations(text, annotations);
+  if (anchors.length === 0 && ranges.length === 0) return <>{text}</>;
+
+  // Cut at every citation and highlight boundary; a highlight spanning a citation is drawn in two pieces
+  const cuts = Array.from(new Set([0, text.length, ...anchors.map(a => a.end), ...ranges.flatMap(r => [r.start, r.end])]))
+    .sort((a, b) => a - b);
+  const parts: React.ReactNode[] = [];
+  cuts.slice(0, -1).forEach((start, i) => {
+    const end = cuts[i + 1];
+    const range = ranges.find(r => r.start <= start && end <= r.end);
+    parts.push(range
+      ? <AnnotationHighlight key={`mark-${i}`} annotation={range.annotation} language={language}>{text.slice(start, end)}</AnnotationHighlight>
+      : text.slice(start, end));
+    anchors.find(a => a.end === end)?.sourceIndices.forEach(s => parts.push(<CitationMarker key={`${i}-${s}`} sourceIndex={s} />));
+  });
+  return <>{parts}</>;
+};
+
+interface CitedMarkdownProps {
+  content: string;
+  citations?: Citation[]; // Omit to render without citation handling
+  annotations?: Annotation[];
+  language?: Language;
+}
+
+const annotationComponents = (annotations: Annotation[], language: Language): Components => ({
+  mark: ({ children, ...props }) => {
+    const id = (props as Record<string, unknown>)['data-annotation'];
+    return <AnnotationHighlight annotation={annotations.find(a => a.id === id)} language={language}>{children}</AnnotationHighlight>;
+  }
+});
+
+export const CitedMarkdown = ({ content, citations, annotations = [], language = DEFAULT_LANGUAGE }: CitedMarkdownProps) => {
+  const highlight = annotations.some(a => a.quote);
+  const plugins = highlight ? [rehypeAnnotations(annotations)] : undefined;
+  const marks = highlight ? annotationComponents(annotations, language) : undefined;
+  if (!citations) return <ReactMarkdown components={marks} rehypePlugins={plugins}>{content}</ReactMarkdown>;
+
+  // Render block by block so each paragraph can be flagged on its own
+  const blocks = content.split(/\n{2,}/);
+  return (
+    <>
+      {blocks.map((block, i) => {
+        const cited = injectMarkdownCitations(block, citations);
+        const isClaim = !block.trim().startsWith('#') && block.trim().length >= MIN_CLAIM_LENGTH;
+        const unsupported = isClaim && cited === block;
+        return (
+          <div
+            key={i}
+            className={unsupported ? 'border-l-2 border-dashed border-amber-500/40 pl-4 print:border-gray-400' : undefined}
+            title={unsupported ? UI_STRINGS[language].unsupportedParagraph : undefined}
+          >
+            <ReactMarkdown components={{ ...markdownComponents, ...marks }} rehypePlugins={plugins}>{cited}</ReactMarkdown>
+          </div>
+        );
+      })}
+    </>
+  );
+};
+
+interface BibliographyProps {
+  sources: GroundingSource[];
+  citations: Citation[];
+  language?: Language;
+}
+
+export const Bibliography = ({ sources, citations, language = DEFAULT_LANGUAGE }: BibliographyProps) => {
+  const t = UI_STRINGS[language];
+  const counts = sources.map((_, i) => citations.filter(c => c.sourceIndices.includes(i)).length);
+
+  return (
+    <div id="bibliography" className="glass-card rounded-2xl p-8 scroll-mt-28 break-inside-avoid">
+      <h2 className="text-2xl font-display font-bold text-white mb-2 flex items-center gap-2 print:text-black">
+        <Icons.Book size={22} className="text-violet-400 no-print" /> {t.sources}
+      </h2>
+      {citations.length > 0 && (
+        <p className="text-xs text-slate-500 mb-6 flex items-center gap-2">
+          <span className="inline-block w-4 border-t-2 border-dashed border-amber-500/60"></span>
+          {t.unsupportedNote}
+        </p>
+      )}
+      <ol className="space-y-3">
+        {sources.map((source, i) => (
+          <li key={source.uri} id={sourceAnchorId(i)} className="flex gap-3 text-sm scroll-mt-28">
+            <span className="font-mono text-slate-500 w-8 flex-shrink-0 text-right">[{i + 1}]</span>
+            <div className="min-w-0">
+              <a href={source.uri} target="_blank" rel="noreferrer" className="text-cyan-400 hover:underline break-words print:text-black">
+                {source.title}
+              </a>
+              <p className="text-xs text-slate-500 truncate">{source.uri}</p>
+              {counts[i] > 0 && (
+                <p className="text-xs text-slate-500">{t.citedTimes(counts[i])}</p>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import React, { useMemo } from 'react';
+import { Language, Report, SectionType } from '../types';
+import { SectionRenderer } from './ReportView';
+import { AnalysisBarChart, AnalysisLineChart } from './Charts';
+import { Icons } from './Icons';
+import { alignSections, buildOverlayData, diffInsights, overlayChartType } from '../services/reportComparison';
+import { DEFAULT_LANGUAGE } from '../services/languages';
+import { UI_STRINGS } from '../services/uiStrings';
+
+interface CompareViewProps {
+  left: Report;
+  right: Report;
+  onClose: () => void;
+  language?: Language;
+}
+
+const LEFT_COLOR = '#8B5CF6';
+const RIGHT_COLOR = '#06B6D4';
+
+const EmptySlot = ({ report, language }: { report: Report; language: Language }) => (
+  <div className="h-full min-h-[6rem] rounded-xl border border-dashed border-white/10 flex items-center justify-center text-slate-500 text-sm italic p-4 text-center">
+    {UI_STRINGS[language].noMatchingSection(report.title)}
+  </div>
+);
+
+export const CompareView: React.FC<CompareViewProps> = ({ left, right, onClose, language = DEFAULT_LANGUAGE }) => {
+  const t = UI_STRINGS[language];
+  const pairs = useMemo(() => alignSections(left, right), [left, right]);
+  const insightDiffs = useMemo(() => diffInsights(left, right), [left, right]);
+
+  const series = [
+    { key: 'left', label: left.title, color: LEFT_COLOR },
+    { key: 'right', label: right.title, color: RIGHT_COLOR }
+  ];
+
+  return (
+    <div className="min-h-screen bg-dark-bg pb-20">
+      <nav className="fixed top-0 left-0 right-0 h-16 bg-dark-bg/80 backdrop-blur-md z-50 border-b border-white/5 px-6 flex items-center justify-between no-print">
+        <div className="flex items-center gap-2 cursor-pointer" onClick={onClose}>
+          <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-violet-600 to-indigo-600 flex items-center justify-center">
+             <Icons.Activity size={18} className="text-white" />
+          </div>
+          <span className="font-display font-bold text-white text-lg tracking-tight hidden sm:block">PolitiSight</span>
+        </div>
+        <button
+          onClick={onClose}
+          className="px-4 py-2 bg-white/5 hover:bg-white/10 text-white rounded-lg text-sm font-medium border border-white/10 flex items-center gap-2 transition-all"
+        >
+          <Icons.Close size={16} />
+          {t.exitComparison}
+        </button>
+      </nav>
+
+      <div className="container mx-auto pt-28 px-4 lg:px-8 max-w-7xl space-y-10">
+        {/* Report headers */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-8 animate-slide-up">
+          {[left, right].map((report, i) => (
+            <div key={report.id} className="border-l-4 pl-6" style={{ borderLeftColor: i === 0 ? LEFT_COLOR : RIGHT_COLOR }}>
+              <span className="text-xs font-mono text-cyan-400">{report.date}</span>
+              <h1 className="text-3xl font-display font-bold text-white leading-tight my-2">{report.title}</h1>
+              <p className="text-slate-400 text-sm line-clamp-4">{report.executiveSummary}</p>
+            </div>
+          ))}
+        </div>
+
+        {/* Key insight differences */}
+        <div className="glass-panel rounded-2xl p-6">
+          <h2 className="text-xl font-display font-bold text-white mb-4">{t.keyInsightDifferences}</h2>
+          <div className="divide-y divide-white/5">
+            {insightDiffs.map((diff, i) => (
+              <div key={i} className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] gap-4 py-3 items-center text-sm">
+                <div className="text-slate-300">
+                  {diff.left ? (
+                    <>
+                      {diff.left.value && <span className="font-display font-bold text-white mr-2">{diff.left.value}</span>}
+                      {diff.left.text}
+                    </>
+                  ) : <span className="text-slate-600 italic">{t.notPresent}</span>}
+                </div>
+                <div className="text-center font-mono text-xs w-24">
+                  {diff.delta !== null ? (
+                    <span className={diff.delta > 0 ? 'text-emerald-400' : diff.delta < 0 ? 'text-red-400' : 'text-slate-500'}>
+                      {diff.delta > 0 ? '+' : ''}{Number(diff.delta.toFixed(2)).toLocaleString()}
+                    </span>
+                  ) : (
+                    <span className="text-slate-600">{diff.left && diff.right ? '≈' : '—'}</span>
+                  )}
+                </div>
+                <div className="text-slate-300">
+                  {diff.right ? (
+                    <>
+                      {diff.right.value && <span className="font-display font-bold text-white mr-2">{diff.right.value}</span>}
+                      {diff.right.text}
+                    </>
+                  ) : <span className="text-slate-600 italic">{t.notPresent}</span>}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Aligned sections */}
+        {pairs.map(pair => {
+          const overlay = buildOverlayData(pair);
+          return (
+            <div key={pair.key}>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                <div>{pair.left ? <SectionRenderer section={pair.left} forceExpand={false} language={language} /> : <EmptySlot report={left} language={language} />}</div>
+                <div>{pair.right ? <SectionRenderer section={pair.right} forceExpand={false} language={language} /> : <EmptySlot report={right} language={language} />}</div>
+              </div>
+              {overlay && (
+                <div className="glass-card rounded-2xl px-6 pt-4 mb-10">
+                  <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                    <Icons.Compare size={12} /> {t.overlay(pair.title)}
+                  </h3>
+                  {overlayChartType(pair) === SectionType.LINE_CHART ? (
+                    <AnalysisLineChart data={overlay} config={{ ...pair.left?.chartConfig, stacked: false }} series={series} language={language} />
+                  ) : (
+                    <AnalysisBarChart data={overlay} config={{ ...pair.left?.chartConfig, stacked: false }} series={series} language={language} />
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
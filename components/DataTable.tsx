@@ -0,0 +1,155 @@
+import React, { useMemo, useState } from 'react';
+import { TableData, TableColumn, TableCell, Language } from '../types';
+import { Icons } from './Icons';
+import { DEFAULT_LANGUAGE } from '../services/languages';
+import { UI_STRINGS } from '../services/uiStrings';
+
+interface DataTableProps {
+  data: TableData;
+  title?: string;
+  language?: Language;
+}
+
+type SortState = { key: string; direction: 'asc' | 'desc' } | null;
+
+const numberFormat = new Intl.NumberFormat('en-IN', { maximumFractionDigits: 2 });
+const currencyFormat = new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', maximumFractionDigits: 0 });
+
+export const formatCell = (value: TableCell, column: TableColumn): string => {
+  if (value === null) return '—';
+  if (typeof value === 'string') return value;
+  if (column.type === 'percent') return `${numberFormat.format(value)}%`;
+  if (column.type === 'currency') return currencyFormat.format(value);
+  return numberFormat.format(value); // Units are shown once, in the header
+};
+
+const isNumeric = (column: TableColumn) => column.type !== 'text';
+
+// Numeric columns accept comparisons (">40", "<=10"); everything else is a substring match
+const matchesFilter = (value: TableCell, filter: string, column: TableColumn) => {
+  const query = filter.trim();
+  if (!query) return true;
+  if (value === null) return false;
+
+  const comparison = isNumeric(column) && query.match(/^(>=|<=|>|<|=)\s*(-?[\d.]+)$/);
+  if (comparison && typeof value === 'number') {
+    const target = Number(comparison[2]);
+    switch (comparison[1]) {
+      case '>': return value > target;
+      case '<': return value < target;
+      case '>=': return value >= target;
+      case '<=': return value <= target;
+      default: return value === target;
+    }
+  }
+  return formatCell(value, column).toLowerCase().includes(query.toLowerCase());
+};
+
+const compareCells = (a: string | number, b: string | number) => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), 'en-IN', { numeric: true });
+};
+
+export const DataTable: React.FC<DataTableProps> = ({ data, title, language = DEFAULT_LANGUAGE }) => {
+  const t = UI_STRINGS[language];
+  const [sort, setSort] = useState<SortState>(null);
+  const [filters, setFilters] = useState<Record<string, string>>({});
+  const [showFilters, setShowFilters] = useState(false);
+
+  const rows = useMemo(() => {
+    const filtered = data.rows.filter(row =>
+      data.columns.every(col => matchesFilter(row[col.key], filters[col.key] || '', col))
+    );
+    if (!sort) return filtered;
+    return [...filtered].sort((a, b) => {
+      const x = a[sort.key];
+      const y = b[sort.key];
+      // Blanks sort last in both directions
+      if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+      return sort.direction === 'asc' ? compareCells(x, y) : compareCells(y, x);
+    });
+  }, [data, sort, filters]);
+
+  const toggleSort = (key: string) => {
+    setSort(prev => {
+      if (!prev || prev.key !== key) return { key, direction: 'asc' };
+      if (prev.direction === 'asc') return { key, direction: 'desc' };
+      return null;
+    });
+  };
+
+  const activeFilters = Object.values(filters).filter(f => f.trim()).length;
+
+  return (
+    <div className="my-6 bg-slate-800/30 rounded-xl border border-slate-700/50 overflow-hidden print:bg-white print:border-gray-300">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-700/50 print:border-gray-300">
+        <h4 className="text-slate-300 font-display text-sm uppercase tracking-wider print:text-black">{title || t.data}</h4>
+        <div className="flex items-center gap-3 no-print">
+          <span className="text-xs text-slate-500">{rows.length} of {data.rows.length} rows</span>
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={`p-1 rounded transition-colors ${activeFilters > 0 ? 'text-violet-400' : 'text-slate-500 hover:text-white'}`}
+            title={t.filterColumns}
+          >
+            <Icons.Filter size={14} />
+          </button>
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm print:text-black">
+          <thead>
+            <tr className="text-slate-400 print:text-black">
+              {data.columns.map(col => (
+                <th
+                  key={col.key}
+                  onClick={() => toggleSort(col.key)}
+                  className={`px-4 py-2 font-medium cursor-pointer select-none hover:text-white whitespace-nowrap ${isNumeric(col) ? 'text-right' : 'text-left'}`}
+                >
+                  {col.label}
+                  {col.type === 'number' && col.unit && <span className="text-slate-600 font-normal"> ({col.unit})</span>}
+                  <span className="inline-block w-3 ml-1 text-violet-400 no-print">
+                    {sort?.key === col.key ? (sort.direction === 'asc' ? '↑' : '↓') : ''}
+                  </span>
+                </th>
+              ))}
+            </tr>
+            {showFilters && (
+              <tr className="no-print">
+                {data.columns.map(col => (
+                  <th key={col.key} className="px-2 pb-2">
+                    <input
+                      type="text"
+                      value={filters[col.key] || ''}
+                      onChange={e => setFilters(prev => ({ ...prev, [col.key]: e.target.value }))}
+                      placeholder={isNumeric(col) ? '>10' : t.filter}
+                      className="w-full bg-slate-900/60 border border-white/10 rounded px-2 py-1 text-xs font-normal text-white placeholder-slate-600 focus:outline-none focus:ring-1 focus:ring-violet-500"
+                    />
+                  </th>
+                ))}
+              </tr>
+            )}
+          </thead>
+          <tbody>
+            {rows.map((row, i) => (
+              <tr key={i} className="border-t border-slate-700/40 hover:bg-white/5 print:border-gray-200 break-inside-avoid">
+                {data.columns.map(col => (
+                  <td
+                    key={col.key}
+                    className={`px-4 py-2 text-slate-300 print:text-black ${isNumeric(col) ? 'text-right font-mono tabular-nums' : ''}`}
+                  >
+                    {formatCell(row[col.key], col)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={data.columns.length} className="px-4 py-6 text-center text-slate-500 italic">{t.noRowsMatch}</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
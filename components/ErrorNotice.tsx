@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { Language, ReportErrorKind, ReportFailure } from '../types';
+import { Icons } from './Icons';
+import { downloadFile } from '../services/reportExport';
+import { DEFAULT_LANGUAGE } from '../services/languages';
+import { issueMessage, UI_STRINGS } from '../services/uiStrings';
+
+interface ErrorNoticeProps {
+  failure: ReportFailure;
+  onRetry?: () => void;
+  language?: Language;
+}
+
+// Kinds a second attempt can fix
+const RETRYABLE: Record<ReportErrorKind, boolean> = {
+  'api-key': false,
+  quota: true,
+  safety: false,
+  parse: true,
+  network: true,
+  server: true,
+  unknown: true
+};
+
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ failure, onRetry, language = DEFAULT_LANGUAGE }) => {
+  const [showRaw, setShowRaw] = useState(false);
+  const t = UI_STRINGS[language];
+  const remediation = t.remediation[failure.kind];
+
+  return (
+    <div className="mt-6 p-4 bg-red-500/10 border border-red-500/20 text-red-200 rounded-lg text-sm max-w-xl mx-auto text-left">
+      <p className="font-semibold flex items-center gap-2">
+        <Icons.Alert size={16} /> {remediation.title}
+      </p>
+      <p className="mt-1 text-red-200/80">{failure.message}</p>
+      <ul className="mt-3 ml-5 list-disc space-y-1 text-slate-300">
+        {remediation.steps.map((step, i) => <li key={i}>{step}</li>)}
+      </ul>
+
+      {failure.kind === 'parse' && (
+        <div className="mt-3">
+          <button onClick={() => setShowRaw(!showRaw)} className="text-xs text-cyan-400 hover:text-cyan-300">
+            {showRaw ? t.hideModelAnswer : t.showModelAnswer}
+          </button>
+          {showRaw && (
+            <div className="mt-2 space-y-2">
+              {failure.issues && failure.issues.length > 0 && (
+                <ul className="text-xs text-slate-400 space-y-0.5">
+                  {failure.issues.filter(issue => issue.severity !== 'info').map((issue, i) => (
+                    <li key={i}><span className="font-mono text-slate-500">{issue.path}</span> {issueMessage(t, issue)}</li>
+                  ))}
+                </ul>
+              )}
+              <pre className="max-h-60 overflow-auto bg-slate-900/80 border border-white/5 rounded p-3 text-xs text-slate-400 whitespace-pre-wrap break-all">
+                {failure.rawText || t.emptyResponse}
+              </pre>
+              {failure.rawText && (
+                <button
+                  onClick={() => downloadFile({ filename: 'model-response.txt', content: failure.rawText!, mimeType: 'text/plain' })}
+                  className="text-xs text-slate-400 hover:text-white flex items-center gap-1"
+                >
+                  <Icons.Download size={12} /> {t.downloadRawAnswer}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {RETRYABLE[failure.kind] && onRetry && (
+        <button
+          onClick={onRetry}
+          className="mt-4 px-3 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-slate-200 text-xs font-medium flex items-center gap-2 transition-colors"
+        >
+          <Icons.Refresh size={14} /> {t.tryAgain}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import { FactCheckResult, Language } from '../types';
+import { Icons } from './Icons';
+import { DEFAULT_LANGUAGE } from '../services/languages';
+import { flagMessage, UI_STRINGS } from '../services/uiStrings';
+
+interface FactCheckNoticeProps {
+  result?: FactCheckResult;
+  compact?: boolean; // Icon with a hover list, for insight cards
+  language?: Language;
+}
+
+const TONE = {
+  medium: { text: 'text-amber-400', border: 'border-amber-500/30', bg: 'bg-amber-500/10' },
+  low: { text: 'text-red-400', border: 'border-red-500/30', bg: 'bg-red-500/10' }
+};
+
+export const FactCheckNotice: React.FC<FactCheckNoticeProps> = ({ result, compact, language = DEFAULT_LANGUAGE }) => {
+  if (!result || result.confidence === 'high') return null;
+  const tone = TONE[result.confidence];
+  const t = UI_STRINGS[language];
+
+  if (compact) {
+    return (
+      <span
+        className={`inline-flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider ${tone.text}`}
+        title={result.flags.map(f => flagMessage(t, f)).join('\n')}
+      >
+        <Icons.Alert size={12} /> {result.confidence === 'low' ? t.inconsistent : t.unverified}
+      </span>
+    );
+  }
+
+  return (
+    <div className={`my-4 rounded-xl border ${tone.border} ${tone.bg} px-4 py-3 text-sm break-inside-avoid print:border-gray-400 print:bg-white`}>
+      <p className={`font-medium flex items-center gap-2 ${tone.text} print:text-black`}>
+        <Icons.Alert size={14} /> {result.confidence === 'low' ? t.figuresInconsistent : t.checkFigures}
+      </p>
+      <ul className="mt-1 ml-6 list-disc text-slate-400 text-xs space-y-0.5 print:text-black">
+        {result.flags.map((flag, i) => <li key={i}>{flagMessage(t, flag)}</li>)}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React, { useEffect, useRef } from 'react';
+import { GenerationLogEntry, GenerationProgress, Language } from '../types';
+import { Icons } from './Icons';
+import { DEFAULT_LANGUAGE } from '../services/languages';
+import { UI_STRINGS } from '../services/uiStrings';
+
+interface GenerationLogProps {
+  progress?: GenerationProgress;
+  language?: Language;
+}
+
+const ENTRY_ICONS: Record<GenerationLogEntry['kind'], React.ElementType> = {
+  search: Icons.Search,
+  section: Icons.File,
+  note: Icons.Refresh
+};
+
+export const GenerationLog: React.FC<GenerationLogProps> = ({ progress, language = DEFAULT_LANGUAGE }) => {
+  const t = UI_STRINGS[language];
+  const listRef = useRef<HTMLUListElement>(null);
+  const entries = progress?.log ?? [];
+
+  // Keep the newest entry in view as the log grows
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight, behavior: 'smooth' });
+  }, [entries.length]);
+
+  return (
+    <div className="glass-card rounded-xl p-4 text-left">
+      <div className="flex items-center justify-between text-xs font-mono text-slate-500 mb-2">
+        <span>{t.liveLog}</span>
+        <span>
+          {t.tokens((progress?.tokens ?? 0).toLocaleString('en-IN'))}
+          {progress && progress.attempt > 1 && ` · ${t.attempt(progress.attempt)}`}
+        </span>
+      </div>
+      {entries.length === 0 ? (
+        <p className="text-sm text-slate-500 italic">{t.waitingForModel}</p>
+      ) : (
+        <ul ref={listRef} className="space-y-1.5 max-h-40 overflow-y-auto pr-1">
+          {entries.map((entry, i) => {
+            const Icon = ENTRY_ICONS[entry.kind];
+            return (
+              <li key={i} className="flex items-start gap-2 text-sm animate-fade-in">
+                <Icon size={14} className={`mt-0.5 shrink-0 ${entry.kind === 'note' ? 'text-amber-400' : 'text-cyan-400'}`} />
+                <span className="text-slate-500 shrink-0">{t.logKinds[entry.kind]}</span>
+                <span className="text-slate-300 truncate">
+                  {entry.text}
+                  {entry.partial && <span className="inline-block w-1.5 h-3.5 ml-0.5 bg-cyan-400 align-middle animate-pulse"></span>}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -25,7 +25,24 @@ import {
   Bot,
   User,
   Trash2,
-  History
+  History,
+  Columns2,
+  Check,
+  RefreshCw,
+  Upload,
+  Filter,
+  Table,
+  Map as MapIcon,
+  Layers,
+  Save,
+  Plus,
+  Pencil,
+  Languages,
+  FilePen,
+  Undo2,
+  Redo2,
+  ArrowUp,
+  ArrowDown
 } from 'lucide-react';
 
 export const Icons = {
@@ -53,5 +70,22 @@ export const Icons = {
   Bot,
   User,
   Trash: Trash2,
-  History
+  History,
+  Compare: Columns2,
+  Check,
+  Refresh: RefreshCw,
+  Upload,
+  Filter,
+  Table,
+  Map: MapIcon,
+  Batch: Layers,
+  Save,
+  Plus,
+  Edit: Pencil,
+  Languages,
+  FileEdit: FilePen,
+  Undo: Undo2,
+  Redo: Redo2,
+  Up: ArrowUp,
+  Down: ArrowDown
 };
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Language, Report } from '../types';
+import { Icons } from './Icons';
+import {
+  parseImportFiles,
+  resolveCollision,
+  FileImportResult,
+  ImportStatus,
+  CollisionResolution
+} from '../services/reportImport';
+import { DEFAULT_LANGUAGE } from '../services/languages';
+import { issueMessage, UI_STRINGS } from '../services/uiStrings';
+
+interface ImportPanelProps {
+  history: Report[];
+  onImport: (reports: Report[]) => void;
+  onClose: () => void;
+  language?: Language;
+}
+
+const STATUS_STYLES: Record<ImportStatus, string> = {
+  accepted: 'text-emerald-300 bg-emerald-500/10 border-emerald-500/20',
+  repaired: 'text-amber-300 bg-amber-500/10 border-amber-500/20',
+  rejected: 'text-red-300 bg-red-500/10 border-red-500/20',
+  duplicate: 'text-slate-400 bg-white/5 border-white/10'
+};
+
+const itemKey = (fileIndex: number, itemIndex: number) => `${fileIndex}:${itemIndex}`;
+
+export const ImportPanel: React.FC<ImportPanelProps> = ({ history, onImport, onClose, language = DEFAULT_LANGUAGE }) => {
+  const t = UI_STRINGS[language];
+  const [results, setResults] = useState<FileImportResult[] | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, CollisionResolution>>({});
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+    const files = await Promise.all(
+      Array.from(fileList).map(async file => ({ name: file.name, text: await file.text() }))
+    );
+    setResults(parseImportFiles(files, history));
+    setResolutions({});
+  };
+
+  const importable = (results || []).flatMap((file, fi) =>
+    file.items
+      .map((item, ii) => ({ item, key: itemKey(fi, ii) }))
+      .filter(({ item }) => item.report !== null)
+  );
+
+  const handleConfirm = () => {
+    const reports = importable.map(({ item, key }) =>
+      item.collidesWith ? resolveCollision(item.report!, resolutions[key] || 'rekey') : item.report!
+    );
+    onImport(reports);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="glass-panel rounded-2xl w-full max-w-2xl max-h-[80vh] flex flex-col shadow-2xl animate-slide-up text-left"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-5 border-b border-white/5 flex items-center justify-between">
+          <h2 className="text-xl font-display font-bold text-white flex items-center gap-2">
+            <Icons.Upload size={20} className="text-violet-400" /> {t.importReports}
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white p-1">
+            <Icons.Close size={18} />
+          </button>
+        </div>
+
+        <div className="p-5 overflow-y-auto flex-1 space-y-4">
+          <label className="block border border-dashed border-white/15 hover:border-violet-500/50 rounded-xl p-6 text-center cursor-pointer transition-colors">
+            <input
+              type="file"
+              accept=".json,application/json"
+              multiple
+              className="hidden"
+              onChange={e => handleFiles(e.target.files)}
+            />
+            <p className="text-slate-300 text-sm">{t.chooseImportFiles}</p>
+            <p className="text-slate-500 text-xs mt-1">{t.importValidated}</p>
+          </label>
+
+          {results && results.map((file, fi) => (
+            <div key={fi} className="bg-slate-800/30 border border-white/5 rounded-xl p-4">
+              <p className="text-sm font-mono text-cyan-400 mb-2 truncate">{file.fileName}</p>
+              {file.error && <p className="text-sm text-red-300">{file.error}</p>}
+              <ul className="space-y-2">
+                {file.items.map((item, ii) => {
+                  const key = itemKey(fi, ii);
+                  return (
+                    <li key={key} className="text-sm">
+                      <div className="flex items-center justify-between gap-3">
+                        <button
+                          onClick={() => setExpanded(expanded === key ? null : key)}
+                          className="text-slate-300 hover:text-white text-left truncate"
+                          disabled={item.issues.length === 0}
+                        >
+                          {item.label}
+                          {item.issues.length > 0 && <span className="text-slate-500 text-xs ml-2">({t.issueCount(item.issues.length)})</span>}
+                        </button>
+                        <span className={`text-[10px] uppercase tracking-wider px-2 py-0.5 rounded border flex-shrink-0 ${STATUS_STYLES[item.status]}`}>
+                          {t.importStatuses[item.status]}
+                        </span>
+                      </div>
+
+                      {item.collidesWith && (
+                        <div className="mt-2 flex items-center gap-3 text-xs text-amber-200">
+                          <span>{t.sameIdAs(item.collidesWith.title)}</span>
+                          {(['rekey', 'replace'] as const).map(option => (
+                            <label key={option} className="flex items-center gap-1 cursor-pointer">
+                              <input
+                                type="radio"
+                                name={`collision-${key}`}
+                                checked={(resolutions[key] || 'rekey') === option}
+                                onChange={() => setResolutions(prev => ({ ...prev, [key]: option }))}
+                              />
+                              {option === 'rekey' ? t.keepBoth : t.replaceExisting}
+                            </label>
+                          ))}
+                        </div>
+                      )}
+
+                      {expanded === key && (
+                        <ul className="mt-2 pl-3 border-l border-white/10 space-y-1 text-xs text-slate-400">
+                          {item.issues.map((issue, i) => (
+                            <li key={i}>
+                              <span className="font-mono text-slate-500">{issue.path}</span> {issueMessage(t, issue)}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-5 border-t border-white/5 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-slate-400 hover:text-white">{t.cancel}</button>
+          <button
+            onClick={handleConfirm}
+            disabled={importable.length === 0}
+            className="px-4 py-2 bg-violet-600 hover:bg-violet-700 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {t.importCount(importable.length)}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,288 @@
+import React, { useMemo, useState } from 'react';
+import { ChartDataPoint, Language, Report, ReportSection, SectionType } from '../types';
+import { Icons } from './Icons';
+import {
+  applyEdit, changeSectionType, CHART_TYPES, chartKeys, checkEdits, editChartData, finishEditing, insertSection,
+  moveSection, redoEdit, removeInsight, removeSection, startEditing, undoEdit, updateSection
+} from '../services/reportEditing';
+import { DEFAULT_LANGUAGE } from '../services/languages';
+import { issueMessage, UI_STRINGS, UiStrings } from '../services/uiStrings';
+
+interface ReportEditorProps {
+  report: Report;
+  onSave: (report: Report) => void;
+  onCancel: () => void;
+  language?: Language;
+}
+
+type Insight = Report['keyInsights'][0];
+
+const inputClass = 'w-full bg-slate-900/60 border border-white/10 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:ring-1 focus:ring-violet-500';
+const iconButtonClass = 'p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-white/5 transition-colors disabled:opacity-30 disabled:hover:bg-transparent';
+
+interface ChartGridProps {
+  section: ReportSection;
+  onChange: (data: ChartDataPoint[], key?: string) => void; // `key` names the edited cell for undo merging
+  t: UiStrings;
+}
+
+const ChartGrid = ({ section, onChange, t }: ChartGridProps) => {
+  const data = section.chartData || [];
+  const keys = chartKeys(section);
+  const label = (key: string) => key === 'value'
+    ? section.chartConfig?.yLabel || t.insightValue
+    : section.chartConfig?.series?.find(s => s.key === key)?.label || key;
+  const setCell = (row: number, key: string, value: string | number) =>
+    onChange(data.map((point, i) => i === row ? { ...point, [key]: value } : point), `${row}.${key}`);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-slate-500 uppercase tracking-wider">
+            <th className="text-left font-medium pb-2 pr-2">{section.chartConfig?.xLabel || t.rowName}</th>
+            {keys.map(key => <th key={key} className="text-right font-medium pb-2 px-2">{label(key)}</th>)}
+            <th className="w-8"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {data.map((point, row) => (
+            <tr key={row}>
+              <td className="py-1 pr-2">
+                <input value={point.name} onChange={e => setCell(row, 'name', e.target.value)} className={inputClass} />
+              </td>
+              {keys.map(key => (
+                <td key={key} className="py-1 px-2">
+                  {/* Cells hold the typed text ("-", "", "1,20,000") until checkEdits coerces them on save */}
+                  <input
+                    inputMode="decimal"
+                    value={point[key] ?? ''}
+                    onChange={e => setCell(row, key, e.target.value)}
+                    className={`${inputClass} text-right font-mono`}
+                  />
+                </td>
+              ))}
+              <td className="py-1 text-right">
+                <button onClick={() => onChange(data.filter((_, i) => i !== row))} className={iconButtonClass} title={t.removeRow}>
+                  <Icons.Trash size={14} />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button
+        onClick={() => onChange([...data, { name: '', ...Object.fromEntries(keys.map(key => [key, 0])) } as ChartDataPoint])}
+        className="mt-2 text-xs text-violet-400 hover:text-violet-300 flex items-center gap-1"
+      >
+        <Icons.Plus size={12} /> {t.addRow}
+      </button>
+    </div>
+  );
+};
+
+export const ReportEditor: React.FC<ReportEditorProps> = ({ report, onSave, onCancel, language = DEFAULT_LANGUAGE }) => {
+  const t = UI_STRINGS[language];
+  const [history, setHistory] = useState(() => startEditing(report));
+  const draft = history.present;
+  const check = useMemo(() => checkEdits(draft), [draft]);
+  const problems = check.issues.filter(issue => issue.severity !== 'info');
+  const isDirty = history.past.length > 0;
+
+  const edit = (next: Report, key?: string) => setHistory(h => applyEdit(h, next, key));
+  const editSection = (section: ReportSection, change: Partial<ReportSection>, key?: string) =>
+    edit(updateSection(draft, section.id, change), key && `${section.id}.${key}`);
+  const editInsight = (index: number, change: Partial<Insight>, key?: string) =>
+    edit({ ...draft, keyInsights: draft.keyInsights.map((insight, i) => i === index ? { ...insight, ...change } : insight) }, key && `insight.${index}.${key}`);
+
+  // Names the section or insight an issue path points at, e.g. "sections[2].chartData"
+  const issueLabel = (path: string) => {
+    const section = path.match(/^sections\[(\d+)\]/);
+    if (section) return draft.sections[Number(section[1])]?.title || t.sectionNumber(Number(section[1]) + 1);
+    const insight = path.match(/^keyInsights\[(\d+)\]/);
+    if (insight) return t.insightNumber(Number(insight[1]) + 1);
+    return null;
+  };
+
+  // Replaces the browser's own text undo, which only knows about the focused field
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!(e.metaKey || e.ctrlKey)) return;
+    const key = e.key.toLowerCase();
+    if (key !== 'z' && key !== 'y') return;
+    e.preventDefault();
+    setHistory(h => key === 'y' || e.shiftKey ? redoEdit(h) : undoEdit(h));
+  };
+
+  const handleSave = () => {
+    if (!isDirty) return onCancel();
+    if (check.data) onSave(finishEditing(draft, check.data));
+  };
+
+  const handleCancel = () => {
+    if (isDirty && !window.confirm(t.discardEdits)) return;
+    onCancel();
+  };
+
+  const addSectionButton = (index: number) => (
+    <button
+      onClick={() => edit(insertSection(draft, index, t.newSection))}
+      className="w-full py-2 rounded-xl border border-dashed border-white/10 text-xs text-slate-500 hover:text-violet-300 hover:border-violet-500/40 flex items-center justify-center gap-1 transition-colors"
+    >
+      <Icons.Plus size={12} /> {t.addSection}
+    </button>
+  );
+
+  return (
+    <div className="space-y-8 animate-fade-in no-print" onKeyDown={handleKeyDown}>
+      <div className="sticky top-20 z-30 glass-panel rounded-xl px-4 py-3 flex items-center gap-2">
+        <Icons.FileEdit size={18} className="text-violet-400" />
+        <span className="font-medium text-white flex-1">{t.editingReport}</span>
+        <button onClick={() => setHistory(undoEdit)} disabled={history.past.length === 0} className={iconButtonClass} title={t.undo}>
+          <Icons.Undo size={18} />
+        </button>
+        <button onClick={() => setHistory(redoEdit)} disabled={history.future.length === 0} className={iconButtonClass} title={t.redo}>
+          <Icons.Redo size={18} />
+        </button>
+        <button onClick={handleCancel} className="ml-2 px-3 py-1.5 rounded-lg border border-white/10 text-sm text-slate-300 hover:bg-white/5">
+          {t.cancel}
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={check.fatal}
+          className="px-3 py-1.5 rounded-lg bg-violet-600 hover:bg-violet-700 text-sm text-white flex items-center gap-1 disabled:opacity-40"
+        >
+          <Icons.Save size={14} /> {t.save}
+        </button>
+      </div>
+
+      {problems.length > 0 && (
+        <div className="rounded-xl border border-amber-500/30 bg-amber-500/10 p-4 text-sm text-amber-200">
+          <p className="font-medium mb-1">{check.fatal ? t.fixBeforeSaving : t.fixesOnSave}</p>
+          <ul className="list-disc pl-5 space-y-0.5">
+            {problems.map((issue, i) => (
+              <li key={i}>
+                {issueLabel(issue.path) && <span className="font-medium">{issueLabel(issue.path)}: </span>}
+                {issueMessage(t, issue)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="glass-card rounded-2xl p-6 space-y-4">
+        <label className="block">
+          <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{t.reportTitle}</span>
+          <input
+            value={draft.title}
+            onChange={e => edit({ ...draft, title: e.target.value }, 'title')}
+            className={`${inputClass} mt-1 text-lg font-display font-bold`}
+          />
+        </label>
+        <label className="block">
+          <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{t.executiveSummary}</span>
+          <textarea
+            value={draft.executiveSummary}
+            onChange={e => edit({ ...draft, executiveSummary: e.target.value }, 'executiveSummary')}
+            rows={4}
+            className={`${inputClass} mt-1 resize-y`}
+          />
+        </label>
+      </div>
+
+      <div className="glass-card rounded-2xl p-6">
+        <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">{t.keyInsights}</h3>
+        <div className="space-y-3">
+          {draft.keyInsights.map((insight, i) => (
+            <div key={i} className="flex gap-2 items-start">
+              <select
+                value={insight.icon}
+                onChange={e => editInsight(i, { icon: e.target.value as Insight['icon'] })}
+                className={`${inputClass} w-36 flex-shrink-0`}
+                aria-label={t.insightIcon}
+              >
+                {Object.entries(t.insightIcons).map(([icon, label]) => <option key={icon} value={icon}>{label}</option>)}
+              </select>
+              <input
+                value={insight.value ?? ''}
+                onChange={e => editInsight(i, { value: e.target.value || undefined }, 'value')}
+                placeholder={t.insightValue}
+                className={`${inputClass} w-28 flex-shrink-0`}
+              />
+              <textarea
+                value={insight.text}
+                onChange={e => editInsight(i, { text: e.target.value }, 'text')}
+                rows={2}
+                className={`${inputClass} resize-y`}
+              />
+              <button
+                onClick={() => edit(removeInsight(draft, i))}
+                className={iconButtonClass}
+                title={t.removeInsight}
+              >
+                <Icons.Trash size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => edit({ ...draft, keyInsights: [...draft.keyInsights, { icon: 'info', text: '' }] })}
+          className="mt-3 text-xs text-violet-400 hover:text-violet-300 flex items-center gap-1"
+        >
+          <Icons.Plus size={12} /> {t.addInsight}
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        {addSectionButton(0)}
+        {draft.sections.map((section, i) => (
+          <React.Fragment key={section.id}>
+            <div className="glass-card rounded-2xl p-6 space-y-4">
+              <div className="flex gap-2 items-center">
+                <input
+                  value={section.title}
+                  onChange={e => editSection(section, { title: e.target.value }, 'title')}
+                  className={`${inputClass} font-display font-bold text-base`}
+                  aria-label={t.sectionTitle}
+                />
+                <select
+                  value={section.type}
+                  onChange={e => editSection(section, changeSectionType(section, e.target.value as SectionType))}
+                  className={`${inputClass} w-36 flex-shrink-0`}
+                  aria-label={t.sectionType}
+                >
+                  {Object.values(SectionType).map(type => <option key={type} value={type}>{t.sectionTypes[type]}</option>)}
+                </select>
+                <button onClick={() => edit(moveSection(draft, i, -1))} disabled={i === 0} className={iconButtonClass} title={t.moveUp}>
+                  <Icons.Up size={16} />
+                </button>
+                <button onClick={() => edit(moveSection(draft, i, 1))} disabled={i === draft.sections.length - 1} className={iconButtonClass} title={t.moveDown}>
+                  <Icons.Down size={16} />
+                </button>
+                <button onClick={() => edit(removeSection(draft, section.id))} className={`${iconButtonClass} hover:text-red-400`} title={t.deleteSection}>
+                  <Icons.Trash size={16} />
+                </button>
+              </div>
+              <textarea
+                value={section.content}
+                onChange={e => editSection(section, { content: e.target.value }, 'content')}
+                rows={8}
+                placeholder={t.markdown}
+                className={`${inputClass} font-mono resize-y`}
+              />
+              {CHART_TYPES.includes(section.type) && (
+                <ChartGrid section={section} onChange={(data, key) => editSection(section, editChartData(data), key && `chart.${key}`)} t={t} />
+              )}
+              {section.type === SectionType.TABLE && section.tableData && (
+                <p className="text-xs text-slate-500">{t.tableKept}</p>
+              )}
+              {section.type === SectionType.MAP && section.mapData && (
+                <p className="text-xs text-slate-500">{t.mapKept}</p>
+              )}
+            </div>
+            {addSectionButton(i + 1)}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
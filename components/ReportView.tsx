@@ -1,16 +1,49 @@
 
 import React, { useState, useEffect } from 'react';
-import { Report, SectionType, ReportSection } from '../types';
+import { Report, SectionType, ReportSection, Citation, SavedScenario, FactCheckResult, Language, Annotation } from '../types';
 import { AnalysisBarChart, AnalysisPieChart, AnalysisLineChart } from './Charts';
 import { Icons } from './Icons';
-import ReactMarkdown from 'react-markdown';
+import { VersionTimeline } from './VersionTimeline';
+import { exportMarkdown, exportJson, exportChartCsvs, downloadFile } from '../services/reportExport';
+import { CitedText, CitedMarkdown, Bibliography } from './Citations';
+import { citationField, citationsFor } from '../services/citations';
+import { ScenarioSimulator } from './ScenarioSimulator';
+import { DataTable } from './DataTable';
+import { ChoroplethMap } from './ChoroplethMap';
+import { isVoteShareData } from '../services/seatSimulator';
+import { ALLIANCES, findMentionedParty } from '../services/partyRegistry';
+import { factCheckFor, factCheckReport } from '../services/factCheck';
+import { FactCheckNotice } from './FactCheckNotice';
+import { INSIGHTS_ANCHOR, SUMMARY_ANCHOR } from '../services/chatContext';
+import { DEFAULT_LANGUAGE, LANGUAGES, LANGUAGE_CODES, reportLanguage } from '../services/languages';
+import { formatAge, UI_STRINGS } from '../services/uiStrings';
+import { AnnotationComposer, AnnotationMargin, ReviewPanel } from './Annotations';
+import { annotationsFor, MIN_QUOTE_LENGTH, newAnnotation } from '../services/annotations';
+import { ReportEditor } from './ReportEditor';
 
 interface ReportViewProps {
   report: Report;
   onReset: () => void;
+  versions?: Report[];                        // Version chain for the report's topic, oldest first
+  onSelectVersion?: (report: Report) => void;
+  onRefresh?: () => void;                     // Regenerate the analysis as a new version
+  onUpdateReport?: (report: Report) => void;  // Persist changes made from the view, e.g. saved scenarios
+  cachedAt?: number;                          // Set when the report was served from the response cache
+  focusRequest?: { anchor: string, requestedAt: number }; // Scroll to a section, e.g. from a chat citation
+  language?: Language;                        // Interface language; the report text keeps its own
+  onTranslate?: (language: Language) => Promise<void>; // Translate the report and open the result
 }
 
-const InsightCard = ({ insight }: { insight: Report['keyInsights'][0] }) => {
+interface SectionSimulation {
+  scenarios: SavedScenario[];
+  onSave: (scenario: SavedScenario) => void;
+  onDelete: (id: string) => void;
+}
+
+// Text on the left, annotation margin on the right; stacked below xl and in print
+const MARGIN_LAYOUT = 'xl:grid xl:grid-cols-[minmax(0,1fr)_15rem] xl:gap-6';
+
+export const InsightCard = ({ insight, citations = [], factCheck, annotations, field, language }: { insight: Report['keyInsights'][0], citations?: Citation[], factCheck?: FactCheckResult, annotations?: Annotation[], field?: string, language?: Language }) => {
   const Icon = insight.icon === 'trend-up' ? Icons.TrendUp : 
                insight.icon === 'trend-down' ? Icons.TrendDown : 
                insight.icon === 'alert' ? Icons.Alert : Icons.Info;
@@ -19,21 +52,42 @@ const InsightCard = ({ insight }: { insight: Report['keyInsights'][0] }) => {
                        insight.icon === 'trend-down' ? '#EF4444' : 
                        insight.icon === 'alert' ? '#F59E0B' : '#3B82F6';
 
+  // The accent follows the party the insight is about; the icon keeps signalling the trend
+  const party = findMentionedParty(insight.text);
+
   return (
-    <div className="glass-card p-5 rounded-2xl border-l-4 hover:translate-y-[-2px] transition-transform duration-300" style={{ borderLeftColor: insight.color || defaultColor }}>
+    <div className="glass-card p-5 rounded-2xl border-l-4 hover:translate-y-[-2px] transition-transform duration-300" style={{ borderLeftColor: party?.color || insight.color || defaultColor }}>
       <div className="flex items-start justify-between mb-2">
-        <Icon size={24} color={insight.color || defaultColor} />
+        <div className="flex items-center gap-2">
+          <Icon size={24} color={insight.color || defaultColor} />
+          {party && (
+            <span
+              className="text-[10px] font-bold px-1.5 py-0.5 rounded border"
+              style={{ color: party.color, borderColor: party.color }}
+              title={party.alliance ? `${party.name} · ${ALLIANCES[party.alliance].name}` : party.name}
+            >
+              {party.abbreviation}{party.alliance && <span className="opacity-70"> · {party.alliance}</span>}
+            </span>
+          )}
+        </div>
         {insight.value && (
           <span className="font-display font-bold text-xl text-white dark:text-black print:text-black">{insight.value}</span>
         )}
       </div>
-      <p className="text-slate-300 text-sm font-medium leading-relaxed">{insight.text}</p>
+      <p data-annotation-field={field} className="text-slate-300 text-sm font-medium leading-relaxed"><CitedText text={insight.text} citations={citations} annotations={annotations} language={language} /></p>
+      <div className="mt-2"><FactCheckNotice result={factCheck} compact language={language} /></div>
     </div>
   );
 };
 
-const SectionRenderer = ({ section, forceExpand }: { section: ReportSection, forceExpand: boolean }) => {
+export const SectionRenderer = ({ section, forceExpand, citations, simulation, factCheck, annotations, margin, language = DEFAULT_LANGUAGE }: { section: ReportSection, forceExpand: boolean, citations?: Citation[], simulation?: SectionSimulation, factCheck?: FactCheckResult, annotations?: Annotation[], margin?: React.ReactNode, language?: Language }) => {
+  const t = UI_STRINGS[language];
   const [isExpanded, setIsExpanded] = useState(true);
+  const [isSimulating, setIsSimulating] = useState(false);
+
+  const canSimulate = !!simulation &&
+    (section.type === SectionType.BAR_CHART || section.type === SectionType.PIE_CHART) &&
+    isVoteShareData(section.chartData);
 
   useEffect(() => {
     if (forceExpand) {
@@ -62,21 +116,59 @@ const SectionRenderer = ({ section, forceExpand }: { section: ReportSection, for
 
       {isExpanded && (
         <div className="animate-fade-in print:animate-none">
-          <div className="prose prose-invert prose-p:text-slate-300 prose-headings:text-white prose-strong:text-cyan-200 max-w-none mb-6 print:prose-p:text-black print:prose-headings:text-black print:prose-strong:text-black">
-            <ReactMarkdown>{section.content}</ReactMarkdown>
+          <div className={margin ? `${MARGIN_LAYOUT} mb-6` : undefined}>
+            <div
+              data-annotation-field={citationField.section(section.id)}
+              className="prose prose-invert prose-p:text-slate-300 prose-headings:text-white prose-strong:text-cyan-200 max-w-none mb-6 print:prose-p:text-black print:prose-headings:text-black print:prose-strong:text-black"
+            >
+              <CitedMarkdown content={section.content} citations={citations} annotations={annotations} language={language} />
+            </div>
+            {margin}
           </div>
           
           <div className="break-inside-avoid">
+            <FactCheckNotice result={factCheck} language={language} />
             {section.type === SectionType.BAR_CHART && section.chartData && (
-              <AnalysisBarChart data={section.chartData} config={section.chartConfig} />
+              <AnalysisBarChart data={section.chartData} config={section.chartConfig} language={language} />
             )}
             {section.type === SectionType.PIE_CHART && section.chartData && (
-              <AnalysisPieChart data={section.chartData} config={section.chartConfig} />
+              <AnalysisPieChart data={section.chartData} config={section.chartConfig} language={language} />
             )}
             {section.type === SectionType.LINE_CHART && section.chartData && (
-              <AnalysisLineChart data={section.chartData} config={section.chartConfig} />
+              <AnalysisLineChart data={section.chartData} config={section.chartConfig} language={language} />
+            )}
+            {section.type === SectionType.TABLE && section.tableData && (
+              <DataTable data={section.tableData} title={section.chartConfig?.title} language={language} />
+            )}
+            {section.type === SectionType.MAP && section.mapData && (
+              <ChoroplethMap data={section.mapData} title={section.chartConfig?.title} language={language} />
+            )}
+            {section.dataSource && (
+              <p className="text-xs text-emerald-400/80 flex items-center gap-1 -mt-4 mb-6 print:text-black">
+                <Icons.Check size={12} /> {t.figuresFrom(section.dataSource)}
+              </p>
             )}
           </div>
+
+          {canSimulate && (
+            <button
+              onClick={() => setIsSimulating(!isSimulating)}
+              className="no-print text-xs font-medium text-violet-400 hover:text-violet-300 flex items-center gap-1"
+            >
+              <Icons.Activity size={14} />
+              {isSimulating ? t.hideSimulator : t.simulateSwings}
+              {simulation!.scenarios.length > 0 && ` ${t.savedScenarios(simulation!.scenarios.length)}`}
+            </button>
+          )}
+          {canSimulate && isSimulating && (
+            <ScenarioSimulator
+              section={section}
+              scenarios={simulation!.scenarios}
+              onSave={simulation!.onSave}
+              onDelete={simulation!.onDelete}
+              language={language}
+            />
+          )}
         </div>
       )}
       <hr className="border-white/5 mt-8 print:border-gray-200" />
@@ -84,10 +176,18 @@ const SectionRenderer = ({ section, forceExpand }: { section: ReportSection, for
   );
 };
 
-export const ReportView: React.FC<ReportViewProps> = ({ report, onReset }) => {
+export const ReportView: React.FC<ReportViewProps> = ({ report, onReset, versions = [], onSelectVersion, onRefresh, onUpdateReport, cachedAt, focusRequest, language = DEFAULT_LANGUAGE, onTranslate }) => {
   const [activeSection, setActiveSection] = useState<string>(report.sections[0]?.id);
   const [searchQuery, setSearchQuery] = useState('');
   const [showToast, setShowToast] = useState(false);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [isTranslateMenuOpen, setIsTranslateMenuOpen] = useState(false);
+  const [translation, setTranslation] = useState<{ to: Language, failed?: boolean } | null>(null);
+  const [showAnnotations, setShowAnnotations] = useState(true); // Also decides whether print and exports include them
+  const [draft, setDraft] = useState<{ field: string, quote: string, top: number, left: number } | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const t = UI_STRINGS[language];
+  const contentLanguage = reportLanguage(report);
 
   // Simple scroll spy logic
   useEffect(() => {
@@ -110,25 +210,126 @@ export const ReportView: React.FC<ReportViewProps> = ({ report, onReset }) => {
     const element = document.getElementById(id);
     if (element) {
       window.scrollTo({
-        top: element.offsetTop - 100,
+        top: element.getBoundingClientRect().top + window.scrollY - 100,
         behavior: 'smooth'
       });
       setActiveSection(id);
     }
   };
 
+  // Clear any search first so the requested section is rendered, then scroll once it is
+  useEffect(() => {
+    if (!focusRequest) return;
+    setSearchQuery('');
+    const timer = setTimeout(() => scrollToSection(focusRequest.anchor), 50);
+    return () => clearTimeout(timer);
+  }, [focusRequest]);
+
+  useEffect(() => setDraft(null), [report.id, showAnnotations, isEditing]);
+
+  // Another report (e.g. a translation or version) was opened; its own edits start fresh
+  useEffect(() => setIsEditing(false), [report.id]);
+
+  const annotations = report.annotations || [];
+  const canAnnotate = !!onUpdateReport && showAnnotations && !isEditing;
+  const updateAnnotations = (next: Annotation[]) => onUpdateReport?.({ ...report, annotations: next });
+  const addAnnotation = (annotation: Annotation) => updateAnnotations([...annotations, annotation]);
+
+  // Selecting text within a single annotatable field opens the composer below the selection
+  const handleSelection = () => {
+    if (!canAnnotate) return;
+    const selection = window.getSelection();
+    const quote = selection?.toString().replace(/\s+/g, ' ').trim();
+    const fieldOf = (node: Node | null) =>
+      (node instanceof Element ? node : node?.parentElement)?.closest<HTMLElement>('[data-annotation-field]')?.dataset.annotationField;
+    const field = selection && fieldOf(selection.anchorNode);
+    if (!selection || !quote || quote.length < MIN_QUOTE_LENGTH || !field || field !== fieldOf(selection.focusNode)) {
+      setDraft(null);
+      return;
+    }
+    const rect = selection.getRangeAt(0).getBoundingClientRect();
+    setDraft({
+      field,
+      quote,
+      top: rect.bottom + window.scrollY + 8,
+      left: Math.max(8, Math.min(rect.left, window.innerWidth - 300)) + window.scrollX
+    });
+  };
+
+  const saveDraft = (status: Annotation['status'], comment: string) => {
+    if (!draft) return;
+    addAnnotation(newAnnotation(draft.field, status, comment, draft.quote));
+    setDraft(null);
+    window.getSelection()?.removeAllRanges();
+  };
+
+  // Fields without annotations only get a margin when notes can be added to them
+  const marginFor = (fields: string[], noteField?: string) => {
+    if (!showAnnotations) return undefined;
+    if (!(onUpdateReport && noteField) && !annotations.some(a => fields.includes(a.field))) return undefined;
+    return (
+      <AnnotationMargin
+        report={report}
+        fields={fields}
+        noteField={noteField}
+        onUpdate={onUpdateReport && updateAnnotations}
+        onAddNote={onUpdateReport && ((field, comment) => addAnnotation(newAnnotation(field, 'comment', comment)))}
+        language={language}
+      />
+    );
+  };
+
+  const visibleAnnotations = (field: string) => showAnnotations ? annotationsFor(report, field) : undefined;
+  const summaryMargin = marginFor([citationField.summary]);
+
   const handleShare = () => {
-    const textToShare = `Check out this political analysis report: "${report.title}"\n\nExecutive Summary:\n${report.executiveSummary}\n\nGenerated by PolitiSight India`;
+    const textToShare = t.shareText(report.title, report.executiveSummary);
     navigator.clipboard.writeText(textToShare).then(() => {
       setShowToast(true);
       setTimeout(() => setShowToast(false), 3000);
     });
   };
 
+  // Indic web fonts load on first use, so wait for them or the PDF falls back to boxes
   const handleExport = () => {
-    window.print();
+    document.fonts.ready.then(() => window.print());
+  };
+
+  const handleTranslate = async (to: Language) => {
+    if (!onTranslate) return;
+    setIsTranslateMenuOpen(false);
+    setTranslation({ to });
+    try {
+      await onTranslate(to);
+      setTranslation(null);
+    } catch (e) {
+      setTranslation({ to, failed: true });
+    }
+  };
+
+  const handleStructuredExport = (format: 'markdown' | 'json' | 'csv') => {
+    setIsExportMenuOpen(false);
+    const exported = showAnnotations ? report : { ...report, annotations: undefined };
+    if (format === 'markdown') downloadFile(exportMarkdown(exported));
+    if (format === 'json') downloadFile(exportJson(exported));
+    if (format === 'csv') exportChartCsvs(report).forEach(downloadFile);
   };
 
+  const hasChartsOrTables = report.sections.some(s => (s.chartData && s.chartData.length > 0) || s.tableData || s.mapData);
+
+  const simulationFor = (sectionId: string): SectionSimulation | undefined => {
+    if (!onUpdateReport) return undefined;
+    const scenarios = report.scenarios || [];
+    return {
+      scenarios: scenarios.filter(s => s.sectionId === sectionId),
+      onSave: (scenario) => onUpdateReport({ ...report, scenarios: [...scenarios, scenario] }),
+      onDelete: (id) => onUpdateReport({ ...report, scenarios: scenarios.filter(s => s.id !== id) })
+    };
+  };
+
+  // Reports saved before the fact-check pass existed are checked on the fly
+  const factChecks = React.useMemo(() => report.factChecks ?? factCheckReport(report), [report]);
+
   // Filter sections based on search query
   const filteredSections = React.useMemo(() => {
     if (!searchQuery.trim()) return report.sections;
@@ -147,7 +348,13 @@ export const ReportView: React.FC<ReportViewProps> = ({ report, onReset }) => {
       {showToast && (
         <div className="fixed bottom-10 left-1/2 -translate-x-1/2 bg-slate-800 text-white px-6 py-3 rounded-full shadow-2xl z-50 flex items-center gap-2 animate-slide-up border border-slate-700">
           <Icons.Info size={18} className="text-cyan-400" />
-          <span>Report summary copied to clipboard!</span>
+          <span>{t.summaryCopied}</span>
+        </div>
+      )}
+
+      {draft && (
+        <div className="absolute z-40" style={{ top: draft.top, left: draft.left }}>
+          <AnnotationComposer quote={draft.quote} onSave={saveDraft} onCancel={() => setDraft(null)} language={language} />
         </div>
       )}
 
@@ -168,7 +375,7 @@ export const ReportView: React.FC<ReportViewProps> = ({ report, onReset }) => {
             </div>
             <input 
               type="text" 
-              placeholder="Find in report..." 
+              placeholder={t.findInReport}
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="w-full bg-slate-800/50 border border-white/10 rounded-full py-1.5 pl-9 pr-4 text-sm text-white placeholder-slate-500 focus:bg-slate-800 focus:outline-none focus:ring-1 focus:ring-violet-500 transition-all"
@@ -183,10 +390,70 @@ export const ReportView: React.FC<ReportViewProps> = ({ report, onReset }) => {
             )}
           </div>
 
+          {onRefresh && (
+            <button 
+              onClick={onRefresh}
+              className="p-2 text-slate-400 hover:text-white transition-colors" 
+              title={t.refreshAnalysis}
+            >
+              <Icons.Refresh size={20} />
+            </button>
+          )}
+          {onTranslate && (
+            <div className="relative">
+              <button
+                onClick={() => setIsTranslateMenuOpen(!isTranslateMenuOpen)}
+                disabled={!!translation && !translation.failed}
+                className="flex items-center gap-1 p-2 text-slate-400 hover:text-white transition-colors disabled:opacity-60"
+                title={translation?.failed ? t.translateFailed : t.translate}
+              >
+                <Icons.Languages size={20} className={translation?.failed ? 'text-red-400' : ''} />
+                {translation && !translation.failed && <span className="hidden md:inline text-xs">{t.translating}</span>}
+              </button>
+              {isTranslateMenuOpen && (
+                <div className="absolute right-0 mt-2 w-44 glass-panel rounded-xl py-2 shadow-2xl animate-fade-in">
+                  {translation?.failed && <p className="px-4 pb-2 text-xs text-red-300">{t.translateFailed}</p>}
+                  {LANGUAGE_CODES.filter(code => code !== contentLanguage).map(code => (
+                    <button
+                      key={code}
+                      lang={code}
+                      onClick={() => handleTranslate(code)}
+                      className="w-full text-left px-4 py-2 text-sm text-slate-300 hover:bg-white/5 hover:text-white"
+                    >
+                      {LANGUAGES[code].nativeName}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+          {onUpdateReport && !isEditing && (
+            <button
+              onClick={() => setIsEditing(true)}
+              className="p-2 text-slate-400 hover:text-white transition-colors"
+              title={t.editReport}
+            >
+              <Icons.FileEdit size={20} />
+            </button>
+          )}
+          {(onUpdateReport || annotations.length > 0) && (
+            <button
+              onClick={() => setShowAnnotations(!showAnnotations)}
+              className={`relative p-2 transition-colors hover:text-white ${showAnnotations ? 'text-violet-300' : 'text-slate-400'}`}
+              title={showAnnotations ? t.hideAnnotations : t.showAnnotations}
+            >
+              <Icons.Edit size={20} />
+              {annotations.length > 0 && (
+                <span className="absolute top-0 right-0 min-w-[1rem] h-4 px-1 rounded-full bg-violet-600 text-white text-[10px] leading-4 text-center">
+                  {annotations.length}
+                </span>
+              )}
+            </button>
+          )}
           <button 
             onClick={handleShare}
             className="p-2 text-slate-400 hover:text-white transition-colors" 
-            title="Copy Summary"
+            title={t.copySummary}
           >
             <Icons.Share size={20} />
           </button>
@@ -195,8 +462,41 @@ export const ReportView: React.FC<ReportViewProps> = ({ report, onReset }) => {
             className="hidden sm:flex px-4 py-2 bg-white/5 hover:bg-white/10 text-white rounded-lg text-sm font-medium border border-white/10 items-center gap-2 transition-all"
           >
             <Icons.Download size={16} />
-            Export PDF
+            {t.exportPdf}
           </button>
+          <div className="relative hidden sm:block">
+            <button 
+              onClick={() => setIsExportMenuOpen(!isExportMenuOpen)}
+              className="flex px-3 py-2 bg-white/5 hover:bg-white/10 text-white rounded-lg text-sm font-medium border border-white/10 items-center gap-1 transition-all"
+              title={t.exportData}
+            >
+              <Icons.File size={16} />
+              <Icons.ChevronDown size={14} className={`transition-transform ${isExportMenuOpen ? 'rotate-180' : ''}`} />
+            </button>
+            {isExportMenuOpen && (
+              <div className="absolute right-0 mt-2 w-48 glass-panel rounded-xl py-2 shadow-2xl animate-fade-in">
+                <button onClick={() => handleStructuredExport('markdown')} className="w-full text-left px-4 py-2 text-sm text-slate-300 hover:bg-white/5 hover:text-white">
+                  {t.exportMarkdownFile}
+                </button>
+                <button onClick={() => handleStructuredExport('json')} className="w-full text-left px-4 py-2 text-sm text-slate-300 hover:bg-white/5 hover:text-white">
+                  {t.exportJsonFile}
+                </button>
+                <button 
+                  onClick={() => handleStructuredExport('csv')} 
+                  disabled={!hasChartsOrTables}
+                  className="w-full text-left px-4 py-2 text-sm text-slate-300 hover:bg-white/5 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  {t.exportCsvFiles}
+                </button>
+                {annotations.length > 0 && (
+                  <label className="flex items-center gap-2 px-4 pt-2 mt-1 border-t border-white/5 text-xs text-slate-400 cursor-pointer">
+                    <input type="checkbox" checked={showAnnotations} onChange={e => setShowAnnotations(e.target.checked)} className="accent-violet-500" />
+                    {t.includeAnnotations}
+                  </label>
+                )}
+              </div>
+            )}
+          </div>
         </div>
       </nav>
 
@@ -208,7 +508,7 @@ export const ReportView: React.FC<ReportViewProps> = ({ report, onReset }) => {
             <div className="sticky top-28 space-y-8">
               <div className="glass-panel p-5 rounded-xl">
                 <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-4">
-                  {searchQuery ? 'Matching Sections' : 'Table of Contents'}
+                  {searchQuery ? t.matchingSections : t.tableOfContents}
                 </h3>
                 <ul className="space-y-1">
                   {filteredSections.map((section) => (
@@ -226,7 +526,7 @@ export const ReportView: React.FC<ReportViewProps> = ({ report, onReset }) => {
                     </li>
                   ))}
                   {filteredSections.length === 0 && (
-                    <li className="text-slate-500 text-sm italic px-3">No matching sections found.</li>
+                    <li className="text-slate-500 text-sm italic px-3">{t.noMatchingSections}</li>
                   )}
                 </ul>
               </div>
@@ -235,7 +535,7 @@ export const ReportView: React.FC<ReportViewProps> = ({ report, onReset }) => {
               {report.sources && report.sources.length > 0 && !searchQuery && (
                 <div className="p-5">
                    <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-4 flex items-center gap-2">
-                     <Icons.Link size={12}/> Sources
+                     <Icons.Link size={12}/> {t.sources}
                    </h3>
                    <ul className="space-y-3">
                      {report.sources.slice(0, 3).map((s, i) => (
@@ -246,39 +546,131 @@ export const ReportView: React.FC<ReportViewProps> = ({ report, onReset }) => {
                        </li>
                      ))}
                    </ul>
+                   {report.sources.length > 3 && (
+                     <button
+                       onClick={() => document.getElementById('bibliography')?.scrollIntoView({ behavior: 'smooth' })}
+                       className="mt-3 text-xs text-slate-500 hover:text-slate-300"
+                     >
+                       {t.viewAllSources(report.sources.length)}
+                     </button>
+                   )}
                 </div>
               )}
             </div>
           </aside>
 
+          {/* Edit mode replaces the report body until saved or cancelled */}
+          {isEditing && onUpdateReport && (
+            <main lang={contentLanguage} className="lg:col-span-9">
+              <ReportEditor
+                report={report}
+                onSave={(edited) => {
+                  onUpdateReport(edited);
+                  setIsEditing(false);
+                }}
+                onCancel={() => setIsEditing(false)}
+                language={language}
+              />
+            </main>
+          )}
+
           {/* Main Content */}
-          <main className="lg:col-span-9 space-y-8">
+          <main lang={contentLanguage} onMouseUp={handleSelection} className={`lg:col-span-9 space-y-8 ${isEditing ? 'hidden' : ''}`}>
             
             {/* Header Section (Hide if searching to focus on results) */}
             {!searchQuery && (
-              <div className="animate-slide-up print:animate-none">
+              <div id={SUMMARY_ANCHOR} className="animate-slide-up print:animate-none">
                 <div className="flex items-center gap-2 text-violet-400 text-sm font-medium mb-2 print:text-gray-600">
-                  <span className="bg-violet-500/10 px-2 py-1 rounded border border-violet-500/20 print:border-gray-400 print:bg-transparent">Analysis Report</span>
+                  <span className="bg-violet-500/10 px-2 py-1 rounded border border-violet-500/20 print:border-gray-400 print:bg-transparent">{t.analysisReport}</span>
                   <span className="text-slate-500">•</span>
                   <span>{report.date}</span>
+                  {(report.version ?? 1) > 1 && (
+                    <>
+                      <span className="text-slate-500">•</span>
+                      <span>{t.version(report.version!)}</span>
+                    </>
+                  )}
+                  {cachedAt && (
+                    <>
+                      <span className="text-slate-500">•</span>
+                      <span className="flex items-center gap-1 text-amber-300/90 print:text-gray-600" title={new Date(cachedAt).toLocaleString(LANGUAGES[language].locale)}>
+                        <Icons.Clock size={14} /> {t.cached(formatAge(cachedAt, LANGUAGES[language].locale))}
+                      </span>
+                      {onRefresh && (
+                        <button onClick={onRefresh} className="text-cyan-400 hover:text-cyan-300 text-xs underline underline-offset-2 no-print">
+                          {t.forceRefresh}
+                        </button>
+                      )}
+                    </>
+                  )}
+                  {contentLanguage !== DEFAULT_LANGUAGE && (
+                    <>
+                      <span className="text-slate-500">•</span>
+                      <span lang={contentLanguage}>{LANGUAGES[contentLanguage].nativeName}</span>
+                    </>
+                  )}
+                  {report.editedAt && (
+                    <>
+                      <span className="text-slate-500">•</span>
+                      <span
+                        className="flex items-center gap-1 text-emerald-300/90 print:text-gray-600"
+                        title={new Date(report.editedAt).toLocaleString(`${LANGUAGES[language].locale}-u-nu-latn`)}
+                      >
+                        <Icons.Edit size={14} /> {t.editedByAnalyst}
+                      </span>
+                    </>
+                  )}
+                  {report.translatedFrom && (
+                    <span className="text-slate-500 text-xs">
+                      ({t.translatedFrom(LANGUAGES[report.translatedFrom.language].nativeName)})
+                    </span>
+                  )}
                 </div>
                 <h1 className="text-4xl md:text-5xl font-display font-bold text-white leading-tight mb-6 print:text-black">
                   {report.title}
                 </h1>
-                <p className="text-lg text-slate-300 leading-relaxed border-l-4 border-violet-500 pl-6 italic print:text-gray-800 print:border-gray-400">
-                  {report.executiveSummary}
-                </p>
+                <div className={summaryMargin ? MARGIN_LAYOUT : undefined}>
+                  <div>
+                    <p
+                      data-annotation-field={citationField.summary}
+                      className="text-lg text-slate-300 leading-relaxed border-l-4 border-violet-500 pl-6 italic print:text-gray-800 print:border-gray-400"
+                    >
+                      <CitedText
+                        text={report.executiveSummary}
+                        citations={citationsFor(report, citationField.summary)}
+                        annotations={visibleAnnotations(citationField.summary)}
+                        language={language}
+                      />
+                    </p>
+                    <FactCheckNotice result={factCheckFor(factChecks, citationField.summary)} language={language} />
+                  </div>
+                  {summaryMargin}
+                </div>
               </div>
             )}
 
+            {/* Version Timeline (Hide if searching) */}
+            {!searchQuery && versions.length > 1 && onSelectVersion && (
+              <VersionTimeline versions={versions} current={report} onSelect={onSelectVersion} language={language} />
+            )}
+
             {/* Key Insights Grid (Hide if searching) */}
             {!searchQuery && (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 animate-slide-up print:grid-cols-2" style={{ animationDelay: '0.1s' }}>
+              <div id={INSIGHTS_ANCHOR} className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 animate-slide-up print:grid-cols-2" style={{ animationDelay: '0.1s' }}>
                 {report.keyInsights.map((insight, idx) => (
-                  <InsightCard key={idx} insight={insight} />
+                  <InsightCard
+                    key={idx}
+                    insight={insight}
+                    citations={citationsFor(report, citationField.insight(idx))}
+                    factCheck={factCheckFor(factChecks, citationField.insight(idx))}
+                    annotations={visibleAnnotations(citationField.insight(idx))}
+                    field={citationField.insight(idx)}
+                    language={language}
+                  />
                 ))}
               </div>
             )}
+            {!searchQuery && marginFor(report.keyInsights.map((_, idx) => citationField.insight(idx)))}
 
             {/* Dynamic Sections */}
             <div className="space-y-4 animate-slide-up print:animate-none" style={{ animationDelay: '0.2s' }}>
@@ -288,33 +680,46 @@ export const ReportView: React.FC<ReportViewProps> = ({ report, onReset }) => {
                     key={section.id} 
                     section={section} 
                     forceExpand={!!searchQuery} // Force expand if searching so user can see matches
+                    citations={report.citations?.length ? citationsFor(report, citationField.section(section.id)) : undefined}
+                    simulation={simulationFor(section.id)}
+                    factCheck={factCheckFor(factChecks, citationField.section(section.id))}
+                    annotations={visibleAnnotations(citationField.section(section.id))}
+                    margin={marginFor([citationField.section(section.id)], citationField.section(section.id))}
+                    language={language}
                   />
                 ))
               ) : (
                 <div className="text-center py-20 bg-white/5 rounded-2xl border border-white/5 border-dashed no-print">
                   <Icons.Search className="w-12 h-12 text-slate-600 mx-auto mb-4" />
-                  <p className="text-slate-400 text-lg">No content matches "{searchQuery}"</p>
-                  <button onClick={() => setSearchQuery('')} className="mt-4 text-violet-400 hover:text-violet-300 text-sm font-medium">Clear Search</button>
+                  <p className="text-slate-400 text-lg">{t.noContentMatches(searchQuery)}</p>
+                  <button onClick={() => setSearchQuery('')} className="mt-4 text-violet-400 hover:text-violet-300 text-sm font-medium">{t.clearSearch}</button>
                 </div>
               )}
             </div>
 
+            {/* Analyst review summary (Hide if searching) */}
+            {showAnnotations && !searchQuery && <ReviewPanel report={report} language={language} />}
+
+            {/* Full Bibliography */}
+            {report.sources && report.sources.length > 0 && !searchQuery && (
+              <Bibliography sources={report.sources} citations={report.citations || []} language={language} />
+            )}
+
             {/* Conclusion Footer within report */}
             <div className="bg-gradient-to-br from-slate-800 to-slate-900 rounded-2xl p-8 border border-white/5 mt-12 text-center no-print">
               <Icons.Book className="w-12 h-12 text-violet-500 mx-auto mb-4" />
-              <h3 className="text-xl font-display font-bold text-white mb-2">End of Report</h3>
+              <h3 className="text-xl font-display font-bold text-white mb-2">{t.endOfReport}</h3>
               <p className="text-slate-400 max-w-lg mx-auto mb-6">
-                This analysis was generated using AI and grounded in real-time data search. 
-                Political dynamics are fluid; consider this a snapshot in time.
+                {t.endOfReportNote}
               </p>
               <button onClick={onReset} className="px-6 py-3 bg-violet-600 hover:bg-violet-700 text-white rounded-xl font-medium transition-colors">
-                Start New Analysis
+                {t.startNewAnalysis}
               </button>
             </div>
 
             {/* Print Footer */}
             <div className="hidden print:block mt-12 pt-8 border-t border-gray-200 text-center text-sm text-gray-500">
-              <p>Generated by PolitiSight India • Powered by Google Gemini</p>
+              <p>{t.printFooter}</p>
             </div>
 
           </main>
@@ -0,0 +1,169 @@
+import React, { useMemo, useState } from 'react';
+import { Language, ReportSection, SavedScenario, ScenarioConfig, SeatModel } from '../types';
+import { AnalysisBarChart, AnalysisPieChart } from './Charts';
+import { Icons } from './Icons';
+import { baselineShares, runScenario, DEFAULT_SCENARIO_CONFIG, MAX_SWING } from '../services/seatSimulator';
+import { DEFAULT_LANGUAGE } from '../services/languages';
+import { UI_STRINGS } from '../services/uiStrings';
+
+interface ScenarioSimulatorProps {
+  section: ReportSection;
+  scenarios: SavedScenario[];
+  onSave: (scenario: SavedScenario) => void;
+  onDelete: (id: string) => void;
+  language?: Language;
+}
+
+const SEAT_MODELS: SeatModel[] = ['uniform-swing', 'cube-law'];
+
+export const ScenarioSimulator: React.FC<ScenarioSimulatorProps> = ({ section, scenarios, onSave, onDelete, language = DEFAULT_LANGUAGE }) => {
+  const t = UI_STRINGS[language];
+  const data = section.chartData!;
+  const parties = useMemo(() => baselineShares(data), [data]);
+  const [swings, setSwings] = useState<Record<string, number>>({});
+  const [config, setConfig] = useState<ScenarioConfig>(DEFAULT_SCENARIO_CONFIG);
+  const [name, setName] = useState('');
+
+  const result = useMemo(() => runScenario(data, swings, config), [data, swings, config]);
+
+  const updateConfig = (patch: Partial<ScenarioConfig>) => setConfig(prev => ({ ...prev, ...patch }));
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSave({
+      id: crypto.randomUUID(),
+      name: name.trim(),
+      sectionId: section.id,
+      swings,
+      config,
+      createdAt: Date.now()
+    });
+    setName('');
+  };
+
+  const loadScenario = (scenario: SavedScenario) => {
+    setSwings(scenario.swings);
+    setConfig(scenario.config);
+  };
+
+  return (
+    <div className="glass-panel rounded-2xl p-6 my-6 no-print animate-fade-in">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="font-display font-bold text-white flex items-center gap-2">
+          <Icons.Activity size={18} className="text-violet-400" /> {t.scenarioSimulator}
+        </h3>
+        <button onClick={() => setSwings({})} className="text-xs text-slate-400 hover:text-white">{t.resetSwings}</button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {/* Controls */}
+        <div className="space-y-5">
+          <div className="grid grid-cols-2 gap-3 text-xs">
+            <label className="text-slate-400">
+              {t.seatModel}
+              <select
+                value={config.model}
+                onChange={e => updateConfig({ model: e.target.value as SeatModel })}
+                className="mt-1 w-full bg-slate-800 border border-white/10 rounded-lg px-2 py-1.5 text-white"
+              >
+                {SEAT_MODELS.map(m => <option key={m} value={m}>{t.seatModels[m]}</option>)}
+              </select>
+            </label>
+            <label className="text-slate-400">
+              {t.houseSize}
+              <input
+                type="number"
+                min={1}
+                max={1000}
+                value={config.totalSeats}
+                onChange={e => updateConfig({ totalSeats: Math.max(1, Math.min(1000, Number(e.target.value) || 1)) })}
+                className="mt-1 w-full bg-slate-800 border border-white/10 rounded-lg px-2 py-1.5 text-white"
+              />
+            </label>
+            {config.model === 'cube-law' ? (
+              <label className="text-slate-400 col-span-2">
+                {t.exponent}: <span className="font-mono text-white">{config.exponent.toFixed(1)}</span>
+                <input type="range" min={1} max={5} step={0.1} value={config.exponent}
+                  onChange={e => updateConfig({ exponent: Number(e.target.value) })}
+                  className="w-full accent-violet-500" />
+              </label>
+            ) : (
+              <label className="text-slate-400 col-span-2">
+                {t.constituencySpread}: <span className="font-mono text-white">{t.points(`±${config.dispersion}`)}</span>
+                <input type="range" min={1} max={20} step={1} value={config.dispersion}
+                  onChange={e => updateConfig({ dispersion: Number(e.target.value) })}
+                  className="w-full accent-violet-500" />
+              </label>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            {parties.map(p => {
+              const swing = swings[p.party] || 0;
+              return (
+                <div key={p.party}>
+                  <div className="flex justify-between text-xs mb-1">
+                    <span className="text-slate-300">{p.party} <span className="text-slate-500">({p.share.toFixed(1)}%)</span></span>
+                    <span className={`font-mono ${swing > 0 ? 'text-emerald-400' : swing < 0 ? 'text-red-400' : 'text-slate-500'}`}>
+                      {t.points(`${swing > 0 ? '+' : ''}${swing.toFixed(1)}`)}
+                    </span>
+                  </div>
+                  <input
+                    type="range"
+                    min={-MAX_SWING}
+                    max={MAX_SWING}
+                    step={0.5}
+                    value={swing}
+                    onChange={e => setSwings(prev => ({ ...prev, [p.party]: Number(e.target.value) }))}
+                    className="w-full accent-violet-500"
+                  />
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Saved scenarios */}
+          <div className="pt-4 border-t border-white/5">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleSave()}
+                placeholder={t.nameScenario}
+                className="flex-1 bg-slate-800 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white placeholder-slate-500 focus:outline-none focus:ring-1 focus:ring-violet-500"
+              />
+              <button
+                onClick={handleSave}
+                disabled={!name.trim()}
+                className="px-3 py-1.5 bg-violet-600 hover:bg-violet-700 text-white rounded-lg text-sm disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                {t.save}
+              </button>
+            </div>
+            {scenarios.length > 0 && (
+              <ul className="mt-3 space-y-1">
+                {scenarios.map(s => (
+                  <li key={s.id} className="flex items-center justify-between text-sm">
+                    <button onClick={() => loadScenario(s)} className="text-cyan-400 hover:text-cyan-300 text-left truncate">
+                      {s.name} <span className="text-slate-500 text-xs">· {t.seatModels[s.config.model]}</span>
+                    </button>
+                    <button onClick={() => onDelete(s.id)} className="text-slate-600 hover:text-red-400 p-1" title={t.deleteScenario}>
+                      <Icons.Trash size={14} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        {/* Live projections */}
+        <div>
+          <AnalysisPieChart data={result.shares} config={{ title: t.projectedVoteShare }} language={language} />
+          <AnalysisBarChart data={result.seats} config={{ title: t.projectedSeats(config.totalSeats) }} language={language} />
+        </div>
+      </div>
+    </div>
+  );
+};
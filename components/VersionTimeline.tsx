@@ -0,0 +1,142 @@
+import React, { useMemo, useState } from 'react';
+import { Language, Report } from '../types';
+import { Icons } from './Icons';
+import { diffVersions, SectionChange, TextDiffPart } from '../services/reportVersions';
+import { DEFAULT_LANGUAGE, LANGUAGES } from '../services/languages';
+import { UI_STRINGS, UiStrings } from '../services/uiStrings';
+
+interface VersionTimelineProps {
+  versions: Report[]; // Oldest first
+  current: Report;
+  onSelect: (report: Report) => void;
+  language?: Language;
+}
+
+const STATUS_STYLES: Record<SectionChange['status'], string> = {
+  added: 'text-emerald-300 bg-emerald-500/10 border-emerald-500/20',
+  removed: 'text-red-300 bg-red-500/10 border-red-500/20',
+  changed: 'text-amber-300 bg-amber-500/10 border-amber-500/20',
+  unchanged: 'text-slate-500 bg-white/5 border-white/5'
+};
+
+const formatDelta = (delta: number | null) =>
+  delta === null ? '—' : `${delta > 0 ? '+' : ''}${Number(delta.toFixed(2)).toLocaleString()}`;
+
+const TextDiff = ({ parts }: { parts: TextDiffPart[] }) => (
+  <p className="text-sm text-slate-400 leading-relaxed whitespace-pre-wrap">
+    {parts.map((part, i) =>
+      part.kind === 'added' ? <ins key={i} className="bg-emerald-500/20 text-emerald-200 no-underline">{part.text}</ins> :
+      part.kind === 'removed' ? <del key={i} className="bg-red-500/20 text-red-300">{part.text}</del> :
+      <span key={i}>{part.text}</span>
+    )}
+  </p>
+);
+
+const SectionChangeRow = ({ change, t }: { change: SectionChange, t: UiStrings }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const hasDetail = !!change.textDiff || !!change.chartDeltas;
+
+  return (
+    <li className="py-2">
+      <button
+        onClick={() => hasDetail && setIsOpen(!isOpen)}
+        className={`w-full flex items-center justify-between text-left text-sm ${hasDetail ? 'cursor-pointer' : 'cursor-default'}`}
+      >
+        <span className="text-slate-300">{change.title}</span>
+        <span className="flex items-center gap-2">
+          <span className={`text-[10px] uppercase tracking-wider px-2 py-0.5 rounded border ${STATUS_STYLES[change.status]}`}>{t.sectionChanges[change.status]}</span>
+          {hasDetail && <Icons.ChevronDown size={14} className={`text-slate-500 transition-transform ${isOpen ? 'rotate-180' : ''}`} />}
+        </span>
+      </button>
+      {isOpen && (
+        <div className="mt-3 space-y-3 animate-fade-in">
+          {change.chartDeltas && (
+            <table className="w-full text-xs font-mono">
+              <thead>
+                <tr className="text-slate-500 text-left">
+                  <th className="font-normal py-1">{t.item}</th>
+                  <th className="font-normal py-1 text-right">{t.before}</th>
+                  <th className="font-normal py-1 text-right">{t.after}</th>
+                  <th className="font-normal py-1 text-right">Δ</th>
+                </tr>
+              </thead>
+              <tbody>
+                {change.chartDeltas.map(d => (
+                  <tr key={d.name} className="border-t border-white/5 text-slate-300">
+                    <td className="py-1">{d.name}</td>
+                    <td className="py-1 text-right">{d.before?.toLocaleString() ?? '—'}</td>
+                    <td className="py-1 text-right">{d.after?.toLocaleString() ?? '—'}</td>
+                    <td className={`py-1 text-right ${d.delta && d.delta > 0 ? 'text-emerald-400' : d.delta && d.delta < 0 ? 'text-red-400' : ''}`}>
+                      {formatDelta(d.delta)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {change.textDiff && <TextDiff parts={change.textDiff} />}
+        </div>
+      )}
+    </li>
+  );
+};
+
+export const VersionTimeline: React.FC<VersionTimelineProps> = ({ versions, current, onSelect, language = DEFAULT_LANGUAGE }) => {
+  const t = UI_STRINGS[language];
+  const index = versions.findIndex(v => v.id === current.id);
+  const previous = index > 0 ? versions[index - 1] : undefined;
+  const diff = useMemo(() => previous ? diffVersions(previous, current) : null, [previous, current]);
+
+  return (
+    <div className="glass-panel rounded-2xl p-6 no-print">
+      <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-4 flex items-center gap-2">
+        <Icons.History size={12} /> {t.versionHistory}
+      </h3>
+
+      <ol className="flex flex-wrap gap-2 mb-2">
+        {versions.map(v => (
+          <li key={v.id}>
+            <button
+              onClick={() => onSelect(v)}
+              className={`px-3 py-1.5 rounded-lg text-xs border transition-colors ${
+                v.id === current.id
+                  ? 'bg-violet-500/10 text-violet-300 border-violet-500'
+                  : 'text-slate-400 border-white/10 hover:text-white hover:bg-white/5'
+              }`}
+            >
+              <span className="font-bold">v{v.version ?? 1}</span>
+              <span className="ml-2 text-slate-500">{new Date(v.createdAt).toLocaleDateString(`${LANGUAGES[language].locale}-u-nu-latn`, { day: 'numeric', month: 'short', year: 'numeric' })}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      {diff && previous && (
+        <div className="mt-4 pt-4 border-t border-white/5 space-y-4">
+          <p className="text-sm text-slate-400">{t.changesSince(previous.version ?? 1)}</p>
+
+          {(diff.insightsAdded.length > 0 || diff.insightsRemoved.length > 0 || diff.insightsChanged.length > 0) && (
+            <ul className="space-y-1 text-sm">
+              {diff.insightsAdded.map((insight, i) => (
+                <li key={`a-${i}`} className="text-emerald-300">+ {insight.value && <b>{insight.value} </b>}{insight.text}</li>
+              ))}
+              {diff.insightsRemoved.map((insight, i) => (
+                <li key={`r-${i}`} className="text-red-300 line-through">− {insight.value && <b>{insight.value} </b>}{insight.text}</li>
+              ))}
+              {diff.insightsChanged.map((change, i) => (
+                <li key={`c-${i}`} className="text-amber-200">
+                  ~ {change.right!.text}: <span className="font-mono">{change.left!.value ?? '—'} → {change.right!.value ?? '—'}</span>
+                  {change.delta !== null && <span className="font-mono text-slate-500"> ({formatDelta(change.delta)})</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <ul className="divide-y divide-white/5">
+            {diff.sections.map((change, i) => <SectionChangeRow key={i} change={change} t={t} />)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
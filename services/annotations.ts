@@ -0,0 +1,125 @@
+import type { ElementContent, Parent, Root } from 'hast';
+import { Annotation, AnnotationStatus, Language, Report } from '../types';
+import { citationField } from './citations';
+import { DEFAULT_LANGUAGE } from './languages';
+import { UI_STRINGS } from './uiStrings';
+
+export const ANNOTATION_STATUSES: Record<AnnotationStatus, { color: string }> = {
+  comment: { color: '#8B5CF6' },
+  verified: { color: '#10B981' },
+  disputed: { color: '#EF4444' },
+  'needs-source': { color: '#F59E0B' }
+};
+
+export const ANNOTATION_STATUS_ORDER: AnnotationStatus[] = ['comment', 'verified', 'disputed', 'needs-source'];
+
+// Shorter selections are usually stray clicks
+export const MIN_QUOTE_LENGTH = 3;
+
+export interface AnnotationRange {
+  start: number;
+  end: number;
+  annotation: Annotation;
+}
+
+export const newAnnotation = (field: string, status: AnnotationStatus, comment: string, quote?: string): Annotation => ({
+  id: crypto.randomUUID(),
+  field,
+  quote,
+  status,
+  comment: comment.trim(),
+  createdAt: Date.now()
+});
+
+export const annotationsFor = (report: Report, field: string) =>
+  (report.annotations || []).filter(a => a.field === field);
+
+// Fields in reading order: summary, insights, then sections
+export const annotationFields = (report: Report) => [
+  citationField.summary,
+  ...report.keyInsights.map((_, i) => citationField.insight(i)),
+  ...report.sections.map(s => citationField.section(s.id))
+];
+
+const fieldText = (report: Report, field: string): string | undefined => {
+  if (field === citationField.summary) return report.executiveSummary;
+  if (field.startsWith('insight:')) return report.keyInsights[Number(field.slice(8))]?.text;
+  return report.sections.find(s => citationField.section(s.id) === field)?.content;
+};
+
+export const fieldLabel = (report: Report, field: string, language: Language = DEFAULT_LANGUAGE) => {
+  const t = UI_STRINGS[language];
+  if (field === citationField.summary) return t.executiveSummary;
+  if (field.startsWith('insight:')) return t.keyInsight(Number(field.slice(8)) + 1);
+  return report.sections.find(s => citationField.section(s.id) === field)?.title ?? t.removedSection;
+};
+
+export const annotationAnchorId = (id: string) => `annotation-${id}`;
+
+// Selections come from rendered text, so compare against the field with Markdown syntax removed
+const plainText = (text: string) =>
+  text.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1').replace(/[*_`#>]/g, '').replace(/\s+/g, ' ');
+
+// True when the quoted text is no longer in its field, e.g. after the field was edited or removed
+export const isDetached = (report: Report, annotation: Annotation) => {
+  if (!annotation.quote) return false;
+  const text = fieldText(report, annotation.field);
+  return text === undefined || !plainText(text).includes(plainText(annotation.quote).trim());
+};
+
+// Earlier annotations win where quotes overlap
+const byCreation = (annotations: Annotation[]) =>
+  annotations.filter(a => a.quote).sort((a, b) => a.createdAt - b.createdAt);
+
+// Highlight ranges in a plain-text field, sorted by position and never overlapping
+export const locateAnnotations = (text: string, annotations: Annotation[]): AnnotationRange[] => {
+  const ranges: AnnotationRange[] = [];
+  byCreation(annotations).forEach(annotation => {
+    const start = text.indexOf(annotation.quote!);
+    if (start === -1) return;
+    const end = start + annotation.quote!.length;
+    if (ranges.some(r => start < r.end && end > r.start)) return;
+    ranges.push({ start, end, annotation });
+  });
+  return ranges.sort((a, b) => a.start - b.start);
+};
+
+// Rehype plugin wrapping each quote in <mark data-annotation="id">. Matches within a single text node,
+// so a quote spanning bold text or a link stays unhighlighted but keeps its margin entry.
+export const rehypeAnnotations = (annotations: Annotation[]) => () => (tree: Root) => {
+  const pending = byCreation(annotations);
+
+  const split = (value: string): ElementContent[] => {
+    const annotation = pending.find(a => value.includes(a.quote!));
+    if (!annotation) return value ? [{ type: 'text', value }] : [];
+    pending.splice(pending.indexOf(annotation), 1);
+    const start = value.indexOf(annotation.quote!);
+    const end = start + annotation.quote!.length;
+    return [
+      ...split(value.slice(0, start)),
+      {
+        type: 'element',
+        tagName: 'mark',
+        properties: { dataAnnotation: annotation.id },
+        children: [{ type: 'text', value: value.slice(start, end) }]
+      },
+      ...split(value.slice(end))
+    ];
+  };
+
+  const visit = (node: Parent) => {
+    node.children = node.children.flatMap<Parent['children'][number]>(child => {
+      if (child.type === 'text') return split(child.value);
+      if (child.type === 'element' && child.tagName !== 'a') visit(child);
+      return [child];
+    });
+  };
+  visit(tree);
+};
+
+export const reviewCounts = (annotations: Annotation[]) => {
+  const counts: Record<AnnotationStatus, number> = { comment: 0, verified: 0, disputed: 0, 'needs-source': 0 };
+  let notes = 0;
+  annotations.forEach(a => a.quote ? counts[a.status]++ : notes++);
+  return { ...counts, notes };
+};
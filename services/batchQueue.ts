@@ -0,0 +1,141 @@
+import { BatchJob, GenerationProgress, Report } from '../types';
+import { toTopicKey } from './reportVersions';
+import { QuotaError, classifyError } from './reportErrors';
+
+export const BATCH_CONCURRENCY = 2;
+const MAX_ATTEMPTS = 4;
+const BACKOFF_BASE_MS = 5000;
+const BACKOFF_MAX_MS = 60000;
+
+export interface BatchQueueOptions {
+  concurrency: number;
+  generate: (topic: string, signal: AbortSignal, onProgress: (progress: GenerationProgress) => void) => Promise<Report>;
+  onChange: (jobs: BatchJob[]) => void;
+  onComplete: (report: Report, topic: string) => void;
+}
+
+export interface BatchQueue {
+  add: (topics: string[]) => void;
+  cancel: (id: string) => void;
+  cancelAll: () => void;
+  retry: (id: string) => void;
+  clearFinished: () => void;
+}
+
+// Exponential backoff with jitter, so parallel jobs do not retry in lockstep
+const backoffDelay = (attempt: number) =>
+  Math.min(BACKOFF_BASE_MS * 2 ** (attempt - 1), BACKOFF_MAX_MS) * (0.75 + Math.random() * 0.5);
+
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+const isActive = (job: BatchJob) => job.status === 'running' || job.status === 'waiting';
+const isPending = (job: BatchJob) => job.status === 'queued' || isActive(job);
+
+export const createBatchQueue = ({ concurrency, generate, onChange, onComplete }: BatchQueueOptions): BatchQueue => {
+  let jobs: BatchJob[] = [];
+  const controllers = new Map<string, AbortController>();
+
+  const update = (id: string, patch: Partial<BatchJob>) => {
+    jobs = jobs.map(job => job.id === id ? { ...job, ...patch } : job);
+    onChange(jobs);
+  };
+
+  const run = async (job: BatchJob) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      update(job.id, { status: 'running', attempts: attempt, retryAt: undefined, error: undefined });
+      try {
+        const report = await generate(job.topic, controller.signal, progress => {
+          if (!controller.signal.aborted) update(job.id, { progress });
+        });
+        if (controller.signal.aborted) break;
+        onComplete(report, job.topic);
+        update(job.id, { status: 'done', reportId: report.id, progress: undefined });
+        break;
+      } catch (e) {
+        // cancel() has already marked the job
+        if (controller.signal.aborted) break;
+        // The report service has already retried briefly; a batch can afford to wait much longer
+        const error = classifyError(e);
+        if (error instanceof QuotaError && attempt < MAX_ATTEMPTS) {
+          const delay = backoffDelay(attempt);
+          update(job.id, { status: 'waiting', retryAt: Date.now() + delay, error: "Rate limited by the model API" });
+          try {
+            await wait(delay, controller.signal);
+          } catch {
+            break;
+          }
+          continue;
+        }
+        console.error(`Batch job "${job.topic}" failed`, e);
+        update(job.id, { status: 'failed', progress: undefined, error: error.message });
+        break;
+      }
+    }
+
+    // A retried job may already be running again under a new controller
+    if (controllers.get(job.id) === controller) controllers.delete(job.id);
+    pump();
+  };
+
+  const pump = () => {
+    const free = concurrency - jobs.filter(isActive).length;
+    if (free <= 0) return;
+    jobs.filter(job => job.status === 'queued').slice(0, free).forEach(run);
+  };
+
+  const cancel = (id: string) => {
+    const job = jobs.find(j => j.id === id);
+    if (!job || !isPending(job)) return;
+    update(id, { status: 'cancelled', progress: undefined, retryAt: undefined });
+    controllers.get(id)?.abort();
+    pump();
+  };
+
+  return {
+    add: (topics) => {
+      // Skip topics that are already waiting or running, so one batch does not produce two versions at once
+      const pendingKeys = new Set(jobs.filter(isPending).map(job => toTopicKey(job.topic)));
+      const added: BatchJob[] = [];
+      topics.map(t => t.trim()).filter(Boolean).forEach(topic => {
+        const key = toTopicKey(topic);
+        if (pendingKeys.has(key)) return;
+        pendingKeys.add(key);
+        added.push({ id: crypto.randomUUID(), topic, status: 'queued', attempts: 0 });
+      });
+      if (added.length === 0) return;
+      jobs = [...jobs, ...added];
+      onChange(jobs);
+      pump();
+    },
+
+    cancel,
+
+    cancelAll: () => {
+      // Drop the queued jobs first so cancelling a running one does not start them
+      jobs = jobs.map(job => job.status === 'queued' ? { ...job, status: 'cancelled' } : job);
+      jobs.filter(isActive).forEach(job => cancel(job.id));
+      onChange(jobs);
+    },
+
+    retry: (id) => {
+      const job = jobs.find(j => j.id === id);
+      if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+      update(id, { status: 'queued', attempts: 0, error: undefined });
+      pump();
+    },
+
+    clearFinished: () => {
+      jobs = jobs.filter(isPending);
+      onChange(jobs);
+    }
+  };
+};
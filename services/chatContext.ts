@@ -0,0 +1,154 @@
+import { Report } from '../types';
+import { toCsv } from './reportExport';
+
+// Whole reports up to this size go into the system instruction; longer ones are retrieved per question
+const FULL_CONTEXT_CHARS = 30000;
+const RETRIEVAL_CHARS = 12000;
+const MAX_CHUNK_CHARS = 2000;
+
+// Anchors for the parts of ReportView that are not sections
+export const SUMMARY_ANCHOR = 'report-summary';
+export const INSIGHTS_ANCHOR = 'report-insights';
+export const SOURCES_ANCHOR = 'bibliography';
+
+export interface ReportChunk {
+  anchor: string; // Element id in ReportView, used for citations
+  label: string;
+  text: string;
+}
+
+export interface ChatContext {
+  instruction: string;
+  chunks: ReportChunk[];
+  // Excerpts to send along with a question, when the report is too long to send whole
+  excerptsFor?: (question: string) => string;
+}
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'were', 'what', 'which', 'who', 'how', 'why', 'does', 'did', 'this',
+  'that', 'with', 'from', 'about', 'into', 'than', 'then', 'they', 'their', 'there', 'have', 'has', 'will', 'can', 'report'
+]);
+
+const tokenize = (text: string) =>
+  (text.toLowerCase().match(/[a-z0-9ऀ-෿]+/g) || []).filter(t => t.length > 2 && !STOPWORDS.has(t));
+
+// Splits long markdown at paragraph breaks so each chunk stays retrievable on its own
+const splitText = (text: string) => {
+  const pieces: string[] = [];
+  let current = '';
+  text.split(/\n{2,}/).forEach(paragraph => {
+    if (current && current.length + paragraph.length > MAX_CHUNK_CHARS) {
+      pieces.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  });
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+export const chunkReport = (report: Report): ReportChunk[] => {
+  const chunks: ReportChunk[] = [
+    { anchor: SUMMARY_ANCHOR, label: 'Executive Summary', text: report.executiveSummary },
+    {
+      anchor: INSIGHTS_ANCHOR,
+      label: 'Key Insights',
+      text: report.keyInsights.map(k => `- ${k.text}${k.value ? ` (${k.value})` : ''}`).join('\n')
+    }
+  ];
+
+  report.sections.forEach(section => {
+    splitText(section.content).forEach(text => chunks.push({ anchor: section.id, label: section.title, text }));
+    const hasData = (section.chartData && section.chartData.length > 0) || section.tableData || section.mapData;
+    if (hasData) {
+      const title = section.chartConfig?.title ? `${section.chartConfig.title}\n` : '';
+      chunks.push({ anchor: section.id, label: section.title, text: `Data (CSV):\n${title}${toCsv(section).trim()}` });
+    }
+  });
+
+  if (report.sources?.length) {
+    chunks.push({
+      anchor: SOURCES_ANCHOR,
+      label: 'Sources',
+      text: report.sources.map((s, i) => `[${i + 1}] ${s.title} - ${s.uri}`).join('\n')
+    });
+  }
+  return chunks;
+};
+
+const formatChunks = (chunks: ReportChunk[]) =>
+  chunks.map(c => `### ${c.label} [[${c.anchor}]]\n${c.text}`).join('\n\n');
+
+// Ranks chunks by how many of the question's terms they contain, weighting rare terms higher
+const rankChunks = (chunks: ReportChunk[], question: string) => {
+  const docs = chunks.map(c => tokenize(`${c.label} ${c.text}`));
+  const documentFrequency = new Map<string, number>();
+  docs.forEach(terms => new Set(terms).forEach(t => documentFrequency.set(t, (documentFrequency.get(t) || 0) + 1)));
+
+  const queryTerms = Array.from(new Set(tokenize(question)));
+  return chunks
+    .map((chunk, i) => {
+      const score = queryTerms.reduce((sum, term) => {
+        const tf = docs[i].filter(t => t === term).length;
+        if (tf === 0) return sum;
+        const idf = Math.log(1 + chunks.length / (documentFrequency.get(term) || 1));
+        return sum + (1 + Math.log(tf)) * idf;
+      }, 0);
+      return { chunk, score };
+    })
+    .sort((a, b) => b.score - a.score);
+};
+
+export const retrieveChunks = (chunks: ReportChunk[], question: string, budget = RETRIEVAL_CHARS) => {
+  const picked: ReportChunk[] = [];
+  let used = 0;
+  for (const { chunk, score } of rankChunks(chunks, question)) {
+    if (score === 0 && picked.length > 0) break;
+    if (used + chunk.text.length > budget) continue;
+    picked.push(chunk);
+    used += chunk.text.length;
+  }
+  // Keep report order so excerpts from one section stay together
+  return chunks.filter(c => picked.includes(c));
+};
+
+const CITATION_RULES = `When you use information from the report, cite the part it came from by writing its anchor in double square brackets right after the claim, e.g. [[${SUMMARY_ANCHOR}]]. Only use anchors that appear in the report text you were given. If the report does not cover the question, say so before answering from general knowledge.`;
+
+export const buildChatContext = (report: Report): ChatContext => {
+  const chunks = chunkReport(report);
+  const full = formatChunks(chunks);
+
+  if (full.length <= FULL_CONTEXT_CHARS) {
+    return {
+      chunks,
+      instruction: `User is currently viewing a report titled: "${report.title}". Its full content follows; each part is headed by its anchor.
+
+${full}
+
+${CITATION_RULES}`
+    };
+  }
+
+  // Too long to send whole: send the outline now and the relevant excerpts with each question
+  const outline = Array.from(new Map(chunks.map(c => [c.anchor, c.label])).entries())
+    .map(([anchor, label]) => `- ${label} [[${anchor}]]`)
+    .join('\n');
+  return {
+    chunks,
+    instruction: `User is currently viewing a report titled: "${report.title}".
+Executive Summary: ${report.executiveSummary}
+Report outline:
+${outline}
+
+Excerpts relevant to each question are attached to the user's message.
+${CITATION_RULES}`,
+    excerptsFor: (question) => `Report excerpts for this question:\n\n${formatChunks(retrieveChunks(chunks, question))}`
+  };
+};
+
+// Rewrites [[anchor]] citations as markdown links the chat renders as section chips; unknown anchors are dropped
+export const linkSectionCitations = (text: string, chunks: ReportChunk[]) => {
+  const labels = new Map(chunks.map(c => [c.anchor, c.label]));
+  return text.replace(/\s?\[\[([^\]\s]+)\]\]/g, (_, anchor: string) =>
+    labels.has(anchor) ? ` [${labels.get(anchor)!.replace(/[[\]]/g, '')}](#cite:${anchor})` : '');
+};
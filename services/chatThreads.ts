@@ -0,0 +1,62 @@
+import { ChatMessage, ChatThread, Language, Report } from '../types';
+import { ChatTurn } from './llmProvider';
+import { ExportedFile, slugify } from './reportExport';
+import { describeAction } from './chatTools';
+import { DEFAULT_LANGUAGE, LANGUAGES } from './languages';
+import { UI_STRINGS } from './uiStrings';
+
+const TITLE_LENGTH = 48;
+export const NEW_THREAD_TITLE = 'New chat';
+
+export const newThread = (report: Report | null): ChatThread => ({
+  id: crypto.randomUUID(),
+  title: NEW_THREAD_TITLE,
+  reportId: report?.id,
+  reportTitle: report?.title,
+  messages: [],
+  createdAt: Date.now(),
+  updatedAt: Date.now()
+});
+
+// Untitled threads are named after their first question
+export const titleFromMessage = (text: string) => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > TITLE_LENGTH ? `${clean.slice(0, TITLE_LENGTH - 1)}…` : clean;
+};
+
+const CITATION_LINK = /\[([^\]]+)\]\(#cite:([^)]+)\)/g;
+
+// Turns to replay into a resumed session. Errors are dropped, the history has to open with a user turn,
+// and citation links go back to the [[anchor]] form the model wrote.
+export const seedHistory = (messages: ChatMessage[]): ChatTurn[] => {
+  const turns = messages.filter(m => !m.isError && m.text.trim());
+  const first = turns.findIndex(m => m.role === 'user');
+  return first < 0 ? [] : turns.slice(first).map(m => ({ role: m.role, text: m.text.replace(CITATION_LINK, '[[$2]]') }));
+};
+
+// Section citations are in-app links, so they become plain labels outside the app
+const stripCitationLinks = (text: string) => text.replace(CITATION_LINK, '[$1]');
+
+export const threadToMarkdown = (thread: ChatThread, language: Language = DEFAULT_LANGUAGE): string => {
+  const t = UI_STRINGS[language];
+  const formatDate = (time: number | Date) => new Date(time).toLocaleString(`${LANGUAGES[language].locale}-u-nu-latn`);
+  const lines = [
+    `# ${thread.title}`,
+    '',
+    `_${thread.reportTitle ? t.chatAboutReport(thread.reportTitle) : t.generalChat}_`,
+    `_${t.chatStarted(formatDate(thread.createdAt))}_`,
+    ''
+  ];
+  thread.messages.filter(m => !m.isError).forEach(m => {
+    lines.push(`**${m.role === 'user' ? t.you : t.assistantName}** · ${formatDate(m.timestamp)}`, '');
+    if (m.text.trim()) lines.push(stripCitationLinks(m.text).trim(), '');
+    m.actions?.forEach(action => lines.push(`> ${t.chatAction(describeAction(action, [], language), t.actionStatuses[action.status])}`, ''));
+  });
+  return lines.join('\n');
+};
+
+export const exportThread = (thread: ChatThread, language: Language = DEFAULT_LANGUAGE): ExportedFile => ({
+  filename: `chat-${slugify(thread.title)}.md`,
+  content: threadToMarkdown(thread, language),
+  mimeType: 'text/markdown'
+});
@@ -0,0 +1,157 @@
+import { ChartConfig, ChartDataPoint, ChatAction, Language, Report, SectionType } from '../types';
+import { ChatToolCall, ChatToolDeclaration, ChatToolResult } from './llmProvider';
+import { ReportChunk } from './chatContext';
+import { DEFAULT_LANGUAGE } from './languages';
+import { UI_STRINGS } from './uiStrings';
+
+export type ChatToolName = 'generate_report' | 'open_report' | 'scroll_to_section' | 'show_chart';
+
+const MAX_CHART_POINTS = 24;
+const MAX_LISTED_REPORTS = 20;
+
+export const CHAT_TOOLS: ChatToolDeclaration[] = [
+  {
+    name: 'generate_report',
+    description: 'Research and generate a new analysis report on a topic in Indian politics. Leaves the chat for the report.',
+    parameters: {
+      type: 'object',
+      properties: {
+        topic: { type: 'string', description: 'Topic to research, phrased like a search, e.g. "Bihar Assembly Election 2025"' }
+      },
+      required: ['topic']
+    }
+  },
+  {
+    name: 'open_report',
+    description: 'Open a report the user has already generated. Only use ids from the saved reports list.',
+    parameters: {
+      type: 'object',
+      properties: {
+        reportId: { type: 'string', description: 'Id of the saved report' }
+      },
+      required: ['reportId']
+    }
+  },
+  {
+    name: 'scroll_to_section',
+    description: 'Scroll the open report to one of its parts. Only use anchors that appear in the report text.',
+    parameters: {
+      type: 'object',
+      properties: {
+        anchor: { type: 'string', description: 'Anchor of the part, as written in [[anchor]]' }
+      },
+      required: ['anchor']
+    }
+  },
+  {
+    name: 'show_chart',
+    description: 'Draw a small chart inside the chat to illustrate figures from the conversation.',
+    parameters: {
+      type: 'object',
+      properties: {
+        chartType: { type: 'string', enum: [SectionType.BAR_CHART, SectionType.PIE_CHART, SectionType.LINE_CHART] },
+        title: { type: 'string' },
+        xLabel: { type: 'string' },
+        yLabel: { type: 'string' },
+        data: {
+          type: 'array',
+          description: `Up to ${MAX_CHART_POINTS} points, in display order`,
+          items: {
+            type: 'object',
+            properties: { name: { type: 'string' }, value: { type: 'number' } },
+            required: ['name', 'value']
+          }
+        }
+      },
+      required: ['chartType', 'title', 'data']
+    }
+  }
+];
+
+export const TOOL_GUIDANCE = `You can act in the app with tools: generate a report, open a saved report, scroll the open report to a section, or draw a chart in the chat. Only call a tool when it clearly helps with what the user asked. The user sees each call and must confirm it, so if one is declined, do not repeat it unless asked.`;
+
+// Saved reports with ids, so open_report can name them
+export const savedReportsContext = (history: Report[]) => {
+  if (history.length === 0) return '';
+  const lines = history.slice(0, MAX_LISTED_REPORTS).map(r => `- ${r.id}: ${r.title}`);
+  return `Saved reports (id: title):\n${lines.join('\n')}`;
+};
+
+export interface InlineChart {
+  type: SectionType.BAR_CHART | SectionType.PIE_CHART | SectionType.LINE_CHART;
+  data: ChartDataPoint[];
+  config: ChartConfig;
+}
+
+const CHART_TYPES: InlineChart['type'][] = [SectionType.BAR_CHART, SectionType.PIE_CHART, SectionType.LINE_CHART];
+
+const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+export const toInlineChart = (args: Record<string, unknown>): InlineChart | null => {
+  const type = CHART_TYPES.find(t => t === args.chartType);
+  if (!type || !Array.isArray(args.data)) return null;
+  const data = args.data
+    .map((point: any) => ({ name: text(point?.name), value: Number(point?.value) }))
+    .filter(point => point.name && Number.isFinite(point.value))
+    .slice(0, MAX_CHART_POINTS);
+  if (data.length === 0) return null;
+  return {
+    type,
+    data,
+    config: { title: text(args.title) || undefined, xLabel: text(args.xLabel) || undefined, yLabel: text(args.yLabel) || undefined }
+  };
+};
+
+export interface ActionContext {
+  currentReport: Report | null;
+  history: Report[];
+  chunks: ReportChunk[]; // Parts of the report the chat was given
+}
+
+// Why a call cannot run, checked before the user is asked to confirm it
+const checkCall = (call: ChatToolCall, ctx: ActionContext): string | null => {
+  switch (call.name as ChatToolName) {
+    case 'generate_report':
+      return text(call.args.topic) ? null : 'No topic was given.';
+    case 'open_report':
+      return ctx.history.some(r => r.id === call.args.reportId) ? null : `No saved report has the id "${call.args.reportId}".`;
+    case 'scroll_to_section':
+      if (!ctx.currentReport) return 'No report is open.';
+      return ctx.chunks.some(c => c.anchor === call.args.anchor) ? null : `The open report has no part "${call.args.anchor}".`;
+    case 'show_chart':
+      return toInlineChart(call.args) ? null : 'The chart needs a chart type and at least one named numeric point.';
+    default:
+      return `Unknown tool "${call.name}".`;
+  }
+};
+
+export const toAction = (call: ChatToolCall, ctx: ActionContext): ChatAction => {
+  const error = checkCall(call, ctx);
+  return { callId: call.id, name: call.name, args: call.args, status: error ? 'failed' : 'pending', error: error ?? undefined };
+};
+
+export const describeAction = (action: ChatAction, history: Report[] = [], language: Language = DEFAULT_LANGUAGE) => {
+  const t = UI_STRINGS[language].actions;
+  switch (action.name as ChatToolName) {
+    case 'generate_report':
+      return t.generateReport(text(action.args.topic));
+    case 'open_report': {
+      const saved = history.find(r => r.id === action.args.reportId);
+      return saved ? t.openReport(saved.title) : t.openSavedReport;
+    }
+    case 'scroll_to_section':
+      return t.showSection;
+    case 'show_chart':
+      return t.drawChart(text(action.args.title));
+    default:
+      return t.runTool(action.name);
+  }
+};
+
+export const toToolResult = (action: ChatAction): ChatToolResult => ({
+  id: action.callId,
+  name: action.name,
+  response: action.status === 'done'
+    ? { ok: true }
+    : { ok: false, error: action.status === 'declined' ? 'The user declined this action.' : action.error }
+});
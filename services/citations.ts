@@ -0,0 +1,105 @@
+import { Citation, GroundingSource, Report } from '../types';
+import { GroundingSupport } from './llmProvider';
+import { ReportPayload } from './reportValidator';
+
+export interface CitationAnchor {
+  end: number;             // Offset in the field text right after the supported span
+  sourceIndices: number[];
+}
+
+// Shortest fragment worth matching when a segment has to be split
+const MIN_FRAGMENT_LENGTH = 15;
+
+export const citationField = {
+  summary: 'executiveSummary',
+  insight: (index: number) => `insight:${index}`,
+  section: (id: string) => `section:${id}`
+};
+
+// Deduplicates sources by URI and remaps the supports onto the deduplicated list
+export const dedupeSources = (sources: GroundingSource[], supports: GroundingSupport[]) => {
+  const unique: GroundingSource[] = [];
+  const indexByUri = new Map<string, number>();
+  const remap = sources.map(source => {
+    if (!indexByUri.has(source.uri)) {
+      indexByUri.set(source.uri, unique.length);
+      unique.push(source);
+    }
+    return indexByUri.get(source.uri)!;
+  });
+
+  return {
+    sources: unique,
+    supports: supports.map(s => ({
+      text: s.text,
+      sourceIndices: Array.from(new Set(s.sourceIndices.map(i => remap[i]).filter(i => i !== undefined)))
+    }))
+  };
+};
+
+// Segments index into the raw JSON response, so they may carry escapes or straddle field boundaries
+const segmentFragments = (segment: string): string[] => {
+  let text = segment;
+  try {
+    text = JSON.parse(`"${segment}"`);
+  } catch {
+    text = segment.replace(/\\n/g, '\n').replace(/\\"/g, '"');
+  }
+  const pieces = text
+    .split(/"\s*[,:{}\[\]]+\s*"?|\n{2,}/)
+    .map(p => p.trim())
+    .filter(p => p.length >= MIN_FRAGMENT_LENGTH);
+  return pieces.length > 1 ? pieces : [text.trim()];
+};
+
+export const mapCitations = (data: ReportPayload, supports: GroundingSupport[]): Citation[] => {
+  const fields: Array<{ field: string; text: string }> = [
+    { field: citationField.summary, text: data.executiveSummary },
+    ...data.keyInsights.map((insight, i) => ({ field: citationField.insight(i), text: insight.text })),
+    ...data.sections.map(section => ({ field: citationField.section(section.id), text: section.content }))
+  ];
+
+  const citations: Citation[] = [];
+  supports.forEach(support => {
+    segmentFragments(support.text).forEach(fragment => {
+      const target = fields.find(f => f.text.includes(fragment));
+      if (target) {
+        citations.push({ field: target.field, text: fragment, sourceIndices: support.sourceIndices });
+      }
+    });
+  });
+  return citations;
+};
+
+export const citationsFor = (report: Report, field: string) =>
+  (report.citations || []).filter(c => c.field === field);
+
+// Merges citations ending at the same offset, sorted by position
+export const locateCitations = (text: string, citations: Citation[]): CitationAnchor[] => {
+  const byEnd = new Map<number, Set<number>>();
+  citations.forEach(c => {
+    const start = text.indexOf(c.text);
+    if (start === -1) return;
+    const end = start + c.text.length;
+    const indices = byEnd.get(end) || new Set<number>();
+    c.sourceIndices.forEach(i => indices.add(i));
+    byEnd.set(end, indices);
+  });
+  return Array.from(byEnd.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([end, indices]) => ({ end, sourceIndices: Array.from(indices).sort((a, b) => a - b) }));
+};
+
+export const sourceAnchorId = (sourceIndex: number) => `source-${sourceIndex + 1}`;
+
+// Appends markdown links like [1](#source-1) after each supported span
+export const injectMarkdownCitations = (text: string, citations: Citation[]): string => {
+  const anchors = locateCitations(text, citations);
+  let result = text;
+  for (let i = anchors.length - 1; i >= 0; i--) {
+    const { end, sourceIndices } = anchors[i];
+    const links = sourceIndices.map(s => `[${s + 1}](#${sourceAnchorId(s)})`).join('');
+    result = result.slice(0, end) + links + result.slice(end);
+  }
+  return result;
+};
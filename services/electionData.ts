@@ -0,0 +1,314 @@
+import { ChartConfig, ChartDataPoint, Language, ReportSection, SectionType } from '../types';
+import { canonicalName } from './partyRegistry';
+import { findMentionedState, stateName } from './geoBoundaries';
+import { DEFAULT_LANGUAGE } from './languages';
+import { UI_STRINGS } from './uiStrings';
+
+export type ElectionKind = 'LS' | 'VS'; // Lok Sabha or Vidhan Sabha
+
+export interface CandidateResult {
+  candidate: string;
+  party: string; // Abbreviation, or "IND" for independents
+  votes: number;
+}
+
+export interface ConstituencyResult {
+  state: string; // State code, as in geoBoundaries
+  constituency: string;
+  number?: number;   // ECI constituency number
+  reserved?: 'SC' | 'ST';
+  electors?: number; // Needed for turnout
+  candidates: CandidateResult[];
+}
+
+export interface ElectionDataset {
+  id: string; // e.g. "LS-2019" or "VS-UP-2022"
+  kind: ElectionKind;
+  state?: string; // Vidhan Sabha elections only
+  year: number;
+  source?: string;
+  constituencies: ConstituencyResult[];
+}
+
+// One entry per results file in public/data/elections
+export interface ElectionManifestEntry {
+  id: string;
+  kind: ElectionKind;
+  state?: string;
+  year: number;
+  file: string;
+  source?: string;
+}
+
+// Narrows a query to one state and/or constituency; omit for the whole election
+export interface ResultFilter {
+  state?: string;
+  constituency?: string;
+}
+
+export interface PartyVotes {
+  party: string;
+  votes: number;
+  share: number; // Percent of valid votes
+}
+
+export interface PartySeats {
+  party: string;
+  seats: number;
+}
+
+export interface ConstituencyMargin {
+  state: string;
+  constituency: string;
+  winner: string;
+  runnerUp: string | null;
+  margin: number;    // Votes
+  marginPct: number; // Percentage points of valid votes
+}
+
+export interface PartySwing {
+  party: string;
+  from: number; // Vote share in the earlier election
+  to: number;
+  swing: number; // Percentage points
+}
+
+const DATA_ROOT = 'data/elections';
+const KIND_LABELS: Record<ElectionKind, string> = { LS: 'Lok Sabha', VS: 'Vidhan Sabha' };
+const round = (n: number) => Number(n.toFixed(2));
+
+export const electionLabel = (entry: Pick<ElectionManifestEntry, 'kind' | 'state' | 'year'>) =>
+  `${entry.state ? `${stateName(entry.state)} ` : ''}${KIND_LABELS[entry.kind]} ${entry.year}`;
+
+let manifestRequest: Promise<ElectionManifestEntry[]> | null = null;
+const datasetCache = new Map<string, Promise<ElectionDataset>>();
+
+const fetchJson = async (url: string) => {
+  const res = await fetch(url);
+  // The dev server answers missing files with index.html, so check the type as well as the status
+  if (!res.ok || !res.headers.get('content-type')?.includes('json')) {
+    throw new Error(`Election data file ${url} is missing.`);
+  }
+  return res.json();
+};
+
+export const loadManifest = (): Promise<ElectionManifestEntry[]> => {
+  if (!manifestRequest) {
+    manifestRequest = fetchJson(`${DATA_ROOT}/manifest.json`)
+      .then(json => (Array.isArray(json?.elections) ? json.elections : []))
+      .catch(e => {
+        manifestRequest = null;
+        throw e;
+      });
+  }
+  return manifestRequest;
+};
+
+export const loadElection = (entry: ElectionManifestEntry): Promise<ElectionDataset> => {
+  if (!datasetCache.has(entry.id)) {
+    const request = fetchJson(`${DATA_ROOT}/${entry.file}`).then(json => ({
+      id: entry.id,
+      kind: entry.kind,
+      state: entry.state,
+      year: entry.year,
+      source: entry.source,
+      constituencies: Array.isArray(json?.constituencies) ? json.constituencies : []
+    }));
+    request.catch(() => datasetCache.delete(entry.id));
+    datasetCache.set(entry.id, request);
+  }
+  return datasetCache.get(entry.id)!;
+};
+
+const matchesFilter = (c: ConstituencyResult, filter: ResultFilter) =>
+  (!filter.state || c.state === filter.state) &&
+  (!filter.constituency || c.constituency.toLowerCase() === filter.constituency.toLowerCase());
+
+const select = (dataset: ElectionDataset, filter: ResultFilter = {}) =>
+  dataset.constituencies.filter(c => matchesFilter(c, filter));
+
+const ranked = (c: ConstituencyResult) => [...c.candidates].sort((a, b) => b.votes - a.votes);
+
+const totalVotes = (c: ConstituencyResult) => c.candidates.reduce((sum, cand) => sum + cand.votes, 0);
+
+// Percent of electors who voted; null when the dataset has no elector counts for the selection
+export const turnout = (dataset: ElectionDataset, filter: ResultFilter = {}): number | null => {
+  const rows = select(dataset, filter).filter(c => c.electors);
+  const electors = rows.reduce((sum, c) => sum + c.electors!, 0);
+  if (electors === 0) return null;
+  return round((rows.reduce((sum, c) => sum + totalVotes(c), 0) / electors) * 100);
+};
+
+export const voteShare = (dataset: ElectionDataset, filter: ResultFilter = {}): PartyVotes[] => {
+  const votes = new Map<string, number>();
+  let total = 0;
+  select(dataset, filter).forEach(c => c.candidates.forEach(cand => {
+    const party = canonicalName(cand.party);
+    votes.set(party, (votes.get(party) || 0) + cand.votes);
+    total += cand.votes;
+  }));
+  if (total === 0) return [];
+  return Array.from(votes, ([party, v]) => ({ party, votes: v, share: round((v / total) * 100) }))
+    .sort((a, b) => b.votes - a.votes);
+};
+
+export const seatTally = (dataset: ElectionDataset, filter: ResultFilter = {}): PartySeats[] => {
+  const seats = new Map<string, number>();
+  select(dataset, filter).forEach(c => {
+    const winner = ranked(c)[0];
+    if (winner) seats.set(canonicalName(winner.party), (seats.get(canonicalName(winner.party)) || 0) + 1);
+  });
+  return Array.from(seats, ([party, n]) => ({ party, seats: n })).sort((a, b) => b.seats - a.seats);
+};
+
+export const margins = (dataset: ElectionDataset, filter: ResultFilter = {}): ConstituencyMargin[] =>
+  select(dataset, filter)
+    .filter(c => c.candidates.length > 0)
+    .map(c => {
+      const [first, second] = ranked(c);
+      const margin = first.votes - (second?.votes || 0);
+      const total = totalVotes(c);
+      return {
+        state: c.state,
+        constituency: c.constituency,
+        winner: canonicalName(first.party),
+        runnerUp: second ? canonicalName(second.party) : null,
+        margin,
+        marginPct: total > 0 ? round((margin / total) * 100) : 0
+      };
+    })
+    .sort((a, b) => a.marginPct - b.marginPct);
+
+// Change in each party's vote share between two elections over the same area
+export const swing = (from: ElectionDataset, to: ElectionDataset, filter: ResultFilter = {}): PartySwing[] => {
+  const before = new Map(voteShare(from, filter).map(p => [p.party, p.share]));
+  const after = new Map(voteShare(to, filter).map(p => [p.party, p.share]));
+  const parties = new Set([...before.keys(), ...after.keys()]);
+  return Array.from(parties, party => {
+    const a = before.get(party) || 0;
+    const b = after.get(party) || 0;
+    return { party, from: a, to: b, swing: round(b - a) };
+  }).sort((x, y) => Math.abs(y.swing) - Math.abs(x.swing));
+};
+
+export interface TopicScope {
+  state?: string;
+  kind?: ElectionKind;
+}
+
+// Reads the state and election type a free-text topic is about
+export const scopeForTopic = (topic: string): TopicScope => {
+  const text = topic.toLowerCase();
+  const scope: TopicScope = {};
+  const state = findMentionedState(topic);
+  if (state) scope.state = state;
+  if (/lok sabha|general election|parliament/.test(text)) scope.kind = 'LS';
+  else if (/vidhan sabha|assembly|state election/.test(text)) scope.kind = 'VS';
+  return scope;
+};
+
+// Elections relevant to a scope, oldest first. Lok Sabha results are filtered to the state when one is given.
+export const electionsForScope = async (scope: TopicScope): Promise<ElectionDataset[]> => {
+  const manifest = await loadManifest();
+  const entries = manifest.filter(e => {
+    if (scope.kind && e.kind !== scope.kind) return false;
+    if (e.kind === 'VS') return !!scope.state && e.state === scope.state;
+    return true;
+  });
+  const datasets = await Promise.all(entries.map(loadElection));
+  return datasets.sort((a, b) => a.year - b.year || a.kind.localeCompare(b.kind));
+};
+
+const MAX_BRIEF_PARTIES = 6;
+
+// Plain-text summary of the dataset figures for the prompt
+export const buildDataBrief = (elections: ElectionDataset[], scope: TopicScope): string => {
+  const filter: ResultFilter = { state: scope.state };
+  const lines: string[] = [];
+  elections.forEach(ds => {
+    const shares = voteShare(ds, filter).slice(0, MAX_BRIEF_PARTIES);
+    if (shares.length === 0) return;
+    const seats = seatTally(ds, filter);
+    const t = turnout(ds, filter);
+    const where = scope.state && ds.kind === 'LS' ? ` (${stateName(scope.state)})` : '';
+    lines.push(`${electionLabel(ds)}${where}:`);
+    lines.push(`  Seats: ${seats.slice(0, MAX_BRIEF_PARTIES).map(s => `${s.party} ${s.seats}`).join(', ')} of ${select(ds, filter).length}`);
+    lines.push(`  Vote share: ${shares.map(s => `${s.party} ${s.share}%`).join(', ')}`);
+    if (t !== null) lines.push(`  Turnout: ${t}%`);
+  });
+
+  // Swing between consecutive elections of the same kind
+  (['LS', 'VS'] as ElectionKind[]).forEach(kind => {
+    const series = elections.filter(e => e.kind === kind);
+    if (series.length < 2) return;
+    const [prev, last] = series.slice(-2);
+    const swings = swing(prev, last, filter).slice(0, MAX_BRIEF_PARTIES);
+    lines.push(`Swing ${prev.year}→${last.year} (${KIND_LABELS[kind]}): ${swings.map(s => `${s.party} ${s.swing > 0 ? '+' : ''}${s.swing} pts`).join(', ')}`);
+  });
+  return lines.join('\n');
+};
+
+// Vote share of the leading parties across elections, as a multi-series line chart
+export const buildHistoricalChart = (
+  elections: ElectionDataset[],
+  scope: TopicScope,
+  language: Language = DEFAULT_LANGUAGE
+): { chartData: ChartDataPoint[]; chartConfig: ChartConfig } | null => {
+  const t = UI_STRINGS[language];
+  const kind = scope.kind || (elections.some(e => e.kind === 'VS') ? 'VS' : 'LS');
+  const series = elections.filter(e => e.kind === kind);
+  if (series.length < 2) return null;
+
+  const filter: ResultFilter = { state: scope.state };
+  const shares = series.map(ds => voteShare(ds, filter));
+  // Parties that led in any election, capped to keep the chart readable
+  const parties = Array.from(new Set(shares.flatMap(s => s.slice(0, 4).map(p => p.party)))).slice(0, MAX_BRIEF_PARTIES);
+  const keys = parties.map(p => p.toLowerCase().replace(/[^a-z0-9]/g, '') || 'party');
+
+  const chartData = series.map((ds, i) => {
+    const point: ChartDataPoint = { name: String(ds.year), value: 0 };
+    parties.forEach((party, j) => {
+      point[keys[j]] = shares[i].find(s => s.party === party)?.share ?? 0;
+    });
+    point.value = round(parties.reduce((sum, _, j) => sum + point[keys[j]], 0));
+    return point;
+  });
+
+  return {
+    chartData,
+    chartConfig: {
+      title: t.voteShareTitle(`${scope.state ? `${stateName(scope.state)} ` : ''}${KIND_LABELS[kind]}`),
+      xLabel: t.election,
+      yLabel: t.voteSharePct,
+      series: parties.map((party, j) => ({ key: keys[j], label: party }))
+    }
+  };
+};
+
+const HISTORICAL_SECTION = /histor|trend|past election/i;
+
+// Swaps the model's historical-trends chart for the dataset's, or adds one when no section fits
+export const withDatasetChart = (
+  sections: ReportSection[],
+  chart: { chartData: ChartDataPoint[]; chartConfig: ChartConfig },
+  elections: ElectionDataset[],
+  language: Language = DEFAULT_LANGUAGE
+): ReportSection[] => {
+  const t = UI_STRINGS[language];
+  const sources = Array.from(new Set(elections.map(e => e.source).filter(Boolean)));
+  // Election names and source titles only, so the marker reads the same in any interface language
+  const dataSource = `${elections.map(electionLabel).join(', ')}${sources.length ? `; ${sources.join('; ')}` : ''}`;
+  const dataFields = { type: SectionType.LINE_CHART, chartData: chart.chartData, chartConfig: chart.chartConfig, dataSource };
+
+  const index = sections.findIndex(s => HISTORICAL_SECTION.test(`${s.id} ${s.title}`));
+  if (index !== -1) {
+    return sections.map((s, i) => (i === index ? { ...s, ...dataFields, tableData: undefined, mapData: undefined } : s));
+  }
+
+  let id = 'historical-results';
+  for (let n = 2; sections.some(s => s.id === id); n++) id = `historical-results-${n}`;
+  return [
+    ...sections,
+    { id, title: t.historicalResults, content: t.historicalResultsNote, ...dataFields }
+  ];
+};
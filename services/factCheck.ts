@@ -0,0 +1,224 @@
+import { FactCheckCode, FactCheckFlag, FactCheckResult, MessageParams, Report, ReportSection, SectionType } from '../types';
+import { citationField } from './citations';
+import { findMentionedParty, findParty } from './partyRegistry';
+import { findMentionedState } from './geoBoundaries';
+import { UI_STRINGS } from './uiStrings';
+
+type CheckedReport = Pick<Report, 'title' | 'executiveSummary' | 'keyInsights' | 'sections' | 'topic'>;
+
+const LOK_SABHA_SEATS = 543;
+const RAJYA_SABHA_SEATS = 245;
+
+// Elected Vidhan Sabha seats per state
+const ASSEMBLY_SEATS: Record<string, number> = {
+  AP: 175, AR: 60, AS: 126, BR: 243, CT: 90, DL: 70, GA: 40, GJ: 182, HP: 68, HR: 90, JH: 81, JK: 90,
+  KA: 224, KL: 140, MH: 288, ML: 60, MN: 60, MP: 230, MZ: 40, NL: 60, OR: 147, PB: 117, PY: 30, RJ: 200,
+  SK: 32, TG: 119, TN: 234, TR: 60, UP: 403, UT: 70, WB: 294
+};
+
+// Lok Sabha seats per state; states and UTs not listed have one
+const STATE_LOK_SABHA_SEATS: Record<string, number> = {
+  UP: 80, MH: 48, WB: 42, BR: 40, TN: 39, MP: 29, KA: 28, GJ: 26, AP: 25, RJ: 25, OR: 21, KL: 20, TG: 17,
+  AS: 14, JH: 14, PB: 13, CT: 11, HR: 10, DL: 7, JK: 5, UT: 5, HP: 4, AR: 2, GA: 2, MN: 2, ML: 2, TR: 2
+};
+
+const FIRST_GENERAL_ELECTION = 1951;
+const MAX_YEARS_AHEAD = 10;
+const SHARE_TOLERANCE = 5;   // Rounding and unlisted minor parties
+const SUMMARY_TOLERANCE = 1.5; // Percentage points between a quoted share and the chart
+
+const YEAR_NAME = /^\d{4}$/;
+const isPercentLabel = (text: string) => /%|share|percent/i.test(text);
+const isSeatLabel = (text: string) => /seat/i.test(text);
+
+const chartLabel = (section: ReportSection) =>
+  `${section.title} ${section.chartConfig?.title || ''} ${section.chartConfig?.yLabel || ''}`;
+
+const isPercentChart = (section: ReportSection) => {
+  const label = chartLabel(section);
+  if (isSeatLabel(label)) return false;
+  if (isPercentLabel(label)) return true;
+  // Untitled pies of small numbers are almost always vote shares
+  return section.type === SectionType.PIE_CHART && section.chartData!.every(p => p.value >= 0 && p.value <= 100);
+};
+
+// Size of the house a seat chart counts, read from the chart and report titles
+const houseSize = (section: ReportSection, report: CheckedReport): number | null => {
+  const text = `${chartLabel(section)} ${report.title} ${report.topic || ''}`;
+  const state = findMentionedState(text);
+  if (/rajya sabha/i.test(text)) return RAJYA_SABHA_SEATS;
+  if (/lok sabha|general election|parliament/i.test(text)) {
+    return state ? STATE_LOK_SABHA_SEATS[state] || 1 : LOK_SABHA_SEATS;
+  }
+  return state ? ASSEMBLY_SEATS[state] ?? null : null;
+};
+
+const flag = (rule: FactCheckFlag['rule'], severity: FactCheckFlag['severity'], code: FactCheckCode, params: MessageParams): FactCheckFlag =>
+  ({ rule, severity, message: UI_STRINGS.en.factCheckMessages[code](params), code, params });
+
+const seriesKeys = (section: ReportSection) => section.chartConfig?.series?.map(s => s.key) || ['value'];
+
+const checkShares = (section: ReportSection, flags: FactCheckFlag[]) => {
+  const data = section.chartData!;
+  const keys = seriesKeys(section);
+  const isTimeSeries = data.every(p => YEAR_NAME.test(p.name));
+
+  // Shares of one election add up to 100: across the series at each point of a stacked or per-year chart,
+  // or along the categories of each series otherwise
+  const perCategory = !!section.chartConfig?.stacked || (isTimeSeries && keys.length > 1);
+  const totals = perCategory
+    ? data.map(p => ({ label: p.name, total: keys.reduce((sum, k) => sum + (p[k] ?? 0), 0) }))
+    : isTimeSeries ? [] : keys.map(k => ({
+      label: section.chartConfig?.series?.find(s => s.key === k)?.label || section.title,
+      total: data.reduce((sum, p) => sum + (p[k] ?? 0), 0)
+    }));
+
+  const hasOthers = data.some(p => /other/i.test(p.name));
+  totals.forEach(({ label, total }) => {
+    const rounded = Number(total.toFixed(1));
+    if (total > 100 + SHARE_TOLERANCE) {
+      flags.push(flag('share-sum', 'error', 'share-sum-over', { label, total: rounded }));
+    } else if (total < 100 - SHARE_TOLERANCE && hasOthers) {
+      // Without an "Others" bucket a shortfall is just the unlisted parties
+      flags.push(flag('share-sum', 'warning', 'share-sum-under', { label, total: rounded }));
+    }
+  });
+
+  data.forEach(p => keys.forEach(k => {
+    if ((p[k] ?? 0) > 100) {
+      flags.push(flag('share-sum', 'error', 'share-above-100', { name: p.name, value: p[k] }));
+    }
+  }));
+};
+
+const checkSeats = (section: ReportSection, report: CheckedReport, flags: FactCheckFlag[]) => {
+  const house = houseSize(section, report);
+  if (!house) return;
+  const data = section.chartData!;
+  const keys = seriesKeys(section);
+
+  data.forEach(p => keys.forEach(k => {
+    if ((p[k] ?? 0) > house) {
+      flags.push(flag('house-size', 'error', 'seats-above-house', { name: p.name, value: p[k], house }));
+    }
+  }));
+
+  // Seats of one election share the house: the series at each year, or the parties along the axis
+  const isTimeSeries = data.every(p => YEAR_NAME.test(p.name));
+  const totals = isTimeSeries
+    ? (keys.length > 1 ? data.map(p => keys.reduce((sum, k) => sum + (p[k] ?? 0), 0)) : [])
+    : keys.map(k => data.reduce((sum, p) => sum + (p[k] ?? 0), 0));
+  totals.forEach(total => {
+    if (total > house) {
+      flags.push(flag('house-size', 'error', 'seats-total', { total, house }));
+    }
+  });
+};
+
+const checkChartYears = (section: ReportSection, flags: FactCheckFlag[]) => {
+  const latest = new Date().getFullYear() + MAX_YEARS_AHEAD;
+  section.chartData!.forEach(p => {
+    if (!YEAR_NAME.test(p.name)) return;
+    const year = Number(p.name);
+    if (year < FIRST_GENERAL_ELECTION || year > latest) {
+      flags.push(flag('year-range', 'warning', 'year-out-of-range', { year }));
+    }
+  });
+};
+
+// Historical years in prose are fine; only far-future ones are suspect
+const checkTextYears = (text: string, flags: FactCheckFlag[]) => {
+  const latest = new Date().getFullYear() + MAX_YEARS_AHEAD;
+  (text.match(/\b(?:19|20|21)\d{2}\b/g) || []).map(Number).forEach(year => {
+    if (year > latest) {
+      flags.push(flag('year-range', 'warning', 'year-future', { year }));
+    }
+  });
+};
+
+// Every share the charts give a party, so quoted figures can be matched against them
+const chartShares = (sections: ReportSection[]) => {
+  const shares = new Map<string, number[]>();
+  sections
+    .filter(s => s.chartData && s.chartData.length > 0 && isPercentChart(s))
+    .forEach(s => {
+      const add = (name: string, value: number | null | undefined) => {
+        const party = findParty(name)?.abbreviation;
+        if (party && typeof value === 'number') shares.set(party, [...(shares.get(party) || []), value]);
+      };
+      if (s.chartConfig?.series) {
+        s.chartConfig.series.forEach(series => s.chartData!.forEach(p => add(series.label, p[series.key])));
+      } else {
+        s.chartData!.forEach(p => add(p.name, p.value));
+      }
+    });
+  return shares;
+};
+
+// A quoted share for a party the charts also cover should match one of the charted values
+const checkQuotedShares = (text: string, shares: Map<string, number[]>, flags: FactCheckFlag[]) => {
+  text.split(/(?<=[.!?])\s+/).forEach(sentence => {
+    const party = findMentionedParty(sentence);
+    const charted = party && shares.get(party.abbreviation);
+    if (!charted) return;
+    (sentence.match(/\d+(?:\.\d+)?(?=\s*%)/g) || []).map(Number).forEach(quoted => {
+      // Percentages that are really swings or changes are not comparable to shares
+      if (/swing|points?|pts|increase|decrease|drop|gain|rise|fell|grew|change/i.test(sentence)) return;
+      if (!charted.some(v => Math.abs(v - quoted) <= SUMMARY_TOLERANCE)) {
+        flags.push(flag('summary-mismatch', 'warning', 'quoted-share', {
+          party: party!.abbreviation,
+          quoted,
+          charted: charted.map(v => `${v}%`).join(', ')
+        }));
+      }
+    });
+  });
+};
+
+const toResult = (target: string, flags: FactCheckFlag[]): FactCheckResult => {
+  const unique = flags.filter((f, i) => flags.findIndex(g => g.message === f.message) === i);
+  return {
+    target,
+    confidence: unique.some(f => f.severity === 'error') ? 'low' : unique.length > 0 ? 'medium' : 'high',
+    flags: unique
+  };
+};
+
+export const factCheckReport = (report: CheckedReport): FactCheckResult[] => {
+  const results: FactCheckResult[] = [];
+  const shares = chartShares(report.sections);
+
+  const summaryFlags: FactCheckFlag[] = [];
+  checkTextYears(report.executiveSummary, summaryFlags);
+  checkQuotedShares(report.executiveSummary, shares, summaryFlags);
+  results.push(toResult(citationField.summary, summaryFlags));
+
+  report.keyInsights.forEach((insight, i) => {
+    const flags: FactCheckFlag[] = [];
+    checkTextYears(insight.text, flags);
+    // The value is shown on its own, so read it as a figure for the party the insight is about
+    const party = findMentionedParty(insight.text);
+    const isShare = !!insight.value && /%/.test(insight.value) && !/^[+\-−]/.test(insight.value.trim());
+    const quoted = party && isShare ? `${party.abbreviation} ${insight.value}. ` : '';
+    checkQuotedShares(`${quoted}${insight.text}`, shares, flags);
+    results.push(toResult(citationField.insight(i), flags));
+  });
+
+  report.sections
+    .filter(s => s.chartData && s.chartData.length > 0 && s.type !== SectionType.TEXT)
+    .forEach(section => {
+      const flags: FactCheckFlag[] = [];
+      // Figures from the results dataset are authoritative
+      if (!section.dataSource) {
+        if (isPercentChart(section)) checkShares(section, flags);
+        if (isSeatLabel(chartLabel(section))) checkSeats(section, report, flags);
+        checkChartYears(section, flags);
+      }
+      results.push(toResult(citationField.section(section.id), flags));
+    });
+
+  return results;
+};
+
+export const factCheckFor = (results: FactCheckResult[] | undefined, target: string) =>
+  results?.find(r => r.target === target);
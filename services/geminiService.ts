@@ -1,39 +1,42 @@
 
-import { GoogleGenAI, Type, Chat } from "@google/genai";
-import { Report, SectionType, GroundingSource } from '../types';
+import { Type } from "@google/genai";
+import { GenerationProgress, Language, Report, ValidationIssue } from '../types';
+import { parseModelJson, validateReport, validationIssue, ReportPayload } from './reportValidator';
+import { getProvider, ChatSession, ChatTurn, ReportGenerationResult } from './llmProvider';
+import { dedupeSources, mapCitations } from './citations';
+import { factCheckReport } from './factCheck';
+import { createProgressTracker } from './generationProgress';
+import { CHAT_TOOLS, TOOL_GUIDANCE } from './chatTools';
+import { DEFAULT_LANGUAGE, LANGUAGES, languageInstruction } from './languages';
+import { ReportParseError, classifyError, withRetry } from './reportErrors';
+import { buildDataBrief, buildHistoricalChart, electionsForScope, scopeForTopic, withDatasetChart } from './electionData';
 
-const getAiClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API Key is missing. Please set process.env.API_KEY.");
-  }
-  return new GoogleGenAI({ apiKey });
-};
+// Attempts per report, including corrective retries after fatal validation failures
+const MAX_GENERATION_ATTEMPTS = 2;
 
-export const createChatSession = (context?: string): Chat => {
-  const ai = getAiClient();
+export const createChatSession = (context?: string, history?: ChatTurn[], language: Language = DEFAULT_LANGUAGE): ChatSession => {
   const systemInstruction = `You are a helpful and knowledgeable AI political assistant for 'PolitiSight India'. 
   Answer questions about Indian politics, elections, and the application's analysis features. 
   Keep responses concise and neutral.
+  Reply in ${LANGUAGES[language].englishName} unless the user writes in another language; write numbers with Western digits.
+  ${TOOL_GUIDANCE}
   ${context ? `\nCONTEXT: ${context}` : ''}`;
 
-  return ai.chats.create({
-    model: 'gemini-3-pro-preview',
-    config: {
-      systemInstruction,
-    }
-  });
+  return getProvider().createChat(systemInstruction, history, CHAT_TOOLS);
 };
 
 export const generatePoliticalReport = async (
   topic: string, 
   historyContext: string[], // List of previous topics to inform the model
-  onProgress: (stage: 'researching' | 'analyzing' | 'formatting') => void
+  onProgress: (progress: GenerationProgress) => void,
+  signal?: AbortSignal,
+  language: Language = DEFAULT_LANGUAGE
 ): Promise<Report> => {
-  const ai = getAiClient();
+  const provider = getProvider();
+  const progress = createProgressTracker(onProgress);
   
   // 1. Research Phase
-  onProgress('researching');
+  progress.setStage('researching');
 
   // We define the schema we want the AI to return.
   const schema = {
@@ -62,10 +65,11 @@ export const generatePoliticalReport = async (
           properties: {
             id: { type: Type.STRING },
             title: { type: Type.STRING },
-            type: { type: Type.STRING, enum: ['TEXT', 'BAR_CHART', 'PIE_CHART', 'LINE_CHART'] },
+            type: { type: Type.STRING, enum: ['TEXT', 'BAR_CHART', 'PIE_CHART', 'LINE_CHART', 'TABLE', 'MAP'] },
             content: { type: Type.STRING, description: "Markdown content. For charts, provide context/analysis." },
             chartData: {
               type: Type.ARRAY,
+              description: "For multi-series charts, add one numeric property per series key to each item (e.g. { name: '2019', bjp: 49.6, sp: 18.1 }).",
               items: {
                 type: Type.OBJECT,
                 properties: {
@@ -82,9 +86,73 @@ export const generatePoliticalReport = async (
                properties: {
                  xLabel: { type: Type.STRING },
                  yLabel: { type: Type.STRING },
-                 title: { type: Type.STRING }
+                 title: { type: Type.STRING },
+                 series: {
+                   type: Type.ARRAY,
+                   description: "Multi-series charts only: one entry per plotted series, keyed into chartData",
+                   items: {
+                     type: Type.OBJECT,
+                     properties: {
+                       key: { type: Type.STRING },
+                       label: { type: Type.STRING },
+                       color: { type: Type.STRING, description: "Hex color code" }
+                     },
+                     required: ['key', 'label']
+                   }
+                 },
+                 stacked: { type: Type.BOOLEAN, description: "Stack BAR_CHART series, e.g. for seat composition" }
                },
                nullable: true
+            },
+            tableData: {
+              type: Type.OBJECT,
+              description: "Only for TABLE sections",
+              properties: {
+                columns: {
+                  type: Type.ARRAY,
+                  items: {
+                    type: Type.OBJECT,
+                    properties: {
+                      key: { type: Type.STRING },
+                      label: { type: Type.STRING },
+                      type: { type: Type.STRING, enum: ['text', 'number', 'percent', 'currency'] },
+                      unit: { type: Type.STRING, description: "e.g. 'seats', 'votes'" }
+                    },
+                    required: ['key', 'label', 'type']
+                  }
+                },
+                rows: {
+                  type: Type.ARRAY,
+                  description: "Each row lists its cell values in column order. Use plain numbers for number, percent and currency columns.",
+                  items: { type: Type.ARRAY, items: { type: Type.STRING } }
+                }
+              },
+              required: ['columns', 'rows'],
+              nullable: true
+            },
+            mapData: {
+              type: Type.OBJECT,
+              description: "Only for MAP sections",
+              properties: {
+                level: { type: Type.STRING, enum: ['state', 'pc', 'ac'], description: "state = states, pc = Lok Sabha constituencies, ac = Vidhan Sabha constituencies" },
+                state: { type: Type.STRING, description: "State name to zoom into; required when level is 'ac'" },
+                metric: { type: Type.STRING, enum: ['winner', 'margin', 'swing'] },
+                regions: {
+                  type: Type.ARRAY,
+                  items: {
+                    type: Type.OBJECT,
+                    properties: {
+                      region: { type: Type.STRING, description: "Official state or constituency name" },
+                      winner: { type: Type.STRING, description: "Winning party abbreviation" },
+                      margin: { type: Type.NUMBER, description: "Victory margin in percentage points" },
+                      swing: { type: Type.NUMBER, description: "Swing to the winner in percentage points" }
+                    },
+                    required: ['region']
+                  }
+                }
+              },
+              required: ['level', 'metric', 'regions'],
+              nullable: true
             }
           },
           required: ['id', 'title', 'type', 'content']
@@ -94,21 +162,30 @@ export const generatePoliticalReport = async (
     required: ['title', 'executiveSummary', 'keyInsights', 'sections']
   };
 
-  onProgress('analyzing');
-
   try {
     const userHistoryStr = historyContext.length > 0 
       ? `User's recent research history: ${historyContext.join(', ')}. Use this to understand the user's political interests, but focus primarily on the new topic.`
       : '';
+
+    // Authoritative figures from the bundled results, when any cover this topic
+    const scope = scopeForTopic(topic);
+    const elections = await electionsForScope(scope).catch(e => {
+      console.warn("Election dataset unavailable", e);
+      return [];
+    });
+    const dataBrief = buildDataBrief(elections, scope);
+    const dataBriefStr = dataBrief
+      ? `Official results from the Election Commission dataset. Use these exact figures and do not contradict them:
+${dataBrief}`
+      : '';
     
     const today = new Date().toLocaleDateString('en-IN', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: `Conduct a deep, data-driven political analysis on: "${topic}". 
+    const prompt = `Conduct a deep, data-driven political analysis on: "${topic}". 
       Focus on Indian politics with real-time data.
       Today's date is ${today}.
       ${userHistoryStr}
+      ${dataBriefStr}
 
       Structure the report with the following specific focus areas:
       1. **Current Political Situation**: The immediate context, recent events, and current standing.
@@ -123,54 +200,95 @@ export const generatePoliticalReport = async (
       - Include at least 3 sections with CHARTS (BAR_CHART, PIE_CHART, or LINE_CHART).
       - Ensure 'Future Projections' has a chart if possible.
       - For chart data, ensure 'value' is a number.
+      - Name parties and alliances by their standard abbreviations (BJP, INC, SP, BSP, NDA, INDIA). Party colours are applied automatically, so omit 'fill' for them.
+      - Use chartConfig.series to compare several parties across elections or regions in one chart; set stacked for compositions such as alliance seat splits.
+      - Use TABLE sections for naturally tabular data such as candidate lists, constituency results or alliance seat-sharing.
+      - Use a MAP section when results differ by geography, e.g. winners by state or swing by constituency. Use official region names.
+      ${language !== DEFAULT_LANGUAGE ? `- ${languageInstruction(language)} Keep MAP region names and winners in English.` : ''}
       
-      IMPORTANT: Return ONLY the JSON string. Do not use Markdown code blocks or 'json' tags.`,
-      config: {
-        tools: [{ googleSearch: {} }],
+      IMPORTANT: Return ONLY the JSON string. Do not use Markdown code blocks or 'json' tags.`;
+
+    let contents = prompt;
+    let response: ReportGenerationResult | null = null;
+    let data: ReportPayload | null = null;
+    let issues: ValidationIssue[] = [];
+
+    for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS && !data; attempt++) {
+      if (attempt > 1) progress.retry("The first answer was unusable, asking the model to correct it");
+
+      // Outages and rate limits are retried here; a bad answer is corrected by the loop
+      response = await withRetry(() => provider.generateReport({
+        topic,
+        contents,
         systemInstruction: "You are a senior Indian political analyst. You provide data-driven, neutral, and comprehensive reports. You extrapolate future trends based on historical data.",
         temperature: 0.3,
+        signal,
+        onStream: progress.receive,
+      }), {
+        signal,
+        onRetry: (error, delayMs) => progress.retry(`${error.message} Retrying in ${Math.ceil(delayMs / 1000)}s`)
+      });
+
+      progress.setStage('formatting');
+
+      const responseText = response.text;
+      if (!responseText) {
+        issues = [validationIssue('$', 'fatal', 'empty-response')];
+      } else {
+        try {
+          const result = validateReport(parseModelJson(responseText), { fallbackTitle: topic, fallbackDate: today });
+          data = result.data;
+          issues = result.issues;
+        } catch (e) {
+          issues = [validationIssue('$', 'fatal', 'invalid-json', { error: (e as Error).message })];
+        }
       }
-    });
 
-    onProgress('formatting');
+      if (!data) {
+        console.warn(`Report attempt ${attempt} was unusable`, issues);
+        // Ask again, telling the model exactly what was wrong with its last answer
+        const problems = issues
+          .filter(issue => issue.severity !== 'info')
+          .map(issue => `- ${issue.path}: ${issue.message}`)
+          .join('\n');
+        contents = `${prompt}
 
-    let responseText = response.text;
-    if (!responseText) {
-      throw new Error("No response generated");
+      Your previous response could not be used because of these problems:
+      ${problems}
+      Return a complete, corrected JSON object that fixes every problem listed above.`;
+      }
     }
 
-    // Clean up markdown code blocks if the model adds them (e.g. ```json ... ```)
-    responseText = responseText.replace(/```json/g, '').replace(/```/g, '').trim();
-
-    const data = JSON.parse(responseText) as Omit<Report, 'id' | 'createdAt' | 'sources'>;
+    if (!data || !response) {
+      throw new ReportParseError(response?.text ?? '', issues);
+    }
 
-    // Extract grounding metadata (sources)
-    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    const sources: GroundingSource[] = [];
-    
-    if (chunks) {
-      chunks.forEach((chunk: any) => {
-        if (chunk.web?.uri && chunk.web?.title) {
-          sources.push({
-            title: chunk.web.title,
-            uri: chunk.web.uri
-          });
-        }
-      });
+    // Historical charts are drawn from the dataset rather than trusted to the model
+    const historical = buildHistoricalChart(elections, scope, language);
+    if (historical) {
+      data = { ...data, sections: withDatasetChart(data.sections, historical, elections, language) };
     }
 
-    // Deduplicate sources based on URI
-    const uniqueSources = Array.from(new Map(sources.map(item => [item.uri, item])).values());
+    // Deduplicate sources based on URI, then tie each supported segment to the report text
+    const { sources, supports } = dedupeSources(response.sources, response.supports);
+
+    progress.setStage('verifying');
     
     return {
       ...data,
       id: crypto.randomUUID(),
       createdAt: Date.now(),
-      sources: uniqueSources
+      sources,
+      citations: mapCitations(data, supports),
+      language,
+      validationIssues: issues,
+      factChecks: factCheckReport({ ...data, topic })
     };
 
   } catch (error) {
+    // Cancelling is not a failure; let the caller see the abort as is
+    if (signal?.aborted) throw error;
     console.error("Analysis failed:", error);
-    throw new Error("Failed to generate analysis. Please try again.");
+    throw classifyError(error);
   }
 };
@@ -0,0 +1,119 @@
+import { GenerationLogEntry, GenerationProgress, GenerationStage } from '../types';
+import { GenerationStreamEvent } from './llmProvider';
+
+// Rough output-token estimate for providers that do not report usage
+const CHARS_PER_TOKEN = 4;
+
+const readString = (text: string, from: number) => {
+  let value = '';
+  let i = from + 1;
+  while (i < text.length) {
+    const c = text[i];
+    if (c === '\\') {
+      value += text[i + 1] ?? '';
+      i += 2;
+      continue;
+    }
+    if (c === '"') return { value, end: i + 1, closed: true };
+    value += c;
+    i++;
+  }
+  return { value, end: i, closed: false };
+};
+
+// Titles of the sections in a partially streamed report. Only keys directly on a section object count,
+// so chart titles nested inside a section are skipped.
+export const streamedSectionTitles = (text: string): { titles: string[], partial: boolean } => {
+  const titles: string[] = [];
+  let partial = false;
+  const match = /"sections"\s*:\s*\[/.exec(text);
+  if (!match) return { titles, partial };
+
+  let depth = 0; // 0 = in the sections array, 1 = in a section object
+  let expectTitle = false;
+  let i = match.index + match[0].length;
+  while (i < text.length) {
+    const c = text[i];
+    if (c === '"') {
+      const str = readString(text, i);
+      i = str.end;
+      if (expectTitle) {
+        if (str.value || str.closed) {
+          titles.push(str.value);
+          partial = !str.closed;
+        }
+        expectTitle = false;
+      } else if (depth === 1 && str.value === 'title' && /^\s*:/.test(text.slice(i, i + 8))) {
+        expectTitle = true;
+      }
+      continue;
+    }
+    if (c === '{' || c === '[') depth++;
+    else if (c === '}' || c === ']') {
+      if (depth === 0) break;
+      depth--;
+    }
+    if (c === ',' || c === '}') expectTitle = false;
+    i++;
+  }
+  return { titles, partial };
+};
+
+// Turns raw stream events into the progress shown on the loading screen
+export const createProgressTracker = (onProgress: (progress: GenerationProgress) => void) => {
+  let stage: GenerationStage = 'researching';
+  let attempt = 1;
+  let text = '';
+  let tokens = 0;
+  let earlierTokens = 0; // Received in attempts that were thrown away
+  const log: GenerationLogEntry[] = [];
+  const searchQueries = new Set<string>();
+  let sectionEntries: number[] = []; // Log index of each section of the current attempt
+
+  const emit = () => onProgress({ stage, tokens: earlierTokens + tokens, attempt, log: [...log] });
+
+  return {
+    setStage: (next: GenerationStage) => {
+      stage = next;
+      emit();
+    },
+
+    retry: (reason: string) => {
+      attempt++;
+      earlierTokens += tokens;
+      text = '';
+      tokens = 0;
+      sectionEntries = [];
+      stage = 'analyzing';
+      log.push({ kind: 'note', text: reason });
+      emit();
+    },
+
+    receive: (event: GenerationStreamEvent) => {
+      text += event.text;
+      tokens = event.tokens ?? Math.round(text.length / CHARS_PER_TOKEN);
+      // The first chunk means searching is over and the model is writing
+      if (stage === 'researching') stage = 'analyzing';
+
+      event.searchQueries?.forEach(query => {
+        if (!searchQueries.has(query)) {
+          searchQueries.add(query);
+          log.push({ kind: 'search', text: query });
+        }
+      });
+
+      const { titles, partial } = streamedSectionTitles(text);
+      titles.forEach((title, i) => {
+        const entry: GenerationLogEntry = { kind: 'section', text: title, partial: partial && i === titles.length - 1 };
+        if (sectionEntries[i] === undefined) {
+          sectionEntries[i] = log.length;
+          log.push(entry);
+        } else {
+          log[sectionEntries[i]] = entry;
+        }
+      });
+
+      emit();
+    }
+  };
+};
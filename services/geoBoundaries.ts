@@ -0,0 +1,228 @@
+import { MapData, MapLevel, MapMetric, MapRegion, TableData } from '../types';
+import { canonicalName } from './partyRegistry';
+import type { UiStrings } from './uiStrings';
+
+export interface StateInfo {
+  id: string; // ISO 3166-2:IN subdivision code without the "IN-" prefix
+  name: string;
+  aliases: string[];
+}
+
+// Position is a [longitude, latitude] pair, as in GeoJSON
+type Position = [number, number];
+
+export interface BoundaryFeature {
+  id: string;
+  name: string;
+  state: string; // State code the feature belongs to (its own id for state boundaries)
+  polygons: Position[][][];
+}
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export const STATES: StateInfo[] = [
+  { id: 'AN', name: 'Andaman and Nicobar Islands', aliases: ['Andaman & Nicobar', 'A&N Islands'] },
+  { id: 'AP', name: 'Andhra Pradesh', aliases: ['आंध्र प्रदेश'] },
+  { id: 'AR', name: 'Arunachal Pradesh', aliases: [] },
+  { id: 'AS', name: 'Assam', aliases: ['असम'] },
+  { id: 'BR', name: 'Bihar', aliases: ['बिहार'] },
+  { id: 'CH', name: 'Chandigarh', aliases: [] },
+  { id: 'CT', name: 'Chhattisgarh', aliases: ['CG', 'Chattisgarh', 'छत्तीसगढ़'] },
+  { id: 'DD', name: 'Daman and Diu', aliases: ['Daman & Diu'] },
+  { id: 'DL', name: 'Delhi', aliases: ['NCT of Delhi', 'New Delhi', 'दिल्ली'] },
+  { id: 'DN', name: 'Dadra and Nagar Haveli', aliases: ['Dadra & Nagar Haveli', 'Dadra and Nagar Haveli and Daman and Diu'] },
+  { id: 'GA', name: 'Goa', aliases: [] },
+  { id: 'GJ', name: 'Gujarat', aliases: ['गुजरात'] },
+  { id: 'HP', name: 'Himachal Pradesh', aliases: ['हिमाचल प्रदेश'] },
+  { id: 'HR', name: 'Haryana', aliases: ['हरियाणा'] },
+  { id: 'JH', name: 'Jharkhand', aliases: ['झारखंड'] },
+  { id: 'JK', name: 'Jammu and Kashmir', aliases: ['J&K', 'Jammu & Kashmir'] },
+  { id: 'KA', name: 'Karnataka', aliases: [] },
+  { id: 'KL', name: 'Kerala', aliases: ['Keralam'] },
+  { id: 'LA', name: 'Ladakh', aliases: [] },
+  { id: 'LD', name: 'Lakshadweep', aliases: [] },
+  { id: 'MH', name: 'Maharashtra', aliases: ['महाराष्ट्र'] },
+  { id: 'ML', name: 'Meghalaya', aliases: [] },
+  { id: 'MN', name: 'Manipur', aliases: [] },
+  { id: 'MP', name: 'Madhya Pradesh', aliases: ['मध्य प्रदेश'] },
+  { id: 'MZ', name: 'Mizoram', aliases: [] },
+  { id: 'NL', name: 'Nagaland', aliases: [] },
+  { id: 'OR', name: 'Odisha', aliases: ['OD', 'Orissa', 'ओडिशा'] },
+  { id: 'PB', name: 'Punjab', aliases: ['पंजाब'] },
+  { id: 'PY', name: 'Puducherry', aliases: ['Pondicherry'] },
+  { id: 'RJ', name: 'Rajasthan', aliases: ['राजस्थान'] },
+  { id: 'SK', name: 'Sikkim', aliases: [] },
+  { id: 'TG', name: 'Telangana', aliases: ['TS', 'तेलंगाना'] },
+  { id: 'TN', name: 'Tamil Nadu', aliases: ['तमिलनाडु'] },
+  { id: 'TR', name: 'Tripura', aliases: [] },
+  { id: 'UP', name: 'Uttar Pradesh', aliases: ['उत्तर प्रदेश'] },
+  { id: 'UT', name: 'Uttarakhand', aliases: ['UK', 'Uttaranchal', 'उत्तराखंड'] },
+  { id: 'WB', name: 'West Bengal', aliases: ['Bengal', 'पश्चिम बंगाल'] }
+];
+
+export const LEVEL_LABELS: Record<MapLevel, string> = {
+  state: 'States',
+  pc: 'Lok Sabha constituencies',
+  ac: 'Vidhan Sabha constituencies'
+};
+
+// Same normalisation as the party registry; also drops reservation suffixes like "(SC)" from constituency names
+const normaliseKey = (text: string) =>
+  text.toLowerCase().replace(/\((sc|st)\)/g, '').replace(/&/g, 'and').replace(/[^a-z0-9ऀ-෿]/g, '');
+
+const STATE_INDEX = new Map<string, string>();
+STATES.forEach(state => {
+  [state.id, state.name, ...state.aliases].forEach(alias => STATE_INDEX.set(normaliseKey(alias), state.id));
+});
+
+export const findStateId = (name: string): string | null => (name ? STATE_INDEX.get(normaliseKey(name)) || null : null);
+
+export const stateName = (id: string) => STATES.find(s => s.id === id)?.name || id;
+
+// First state a free-text title or topic mentions. Two-letter codes are only trusted in capitals ("UP").
+export const findMentionedState = (text: string): string | null => {
+  const lower = text.toLowerCase();
+  const mentions = (name: string) => new RegExp(`(^|[^a-z])${name.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}($|[^a-z])`).test(lower);
+  const state = STATES.find(s => [s.name, ...s.aliases].some(name => name.length > 2 && mentions(name)));
+  if (state) return state.id;
+  return text.match(/\b[A-Z]{2}\b/g)?.map(findStateId).find(Boolean) ?? null;
+};
+
+// Boundary files live in public/geo. Constituency sets are per level (and per state for Vidhan Sabha),
+// so a deployment can add them without code changes.
+const boundaryUrl = (level: MapLevel, state?: string) => {
+  if (level === 'state') return 'geo/states.json';
+  if (level === 'pc') return 'geo/pc.json';
+  return `geo/ac/${state}.json`;
+};
+
+const toFeature = (raw: any): BoundaryFeature | null => {
+  const geometry = raw?.geometry;
+  if (!geometry) return null;
+  const polygons: Position[][][] = geometry.type === 'Polygon' ? [geometry.coordinates]
+    : geometry.type === 'MultiPolygon' ? geometry.coordinates
+    : [];
+  if (polygons.length === 0) return null;
+  const props = raw.properties || {};
+  // Also reads the property names used by the DataMeet constituency shapefiles
+  const name = String(props.name ?? props.pc_name ?? props.ac_name ?? raw.id ?? '');
+  return {
+    id: String(raw.id ?? props.id ?? name),
+    name,
+    state: String(props.state ?? findStateId(props.st_name ?? '') ?? ''),
+    polygons
+  };
+};
+
+// A boundary set that is not bundled; maps fall back to listing their regions
+export class MissingBoundariesError extends Error {
+  constructor(readonly level: MapLevel, readonly state?: string) {
+    super(`No ${LEVEL_LABELS[level].toLowerCase()} boundaries are bundled${state ? ` for ${stateName(state)}` : ''}.`);
+  }
+}
+
+const boundaryCache = new Map<string, Promise<BoundaryFeature[]>>();
+
+export const loadBoundaries = (level: MapLevel, state?: string): Promise<BoundaryFeature[]> => {
+  const url = boundaryUrl(level, state);
+  if (!boundaryCache.has(url)) {
+    const request = fetch(url)
+      .then(res => {
+        // The dev server answers missing files with index.html, so check the type as well as the status
+        if (!res.ok || !res.headers.get('content-type')?.includes('json')) {
+          throw new MissingBoundariesError(level, state);
+        }
+        return res.json();
+      })
+      .then(json => (Array.isArray(json?.features) ? json.features : [])
+        .map(toFeature)
+        .filter((f: BoundaryFeature | null): f is BoundaryFeature => !!f));
+    // Failed loads are not cached, so a later render can retry
+    request.catch(() => boundaryCache.delete(url));
+    boundaryCache.set(url, request);
+  }
+  return boundaryCache.get(url)!;
+};
+
+// Returns the region shown on each feature, keyed by feature id
+// Constituency names repeat across states (Aurangabad is in Bihar and Maharashtra), so the map's state breaks ties
+export const matchRegions = (regions: MapRegion[], features: BoundaryFeature[], state?: string) => {
+  const byId = new Map(features.map(f => [f.id, f]));
+  const byName = new Map<string, BoundaryFeature[]>();
+  features.forEach(f => {
+    const key = normaliseKey(f.name);
+    byName.set(key, [...(byName.get(key) || []), f]);
+  });
+  const named = (name: string) => {
+    const candidates = byName.get(normaliseKey(name)) || [];
+    return candidates.find(f => f.state === state) || candidates[0];
+  };
+  const matched = new Map<string, MapRegion>();
+  const unmatched: MapRegion[] = [];
+
+  regions.forEach(region => {
+    const feature = (region.regionId && byId.get(region.regionId))
+      || named(region.region)
+      || byId.get(findStateId(region.region) || '');
+    if (feature) matched.set(feature.id, region);
+    else unmatched.push(region);
+  });
+  return { matched, unmatched };
+};
+
+export const featureBounds = (features: BoundaryFeature[]): Bounds => {
+  const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  features.forEach(f => f.polygons.forEach(polygon => polygon.forEach(ring => ring.forEach(([lon, lat]) => {
+    bounds.minX = Math.min(bounds.minX, lon);
+    bounds.maxX = Math.max(bounds.maxX, lon);
+    bounds.minY = Math.min(bounds.minY, lat);
+    bounds.maxY = Math.max(bounds.maxY, lat);
+  }))));
+  return bounds;
+};
+
+// Equirectangular projection scaled by cos(latitude); at India's extent the distortion is negligible
+// and it avoids pulling in a full geo library
+export const createProjection = (bounds: Bounds, width: number, height: number, padding = 10) => {
+  const kx = Math.cos(((bounds.minY + bounds.maxY) / 2) * Math.PI / 180);
+  const spanX = Math.max((bounds.maxX - bounds.minX) * kx, 1e-6);
+  const spanY = Math.max(bounds.maxY - bounds.minY, 1e-6);
+  const scale = Math.min((width - padding * 2) / spanX, (height - padding * 2) / spanY);
+  const offsetX = (width - spanX * scale) / 2;
+  const offsetY = (height - spanY * scale) / 2;
+  return ([lon, lat]: Position): Position => [
+    offsetX + (lon - bounds.minX) * kx * scale,
+    offsetY + (bounds.maxY - lat) * scale
+  ];
+};
+
+export const featurePath = (feature: BoundaryFeature, project: (p: Position) => Position) =>
+  feature.polygons
+    .map(polygon => polygon
+      .map(ring => 'M' + ring.map(p => project(p).map(n => n.toFixed(1)).join(',')).join('L') + 'Z')
+      .join(''))
+    .join('');
+
+export const metricValue = (region: MapRegion, metric: MapMetric) =>
+  metric === 'margin' ? region.margin : metric === 'swing' ? region.swing : undefined;
+
+// Flattens map data into a table for exports and for maps whose boundaries are not bundled
+export const mapTableData = (mapData: MapData, t: UiStrings): TableData => ({
+  columns: [
+    { key: 'region', label: mapData.level === 'state' ? t.stateColumn : t.constituencyColumn, type: 'text' },
+    { key: 'winner', label: t.mapMetrics.winner, type: 'text' },
+    { key: 'margin', label: t.mapMetrics.margin, type: 'number' },
+    { key: 'swing', label: t.mapMetrics.swing, type: 'number' }
+  ],
+  rows: mapData.regions.map(r => ({
+    region: r.region,
+    winner: r.winner ? canonicalName(r.winner) : null,
+    margin: r.margin ?? null,
+    swing: r.swing ?? null
+  }))
+});
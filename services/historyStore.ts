@@ -0,0 +1,153 @@
+import { CacheEntry, ChatThread, Report, TopicSet } from '../types';
+
+const DB_NAME = 'politisight';
+const REPORTS_STORE = 'reports';
+const TOPIC_SETS_STORE = 'topicSets';
+const CACHE_STORE = 'reportCache';
+const CHAT_THREADS_STORE = 'chatThreads';
+const LEGACY_HISTORY_KEY = 'politisight_history';
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+// Migration N upgrades the schema from version N to N + 1. Never edit a shipped migration; append a new one.
+const MIGRATIONS: Migration[] = [
+  // v1: one record per report, indexed for sorting and title lookup.
+  // Imports the old single-key localStorage history.
+  (db, tx) => {
+    const store = db.createObjectStore(REPORTS_STORE, { keyPath: 'id' });
+    store.createIndex('createdAt', 'createdAt');
+    store.createIndex('title', 'title');
+
+    const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+    if (!saved) return;
+    try {
+      const legacy: Report[] = JSON.parse(saved);
+      legacy.forEach(report => {
+        if (report && report.id) store.put(report);
+      });
+      tx.addEventListener('complete', () => localStorage.removeItem(LEGACY_HISTORY_KEY));
+    } catch (e) {
+      console.error("Failed to import legacy history", e);
+    }
+  },
+  // v2: version chains, looked up by normalised topic
+  (db, tx) => {
+    tx.objectStore(REPORTS_STORE).createIndex('topicKey', 'topicKey');
+  },
+  // v3: saved topic sets for batch generation
+  (db) => {
+    db.createObjectStore(TOPIC_SETS_STORE, { keyPath: 'id' });
+  },
+  // v4: generated reports cached by normalised topic
+  (db) => {
+    db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+  },
+  // v5: chat threads, per report or general
+  (db) => {
+    db.createObjectStore(CHAT_THREADS_STORE, { keyPath: 'id' });
+  },
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const tx = request.transaction!;
+        for (let v = event.oldVersion; v < DB_VERSION; v++) {
+          MIGRATIONS[v](request.result, tx);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+      request.onblocked = () => console.warn("History database upgrade is blocked by another open tab.");
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  // Writes only count once the transaction commits, not when the request succeeds
+  const committed = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const [result] = await Promise.all([promisify(fn(tx.objectStore(storeName))), committed]);
+  return result;
+};
+
+// Newest first, matching the order history cards are shown in
+export const listReports = async (): Promise<Report[]> => {
+  const reports = await withStore<Report[]>(REPORTS_STORE, 'readonly', store => store.index('createdAt').getAll());
+  return reports.reverse();
+};
+
+export const putReport = async (report: Report): Promise<void> => {
+  await withStore(REPORTS_STORE, 'readwrite', store => store.put(report));
+};
+
+export const deleteReport = async (id: string): Promise<void> => {
+  await withStore(REPORTS_STORE, 'readwrite', store => store.delete(id));
+};
+
+// Most recently edited first
+export const listTopicSets = async (): Promise<TopicSet[]> => {
+  const sets = await withStore<TopicSet[]>(TOPIC_SETS_STORE, 'readonly', store => store.getAll());
+  return sets.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const putTopicSet = async (set: TopicSet): Promise<void> => {
+  await withStore(TOPIC_SETS_STORE, 'readwrite', store => store.put(set));
+};
+
+export const deleteTopicSet = async (id: string): Promise<void> => {
+  await withStore(TOPIC_SETS_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const getCacheEntry = (key: string): Promise<CacheEntry | undefined> =>
+  withStore<CacheEntry | undefined>(CACHE_STORE, 'readonly', store => store.get(key));
+
+export const listCacheEntries = (): Promise<CacheEntry[]> =>
+  withStore<CacheEntry[]>(CACHE_STORE, 'readonly', store => store.getAll());
+
+export const putCacheEntry = async (entry: CacheEntry): Promise<void> => {
+  await withStore(CACHE_STORE, 'readwrite', store => store.put(entry));
+};
+
+export const deleteCacheEntry = async (key: string): Promise<void> => {
+  await withStore(CACHE_STORE, 'readwrite', store => store.delete(key));
+};
+
+// Most recently active first
+export const listChatThreads = async (): Promise<ChatThread[]> => {
+  const threads = await withStore<ChatThread[]>(CHAT_THREADS_STORE, 'readonly', store => store.getAll());
+  return threads.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const putChatThread = async (thread: ChatThread): Promise<void> => {
+  await withStore(CHAT_THREADS_STORE, 'readwrite', store => store.put(thread));
+};
+
+export const deleteChatThread = async (id: string): Promise<void> => {
+  await withStore(CHAT_THREADS_STORE, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,58 @@
+import { Language } from '../types';
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export interface LanguageInfo {
+  code: Language;
+  nativeName: string;  // Shown in pickers, in its own script
+  englishName: string; // Used in prompts
+  locale: string;      // For dates and relative times
+  script: string;
+}
+
+export const LANGUAGES: Record<Language, LanguageInfo> = {
+  en: { code: 'en', nativeName: 'English', englishName: 'English', locale: 'en-IN', script: 'Latin' },
+  hi: { code: 'hi', nativeName: 'हिन्दी', englishName: 'Hindi', locale: 'hi-IN', script: 'Devanagari' },
+  mr: { code: 'mr', nativeName: 'मराठी', englishName: 'Marathi', locale: 'mr-IN', script: 'Devanagari' },
+  ta: { code: 'ta', nativeName: 'தமிழ்', englishName: 'Tamil', locale: 'ta-IN', script: 'Tamil' },
+  bn: { code: 'bn', nativeName: 'বাংলা', englishName: 'Bengali', locale: 'bn-IN', script: 'Bengali' }
+};
+
+export const LANGUAGE_CODES = Object.keys(LANGUAGES) as Language[];
+
+const STORAGE_KEY = 'politisight_language';
+
+export const loadLanguage = (): Language => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  return saved && saved in LANGUAGES ? saved as Language : DEFAULT_LANGUAGE;
+};
+
+export const saveLanguage = (language: Language) => localStorage.setItem(STORAGE_KEY, language);
+
+// Reports saved before languages existed are English
+export const reportLanguage = (report: { language?: Language }) => report.language ?? DEFAULT_LANGUAGE;
+
+// Versions and cache entries are kept apart per language; English keeps the plain topic key
+export const languageTopicKey = (topicKey: string, language: Language) =>
+  language === DEFAULT_LANGUAGE ? topicKey : `${topicKey}@${language}`;
+
+// Numbers stay in Western digits so charts, fact checks and the seat simulator read them unchanged
+export const languageInstruction = (language: Language) => {
+  if (language === DEFAULT_LANGUAGE) return '';
+  const { englishName, script } = LANGUAGES[language];
+  return `Write every human-readable text value in ${englishName}, in ${script} script. Keep JSON keys, ids, enum values and numeric fields exactly as specified. Write all numbers with Western digits (0-9), keep party and alliance abbreviations (BJP, INC, NDA, INDIA) in Latin letters, and keep chart category names (chartData name) in English so party colours still match.`;
+};
+
+// Devanagari, Bengali and Tamil digits, which models sometimes use despite being asked not to
+const NATIVE_DIGIT_ZEROS = [0x0966, 0x09E6, 0x0BE6];
+
+export const toWesternDigits = (text: string) =>
+  text.replace(/[०-९০-৯௦-௯]/g, digit => {
+    const code = digit.charCodeAt(0);
+    const zero = NATIVE_DIGIT_ZEROS.find(z => code >= z && code <= z + 9)!;
+    return String(code - zero);
+  });
+
+// The numbers in a piece of text, for checking a translation kept them all
+export const numbersIn = (text: string) =>
+  (toWesternDigits(text).match(/\d+(?:[.,]\d+)*/g) || []).map(n => n.replace(/,/g, '')).sort();
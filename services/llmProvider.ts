@@ -0,0 +1,102 @@
+import { GroundingSource } from '../types';
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createMockProvider } from './providers/mockProvider';
+
+export interface ReportGenerationRequest {
+  topic: string;
+  contents: string;
+  systemInstruction: string;
+  temperature: number;
+  signal?: AbortSignal;
+  onStream?: (event: GenerationStreamEvent) => void;
+}
+
+// Ungrounded generation that answers with JSON, e.g. for translating a report
+export interface JsonGenerationRequest {
+  contents: string;
+  input?: unknown; // Structured data the prompt is about; the offline provider answers from it
+  systemInstruction: string;
+  temperature: number;
+  signal?: AbortSignal;
+}
+
+export interface GenerationStreamEvent {
+  text: string;             // Text received since the previous event
+  tokens?: number;          // Output tokens so far, when the provider reports usage
+  searchQueries?: string[]; // Search queries the model has run so far
+}
+
+export interface GroundingSupport {
+  text: string;            // Segment of the response text, as returned by the model
+  sourceIndices: number[]; // Indices into ReportGenerationResult.sources
+}
+
+export interface ReportGenerationResult {
+  text: string | undefined;
+  sources: GroundingSource[]; // Grounded search results backing the text
+  supports: GroundingSupport[];
+}
+
+export interface ChatChunk {
+  text?: string;
+  toolCalls?: ChatToolCall[];
+}
+
+// A function the chat model may ask the app to run. Parameters are a JSON Schema for the arguments.
+export interface ChatToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ChatToolCall {
+  id?: string; // Provider call id, echoed back with the result
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ChatToolResult {
+  id?: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface ChatSession {
+  sendMessageStream(params: { message: string }): Promise<AsyncIterable<ChatChunk>>;
+  // Answers the tool calls of the previous reply; every call in that reply needs a result
+  sendToolResults(results: ChatToolResult[]): Promise<AsyncIterable<ChatChunk>>;
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  chatModelLabel: string; // Shown in the chat header
+  generateReport(request: ReportGenerationRequest): Promise<ReportGenerationResult>;
+  generateJson(request: JsonGenerationRequest): Promise<string | undefined>;
+  // history seeds a resumed conversation
+  createChat(systemInstruction: string, history?: ChatTurn[], tools?: ChatToolDeclaration[]): ChatSession;
+}
+
+export type ProviderId = 'gemini' | 'mock';
+
+let provider: LLMProvider | null = null;
+
+// Provider is picked once per page load from LLM_PROVIDER (see vite.config.ts)
+export const getProvider = (): LLMProvider => {
+  if (!provider) {
+    const id = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+    if (id === 'mock') {
+      provider = createMockProvider();
+    } else {
+      if (id !== 'gemini') {
+        console.warn(`Unknown LLM_PROVIDER "${id}", falling back to gemini.`);
+      }
+      provider = createGeminiProvider();
+    }
+  }
+  return provider;
+};
@@ -0,0 +1,127 @@
+export type AllianceId = 'NDA' | 'INDIA';
+
+export interface Alliance {
+  id: AllianceId;
+  name: string;
+  color: string;
+}
+
+export interface Party {
+  abbreviation: string; // Canonical display name in charts
+  name: string;
+  aliases: string[];
+  color: string;
+  alliance?: AllianceId;
+}
+
+export const ALLIANCES: Record<AllianceId, Alliance> = {
+  NDA: { id: 'NDA', name: 'National Democratic Alliance', color: '#F97316' },
+  INDIA: { id: 'INDIA', name: 'Indian National Developmental Inclusive Alliance', color: '#0EA5E9' }
+};
+
+// Colours follow the parties' own flags and campaign material; alliance membership as of the 2024 Lok Sabha election
+export const PARTIES: Party[] = [
+  { abbreviation: 'BJP', name: 'Bharatiya Janata Party', aliases: ['Bhartiya Janata Party', 'भाजपा', 'भारतीय जनता पार्टी'], color: '#FF9933', alliance: 'NDA' },
+  { abbreviation: 'INC', name: 'Indian National Congress', aliases: ['Congress', 'Cong', 'Congress Party', 'कांग्रेस'], color: '#19AAED', alliance: 'INDIA' },
+  { abbreviation: 'BSP', name: 'Bahujan Samaj Party', aliases: ['बसपा', 'बहुजन समाज पार्टी'], color: '#22409A' },
+  { abbreviation: 'SP', name: 'Samajwadi Party', aliases: ['सपा', 'समाजवादी पार्टी'], color: '#E11D48', alliance: 'INDIA' },
+  { abbreviation: 'AAP', name: 'Aam Aadmi Party', aliases: ['आप', 'आम आदमी पार्टी'], color: '#0066A4', alliance: 'INDIA' },
+  { abbreviation: 'AITC', name: 'All India Trinamool Congress', aliases: ['TMC', 'Trinamool', 'Trinamool Congress'], color: '#20C646', alliance: 'INDIA' },
+  { abbreviation: 'DMK', name: 'Dravida Munnetra Kazhagam', aliases: [], color: '#DD1100', alliance: 'INDIA' },
+  { abbreviation: 'AIADMK', name: 'All India Anna Dravida Munnetra Kazhagam', aliases: ['ADMK'], color: '#138808' },
+  { abbreviation: 'CPI(M)', name: 'Communist Party of India (Marxist)', aliases: ['CPM', 'CPIM'], color: '#CC0D0D', alliance: 'INDIA' },
+  { abbreviation: 'CPI', name: 'Communist Party of India', aliases: [], color: '#F87171', alliance: 'INDIA' },
+  { abbreviation: 'JD(U)', name: 'Janata Dal (United)', aliases: ['JDU', 'Janata Dal United'], color: '#2E7D32', alliance: 'NDA' },
+  { abbreviation: 'RJD', name: 'Rashtriya Janata Dal', aliases: ['राजद'], color: '#15803D', alliance: 'INDIA' },
+  { abbreviation: 'TDP', name: 'Telugu Desam Party', aliases: [], color: '#FACC15', alliance: 'NDA' },
+  { abbreviation: 'YSRCP', name: 'YSR Congress Party', aliases: ['YSRC', 'YSR Congress', 'Yuvajana Sramika Rythu Congress Party'], color: '#1569C7' },
+  { abbreviation: 'BJD', name: 'Biju Janata Dal', aliases: [], color: '#006400' },
+  { abbreviation: 'BRS', name: 'Bharat Rashtra Samithi', aliases: ['TRS', 'Telangana Rashtra Samithi'], color: '#EC4899' },
+  { abbreviation: 'SHS', name: 'Shiv Sena', aliases: ['Shivsena', 'SS'], color: '#F26F21', alliance: 'NDA' },
+  { abbreviation: 'SS(UBT)', name: 'Shiv Sena (Uddhav Balasaheb Thackeray)', aliases: ['SSUBT', 'Shiv Sena UBT', 'Shiv Sena (UBT)'], color: '#FB923C', alliance: 'INDIA' },
+  { abbreviation: 'NCP', name: 'Nationalist Congress Party', aliases: [], color: '#00B2B2', alliance: 'NDA' },
+  { abbreviation: 'NCP(SP)', name: 'Nationalist Congress Party (Sharadchandra Pawar)', aliases: ['NCPSP', 'NCP (Sharad Pawar)', 'NCP Sharad Pawar'], color: '#0891B2', alliance: 'INDIA' },
+  { abbreviation: 'JMM', name: 'Jharkhand Mukti Morcha', aliases: [], color: '#215B30', alliance: 'INDIA' },
+  { abbreviation: 'RLD', name: 'Rashtriya Lok Dal', aliases: [], color: '#65A30D', alliance: 'NDA' },
+  { abbreviation: 'LJP(RV)', name: 'Lok Janshakti Party (Ram Vilas)', aliases: ['LJPRV', 'LJP'], color: '#7C3AED', alliance: 'NDA' },
+  { abbreviation: 'JD(S)', name: 'Janata Dal (Secular)', aliases: ['JDS', 'Janata Dal Secular'], color: '#047857', alliance: 'NDA' },
+  { abbreviation: 'AD(S)', name: 'Apna Dal (Soneylal)', aliases: ['Apna Dal', 'ADS'], color: '#A855F7', alliance: 'NDA' },
+  { abbreviation: 'JSP', name: 'Janasena Party', aliases: ['Jana Sena', 'Jana Sena Party'], color: '#DC2626', alliance: 'NDA' },
+  { abbreviation: 'JKNC', name: 'Jammu & Kashmir National Conference', aliases: ['National Conference', 'NC'], color: '#B91C1C', alliance: 'INDIA' },
+  { abbreviation: 'IUML', name: 'Indian Union Muslim League', aliases: ['Muslim League'], color: '#166534', alliance: 'INDIA' },
+  { abbreviation: 'AIMIM', name: 'All India Majlis-e-Ittehadul Muslimeen', aliases: ['MIM', 'Majlis'], color: '#136B4B' },
+  { abbreviation: 'SAD', name: 'Shiromani Akali Dal', aliases: ['Akali Dal'], color: '#0F204A' }
+];
+
+// Case, spacing and punctuation vary between sources ("JD(U)", "JDU", "J.D.U."), so keys keep only letters and digits
+const normaliseKey = (text: string) => text.toLowerCase().replace(/[^a-z0-9ऀ-෿]/g, '');
+
+const PARTY_INDEX = new Map<string, Party>();
+PARTIES.forEach(party => {
+  [party.abbreviation, party.name, ...party.aliases].forEach(alias => PARTY_INDEX.set(normaliseKey(alias), party));
+});
+
+const ALLIANCE_INDEX = new Map<string, Alliance>();
+Object.values(ALLIANCES).forEach(alliance => {
+  [alliance.id, alliance.name, `${alliance.id} alliance`, `${alliance.id} bloc`].forEach(alias => ALLIANCE_INDEX.set(normaliseKey(alias), alliance));
+});
+ALLIANCE_INDEX.set(normaliseKey('I.N.D.I.A.'), ALLIANCES.INDIA);
+
+// Exact matches only: "BJP 2019" or "Others" are categories, not parties.
+// Also accepts "Bharatiya Janata Party (BJP)" by trying the text outside and inside the brackets.
+const lookup = <T>(index: Map<string, T>, text: string): T | null => {
+  const direct = index.get(normaliseKey(text));
+  if (direct) return direct;
+  const bracketed = text.match(/^(.+?)\s*\(([^()]+)\)\s*$/);
+  if (!bracketed) return null;
+  return index.get(normaliseKey(bracketed[1])) || index.get(normaliseKey(bracketed[2])) || null;
+};
+
+export const findParty = (name: string): Party | null => (name ? lookup(PARTY_INDEX, name) : null);
+
+// "India" the country is far more common in charts than the bloc, which is always written in capitals
+export const findAlliance = (name: string): Alliance | null => {
+  if (!name || (normaliseKey(name) === 'india' && name.trim() !== 'INDIA')) return null;
+  return lookup(ALLIANCE_INDEX, name);
+};
+
+export const canonicalName = (name: string) => findParty(name)?.abbreviation || findAlliance(name)?.id || name;
+
+export const identityColor = (name: string): string | undefined => (findParty(name) || findAlliance(name))?.color;
+
+// First party named in free text, matched on whole words (abbreviations are case-sensitive to avoid "sp" in prose)
+export const findMentionedParty = (text: string): Party | null => {
+  let best: Party | null = null;
+  let bestIndex = Infinity;
+  let bestLength = 0;
+  for (const party of PARTIES) {
+    const names = [party.abbreviation, party.name, ...party.aliases.filter(a => a.length > 3 || a !== a.toLowerCase())];
+    for (const candidate of names) {
+      const escaped = candidate.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const isAcronym = candidate === candidate.toUpperCase();
+      const match = new RegExp(`(^|[^\\w])${escaped}(?![\\w])`, isAcronym ? '' : 'i').exec(text);
+      // Prefer the longest name at the same position, so "Shiv Sena (UBT)" is not read as "Shiv Sena"
+      if (match && (match.index < bestIndex || (match.index === bestIndex && candidate.length > bestLength))) {
+        best = party;
+        bestIndex = match.index;
+        bestLength = candidate.length;
+      }
+    }
+  }
+  return best;
+};
+
+export interface LegendGroup {
+  alliance: Alliance | null; // null collects parties outside both alliances
+  parties: Party[];
+}
+
+// Groups the recognised parties among chart labels by alliance, for the legend under each chart
+export const groupByAlliance = (names: string[]): LegendGroup[] => {
+  const parties = Array.from(new Set(names.map(findParty).filter((p): p is Party => !!p)));
+  const groups: LegendGroup[] = [
+    ...Object.values(ALLIANCES).map(alliance => ({ alliance, parties: parties.filter(p => p.alliance === alliance.id) })),
+    { alliance: null, parties: parties.filter(p => !p.alliance) }
+  ];
+  return groups.filter(g => g.parties.length > 0);
+};
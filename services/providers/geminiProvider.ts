@@ -0,0 +1,147 @@
+import { FinishReason, GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { GroundingSource } from '../../types';
+import { LLMProvider, ChatChunk, GroundingSupport } from '../llmProvider';
+import { ApiKeyError, SafetyBlockError } from '../reportErrors';
+
+const REPORT_MODEL = 'gemini-2.5-flash';
+const CHAT_MODEL = 'gemini-3-pro-preview';
+
+// Finish reasons that mean the answer was withheld rather than completed
+const BLOCKED_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII
+];
+
+const getAiClient = () => {
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) {
+    throw new ApiKeyError("API Key is missing. Please set process.env.API_KEY.");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+export const createGeminiProvider = (): LLMProvider => ({
+  id: 'gemini',
+  chatModelLabel: 'Gemini 3 Pro',
+
+  generateReport: async ({ contents, systemInstruction, temperature, signal, onStream }) => {
+    const ai = getAiClient();
+    const stream = await ai.models.generateContentStream({
+      model: REPORT_MODEL,
+      contents,
+      config: {
+        tools: [{ googleSearch: {} }],
+        systemInstruction,
+        temperature,
+        abortSignal: signal,
+      }
+    });
+
+    let text = '';
+    const sources: GroundingSource[] = [];
+    const supports: GroundingSupport[] = [];
+    const searchQueries: string[] = [];
+
+    for await (const chunk of stream) {
+      const blockReason = chunk.promptFeedback?.blockReason;
+      const finishReason = chunk.candidates?.[0]?.finishReason;
+      if (blockReason) throw new SafetyBlockError(blockReason);
+      if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) throw new SafetyBlockError(finishReason);
+
+      const chunkText = chunk.text || '';
+      text += chunkText;
+
+      // Grounding metadata arrives alongside the chunks; support indices are local to each chunk's metadata
+      const metadata = chunk.candidates?.[0]?.groundingMetadata;
+      const sourceIndexByChunk: number[] = [];
+
+      metadata?.groundingChunks?.forEach((groundingChunk, i) => {
+        if (groundingChunk.web?.uri && groundingChunk.web?.title) {
+          sourceIndexByChunk[i] = sources.length;
+          sources.push({
+            title: groundingChunk.web.title,
+            uri: groundingChunk.web.uri
+          });
+        }
+      });
+
+      // Map each supported segment to the web sources behind it
+      metadata?.groundingSupports?.forEach(support => {
+        const sourceIndices = (support.groundingChunkIndices || [])
+          .map(i => sourceIndexByChunk[i])
+          .filter(i => i !== undefined);
+        const segment = support.segment?.text;
+        if (segment && sourceIndices.length > 0 && !supports.some(s => s.text === segment)) {
+          supports.push({ text: segment, sourceIndices });
+        }
+      });
+
+      metadata?.webSearchQueries?.forEach(query => {
+        if (!searchQueries.includes(query)) searchQueries.push(query);
+      });
+
+      onStream?.({
+        text: chunkText,
+        tokens: chunk.usageMetadata?.candidatesTokenCount,
+        searchQueries: [...searchQueries]
+      });
+    }
+
+    return { text: text || undefined, sources, supports };
+  },
+
+  generateJson: async ({ contents, systemInstruction, temperature, signal }) => {
+    const ai = getAiClient();
+    const response = await ai.models.generateContent({
+      model: REPORT_MODEL,
+      contents,
+      config: {
+        systemInstruction,
+        temperature,
+        responseMimeType: 'application/json',
+        abortSignal: signal,
+      }
+    });
+
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason) throw new SafetyBlockError(blockReason);
+    if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) throw new SafetyBlockError(finishReason);
+    return response.text || undefined;
+  },
+
+  createChat: (systemInstruction, history = [], tools = []) => {
+    const ai = getAiClient();
+    const chat = ai.chats.create({
+      model: CHAT_MODEL,
+      config: {
+        systemInstruction,
+        tools: tools.length > 0
+          ? [{ functionDeclarations: tools.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters })) }]
+          : undefined,
+      },
+      history: history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }))
+    });
+
+    return {
+      sendMessageStream: async ({ message }) => toChatChunks(await chat.sendMessageStream({ message })),
+      sendToolResults: async (results) => toChatChunks(await chat.sendMessageStream({
+        message: results.map(r => ({ functionResponse: { id: r.id, name: r.name, response: r.response } }))
+      }))
+    };
+  }
+});
+
+// Text and function calls only; reading chunk.text directly warns whenever a chunk carries a call
+async function* toChatChunks(stream: AsyncGenerator<GenerateContentResponse>): AsyncGenerator<ChatChunk> {
+  for await (const chunk of stream) {
+    const parts = chunk.candidates?.[0]?.content?.parts || [];
+    const text = parts.filter(p => p.text && !p.thought).map(p => p.text).join('');
+    const toolCalls = (chunk.functionCalls || [])
+      .filter(call => call.name)
+      .map(call => ({ id: call.id, name: call.name!, args: call.args || {} }));
+    yield { text: text || undefined, toolCalls: toolCalls.length > 0 ? toolCalls : undefined };
+  }
+}
@@ -0,0 +1,242 @@
+import { GroundingSource, SectionType } from '../../types';
+import { ReportPayload } from '../reportValidator';
+import { ChatToolCall, GroundingSupport } from '../llmProvider';
+
+export interface ReportFixture {
+  keywords: string[]; // Matched against the lower-cased topic
+  report: ReportPayload;
+  sources: GroundingSource[];
+  supports: GroundingSupport[];
+}
+
+export interface ChatScript {
+  keywords: string[];
+  reply: string;
+  toolCall?: ChatToolCall; // Proposed after the reply, to demo chat actions
+}
+
+const ECI_SOURCE: GroundingSource = { title: 'Election Commission of India – Statistical Reports', uri: 'https://www.eci.gov.in/statistical-reports' };
+const PRS_SOURCE: GroundingSource = { title: 'PRS Legislative Research', uri: 'https://prsindia.org' };
+
+export const REPORT_FIXTURES: ReportFixture[] = [
+  {
+    keywords: ['uttar pradesh', ' up ', 'lucknow', 'vidhan sabha 2027'],
+    sources: [ECI_SOURCE, PRS_SOURCE],
+    supports: [
+      { text: 'The NDA holds a comfortable majority in the assembly.', sourceIndices: [1] },
+      { text: 'BJP vote share in Vidhan Sabha elections has grown steadily since 2012.', sourceIndices: [0] },
+      { text: 'Over 80 seats were decided by margins under 5,000 votes in 2022.', sourceIndices: [0] }
+    ],
+    report: {
+      title: 'Uttar Pradesh 2027: The Battle for Lucknow',
+      date: 'Offline demo data',
+      executiveSummary: 'This is a fixture report served by the offline mock provider. The BJP-led NDA enters the 2027 Vidhan Sabha cycle as the incumbent, while the SP-led alliance consolidated its 2024 Lok Sabha gains in eastern and central UP.\n\nThe figures below are illustrative and exist so the interface can be developed and demonstrated without network access.',
+      keyInsights: [
+        { icon: 'trend-up', text: 'SP vote share rose sharply between 2017 and 2022.', value: '+10.2%', color: '#EF4444' },
+        { icon: 'trend-down', text: 'BSP core vote continued to fragment.', value: '-9.4%', color: '#3B82F6' },
+        { icon: 'alert', text: 'Over 80 seats were decided by margins under 5,000 votes in 2022.', value: '80+' },
+        { icon: 'info', text: 'Total assembly strength.', value: '403' }
+      ],
+      sections: [
+        {
+          id: 'current-situation',
+          title: 'Current Political Situation',
+          type: SectionType.TEXT,
+          content: 'The NDA holds a comfortable majority in the assembly. The **2024 Lok Sabha** result, however, showed the SP-INC combine winning more seats in the state than the NDA, resetting expectations for 2027.'
+        },
+        {
+          id: 'historical-trends',
+          title: 'Historical Vote Share (BJP)',
+          type: SectionType.LINE_CHART,
+          content: 'BJP vote share in Vidhan Sabha elections has grown steadily since 2012.',
+          chartData: [
+            { name: '2007', value: 17.0 },
+            { name: '2012', value: 15.0 },
+            { name: '2017', value: 39.7 },
+            { name: '2022', value: 41.3 }
+          ],
+          chartConfig: { xLabel: 'Election', yLabel: 'Vote share (%)', title: 'BJP Vote Share in UP Assembly Elections' }
+        },
+        {
+          id: 'seat-projections',
+          title: 'Future Projections (2027)',
+          type: SectionType.BAR_CHART,
+          content: 'A baseline scenario assuming a 3-point swing from the NDA to the SP alliance.',
+          chartData: [
+            { name: 'NDA', value: 231 },
+            { name: 'SP+', value: 158 },
+            { name: 'BSP', value: 6 },
+            { name: 'Others', value: 8 }
+          ],
+          chartConfig: { xLabel: 'Alliance', yLabel: 'Projected seats', title: 'Projected Seats, 2027' }
+        },
+        {
+          id: 'caste-dynamics',
+          title: 'Demographic/Caste Dynamics',
+          type: SectionType.PIE_CHART,
+          content: 'Approximate electorate composition used in the projections above.',
+          chartData: [
+            { name: 'OBC', value: 42 },
+            { name: 'Dalit', value: 21 },
+            { name: 'Upper Caste', value: 18 },
+            { name: 'Muslim', value: 19 }
+          ],
+          chartConfig: { title: 'Electorate Composition (%)' }
+        },
+        {
+          id: 'vidhan-sabha-2022',
+          title: 'Vidhan Sabha 2022 Results',
+          type: SectionType.TABLE,
+          content: 'Seats and vote share by party in the 2022 assembly election.',
+          tableData: {
+            columns: [
+              { key: 'party', label: 'Party', type: 'text' },
+              { key: 'contested', label: 'Contested', type: 'number', unit: 'seats' },
+              { key: 'won', label: 'Won', type: 'number', unit: 'seats' },
+              { key: 'share', label: 'Vote share', type: 'percent' }
+            ],
+            rows: [
+              { party: 'BJP', contested: 376, won: 255, share: 41.3 },
+              { party: 'SP', contested: 347, won: 111, share: 32.1 },
+              { party: 'BSP', contested: 403, won: 1, share: 12.9 },
+              { party: 'INC', contested: 399, won: 2, share: 2.3 }
+            ]
+          }
+        }
+      ]
+    }
+  },
+  {
+    // Fallback fixture: matches every topic
+    keywords: [],
+    sources: [ECI_SOURCE],
+    supports: [
+      { text: 'Seats won by the two main alliances and others.', sourceIndices: [0] },
+      { text: 'National turnout across the last four general elections.', sourceIndices: [0] }
+    ],
+    report: {
+      title: 'National Political Overview',
+      date: 'Offline demo data',
+      executiveSummary: 'This is a fixture report served by the offline mock provider. It gives a generic national overview so every topic produces a complete report when no API key or network is available.',
+      keyInsights: [
+        { icon: 'info', text: 'Lok Sabha strength.', value: '543' },
+        { icon: 'trend-up', text: 'Turnout in 2024 general election.', value: '65.8%' },
+        { icon: 'alert', text: 'Coalition politics returned at the centre in 2024.' }
+      ],
+      sections: [
+        {
+          id: 'current-situation',
+          title: 'Current Political Situation',
+          type: SectionType.TEXT,
+          content: 'The NDA formed the government in 2024 with the support of its allies, while the INDIA bloc emerged as a larger opposition than in 2019.'
+        },
+        {
+          id: 'lok-sabha-2024',
+          title: 'Lok Sabha 2024 Seats',
+          type: SectionType.BAR_CHART,
+          content: 'Seats won by the two main alliances and others.',
+          chartData: [
+            { name: 'NDA', value: 293 },
+            { name: 'INDIA', value: 234 },
+            { name: 'Others', value: 16 }
+          ],
+          chartConfig: { xLabel: 'Alliance', yLabel: 'Seats', title: 'Lok Sabha 2024' }
+        },
+        {
+          id: 'turnout-trend',
+          title: 'Historical Turnout',
+          type: SectionType.LINE_CHART,
+          content: 'National turnout across the last four general elections.',
+          chartData: [
+            { name: '2009', value: 58.2 },
+            { name: '2014', value: 66.4 },
+            { name: '2019', value: 67.4 },
+            { name: '2024', value: 65.8 }
+          ],
+          chartConfig: { xLabel: 'Election', yLabel: 'Turnout (%)', title: 'Lok Sabha Turnout' }
+        },
+        {
+          id: 'vote-share-2024',
+          title: 'Vote Share 2024',
+          type: SectionType.PIE_CHART,
+          content: 'Approximate national vote share by party.',
+          chartData: [
+            { name: 'BJP', value: 36.6 },
+            { name: 'INC', value: 21.2 },
+            { name: 'Others', value: 42.2 }
+          ],
+          chartConfig: { title: 'Vote Share (%)' }
+        },
+        {
+          id: 'largest-party-by-state',
+          title: 'Largest Party by State',
+          type: SectionType.MAP,
+          content: 'Party with the most Lok Sabha seats in each major state in 2024. States where two parties tied are left blank.',
+          mapData: {
+            level: 'state',
+            metric: 'winner',
+            regions: [
+              { region: 'Uttar Pradesh', regionId: 'UP', winner: 'SP' },
+              { region: 'Maharashtra', regionId: 'MH', winner: 'INC' },
+              { region: 'West Bengal', regionId: 'WB', winner: 'AITC' },
+              { region: 'Tamil Nadu', regionId: 'TN', winner: 'DMK' },
+              { region: 'Kerala', regionId: 'KL', winner: 'INC' },
+              { region: 'Punjab', regionId: 'PB', winner: 'INC' },
+              { region: 'Andhra Pradesh', regionId: 'AP', winner: 'TDP' },
+              { region: 'Karnataka', regionId: 'KA', winner: 'BJP' },
+              { region: 'Gujarat', regionId: 'GJ', winner: 'BJP' },
+              { region: 'Madhya Pradesh', regionId: 'MP', winner: 'BJP' },
+              { region: 'Rajasthan', regionId: 'RJ', winner: 'BJP' },
+              { region: 'Odisha', regionId: 'OR', winner: 'BJP' },
+              { region: 'Delhi', regionId: 'DL', winner: 'BJP' },
+              { region: 'Jharkhand', regionId: 'JH', winner: 'BJP' },
+              { region: 'Chhattisgarh', regionId: 'CT', winner: 'BJP' },
+              { region: 'Assam', regionId: 'AS', winner: 'BJP' },
+              { region: 'Uttarakhand', regionId: 'UT', winner: 'BJP' },
+              { region: 'Himachal Pradesh', regionId: 'HP', winner: 'BJP' }
+            ]
+          },
+          chartConfig: { title: 'Largest Party, Lok Sabha 2024' }
+        }
+      ]
+    }
+  }
+];
+
+export const CHAT_SCRIPTS: ChatScript[] = [
+  {
+    keywords: ['swing', 'projection', 'predict'],
+    reply: 'In this offline demo, projections use a **uniform swing** model: every seat moves by the same vote-share change. A 3-point swing is usually enough to flip the closest 10–15% of seats.'
+  },
+  {
+    keywords: ['caste', 'obc', 'dalit'],
+    reply: 'Caste arithmetic matters most where the margin of victory is smaller than the size of a single community bloc. The demo reports include an illustrative electorate composition chart.'
+  },
+  {
+    keywords: ['chart', 'plot', 'graph'],
+    reply: 'Here are the 2024 Lok Sabha seat totals for the largest parties.',
+    toolCall: {
+      name: 'show_chart',
+      args: {
+        chartType: 'BAR_CHART',
+        title: 'Lok Sabha 2024: seats won',
+        data: [
+          { name: 'BJP', value: 240 },
+          { name: 'INC', value: 99 },
+          { name: 'SP', value: 37 },
+          { name: 'AITC', value: 29 },
+          { name: 'DMK', value: 22 }
+        ]
+      }
+    }
+  },
+  {
+    keywords: ['new report', 'generate', 'analyse', 'analyze'],
+    reply: 'I can put together a full report on that.',
+    toolCall: { name: 'generate_report', args: { topic: 'Uttar Pradesh Vidhan Sabha 2027' } }
+  },
+  {
+    keywords: [],
+    reply: "I'm running on the **offline mock provider**, so my answers are scripted. Switch `LLM_PROVIDER` to `gemini` and set `GEMINI_API_KEY` for live analysis."
+  }
+];
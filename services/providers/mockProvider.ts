@@ -0,0 +1,74 @@
+import { LLMProvider, ChatChunk, ChatToolCall } from '../llmProvider';
+import { REPORT_FIXTURES, CHAT_SCRIPTS } from './mockFixtures';
+
+// Simulated latencies keep the loading states visible during demos
+const REPORT_DELAY_MS = 1200;
+const CHUNK_DELAY_MS = 40;
+const REPORT_CHUNK_CHARS = 200;
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+const matches = (keywords: string[], text: string) => {
+  const padded = ` ${text.toLowerCase()} `;
+  return keywords.length === 0 || keywords.some(k => padded.includes(k));
+};
+
+async function* streamWords(text: string, toolCall?: ChatToolCall): AsyncGenerator<ChatChunk> {
+  const words = text.split(/(?<=\s)/);
+  for (const word of words) {
+    await wait(CHUNK_DELAY_MS);
+    yield { text: word };
+  }
+  if (toolCall) yield { toolCalls: [toolCall] };
+}
+
+export const createMockProvider = (): LLMProvider => ({
+  id: 'mock',
+  chatModelLabel: 'Offline Demo',
+
+  generateReport: async ({ topic, signal, onStream }) => {
+    const fixture = REPORT_FIXTURES.find(f => matches(f.keywords, topic))!;
+    const text = JSON.stringify(fixture.report);
+
+    // Pretend to search, then stream the fixture in small pieces
+    await wait(REPORT_DELAY_MS, signal);
+    const searchQueries = [topic];
+    for (let i = 0; i < text.length; i += REPORT_CHUNK_CHARS) {
+      await wait(CHUNK_DELAY_MS, signal);
+      onStream?.({ text: text.slice(i, i + REPORT_CHUNK_CHARS), searchQueries });
+    }
+
+    return {
+      text,
+      sources: fixture.sources,
+      supports: fixture.supports
+    };
+  },
+
+  // The demo cannot translate, so it answers with the input it was given
+  generateJson: async ({ input, signal }) => {
+    await wait(REPORT_DELAY_MS, signal);
+    return JSON.stringify(input ?? {});
+  },
+
+  createChat: (_systemInstruction, _history, tools = []) => ({
+    sendMessageStream: async ({ message }) => {
+      const script = CHAT_SCRIPTS.find(s => matches(s.keywords, message))!;
+      const toolCall = script.toolCall && tools.some(t => t.name === script.toolCall!.name)
+        ? { ...script.toolCall, id: crypto.randomUUID() }
+        : undefined;
+      return streamWords(script.reply, toolCall);
+    },
+    sendToolResults: async (results) => {
+      const ok = results.every(r => r.response.ok);
+      return streamWords(ok ? 'Done.' : "Understood, I've left that for now.");
+    }
+  })
+});
@@ -0,0 +1,95 @@
+import { CacheEntry, GenerationProgress, Language, Report, TopicType } from '../types';
+import { generatePoliticalReport } from './geminiService';
+import { toTopicKey } from './reportVersions';
+import { DEFAULT_LANGUAGE, languageTopicKey, reportLanguage } from './languages';
+import { deleteCacheEntry, getCacheEntry, listCacheEntries, putCacheEntry } from './historyStore';
+
+const HOUR = 60 * 60 * 1000;
+
+// How long a cached report stays fresh, by what the topic asks about
+export const CACHE_TTLS: Record<TopicType, number> = {
+  current: 3 * HOUR,
+  general: 12 * HOUR,
+  projection: 24 * HOUR,
+  historical: 7 * 24 * HOUR
+};
+
+const MAX_CACHE_ENTRIES = 50;
+const MAX_CACHE_CHARS = 8_000_000;
+
+// Checked in order, so a topic that mixes current events with history gets the shorter TTL
+const TOPIC_PATTERNS: [TopicType, RegExp][] = [
+  ['current', /\b(current|latest|today|now|ongoing|live|this (week|month)|news|dynamics|crisis|power)\b/i],
+  ['projection', /\b(projections?|forecasts?|outlook|predictions?|prospects|upcoming)\b/i],
+  ['historical', /\b(histor(y|ic|ical)|past|trends?|since|evolution|legacy)\b/i]
+];
+
+export const classifyTopic = (topic: string): TopicType => {
+  const match = TOPIC_PATTERNS.find(([, pattern]) => pattern.test(topic));
+  if (match) return match[0];
+  // A bare year decides it: elections still to come are projections, finished ones are history
+  const years = (topic.match(/\b(19|20)\d{2}\b/g) || []).map(Number);
+  if (years.length === 0) return 'general';
+  return Math.max(...years) >= new Date().getFullYear() ? 'projection' : 'historical';
+};
+
+const isFresh = (entry: CacheEntry, now = Date.now()) => now - entry.cachedAt < CACHE_TTLS[entry.topicType];
+
+// Drops stale entries, then the oldest ones until the cache fits its limits
+const evict = async () => {
+  const now = Date.now();
+  const entries = await listCacheEntries();
+  const stale = entries.filter(e => !isFresh(e, now));
+  const fresh = entries.filter(e => isFresh(e, now)).sort((a, b) => b.cachedAt - a.cachedAt);
+
+  let chars = 0;
+  const overflow = fresh.filter((entry, i) => {
+    chars += entry.size;
+    return i >= MAX_CACHE_ENTRIES || chars > MAX_CACHE_CHARS;
+  });
+  await Promise.all([...stale, ...overflow].map(e => deleteCacheEntry(e.key)));
+};
+
+const cacheKey = (topic: string, language: Language) => languageTopicKey(toTopicKey(topic), language);
+
+export const getCachedReport = async (topic: string, language: Language = DEFAULT_LANGUAGE): Promise<CacheEntry | null> => {
+  const entry = await getCacheEntry(cacheKey(topic, language));
+  return entry && isFresh(entry) ? entry : null;
+};
+
+export const cacheReport = async (topic: string, report: Report): Promise<void> => {
+  await putCacheEntry({
+    key: cacheKey(topic, reportLanguage(report)),
+    topicType: classifyTopic(topic),
+    report,
+    cachedAt: Date.now(),
+    size: JSON.stringify(report).length
+  });
+  await evict();
+};
+
+export interface CachedGeneration {
+  report: Report;
+  cachedAt?: number; // Set when the report came from the cache
+}
+
+// generatePoliticalReport behind the cache. A broken cache never blocks generation.
+export const generateReportCached = async (
+  topic: string,
+  historyContext: string[],
+  onProgress: (progress: GenerationProgress) => void,
+  signal?: AbortSignal,
+  { forceRefresh = false, language = DEFAULT_LANGUAGE }: { forceRefresh?: boolean, language?: Language } = {}
+): Promise<CachedGeneration> => {
+  if (!forceRefresh) {
+    const cached = await getCachedReport(topic, language).catch(e => {
+      console.warn("Report cache unavailable", e);
+      return null;
+    });
+    if (cached) return { report: cached.report, cachedAt: cached.cachedAt };
+  }
+
+  const report = await generatePoliticalReport(topic, historyContext, onProgress, signal, language);
+  cacheReport(topic, report).catch(e => console.warn("Failed to cache report", e));
+  return { report };
+};
@@ -0,0 +1,119 @@
+import { Report, ReportSection, ChartDataPoint, SectionType } from '../types';
+import { coerceNumber } from './reportValidator';
+
+type Insight = Report['keyInsights'][0];
+
+export interface SectionPair {
+  key: string;
+  title: string;
+  left?: ReportSection;
+  right?: ReportSection;
+}
+
+export interface InsightDiff {
+  left?: Insight;
+  right?: Insight;
+  delta: number | null; // right - left, when both values are numeric
+}
+
+// Insights are paired when their texts share at least this fraction of words
+const INSIGHT_MATCH_THRESHOLD = 0.4;
+
+export const normaliseTitle = (title: string) =>
+  title.toLowerCase().replace(/\([^)]*\)/g, '').replace(/[^a-z0-9ऀ-෿]+/g, ' ').trim();
+
+const hasChart = (section?: ReportSection) =>
+  !!section && section.type !== SectionType.TEXT && !!section.chartData && section.chartData.length > 0;
+
+// Keeps the left report's order, slotting right-only sections in after their predecessor
+export const alignSections = (left: Report, right: Report): SectionPair[] => {
+  const rightByTitle = new Map<string, ReportSection>();
+  right.sections.forEach(s => {
+    const key = normaliseTitle(s.title);
+    if (!rightByTitle.has(key)) rightByTitle.set(key, s);
+  });
+
+  const pairs: SectionPair[] = left.sections.map(s => {
+    const key = normaliseTitle(s.title);
+    const match = rightByTitle.get(key);
+    if (match) rightByTitle.delete(key);
+    return { key: `l-${s.id}`, title: s.title, left: s, right: match };
+  });
+
+  right.sections.forEach((s, i) => {
+    if (!rightByTitle.has(normaliseTitle(s.title))) return;
+    const previous = right.sections[i - 1];
+    const anchor = previous ? pairs.findIndex(p => p.right === previous) : -1;
+    const pair = { key: `r-${s.id}`, title: s.title, right: s };
+    if (anchor === -1) {
+      pairs.push(pair);
+    } else {
+      pairs.splice(anchor + 1, 0, pair);
+    }
+  });
+
+  return pairs;
+};
+
+// Merges two charts into one dataset with `left`/`right` series; null when they share no names
+export const buildOverlayData = (pair: SectionPair): ChartDataPoint[] | null => {
+  if (!hasChart(pair.left) || !hasChart(pair.right)) return null;
+
+  const merged = new Map<string, ChartDataPoint>();
+  pair.left!.chartData!.forEach(p => {
+    merged.set(normaliseTitle(p.name), { name: p.name, value: p.value, left: p.value, right: null });
+  });
+
+  let shared = false;
+  pair.right!.chartData!.forEach(p => {
+    const existing = merged.get(normaliseTitle(p.name));
+    if (existing) {
+      existing.right = p.value;
+      shared = true;
+    } else {
+      // `value` keeps the point valid for single-series consumers
+      merged.set(normaliseTitle(p.name), { name: p.name, value: p.value, left: null, right: p.value });
+    }
+  });
+
+  return shared ? Array.from(merged.values()) : null;
+};
+
+export const overlayChartType = (pair: SectionPair) =>
+  pair.left?.type === SectionType.LINE_CHART && pair.right?.type === SectionType.LINE_CHART
+    ? SectionType.LINE_CHART
+    : SectionType.BAR_CHART;
+
+const words = (text: string) => new Set(normaliseTitle(text).split(' ').filter(w => w.length > 2));
+
+const similarity = (a: string, b: string) => {
+  const wa = words(a);
+  const wb = words(b);
+  if (wa.size === 0 || wb.size === 0) return 0;
+  let common = 0;
+  wa.forEach(w => { if (wb.has(w)) common++; });
+  return common / Math.min(wa.size, wb.size);
+};
+
+export const diffInsights = (left: Report, right: Report): InsightDiff[] => {
+  const unmatched = new Set(right.keyInsights);
+  const diffs: InsightDiff[] = left.keyInsights.map(l => {
+    let best: Insight | undefined;
+    let bestScore = INSIGHT_MATCH_THRESHOLD;
+    unmatched.forEach(r => {
+      const score = similarity(l.text, r.text);
+      if (score >= bestScore) {
+        best = r;
+        bestScore = score;
+      }
+    });
+    if (best) unmatched.delete(best);
+
+    const lv = coerceNumber(l.value);
+    const rv = best ? coerceNumber(best.value) : null;
+    return { left: l, right: best, delta: lv !== null && rv !== null ? rv - lv : null };
+  });
+
+  unmatched.forEach(r => diffs.push({ right: r, delta: null }));
+  return diffs;
+};
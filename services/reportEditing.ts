@@ -0,0 +1,140 @@
+import { ChartDataPoint, Report, ReportSection, SectionType } from '../types';
+import { ReportPayload, validateReport } from './reportValidator';
+import { factCheckReport } from './factCheck';
+import { citationField } from './citations';
+
+// Undo stack for the editor; `lastKey` lets consecutive keystrokes in one field merge into a single step
+export interface EditHistory {
+  past: Report[];
+  present: Report;
+  future: Report[];
+  lastKey?: string;
+  lastEditAt?: number;
+}
+
+const MAX_UNDO_STEPS = 100;
+const MERGE_WINDOW_MS = 1000;
+
+export const CHART_TYPES = [SectionType.BAR_CHART, SectionType.PIE_CHART, SectionType.LINE_CHART];
+
+export const startEditing = (report: Report): EditHistory => ({ past: [], present: report, future: [] });
+
+export const applyEdit = (history: EditHistory, next: Report, key?: string): EditHistory => {
+  const now = Date.now();
+  if (key && key === history.lastKey && now - (history.lastEditAt ?? 0) < MERGE_WINDOW_MS) {
+    return { ...history, present: next, future: [], lastEditAt: now };
+  }
+  return {
+    past: [...history.past, history.present].slice(-MAX_UNDO_STEPS),
+    present: next,
+    future: [],
+    lastKey: key,
+    lastEditAt: now
+  };
+};
+
+export const undoEdit = (history: EditHistory): EditHistory => {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future]
+  };
+};
+
+export const redoEdit = (history: EditHistory): EditHistory => {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1)
+  };
+};
+
+export const updateSection = (report: Report, id: string, change: Partial<ReportSection>): Report => ({
+  ...report,
+  sections: report.sections.map(s => s.id === id ? { ...s, ...change } : s)
+});
+
+export const moveSection = (report: Report, index: number, offset: number): Report => {
+  const target = index + offset;
+  if (target < 0 || target >= report.sections.length) return report;
+  const sections = [...report.sections];
+  [sections[index], sections[target]] = [sections[target], sections[index]];
+  return { ...report, sections };
+};
+
+// Ids double as DOM anchors and annotation keys, so new sections never reuse one, including the ids of
+// deleted sections that annotations, citations or saved scenarios still point at
+export const insertSection = (report: Report, index: number, title: string): Report => {
+  const sectionPrefix = citationField.section('');
+  const ids = new Set([
+    ...report.sections.map(s => s.id),
+    ...[...(report.annotations || []), ...(report.citations || [])]
+      .filter(item => item.field.startsWith(sectionPrefix))
+      .map(item => item.field.slice(sectionPrefix.length)),
+    ...(report.scenarios || []).map(s => s.sectionId)
+  ]);
+  let n = report.sections.length + 1;
+  while (ids.has(`section-${n}`)) n++;
+  const section: ReportSection = { id: `section-${n}`, title, type: SectionType.TEXT, content: '' };
+  const sections = [...report.sections];
+  sections.splice(index, 0, section);
+  return { ...report, sections };
+};
+
+export const removeSection = (report: Report, id: string): Report => ({
+  ...report,
+  sections: report.sections.filter(s => s.id !== id)
+});
+
+// Annotations and citations name insights by index, so they follow their insight to its new index;
+// `newIndex` returns null for an insight that is gone, which drops whatever was attached to it
+const remapInsightFields = (report: Report, newIndex: (index: number) => number | null): Report => {
+  const remap = <T extends { field: string }>(items: T[]) => items.flatMap(item => {
+    if (!item.field.startsWith('insight:')) return [item];
+    const index = newIndex(Number(item.field.slice('insight:'.length)));
+    return index === null ? [] : [{ ...item, field: citationField.insight(index) }];
+  });
+  return {
+    ...report,
+    ...(report.annotations && { annotations: remap(report.annotations) }),
+    ...(report.citations && { citations: remap(report.citations) })
+  };
+};
+
+export const removeInsight = (report: Report, index: number): Report => remapInsightFields(
+  { ...report, keyInsights: report.keyInsights.filter((_, i) => i !== index) },
+  i => i === index ? null : i > index ? i - 1 : i
+);
+
+// Chart types share chartData; switching to one without data starts an empty grid to fill in
+export const changeSectionType = (section: ReportSection, type: SectionType): Partial<ReportSection> => {
+  if (CHART_TYPES.includes(type) && !section.chartData?.length) {
+    return { type, chartData: [{ name: '', value: 0 }] };
+  }
+  return { type };
+};
+
+// Edited figures are the analyst's, not the results dataset's
+export const editChartData = (chartData: ChartDataPoint[]): Partial<ReportSection> => ({ chartData, dataSource: undefined });
+
+// Numeric keys in the grid: value first, then one per series
+export const chartKeys = (section: ReportSection) => ['value', ...(section.chartConfig?.series?.map(s => s.key) || [])];
+
+// Runs the edited report through the same checks as model output, so an empty chart or untitled
+// section is repaired (or reported) the same way
+export const checkEdits = (report: Report) =>
+  validateReport(report, { fallbackTitle: report.topic ?? 'Untitled report', fallbackDate: report.date });
+
+export const finishEditing = (edited: Report, data: ReportPayload): Report => {
+  // The checks drop insights left without text and keep the rest in order, trimmed
+  let kept = 0;
+  const newIndex = edited.keyInsights.map(insight => data.keyInsights[kept]?.text === insight.text.trim() ? kept++ : null);
+  return {
+    ...remapInsightFields(edited, i => newIndex[i] ?? null),
+    ...data,
+    editedAt: Date.now(),
+    factChecks: factCheckReport({ ...data, topic: edited.topic })
+  };
+};
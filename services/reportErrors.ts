@@ -0,0 +1,135 @@
+import { ReportErrorKind, ReportFailure, ValidationIssue } from '../types';
+
+// Transient failures are retried this many times before giving up
+const MAX_TRANSIENT_RETRIES = 3;
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 16000;
+
+export class ReportError extends Error {
+  readonly kind: ReportErrorKind = 'unknown';
+  readonly retryable: boolean = false;
+
+  constructor(message = "Something went wrong while generating the report.", options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+export class ApiKeyError extends ReportError {
+  readonly kind = 'api-key';
+
+  constructor(message = "The Gemini API key is missing or was rejected.", options?: { cause?: unknown }) {
+    super(message, options);
+  }
+}
+
+export class QuotaError extends ReportError {
+  readonly kind = 'quota';
+  readonly retryable = true;
+
+  constructor(message = "The Gemini API rate limit or quota has been reached.", options?: { cause?: unknown }) {
+    super(message, options);
+  }
+}
+
+export class SafetyBlockError extends ReportError {
+  readonly kind = 'safety';
+
+  constructor(readonly reason?: string, options?: { cause?: unknown }) {
+    super(`The model declined to write this report because of its safety filters${reason ? ` (${reason})` : ''}.`, options);
+  }
+}
+
+export class ReportParseError extends ReportError {
+  readonly kind = 'parse';
+
+  constructor(readonly rawText: string, readonly issues: ValidationIssue[] = []) {
+    super("The model's answer could not be turned into a report.");
+  }
+}
+
+export class NetworkError extends ReportError {
+  readonly kind = 'network';
+  readonly retryable = true;
+
+  constructor(message = "Could not reach the Gemini API.", options?: { cause?: unknown }) {
+    super(message, options);
+  }
+}
+
+export class ServerError extends ReportError {
+  readonly kind = 'server';
+  readonly retryable = true;
+
+  constructor(message = "The Gemini API is temporarily unavailable.", options?: { cause?: unknown }) {
+    super(message, options);
+  }
+}
+
+export const isAbortError = (error: unknown) => (error as Error)?.name === 'AbortError';
+
+// HTTP status from the SDK's ApiError, or from the "got status: 429" text of streamed errors
+const statusOf = (error: any): number | undefined => {
+  if (typeof error?.status === 'number') return error.status;
+  const match = /status:?\s*(\d{3})\b/i.exec(String(error?.message ?? ''));
+  return match ? Number(match[1]) : undefined;
+};
+
+// Maps provider, SDK and browser errors onto the taxonomy above
+export const classifyError = (error: unknown): ReportError => {
+  if (error instanceof ReportError) return error;
+  const message = String((error as Error)?.message ?? error ?? '');
+  const status = statusOf(error);
+  const options = { cause: error };
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate.?limit/i.test(message)) return new QuotaError(undefined, options);
+  if (status === 401 || status === 403 || /API.?key|API_KEY_INVALID|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return new ApiKeyError(undefined, options);
+  }
+  if ((status && status >= 500) || /UNAVAILABLE|overloaded|DEADLINE_EXCEEDED/i.test(message)) return new ServerError(undefined, options);
+  if (/failed to fetch|fetch failed|network|ECONNRESET|ETIMEDOUT|ENOTFOUND/i.test(message)
+    || (typeof navigator !== 'undefined' && navigator.onLine === false)) {
+    return new NetworkError(undefined, options);
+  }
+  if (/SAFETY|PROHIBITED_CONTENT|BLOCKLIST/.test(message)) return new SafetyBlockError(undefined, options);
+  return new ReportError(undefined, options);
+};
+
+export const toFailure = (error: unknown): ReportFailure => {
+  const classified = classifyError(error);
+  return {
+    kind: classified.kind,
+    message: classified.message,
+    rawText: classified instanceof ReportParseError ? classified.rawText : undefined,
+    issues: classified instanceof ReportParseError ? classified.issues : undefined
+  };
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+// Runs fn, retrying transient failures with exponential backoff and jitter
+export const withRetry = async <T>(
+  fn: () => Promise<T>,
+  { signal, onRetry }: { signal?: AbortSignal, onRetry?: (error: ReportError, delayMs: number) => void } = {}
+): Promise<T> => {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await fn();
+    } catch (e) {
+      if (signal?.aborted || isAbortError(e)) throw e;
+      const error = classifyError(e);
+      if (!error.retryable || retry >= MAX_TRANSIENT_RETRIES) throw error;
+      const delay = Math.min(RETRY_BASE_MS * 2 ** retry, RETRY_MAX_MS) * (0.75 + Math.random() * 0.5);
+      console.warn(`Retrying after ${error.name}`, e);
+      onRetry?.(error, delay);
+      await wait(delay, signal);
+    }
+  }
+};
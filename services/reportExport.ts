@@ -0,0 +1,232 @@
+import { Language, Report, ReportSection, TableData } from '../types';
+import { mapTableData } from './geoBoundaries';
+import { annotationFields, fieldLabel } from './annotations';
+import { DEFAULT_LANGUAGE } from './languages';
+import { UI_STRINGS, UiStrings } from './uiStrings';
+
+export const EXPORT_FORMAT = 'politisight-report';
+export const BUNDLE_FORMAT = 'politisight-bundle';
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export interface ReportExportFile {
+  format: typeof EXPORT_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  report: Report;
+}
+
+export interface ReportBundleFile {
+  format: typeof BUNDLE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  reports: Report[];
+}
+
+export interface ExportedFile {
+  filename: string;
+  content: string;
+  mimeType: string;
+}
+
+const INSIGHT_MARKERS: Record<Report['keyInsights'][0]['icon'], string> = {
+  'trend-up': '▲',
+  'trend-down': '▼',
+  'alert': '⚠',
+  'info': 'ℹ'
+};
+
+export const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9ऀ-෿]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'report';
+
+const dataSections = (report: Report) =>
+  report.sections.filter(s => (s.chartData && s.chartData.length > 0) || s.tableData || s.mapData);
+
+// Map sections export their regions as a table
+const sectionTable = (section: ReportSection, t: UiStrings): TableData | undefined =>
+  section.tableData || (section.mapData && mapTableData(section.mapData, t));
+
+const tableColumnLabel = (column: TableData['columns'][0]) =>
+  column.unit ? `${column.label} (${column.unit})` : column.type === 'percent' ? `${column.label} (%)` : column.label;
+
+// Columns for a chart: name/value first (labelled from chartConfig), then any extra keys the model added
+const chartColumns = (section: ReportSection) => {
+  const extra = new Set<string>();
+  section.chartData!.forEach(point => {
+    Object.keys(point).forEach(k => {
+      if (k !== 'name' && k !== 'value' && k !== 'fill') extra.add(k);
+    });
+  });
+  return [
+    { key: 'name', label: section.chartConfig?.xLabel || 'Name' },
+    { key: 'value', label: section.chartConfig?.yLabel || 'Value' },
+    ...Array.from(extra).map(k => ({ key: k, label: section.chartConfig?.series?.find(s => s.key === k)?.label || k }))
+  ];
+};
+
+const escapeMarkdownCell = (value: unknown) =>
+  value === undefined || value === null ? '' : String(value).replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+const escapeCsvCell = (value: unknown) => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toMarkdown = (report: Report): string => {
+  const language = report.language ?? DEFAULT_LANGUAGE;
+  const t = UI_STRINGS[language];
+  const dateLine = report.editedAt ? `*${report.date} · ${t.editedByAnalyst}*` : `*${report.date}*`;
+  const lines: string[] = [`# ${report.title}`, '', dateLine, '', report.executiveSummary, ''];
+
+  if (report.keyInsights.length > 0) {
+    lines.push('## Key Insights', '');
+    report.keyInsights.forEach(insight => {
+      const value = insight.value ? `**${insight.value}** — ` : '';
+      lines.push(`- ${INSIGHT_MARKERS[insight.icon]} ${value}${insight.text}`);
+    });
+    lines.push('');
+  }
+
+  report.sections.forEach(section => {
+    lines.push(`## ${section.title}`, '', section.content.trim(), '');
+    if (section.chartData && section.chartData.length > 0) {
+      const columns = chartColumns(section);
+      if (section.chartConfig?.title) lines.push(`**${section.chartConfig.title}**`, '');
+      lines.push(`| ${columns.map(c => escapeMarkdownCell(c.label)).join(' | ')} |`);
+      lines.push(`| ${columns.map((c, i) => i === 0 ? '---' : '---:').join(' | ')} |`);
+      section.chartData.forEach(point => {
+        lines.push(`| ${columns.map(c => escapeMarkdownCell(point[c.key])).join(' | ')} |`);
+      });
+      lines.push('');
+    }
+    const table = sectionTable(section, t);
+    if (table) {
+      const { columns, rows } = table;
+      lines.push(`| ${columns.map(c => escapeMarkdownCell(tableColumnLabel(c))).join(' | ')} |`);
+      lines.push(`| ${columns.map(c => c.type === 'text' ? '---' : '---:').join(' | ')} |`);
+      rows.forEach(row => {
+        lines.push(`| ${columns.map(c => escapeMarkdownCell(row[c.key])).join(' | ')} |`);
+      });
+      lines.push('');
+    }
+  });
+
+  // Exported only when the caller leaves them on the report
+  if (report.annotations && report.annotations.length > 0) {
+    lines.push(`## ${t.analystReview}`, '');
+    annotationFields(report).forEach(field => {
+      const items = report.annotations!.filter(a => a.field === field);
+      if (items.length === 0) return;
+      lines.push(`**${fieldLabel(report, field, language)}**`, '');
+      items.forEach(a => {
+        const label = a.quote ? t.annotationStatuses[a.status] : t.note;
+        const quote = a.quote ? ` “${a.quote}”` : '';
+        const comment = a.comment ? `${quote ? ' — ' : ' '}${a.comment.replace(/\n+/g, ' ')}` : '';
+        lines.push(`- **${label}:**${quote}${comment}`);
+      });
+      lines.push('');
+    });
+  }
+
+  if (report.sources && report.sources.length > 0) {
+    lines.push('## Sources', '');
+    report.sources.forEach((source, i) => lines.push(`${i + 1}. [${source.title}](${source.uri})`));
+    lines.push('');
+  }
+
+  lines.push('---', '', '*Generated by PolitiSight India*', '');
+  return lines.join('\n');
+};
+
+// Sorted keys keep exports byte-identical for identical reports
+export const canonicalise = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(canonicalise);
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .sort()
+      .reduce<Record<string, unknown>>((acc, key) => {
+        const v = (value as Record<string, unknown>)[key];
+        if (v !== undefined) acc[key] = canonicalise(v);
+        return acc;
+      }, {});
+  }
+  return value;
+};
+
+export const toJson = (report: Report): string => {
+  const file: ReportExportFile = {
+    format: EXPORT_FORMAT,
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    report
+  };
+  return JSON.stringify(canonicalise(file), null, 2);
+};
+
+export const toBundleJson = (reports: Report[]): string => {
+  const file: ReportBundleFile = {
+    format: BUNDLE_FORMAT,
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    reports
+  };
+  return JSON.stringify(canonicalise(file), null, 2);
+};
+
+// Table and map sections export their table; chart sections their chartData
+export const toCsv = (section: ReportSection, language: Language = DEFAULT_LANGUAGE): string => {
+  let rows: string[];
+  const table = sectionTable(section, UI_STRINGS[language]);
+  if (table) {
+    const { columns, rows: tableRows } = table;
+    rows = [
+      columns.map(c => escapeCsvCell(tableColumnLabel(c))).join(','),
+      ...tableRows.map(row => columns.map(c => escapeCsvCell(row[c.key])).join(','))
+    ];
+  } else {
+    const columns = chartColumns(section);
+    rows = [
+      columns.map(c => escapeCsvCell(c.label)).join(','),
+      ...section.chartData!.map(point => columns.map(c => escapeCsvCell(point[c.key])).join(','))
+    ];
+  }
+  return rows.join('\r\n') + '\r\n';
+};
+
+export const exportMarkdown = (report: Report): ExportedFile => ({
+  filename: `${slugify(report.title)}.md`,
+  content: toMarkdown(report),
+  mimeType: 'text/markdown;charset=utf-8'
+});
+
+export const exportJson = (report: Report): ExportedFile => ({
+  filename: `${slugify(report.title)}.json`,
+  content: toJson(report),
+  mimeType: 'application/json;charset=utf-8'
+});
+
+export const exportBundle = (reports: Report[]): ExportedFile => ({
+  filename: `politisight-history-${new Date().toISOString().slice(0, 10)}.json`,
+  content: toBundleJson(reports),
+  mimeType: 'application/json;charset=utf-8'
+});
+
+export const exportChartCsvs = (report: Report): ExportedFile[] =>
+  dataSections(report).map((section, i) => ({
+    filename: `${slugify(report.title)}-${i + 1}-${slugify(section.chartConfig?.title || section.title)}.csv`,
+    // BOM so spreadsheet apps detect UTF-8 (needed for Indic party and place names)
+    content: '\uFEFF' + toCsv(section, report.language),
+    mimeType: 'text/csv;charset=utf-8'
+  }));
+
+export const downloadFile = ({ filename, content, mimeType }: ExportedFile) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke later; some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,157 @@
+import { Report, GroundingSource, ValidationIssue, Citation, SavedScenario, Annotation, FactCheckResult } from '../types';
+import { validateReport, validationIssue } from './reportValidator';
+import { EXPORT_FORMAT, BUNDLE_FORMAT, canonicalise } from './reportExport';
+import { ANNOTATION_STATUSES } from './annotations';
+import { LANGUAGE_CODES } from './languages';
+
+export type ImportStatus = 'accepted' | 'repaired' | 'rejected' | 'duplicate';
+
+export type CollisionResolution = 'rekey' | 'replace';
+
+export interface ImportedReport {
+  label: string;           // Title when readable, else position in the file
+  status: ImportStatus;
+  report: Report | null;   // null when rejected or an exact duplicate
+  issues: ValidationIssue[];
+  collidesWith?: Report;   // Existing report with the same id but different content
+}
+
+export interface FileImportResult {
+  fileName: string;
+  error?: string;          // Whole-file failure, e.g. unreadable JSON
+  items: ImportedReport[];
+}
+
+const isObject = (v: unknown): v is Record<string, any> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Accepts single-report exports, bundles, bare reports and bare arrays of reports
+const unwrap = (data: unknown): unknown[] | null => {
+  if (Array.isArray(data)) return data;
+  if (!isObject(data)) return null;
+  if (data.format === BUNDLE_FORMAT) return Array.isArray(data.reports) ? data.reports : null;
+  if (data.format === EXPORT_FORMAT) return [data.report];
+  return [data];
+};
+
+const validateSources = (raw: unknown, issues: ValidationIssue[]): GroundingSource[] | undefined => {
+  if (raw === undefined) return undefined;
+  if (!Array.isArray(raw)) {
+    issues.push(validationIssue('sources', 'warning', 'sources-invalid'));
+    return undefined;
+  }
+  return raw.filter((source, i) => {
+    const ok = isObject(source) && typeof source.title === 'string' && typeof source.uri === 'string';
+    if (!ok) issues.push(validationIssue(`sources[${i}]`, 'warning', 'source-invalid'));
+    return ok;
+  });
+};
+
+const toReport = (raw: unknown, index: number): ImportedReport => {
+  const fallbackLabel = `Report ${index + 1}`;
+  const result = validateReport(raw, { fallbackTitle: fallbackLabel, fallbackDate: 'Imported report' });
+  const issues = [...result.issues];
+
+  if (result.fatal || !result.data || !isObject(raw)) {
+    const label = isObject(raw) && typeof raw.title === 'string' ? raw.title : fallbackLabel;
+    return { label, status: 'rejected', report: null, issues };
+  }
+
+  let id = raw.id;
+  if (typeof id !== 'string' || !id.trim()) {
+    id = crypto.randomUUID();
+    issues.push(validationIssue('id', 'info', 'id-generated'));
+  }
+
+  let createdAt = raw.createdAt;
+  if (typeof createdAt !== 'number' || !Number.isFinite(createdAt)) {
+    createdAt = Date.now();
+    issues.push(validationIssue('createdAt', 'info', 'timestamp-missing'));
+  }
+
+  const report: Report = {
+    ...result.data,
+    id,
+    createdAt,
+    sources: validateSources(raw.sources, issues)
+  };
+  if (typeof raw.topic === 'string') report.topic = raw.topic;
+  if (typeof raw.topicKey === 'string') report.topicKey = raw.topicKey;
+  if (typeof raw.version === 'number') report.version = raw.version;
+  if (typeof raw.previousVersionId === 'string') report.previousVersionId = raw.previousVersionId;
+  if (typeof raw.editedAt === 'number') report.editedAt = raw.editedAt;
+  if (LANGUAGE_CODES.includes(raw.language)) report.language = raw.language;
+  if (isObject(raw.translatedFrom) && typeof raw.translatedFrom.id === 'string' && LANGUAGE_CODES.includes(raw.translatedFrom.language)) {
+    report.translatedFrom = { id: raw.translatedFrom.id, language: raw.translatedFrom.language };
+  }
+  if (Array.isArray(raw.citations)) {
+    report.citations = raw.citations.filter((c: any): c is Citation =>
+      isObject(c) && typeof c.field === 'string' && typeof c.text === 'string' && Array.isArray(c.sourceIndices));
+  }
+  if (Array.isArray(raw.scenarios)) {
+    report.scenarios = raw.scenarios.filter((s: any): s is SavedScenario =>
+      isObject(s) && typeof s.id === 'string' && typeof s.sectionId === 'string' && isObject(s.swings) && isObject(s.config));
+  }
+  if (Array.isArray(raw.factChecks)) {
+    report.factChecks = raw.factChecks.filter((f: any): f is FactCheckResult =>
+      isObject(f) && typeof f.target === 'string' && typeof f.confidence === 'string' && Array.isArray(f.flags));
+  }
+  if (Array.isArray(raw.annotations)) {
+    report.annotations = raw.annotations.filter((a: any): a is Annotation =>
+      isObject(a) && typeof a.id === 'string' && typeof a.field === 'string' && typeof a.comment === 'string' && typeof a.createdAt === 'number' &&
+      a.status in ANNOTATION_STATUSES && (a.quote === undefined || typeof a.quote === 'string'));
+  }
+
+  return { label: report.title, status: issues.length > 0 ? 'repaired' : 'accepted', report, issues };
+};
+
+const fingerprint = (report: Report) => JSON.stringify(canonicalise({ ...report, validationIssues: undefined }));
+
+const sameContent = (a: Report, b: Report) => fingerprint(a) === fingerprint(b);
+
+// Parses every file against the current history. Ids taken by earlier files in the same batch count as collisions too.
+export const parseImportFiles = (files: { name: string; text: string }[], existing: Report[]): FileImportResult[] => {
+  const taken = new Map(existing.map(r => [r.id, r]));
+
+  return files.map(file => {
+    let data: unknown;
+    try {
+      data = JSON.parse(file.text);
+    } catch (e) {
+      return { fileName: file.name, error: `Not valid JSON: ${(e as Error).message}`, items: [] };
+    }
+
+    const entries = unwrap(data);
+    if (!entries) {
+      return { fileName: file.name, error: 'File does not contain a report or report bundle.', items: [] };
+    }
+
+    const items = entries.map((entry, i) => {
+      const item = toReport(entry, i);
+      if (!item.report) return item;
+
+      const clash = taken.get(item.report.id);
+      if (clash) {
+        if (sameContent(clash, item.report)) {
+          return { ...item, status: 'duplicate' as const, report: null };
+        }
+        item.collidesWith = clash;
+      } else {
+        taken.set(item.report.id, item.report);
+      }
+      return item;
+    });
+
+    return { fileName: file.name, items };
+  });
+};
+
+export const resolveCollision = (report: Report, resolution: CollisionResolution): Report =>
+  resolution === 'rekey' ? { ...report, id: crypto.randomUUID() } : report;
+
+// Same ordering as saved history: newest first, imported reports replacing any with the same id
+export const mergeIntoHistory = (history: Report[], incoming: Report[]): Report[] => {
+  const byId = new Map(history.map(r => [r.id, r]));
+  incoming.forEach(r => byId.set(r.id, r));
+  return Array.from(byId.values()).sort((a, b) => b.createdAt - a.createdAt);
+};
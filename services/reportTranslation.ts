@@ -0,0 +1,127 @@
+import { Language, Report, ValidationIssue } from '../types';
+import { getProvider } from './llmProvider';
+import { parseModelJson, validationIssue } from './reportValidator';
+import { factCheckReport } from './factCheck';
+import { LANGUAGES, languageInstruction, numbersIn, reportLanguage, toWesternDigits } from './languages';
+import { classifyError, ReportParseError, withRetry } from './reportErrors';
+
+const MAX_TRANSLATION_ATTEMPTS = 2;
+
+type StringMap = Record<string, string>;
+
+// Calls `fn` on every human-readable string in the report, keyed by its validator-style path, and
+// rebuilds the report from what it returns. Numbers, chart data and table cells are never visited.
+const mapStrings = (report: Report, fn: (path: string, text: string) => string): Report => {
+  const map = (path: string, text: string | undefined) => text ? fn(path, text) : text;
+  return {
+    ...report,
+    title: fn('title', report.title),
+    date: map('date', report.date) ?? report.date,
+    executiveSummary: fn('executiveSummary', report.executiveSummary),
+    keyInsights: report.keyInsights.map((insight, i) => ({ ...insight, text: fn(`keyInsights[${i}].text`, insight.text) })),
+    sections: report.sections.map((section, i) => {
+      const path = `sections[${i}]`;
+      const config = section.chartConfig;
+      return {
+        ...section,
+        title: fn(`${path}.title`, section.title),
+        content: fn(`${path}.content`, section.content),
+        chartConfig: config && {
+          ...config,
+          title: map(`${path}.chartConfig.title`, config.title),
+          xLabel: map(`${path}.chartConfig.xLabel`, config.xLabel),
+          yLabel: map(`${path}.chartConfig.yLabel`, config.yLabel),
+          series: config.series?.map((s, j) => ({ ...s, label: fn(`${path}.chartConfig.series[${j}].label`, s.label) }))
+        },
+        tableData: section.tableData && {
+          ...section.tableData,
+          columns: section.tableData.columns.map((c, j) => ({ ...c, label: fn(`${path}.tableData.columns[${j}].label`, c.label) }))
+        }
+      };
+    })
+  };
+};
+
+const buildPrompt = (strings: StringMap, language: Language, from: Language) => `Translate the values of this JSON object from ${LANGUAGES[from].englishName} to ${LANGUAGES[language].englishName}.
+Return a JSON object with exactly the same keys. Keep Markdown formatting, and keep every number exactly as written.
+${languageInstruction(language)}
+
+${JSON.stringify(strings)}`;
+
+// Strings whose numbers changed in translation, e.g. a dropped or rewritten figure
+const changedNumbers = (source: StringMap, translated: StringMap) =>
+  Object.keys(source).filter(key => {
+    const before = numbersIn(source[key]);
+    const after = translated[key] === undefined ? null : numbersIn(translated[key]);
+    return !after || before.join(' ') !== after.join(' ');
+  });
+
+// Translates the report's text into `language` as a new report. Chart and table data are carried over
+// untouched; a string that loses or changes a number is retried once, then left in the original language.
+export const translateReport = async (report: Report, language: Language, signal?: AbortSignal): Promise<Report> => {
+  const provider = getProvider();
+  const from = reportLanguage(report);
+  const source: StringMap = {};
+  mapStrings(report, (path, text) => {
+    source[path] = text;
+    return text;
+  });
+
+  try {
+    const translated: StringMap = {};
+    let pending = source;
+    let rawText = '';
+
+    for (let attempt = 1; attempt <= MAX_TRANSLATION_ATTEMPTS && Object.keys(pending).length > 0; attempt++) {
+      rawText = await withRetry(() => provider.generateJson({
+        contents: buildPrompt(pending, language, from),
+        input: pending,
+        systemInstruction: "You are a professional translator specialising in Indian political and electoral reporting.",
+        temperature: 0.2,
+        signal
+      }), { signal }) ?? '';
+
+      let answer: StringMap = {};
+      try {
+        const parsed = parseModelJson(rawText);
+        if (parsed && typeof parsed === 'object') {
+          Object.entries(parsed as Record<string, unknown>).forEach(([key, value]) => {
+            if (key in pending && typeof value === 'string' && value.trim()) answer[key] = toWesternDigits(value);
+          });
+        }
+      } catch (e) {
+        console.warn(`Translation attempt ${attempt} was not valid JSON`, e);
+      }
+
+      const failed = changedNumbers(pending, answer);
+      Object.keys(answer).filter(key => !failed.includes(key)).forEach(key => translated[key] = answer[key]);
+      pending = Object.fromEntries(failed.map(key => [key, source[key]]));
+    }
+
+    if (Object.keys(translated).length === 0) {
+      throw new ReportParseError(rawText, [validationIssue('$', 'fatal', 'translation-unreadable')]);
+    }
+
+    const untranslated: ValidationIssue[] = Object.keys(pending)
+      .map(path => validationIssue(path, 'warning', 'kept-untranslated', { language: from }));
+    const result = mapStrings(report, (path, text) => translated[path] ?? text);
+
+    return {
+      ...result,
+      id: crypto.randomUUID(),
+      createdAt: Date.now(),
+      language,
+      translatedFrom: { id: report.id, language: from },
+      // Citations point at spans of the original text, which no longer exist
+      citations: [],
+      // Annotations quote the original text too, and stay with the report they were made on
+      annotations: undefined,
+      validationIssues: [...(report.validationIssues || []), ...untranslated],
+      factChecks: factCheckReport(result)
+    };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error("Translation failed:", error);
+    throw classifyError(error);
+  }
+};
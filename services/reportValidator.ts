@@ -0,0 +1,478 @@
+import { Report, ReportSection, ChartDataPoint, ChartConfig, ChartSeries, SectionType, ValidationIssue, ValidationCode, MessageParams, TableData, TableColumn, TableColumnType, TableCell, MapData, MapLevel, MapMetric, MapRegion } from '../types';
+import { canonicalName } from './partyRegistry';
+import { findStateId } from './geoBoundaries';
+import { UI_STRINGS } from './uiStrings';
+
+export type ReportPayload = Omit<Report, 'id' | 'createdAt' | 'sources' | 'validationIssues'>;
+
+export interface ValidationResult {
+  data: ReportPayload | null;
+  issues: ValidationIssue[];
+  fatal: boolean;
+}
+
+interface ValidationOptions {
+  fallbackTitle: string;
+  fallbackDate: string;
+}
+
+type Insight = Report['keyInsights'][0];
+
+const INSIGHT_ICONS: Insight['icon'][] = ['trend-up', 'trend-down', 'alert', 'info'];
+const CHART_TYPES = [SectionType.BAR_CHART, SectionType.PIE_CHART, SectionType.LINE_CHART];
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const COLUMN_TYPES: TableColumnType[] = ['text', 'number', 'percent', 'currency'];
+const MAP_LEVELS: MapLevel[] = ['state', 'pc', 'ac'];
+const MAP_METRICS: MapMetric[] = ['winner', 'margin', 'swing'];
+
+// Loose spellings the model sometimes uses for section types
+const TYPE_ALIASES: Record<string, SectionType> = {
+  BAR: SectionType.BAR_CHART,
+  BARCHART: SectionType.BAR_CHART,
+  COLUMN_CHART: SectionType.BAR_CHART,
+  PIE: SectionType.PIE_CHART,
+  PIECHART: SectionType.PIE_CHART,
+  DONUT_CHART: SectionType.PIE_CHART,
+  LINE: SectionType.LINE_CHART,
+  LINECHART: SectionType.LINE_CHART,
+  TREND_CHART: SectionType.LINE_CHART,
+  MARKDOWN: SectionType.TEXT,
+  PARAGRAPH: SectionType.TEXT,
+  TABULAR: SectionType.TABLE,
+  GRID: SectionType.TABLE,
+  CHOROPLETH: SectionType.MAP,
+  MAP_CHART: SectionType.MAP,
+};
+
+// The message stays English for repair prompts and logs; the code lets the interface show it in the reader's language
+export const validationIssue = (
+  path: string,
+  severity: ValidationIssue['severity'],
+  code: ValidationCode,
+  params: MessageParams = {}
+): ValidationIssue => ({ path, severity, message: UI_STRINGS.en.validationMessages[code](params), code, params });
+
+const isObject = (v: unknown): v is Record<string, any> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const nonEmptyString = (v: unknown): v is string =>
+  typeof v === 'string' && v.trim().length > 0;
+
+// Coerces model-formatted numbers ("42%", "1,20,000", "+3.5 pts"). Returns null when unreadable.
+export const coerceNumber = (v: unknown): number | null => {
+  if (typeof v === 'number') return Number.isFinite(v) ? v : null;
+  if (typeof v !== 'string') return null;
+  const match = v.replace(/[,\s₹$]/g, '').match(/^[+-]?\d*\.?\d+/);
+  if (!match) return null;
+  const n = parseFloat(match[0]);
+  return Number.isFinite(n) ? n : null;
+};
+
+// Strips code fences and any prose around the JSON object before parsing
+export const parseModelJson = (text: string): unknown => {
+  const cleaned = text.replace(/```json/g, '').replace(/```/g, '').trim();
+  try {
+    return JSON.parse(cleaned);
+  } catch (e) {
+    const start = cleaned.indexOf('{');
+    const end = cleaned.lastIndexOf('}');
+    if (start === -1 || end <= start) throw e;
+    return JSON.parse(cleaned.slice(start, end + 1));
+  }
+};
+
+const normaliseSectionType = (raw: unknown): SectionType | null => {
+  if (typeof raw !== 'string') return null;
+  const key = raw.trim().toUpperCase().replace(/[\s-]+/g, '_');
+  if ((Object.values(SectionType) as string[]).includes(key)) return key as SectionType;
+  return TYPE_ALIASES[key] || TYPE_ALIASES[key.replace(/_/g, '')] || null;
+};
+
+const validateChartData = (
+  raw: unknown,
+  path: string,
+  issues: ValidationIssue[],
+  series?: ChartSeries[]
+): ChartDataPoint[] => {
+  if (!Array.isArray(raw)) {
+    if (raw !== undefined && raw !== null) {
+      issues.push(validationIssue(path, 'warning', 'chart-data-invalid'));
+    }
+    return [];
+  }
+
+  const points: ChartDataPoint[] = [];
+  raw.forEach((point, i) => {
+    const pointPath = `${path}[${i}]`;
+    if (!isObject(point)) {
+      issues.push(validationIssue(pointPath, 'warning', 'point-invalid'));
+      return;
+    }
+
+    const name = typeof point.name === 'number' ? String(point.name) : point.name;
+    if (!nonEmptyString(name)) {
+      issues.push(validationIssue(`${pointPath}.name`, 'warning', 'point-no-name'));
+      return;
+    }
+
+    const canonical = canonicalName(name.trim());
+    if (canonical !== name.trim()) {
+      issues.push(validationIssue(`${pointPath}.name`, 'info', 'party-normalised', { name: String(JSON.stringify(name)), canonical }));
+    }
+    const cleaned: ChartDataPoint = { ...point, name: canonical, value: 0 };
+
+    // Series values: blank rather than drop, so one bad cell doesn't remove the whole category
+    series?.forEach(s => {
+      const n = coerceNumber(point[s.key]);
+      if (n === null && point[s.key] !== undefined && point[s.key] !== null) {
+        issues.push(validationIssue(`${pointPath}.${s.key}`, 'info', 'series-value-blanked', { value: String(JSON.stringify(point[s.key])) }));
+      }
+      cleaned[s.key] = n;
+    });
+
+    // Multi-series points may omit `value`; it then holds the category total
+    let value = coerceNumber(point.value);
+    if (value === null && series && point.value === undefined) {
+      value = series.reduce((sum, s) => sum + (cleaned[s.key] ?? 0), 0);
+    }
+    if (value === null) {
+      issues.push(validationIssue(`${pointPath}.value`, 'warning', 'value-dropped', { value: String(JSON.stringify(point.value)) }));
+      return;
+    }
+    if (point.value !== undefined && typeof point.value !== 'number') {
+      issues.push(validationIssue(`${pointPath}.value`, 'info', 'value-coerced', { value: String(JSON.stringify(point.value)), result: value }));
+    }
+    cleaned.value = value;
+
+    if (point.label !== undefined && typeof point.label !== 'string') delete cleaned.label;
+    if (point.fill !== undefined && !(typeof point.fill === 'string' && HEX_COLOR.test(point.fill))) {
+      delete cleaned.fill;
+      issues.push(validationIssue(`${pointPath}.fill`, 'info', 'fill-removed'));
+    }
+    points.push(cleaned);
+  });
+  return points;
+};
+
+const validateTableData = (raw: unknown, path: string, issues: ValidationIssue[]): TableData | null => {
+  if (!isObject(raw) || !Array.isArray(raw.columns) || !Array.isArray(raw.rows)) {
+    if (raw !== undefined && raw !== null) {
+      issues.push(validationIssue(path, 'warning', 'table-data-invalid'));
+    }
+    return null;
+  }
+
+  const usedKeys = new Set<string>();
+  const columns: TableColumn[] = [];
+  raw.columns.forEach((col: unknown, i: number) => {
+    const colPath = `${path}.columns[${i}]`;
+    if (!isObject(col) || !(nonEmptyString(col.label) || nonEmptyString(col.key))) {
+      issues.push(validationIssue(colPath, 'warning', 'column-invalid'));
+      return;
+    }
+    const baseKey = nonEmptyString(col.key) ? col.key.trim() : `col${i + 1}`;
+    let key = baseKey;
+    for (let n = 2; usedKeys.has(key); n++) key = `${baseKey}_${n}`;
+    usedKeys.add(key);
+
+    let type: TableColumnType = col.type;
+    if (!COLUMN_TYPES.includes(type)) {
+      type = 'text';
+      if (col.type !== undefined) {
+        issues.push(validationIssue(`${colPath}.type`, 'info', 'column-type-unknown', { type: String(JSON.stringify(col.type)) }));
+      }
+    }
+    const column: TableColumn = { key, label: nonEmptyString(col.label) ? col.label.trim() : key, type };
+    if (nonEmptyString(col.unit)) column.unit = col.unit.trim();
+    columns.push(column);
+  });
+
+  if (columns.length === 0) {
+    issues.push(validationIssue(`${path}.columns`, 'warning', 'table-no-columns'));
+    return null;
+  }
+
+  // Rows may arrive as arrays in column order (what the prompt asks for) or as keyed objects
+  const rows: Array<Record<string, TableCell>> = [];
+  raw.rows.forEach((row: unknown, r: number) => {
+    const rowPath = `${path}.rows[${r}]`;
+    const cells: unknown[] | null = Array.isArray(row)
+      ? row
+      : isObject(row) ? columns.map(c => row[c.key]) : null;
+    if (!cells) {
+      issues.push(validationIssue(rowPath, 'warning', 'row-invalid'));
+      return;
+    }
+
+    const record: Record<string, TableCell> = {};
+    columns.forEach((col, c) => {
+      const cell = cells[c];
+      if (cell === undefined || cell === null || cell === '') {
+        record[col.key] = null;
+      } else if (col.type === 'text') {
+        record[col.key] = String(cell);
+      } else {
+        const n = coerceNumber(cell);
+        if (n === null) {
+          issues.push(validationIssue(`${rowPath}[${c}]`, 'info', 'cell-blanked', { value: String(JSON.stringify(cell)) }));
+        }
+        record[col.key] = n;
+      }
+    });
+    rows.push(record);
+  });
+
+  if (rows.length === 0) {
+    issues.push(validationIssue(`${path}.rows`, 'warning', 'table-no-rows'));
+    return null;
+  }
+  return { columns, rows };
+};
+
+const validateMapData = (raw: unknown, path: string, issues: ValidationIssue[]): MapData | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (!isObject(raw) || !Array.isArray(raw.regions)) {
+    issues.push(validationIssue(path, 'warning', 'map-data-invalid'));
+    return undefined;
+  }
+
+  const level: MapLevel = MAP_LEVELS.includes(raw.level) ? raw.level : 'state';
+  if (raw.level !== undefined && raw.level !== level) {
+    issues.push(validationIssue(`${path}.level`, 'info', 'map-level-unknown', { level: String(JSON.stringify(raw.level)) }));
+  }
+  const state = nonEmptyString(raw.state) ? findStateId(raw.state) : null;
+  if (nonEmptyString(raw.state) && !state) {
+    issues.push(validationIssue(`${path}.state`, 'warning', 'map-state-unknown', { state: String(JSON.stringify(raw.state)) }));
+  }
+  if (level === 'ac' && !state) {
+    issues.push(validationIssue(`${path}.level`, 'warning', 'map-needs-state'));
+  }
+
+  const regions: MapRegion[] = [];
+  raw.regions.forEach((r, i) => {
+    const regionPath = `${path}.regions[${i}]`;
+    if (!isObject(r) || !nonEmptyString(r.region)) {
+      issues.push(validationIssue(regionPath, 'warning', 'region-no-name'));
+      return;
+    }
+    const region: MapRegion = { region: r.region.trim() };
+    if (nonEmptyString(r.winner)) region.winner = canonicalName(r.winner.trim());
+    (['margin', 'swing'] as const).forEach(key => {
+      const n = coerceNumber(r[key]);
+      if (n !== null) region[key] = n;
+      else if (r[key] !== undefined && r[key] !== null) {
+        issues.push(validationIssue(`${regionPath}.${key}`, 'info', 'region-value-dropped', { key, value: String(JSON.stringify(r[key])) }));
+      }
+    });
+    // State boundaries are known up front; constituency names are matched once their boundaries load
+    if (level === 'state') {
+      const id = findStateId(region.region);
+      if (id) region.regionId = id;
+      else issues.push(validationIssue(`${regionPath}.region`, 'info', 'region-unknown', { region: String(JSON.stringify(region.region)) }));
+    }
+    regions.push(region);
+  });
+  if (regions.length === 0) return undefined;
+
+  const metric: MapMetric = MAP_METRICS.includes(raw.metric) ? raw.metric
+    : regions.some(r => r.winner) ? 'winner' : regions.some(r => r.margin !== undefined) ? 'margin' : 'swing';
+  if (raw.metric !== undefined && raw.metric !== metric) {
+    issues.push(validationIssue(`${path}.metric`, 'info', 'map-metric-unknown', { metric: String(JSON.stringify(raw.metric)), replacement: metric }));
+  }
+
+  const mapData: MapData = { level, metric, regions };
+  if (state) mapData.state = state;
+  return mapData;
+};
+
+const validateSeries = (raw: unknown, path: string, issues: ValidationIssue[]): ChartSeries[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  const seen = new Set<string>();
+  const series: ChartSeries[] = [];
+  raw.forEach((s, i) => {
+    if (!isObject(s) || !nonEmptyString(s.key) || seen.has(s.key) || s.key === 'name') {
+      issues.push(validationIssue(`${path}[${i}]`, 'warning', 'series-invalid'));
+      return;
+    }
+    seen.add(s.key);
+    const entry: ChartSeries = { key: s.key, label: canonicalName(nonEmptyString(s.label) ? s.label.trim() : s.key) };
+    if (typeof s.color === 'string' && HEX_COLOR.test(s.color)) entry.color = s.color;
+    series.push(entry);
+  });
+  return series.length > 0 ? series : undefined;
+};
+
+const validateChartConfig = (raw: unknown, path: string, issues: ValidationIssue[]): ChartConfig | undefined => {
+  if (!isObject(raw)) return undefined;
+  const config: ChartConfig = {};
+  (['xLabel', 'yLabel', 'title'] as const).forEach(key => {
+    if (nonEmptyString(raw[key])) config[key] = raw[key];
+  });
+  const series = validateSeries(raw.series, `${path}.series`, issues);
+  if (series) config.series = series;
+  if (raw.stacked === true && series) config.stacked = true;
+  return Object.keys(config).length > 0 ? config : undefined;
+};
+
+const validateSection = (
+  raw: unknown,
+  index: number,
+  usedIds: Set<string>,
+  issues: ValidationIssue[]
+): ReportSection | null => {
+  const path = `sections[${index}]`;
+  if (!isObject(raw)) {
+    issues.push(validationIssue(path, 'warning', 'section-invalid'));
+    return null;
+  }
+
+  const content = typeof raw.content === 'string' ? raw.content : '';
+  if (typeof raw.content !== 'string') {
+    issues.push(validationIssue(`${path}.content`, 'warning', 'content-missing'));
+  }
+
+  let type = normaliseSectionType(raw.type);
+  if (type === null) {
+    issues.push(validationIssue(`${path}.type`, 'warning', 'section-type-unknown', { type: String(JSON.stringify(raw.type)) }));
+  } else if (type !== raw.type) {
+    issues.push(validationIssue(`${path}.type`, 'info', 'section-type-normalised', { type: String(JSON.stringify(raw.type)), result: type }));
+  }
+
+  const chartConfig = validateChartConfig(raw.chartConfig, `${path}.chartConfig`, issues);
+  const chartData = validateChartData(raw.chartData, `${path}.chartData`, issues, chartConfig?.series);
+  const tableData = validateTableData(raw.tableData, `${path}.tableData`, issues);
+  const mapData = validateMapData(raw.mapData, `${path}.mapData`, issues);
+
+  if (type === null) {
+    type = chartData.length > 0 ? SectionType.BAR_CHART : tableData ? SectionType.TABLE : mapData ? SectionType.MAP : SectionType.TEXT;
+    issues.push(validationIssue(`${path}.type`, 'info', 'section-type-inferred', { type }));
+  }
+  if (CHART_TYPES.includes(type) && chartData.length === 0) {
+    type = SectionType.TEXT;
+    issues.push(validationIssue(`${path}.chartData`, 'warning', 'chart-no-data'));
+  }
+
+  if (type === SectionType.TABLE && !tableData) {
+    type = SectionType.TEXT;
+    issues.push(validationIssue(`${path}.tableData`, 'warning', 'table-no-data'));
+  }
+
+  if (type === SectionType.MAP && !mapData) {
+    type = SectionType.TEXT;
+    issues.push(validationIssue(`${path}.mapData`, 'warning', 'map-no-regions'));
+  }
+
+  if (!content.trim() && chartData.length === 0 && !tableData && !mapData) {
+    issues.push(validationIssue(path, 'warning', 'section-empty'));
+    return null;
+  }
+
+  let title = raw.title;
+  if (!nonEmptyString(title)) {
+    title = chartConfig?.title || `Section ${index + 1}`;
+    issues.push(validationIssue(`${path}.title`, 'warning', 'section-title-missing', { title }));
+  }
+
+  // Section ids double as DOM anchors, so they must be unique and non-empty
+  const baseId = nonEmptyString(raw.id) ? raw.id.trim().replace(/\s+/g, '-') : `section-${index + 1}`;
+  let id = baseId;
+  for (let n = 2; usedIds.has(id); n++) id = `${baseId}-${n}`;
+  if (id !== raw.id) {
+    issues.push(validationIssue(`${path}.id`, 'info', 'section-id-replaced', { id: String(JSON.stringify(raw.id)), replacement: id }));
+  }
+  usedIds.add(id);
+
+  const section: ReportSection = { id, title: title.trim(), type, content };
+  if (chartData.length > 0 && type !== SectionType.TEXT) section.chartData = chartData;
+  if (chartConfig) section.chartConfig = chartConfig;
+  if (tableData && type === SectionType.TABLE) section.tableData = tableData;
+  if (mapData && type === SectionType.MAP) section.mapData = mapData;
+  if (nonEmptyString(raw.dataSource)) section.dataSource = raw.dataSource;
+  return section;
+};
+
+const validateInsight = (raw: unknown, index: number, issues: ValidationIssue[]): Insight | null => {
+  const path = `keyInsights[${index}]`;
+  if (!isObject(raw) || !nonEmptyString(raw.text)) {
+    issues.push(validationIssue(path, 'warning', 'insight-no-text'));
+    return null;
+  }
+
+  let icon: Insight['icon'] = raw.icon;
+  if (!INSIGHT_ICONS.includes(icon)) {
+    icon = 'info';
+    issues.push(validationIssue(`${path}.icon`, 'info', 'insight-icon-unknown', { icon: String(JSON.stringify(raw.icon)) }));
+  }
+
+  const insight: Insight = { icon, text: raw.text.trim() };
+  if (typeof raw.value === 'number') {
+    insight.value = String(raw.value);
+  } else if (nonEmptyString(raw.value)) {
+    insight.value = raw.value.trim();
+  }
+  if (typeof raw.color === 'string' && HEX_COLOR.test(raw.color)) {
+    insight.color = raw.color;
+  } else if (raw.color !== undefined) {
+    issues.push(validationIssue(`${path}.color`, 'info', 'insight-color-removed'));
+  }
+  return insight;
+};
+
+// Checks parsed model output against the Report shape, repairing what it can.
+// The result is fatal when nothing renderable is left.
+export const validateReport = (raw: unknown, options: ValidationOptions): ValidationResult => {
+  const issues: ValidationIssue[] = [];
+
+  if (!isObject(raw)) {
+    issues.push(validationIssue('$', 'fatal', 'not-object'));
+    return { data: null, issues, fatal: true };
+  }
+
+  let title = raw.title;
+  if (!nonEmptyString(title)) {
+    title = options.fallbackTitle;
+    issues.push(validationIssue('title', 'warning', 'title-missing'));
+  }
+
+  let date = raw.date;
+  if (!nonEmptyString(date)) {
+    date = options.fallbackDate;
+    issues.push(validationIssue('date', 'info', 'date-missing'));
+  }
+
+  let executiveSummary = raw.executiveSummary;
+  if (!nonEmptyString(executiveSummary)) {
+    executiveSummary = '';
+    issues.push(validationIssue('executiveSummary', 'warning', 'summary-missing'));
+  }
+
+  let keyInsights: Insight[] = [];
+  if (Array.isArray(raw.keyInsights)) {
+    keyInsights = raw.keyInsights
+      .map((insight, i) => validateInsight(insight, i, issues))
+      .filter((insight): insight is Insight => insight !== null);
+  } else {
+    issues.push(validationIssue('keyInsights', 'warning', 'insights-missing'));
+  }
+
+  let sections: ReportSection[] = [];
+  if (Array.isArray(raw.sections)) {
+    const usedIds = new Set<string>();
+    sections = raw.sections
+      .map((section, i) => validateSection(section, i, usedIds, issues))
+      .filter((section): section is ReportSection => section !== null);
+  } else {
+    issues.push(validationIssue('sections', 'fatal', 'sections-missing'));
+  }
+
+  if (Array.isArray(raw.sections) && sections.length === 0) {
+    issues.push(validationIssue('sections', 'fatal', 'no-sections'));
+  }
+
+  const fatal = issues.some(issue => issue.severity === 'fatal');
+  return {
+    data: fatal ? null : { title: title.trim(), date, executiveSummary, keyInsights, sections },
+    issues,
+    fatal
+  };
+};
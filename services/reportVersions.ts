@@ -0,0 +1,124 @@
+import { Report, ReportSection } from '../types';
+import { alignSections, buildOverlayData, diffInsights, InsightDiff } from './reportComparison';
+
+type Insight = Report['keyInsights'][0];
+
+export interface TextDiffPart {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface ChartDelta {
+  name: string;
+  before: number | null;
+  after: number | null;
+  delta: number | null;
+}
+
+export interface SectionChange {
+  title: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  textDiff?: TextDiffPart[];
+  chartDeltas?: ChartDelta[];
+}
+
+export interface VersionDiff {
+  insightsAdded: Insight[];
+  insightsRemoved: Insight[];
+  insightsChanged: InsightDiff[];
+  sections: SectionChange[];
+}
+
+// Word-level LCS is quadratic, so very long sections fall back to a whole-block replace
+const MAX_DIFF_CELLS = 400_000;
+
+export const toTopicKey = (topic: string) =>
+  topic.toLowerCase().replace(/[^a-z0-9ऀ-෿]+/g, ' ').trim();
+
+// Oldest first
+export const getVersionChain = (history: Report[], topicKey?: string): Report[] =>
+  topicKey
+    ? history.filter(r => r.topicKey === topicKey).sort((a, b) => (a.version ?? 1) - (b.version ?? 1))
+    : [];
+
+export const diffText = (before: string, after: string): TextDiffPart[] => {
+  if (before === after) return [{ kind: 'same', text: after }];
+
+  const a = before.split(/(\s+)/);
+  const b = after.split(/(\s+)/);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [{ kind: 'removed', text: before }, { kind: 'added', text: after }];
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: TextDiffPart[] = [];
+  const push = (kind: TextDiffPart['kind'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.kind === kind) {
+      last.text += text;
+    } else {
+      parts.push({ kind, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return parts;
+};
+
+const chartDeltas = (before: ReportSection, after: ReportSection): ChartDelta[] | undefined => {
+  const merged = buildOverlayData({ key: before.id, title: before.title, left: before, right: after });
+  if (!merged) return undefined;
+  return merged.map(p => ({
+    name: p.name,
+    before: p.left,
+    after: p.right,
+    delta: p.left !== null && p.right !== null ? p.right - p.left : null
+  }));
+};
+
+export const diffVersions = (previous: Report, current: Report): VersionDiff => {
+  const insights = diffInsights(previous, current);
+
+  const sections: SectionChange[] = alignSections(previous, current).map(pair => {
+    if (!pair.left) return { title: pair.title, status: 'added' };
+    if (!pair.right) return { title: pair.title, status: 'removed' };
+
+    const deltas = chartDeltas(pair.left, pair.right);
+    const textChanged = pair.left.content !== pair.right.content;
+    const chartChanged = !!deltas && deltas.some(d => d.delta !== 0);
+    return {
+      title: pair.right.title,
+      status: textChanged || chartChanged ? 'changed' : 'unchanged',
+      textDiff: textChanged ? diffText(pair.left.content, pair.right.content) : undefined,
+      chartDeltas: chartChanged ? deltas : undefined
+    };
+  });
+
+  return {
+    insightsAdded: insights.filter(d => !d.left).map(d => d.right!),
+    insightsRemoved: insights.filter(d => !d.right).map(d => d.left!),
+    insightsChanged: insights.filter(d => d.left && d.right && d.left.value !== d.right.value),
+    sections
+  };
+};
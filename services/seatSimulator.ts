@@ -0,0 +1,131 @@
+import { ChartDataPoint, ScenarioConfig } from '../types';
+
+export interface PartyShare {
+  party: string;
+  share: number; // Percent of the vote, 0-100
+}
+
+export interface ScenarioResult {
+  shares: ChartDataPoint[];
+  seats: ChartDataPoint[];
+}
+
+export const DEFAULT_SCENARIO_CONFIG: ScenarioConfig = {
+  model: 'uniform-swing',
+  totalSeats: 100,
+  exponent: 3,
+  dispersion: 8
+};
+
+export const MAX_SWING = 15;
+
+const OTHERS = 'Others';
+
+// Vote-share charts list parties with percentages adding up to (roughly) 100
+export const isVoteShareData = (data?: ChartDataPoint[]) => {
+  if (!data || data.length < 2) return false;
+  if (data.some(p => p.value < 0 || p.value > 100)) return false;
+  const total = data.reduce((sum, p) => sum + p.value, 0);
+  return total >= 50 && total <= 105;
+};
+
+// Normalises to 100, adding an "Others" bucket when the chart leaves part of the vote out
+export const baselineShares = (data: ChartDataPoint[]): PartyShare[] => {
+  const shares = data.map(p => ({ party: p.name, share: p.value }));
+  const total = shares.reduce((sum, p) => sum + p.share, 0);
+  if (total < 99 && !shares.some(p => p.party.toLowerCase() === OTHERS.toLowerCase())) {
+    shares.push({ party: OTHERS, share: 100 - total });
+    return shares;
+  }
+  return shares.map(p => ({ ...p, share: (p.share / total) * 100 }));
+};
+
+export const applySwings = (baseline: PartyShare[], swings: Record<string, number>): PartyShare[] => {
+  const swung = baseline.map(p => ({ party: p.party, share: Math.max(0, p.share + (swings[p.party] || 0)) }));
+  const total = swung.reduce((sum, p) => sum + p.share, 0) || 1;
+  return swung.map(p => ({ ...p, share: (p.share / total) * 100 }));
+};
+
+// Hamilton apportionment: floor each quota, then hand out the rest by largest remainder
+const largestRemainder = (weights: number[], seats: number): number[] => {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (total === 0) return weights.map(() => 0);
+  const quotas = weights.map(w => (w / total) * seats);
+  const result = quotas.map(Math.floor);
+  let remaining = seats - result.reduce((sum, s) => sum + s, 0);
+  quotas
+    .map((q, i) => ({ i, remainder: q - Math.floor(q) }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach(({ i }) => {
+      if (remaining > 0) {
+        result[i]++;
+        remaining--;
+      }
+    });
+  return result;
+};
+
+const hash = (text: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+};
+
+// Deterministic standard normal draw (mulberry32 + Box-Muller), so a scenario always gives the same seats
+const gaussian = (seed: number) => {
+  const next = () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const u = Math.max(next(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * next());
+};
+
+// Without constituency results, seats are simulated: each seat's shares scatter around the baseline,
+// the same swing is added everywhere, and the local leader wins the seat.
+const uniformSwingSeats = (baseline: PartyShare[], projected: PartyShare[], config: ScenarioConfig): number[] => {
+  const seats = baseline.map(() => 0);
+  for (let seat = 0; seat < config.totalSeats; seat++) {
+    let winner = 0;
+    let best = -Infinity;
+    baseline.forEach((p, i) => {
+      const spread = config.dispersion * Math.sqrt(p.share / 25);
+      const local = p.share + spread * gaussian(hash(`${seat}:${p.party}`)) + (projected[i].share - p.share);
+      if (local > best) {
+        best = local;
+        winner = i;
+      }
+    });
+    seats[winner]++;
+  }
+  return seats;
+};
+
+// Seats proportional to share^k: k = 1 is pure proportionality, k = 3 the classic cube law
+const cubeLawSeats = (projected: PartyShare[], config: ScenarioConfig): number[] =>
+  largestRemainder(projected.map(p => Math.pow(p.share, config.exponent)), config.totalSeats);
+
+export const runScenario = (
+  data: ChartDataPoint[],
+  swings: Record<string, number>,
+  config: ScenarioConfig
+): ScenarioResult => {
+  const baseline = baselineShares(data);
+  const projected = applySwings(baseline, swings);
+  const seats = config.model === 'cube-law'
+    ? cubeLawSeats(projected, config)
+    : uniformSwingSeats(baseline, projected, config);
+
+  // Keep the model's colour overrides so parties look the same as in the baseline chart
+  const fillFor = (party: string) => data.find(p => p.name === party)?.fill;
+
+  return {
+    shares: projected.map(p => ({ name: p.party, value: Number(p.share.toFixed(1)), fill: fillFor(p.party) })),
+    seats: projected.map((p, i) => ({ name: p.party, value: seats[i], fill: fillFor(p.party) }))
+  };
+};
@@ -0,0 +1,2020 @@
+import {
+  AnnotationStatus, BatchJobStatus, ChatAction, FactCheckCode, FactCheckFlag, GenerationLogEntry, GenerationStage, Language,
+  MapLevel, MapMetric, MessageParams, Report, ReportErrorKind, SeatModel, SectionType, ValidationCode, ValidationIssue
+} from '../types';
+import { LANGUAGES } from './languages';
+import type { ImportStatus } from './reportImport';
+import type { SectionChange } from './reportVersions';
+
+// Interface chrome only; report text comes from the model in the report's own language
+export interface UiStrings {
+  tagline: string;
+  heroTitle: [string, string]; // Two lines
+  heroSubtitle: string;
+  searchPlaceholder: string;
+  trending: string;
+  importReports: string;
+  batchReports: string;
+  exportHistory: string;
+  recentAnalyses: string;
+  compare: string;
+  cancel: string;
+  viewReport: string;
+  deleteFromHistory: string;
+  language: string;
+  poweredBy: string;
+  stageTitles: Record<GenerationStage, string>;
+  stageLabels: Record<GenerationStage, string>;
+  investigating: (topic: string) => string;
+
+  findInReport: string;
+  refreshAnalysis: string;
+  copySummary: string;
+  summaryCopied: string;
+  exportPdf: string;
+  exportData: string;
+  translate: string;
+  translating: string;
+  translateFailed: string;
+  tableOfContents: string;
+  matchingSections: string;
+  noMatchingSections: string;
+  sources: string;
+  viewAllSources: (count: number) => string;
+  analysisReport: string;
+  version: (version: number) => string;
+  cached: (age: string) => string;
+  forceRefresh: string;
+  translatedFrom: (language: string) => string;
+  showAnnotations: string;
+  hideAnnotations: string;
+  includeAnnotations: string;
+  annotationStatuses: Record<AnnotationStatus, string>;
+  note: string;
+  addNote: string;
+  commentPlaceholder: string;
+  notePlaceholder: string;
+  status: string;
+  annotationDetached: string;
+  analystReview: string;
+  noteCount: (count: number) => string;
+  executiveSummary: string;
+  keyInsight: (index: number) => string;
+  removedSection: string;
+  removedSections: string;
+  editReport: string;
+  editedByAnalyst: string;
+  editingReport: string;
+  undo: string;
+  redo: string;
+  reportTitle: string;
+  keyInsights: string;
+  insightIcon: string;
+  insightIcons: Record<Report['keyInsights'][0]['icon'], string>;
+  insightValue: string;
+  addInsight: string;
+  removeInsight: string;
+  sectionTitle: string;
+  sectionType: string;
+  sectionTypes: Record<SectionType, string>;
+  moveUp: string;
+  moveDown: string;
+  deleteSection: string;
+  addSection: string;
+  newSection: string;
+  markdown: string;
+  rowName: string;
+  addRow: string;
+  removeRow: string;
+  tableKept: string;
+  mapKept: string;
+  sectionNumber: (n: number) => string;
+  insightNumber: (n: number) => string;
+  fixBeforeSaving: string;
+  fixesOnSave: string;
+  discardEdits: string;
+  noContentMatches: (query: string) => string;
+  clearSearch: string;
+  endOfReport: string;
+  endOfReportNote: string;
+  startNewAnalysis: string;
+  printFooter: string;
+  exportMarkdownFile: string;
+  exportJsonFile: string;
+  exportCsvFiles: string;
+  shareText: (title: string, summary: string) => string;
+  simulateSwings: string;
+  hideSimulator: string;
+  savedScenarios: (count: number) => string;
+  scenarioSimulator: string;
+  resetSwings: string;
+  seatModel: string;
+  seatModels: Record<SeatModel, string>;
+  houseSize: string;
+  exponent: string;
+  constituencySpread: string;
+  points: (value: string) => string; // Percentage points, e.g. "+1.5 pts"
+  nameScenario: string;
+  save: string;
+  deleteScenario: string;
+  projectedVoteShare: string;
+  projectedSeats: (total: number) => string;
+
+  nonAligned: string;
+  total: string;
+  data: string;
+  filterColumns: string;
+  filter: string;
+  noRowsMatch: string;
+  mapMetrics: Record<MapMetric, string>;
+  mapLevels: Record<MapLevel, string>;
+  mapAsTable: string;
+  mapNeedsState: string;
+  noBoundaries: (level: string, state?: string) => string;
+  boundariesFailed: string;
+  stateColumn: string;
+  constituencyColumn: string;
+  showAllIndia: string;
+  loadingBoundaries: string;
+  noData: string;
+  margin: string;
+  swing: string;
+  notOnMap: (regions: string) => string;
+  figuresFrom: (dataset: string) => string;
+  historicalResults: string;
+  historicalResultsNote: string;
+  voteShareTitle: (election: string) => string;
+  election: string;
+  voteSharePct: string;
+  checkFigures: string;
+  figuresInconsistent: string;
+  inconsistent: string;
+  unverified: string;
+  validationMessages: Record<ValidationCode, (p: MessageParams) => string>;
+  factCheckMessages: Record<FactCheckCode, (p: MessageParams) => string>;
+  versionHistory: string;
+  changesSince: (version: number) => string;
+  sectionChanges: Record<SectionChange['status'], string>;
+  item: string;
+  before: string;
+  after: string;
+  unsupportedNote: string;
+  unsupportedParagraph: string;
+  citedTimes: (count: number) => string;
+
+  logKinds: Record<GenerationLogEntry['kind'], string>;
+  liveLog: string;
+  tokens: (count: string) => string;
+  attempt: (attempt: number) => string;
+  waitingForModel: string;
+  remediation: Record<ReportErrorKind, { title: string, steps: string[] }>;
+  showModelAnswer: string;
+  hideModelAnswer: string;
+  emptyResponse: string;
+  downloadRawAnswer: string;
+  tryAgain: string;
+
+  chooseImportFiles: string;
+  importValidated: string;
+  issueCount: (count: number) => string;
+  importStatuses: Record<ImportStatus, string>;
+  sameIdAs: (title: string) => string;
+  keepBoth: string;
+  replaceExisting: string;
+  importCount: (count: number) => string;
+  closeKeepsQueue: string;
+  batchPlaceholder: string;
+  savedSets: string;
+  deleteSet: string;
+  nameSet: string;
+  saveSet: string;
+  runReports: (count: number) => string;
+  queue: string;
+  pendingOf: (pending: number, total: number) => string;
+  cancelAll: string;
+  clearFinished: string;
+  open: string;
+  runAgain: string;
+  batchStatuses: Record<BatchJobStatus, string>;
+  retryingAt: (time: string, attempt: number) => string;
+
+  exitComparison: string;
+  noMatchingSection: (title: string) => string;
+  keyInsightDifferences: string;
+  notPresent: string;
+  overlay: (title: string) => string;
+
+  chatGreeting: string;
+  chatGreetingReport: (title: string) => string;
+  askQuestion: string;
+  assistantName: string;
+  reportContextActive: string;
+  online: (model: string) => string;
+  newChat: string;
+  savedChats: string;
+  noSavedChats: string;
+  thisReport: string;
+  generalChats: string;
+  otherReports: string;
+  messageCount: (count: number) => string;
+  rename: string;
+  exportAsMarkdown: string;
+  you: string;
+  chatAboutReport: (title: string) => string;
+  generalChat: string;
+  chatStarted: (date: string) => string;
+  chatAction: (action: string, status: string) => string;
+  delete: string;
+  confirmDeleteChat: (title: string) => string;
+  showInReport: string;
+  fromReport: (title: string) => string;
+  answerActionFirst: string;
+  chatError: string;
+  actionFailed: string;
+  actionStatuses: Record<ChatAction['status'], string>;
+  actionExpired: string;
+  run: string;
+  actions: {
+    generateReport: (topic: string) => string;
+    openReport: (title: string) => string;
+    openSavedReport: string;
+    showSection: string;
+    drawChart: (title: string) => string; // Title may be empty
+    runTool: (name: string) => string;
+  };
+}
+
+const en: UiStrings = {
+  tagline: 'Indian Political Intelligence',
+  heroTitle: ['Decode the', 'democracy.'],
+  heroSubtitle: 'Advanced AI-powered analysis for elections, voting patterns, and political dynamics using real-time data sources.',
+  searchPlaceholder: 'Ask about 2027 elections, constituencies, or trends...',
+  trending: 'Trending Analysis & Projections',
+  importReports: 'Import reports',
+  batchReports: 'Batch reports',
+  exportHistory: 'Export history',
+  recentAnalyses: 'Recent Analyses',
+  compare: 'Compare',
+  cancel: 'Cancel',
+  viewReport: 'View Report',
+  deleteFromHistory: 'Delete from history',
+  language: 'Language',
+  poweredBy: 'Powered by Gemini',
+  stageTitles: {
+    researching: 'Gathering Data Sources...',
+    analyzing: 'Analyzing Political Trends...',
+    formatting: 'Generating Report...',
+    verifying: 'Cross-checking Figures...'
+  },
+  stageLabels: { researching: 'Research', analyzing: 'Analysis', formatting: 'Report', verifying: 'Fact-check' },
+  investigating: topic => `Investigating "${topic}"`,
+
+  findInReport: 'Find in report...',
+  refreshAnalysis: 'Refresh analysis',
+  copySummary: 'Copy Summary',
+  summaryCopied: 'Report summary copied to clipboard!',
+  exportPdf: 'Export PDF',
+  exportData: 'Export data',
+  translate: 'Translate',
+  translating: 'Translating…',
+  translateFailed: 'Translation failed. Please try again.',
+  tableOfContents: 'Table of Contents',
+  matchingSections: 'Matching Sections',
+  noMatchingSections: 'No matching sections found.',
+  sources: 'Sources',
+  viewAllSources: count => `View all ${count} sources`,
+  analysisReport: 'Analysis Report',
+  version: version => `Version ${version}`,
+  cached: age => `Cached ${age}`,
+  forceRefresh: 'Force refresh',
+  translatedFrom: language => `Translated from ${language}`,
+  showAnnotations: 'Show annotations',
+  hideAnnotations: 'Hide annotations (also from print and exports)',
+  includeAnnotations: 'Include annotations',
+  annotationStatuses: { comment: 'Comment', verified: 'Verified', disputed: 'Disputed', 'needs-source': 'Needs source' },
+  note: 'Note',
+  addNote: 'Add note',
+  commentPlaceholder: 'Add a comment (optional for a verdict)',
+  notePlaceholder: 'Add a note for this section',
+  status: 'Status',
+  annotationDetached: 'This text is no longer in the report.',
+  analystReview: 'Analyst Review',
+  noteCount: count => `${count} ${count === 1 ? 'note' : 'notes'}`,
+  executiveSummary: 'Executive Summary',
+  keyInsight: index => `Key Insight ${index}`,
+  removedSection: 'Removed section',
+  removedSections: 'Removed sections',
+  editReport: 'Edit report',
+  editedByAnalyst: 'Edited by analyst',
+  editingReport: 'Editing report',
+  undo: 'Undo (Ctrl+Z)',
+  redo: 'Redo (Ctrl+Shift+Z)',
+  reportTitle: 'Title',
+  keyInsights: 'Key insights',
+  insightIcon: 'Icon',
+  insightIcons: { 'trend-up': 'Trending up', 'trend-down': 'Trending down', alert: 'Alert', info: 'Info' },
+  insightValue: 'Value',
+  addInsight: 'Add insight',
+  removeInsight: 'Remove insight',
+  sectionTitle: 'Section title',
+  sectionType: 'Section type',
+  sectionTypes: { [SectionType.TEXT]: 'Text', [SectionType.BAR_CHART]: 'Bar chart', [SectionType.PIE_CHART]: 'Pie chart', [SectionType.LINE_CHART]: 'Line chart', [SectionType.TABLE]: 'Table', [SectionType.MAP]: 'Map' },
+  moveUp: 'Move up',
+  moveDown: 'Move down',
+  deleteSection: 'Delete section',
+  addSection: 'Add section',
+  newSection: 'New section',
+  markdown: 'Markdown',
+  rowName: 'Name',
+  addRow: 'Add row',
+  removeRow: 'Remove row',
+  tableKept: "The table's rows are kept as generated.",
+  mapKept: "The map's regions are kept as generated.",
+  sectionNumber: n => `Section ${n}`,
+  insightNumber: n => `Insight ${n}`,
+  fixBeforeSaving: 'Fix these before saving:',
+  fixesOnSave: 'Saving will apply these fixes:',
+  discardEdits: 'Discard your changes to this report?',
+  noContentMatches: query => `No content matches "${query}"`,
+  clearSearch: 'Clear Search',
+  endOfReport: 'End of Report',
+  endOfReportNote: 'This analysis was generated using AI and grounded in real-time data search. Political dynamics are fluid; consider this a snapshot in time.',
+  startNewAnalysis: 'Start New Analysis',
+  printFooter: 'Generated by PolitiSight India • Powered by Google Gemini',
+  exportMarkdownFile: 'Markdown (.md)',
+  exportJsonFile: 'JSON (.json)',
+  exportCsvFiles: 'Chart & table data (.csv)',
+  shareText: (title, summary) => `Check out this political analysis report: "${title}"\n\nExecutive Summary:\n${summary}\n\nGenerated by PolitiSight India`,
+  simulateSwings: 'Simulate swing scenarios',
+  hideSimulator: 'Hide scenario simulator',
+  savedScenarios: count => `(${count} saved)`,
+  scenarioSimulator: 'Scenario Simulator',
+  resetSwings: 'Reset swings',
+  seatModel: 'Seat model',
+  seatModels: { 'uniform-swing': 'Uniform swing', 'cube-law': 'Cube law' },
+  houseSize: 'House size',
+  exponent: 'Exponent',
+  constituencySpread: 'Constituency spread',
+  points: value => `${value} pts`,
+  nameScenario: 'Name this scenario...',
+  save: 'Save',
+  deleteScenario: 'Delete scenario',
+  projectedVoteShare: 'Projected vote share (%)',
+  projectedSeats: total => `Projected seats (of ${total})`,
+
+  nonAligned: 'Non-aligned',
+  total: 'Total',
+  data: 'Data',
+  filterColumns: 'Filter columns',
+  filter: 'Filter',
+  noRowsMatch: 'No rows match the filters.',
+  mapMetrics: { winner: 'Winning party', margin: 'Victory margin (pts)', swing: 'Swing (pts)' },
+  mapLevels: { state: 'States', pc: 'Lok Sabha constituencies', ac: 'Vidhan Sabha constituencies' },
+  mapAsTable: 'Showing the map data as a table.',
+  mapNeedsState: 'This Vidhan Sabha map does not say which state it covers.',
+  noBoundaries: (level, state) => `Boundaries for ${level}${state ? ` in ${state}` : ''} are not bundled.`,
+  boundariesFailed: 'The map boundaries could not be loaded.',
+  stateColumn: 'State',
+  constituencyColumn: 'Constituency',
+  showAllIndia: 'Show all India',
+  loadingBoundaries: 'Loading boundaries…',
+  noData: 'No data',
+  margin: 'Margin',
+  swing: 'Swing',
+  notOnMap: regions => `Not on the map: ${regions}`,
+  figuresFrom: dataset => `Figures from the ECI results dataset: ${dataset}`,
+  historicalResults: 'Historical Results',
+  historicalResultsNote: 'Vote share of the leading parties in past elections.',
+  voteShareTitle: election => `${election} vote share (%)`,
+  election: 'Election',
+  voteSharePct: 'Vote share (%)',
+  checkFigures: 'Check these figures',
+  figuresInconsistent: 'Figures look inconsistent',
+  inconsistent: 'Inconsistent',
+  unverified: 'Unverified',
+  validationMessages: {
+    'chart-data-invalid': () => 'chartData is not an array and was discarded.',
+    'point-invalid': () => 'Data point is not an object and was dropped.',
+    'point-no-name': () => 'Data point has no name and was dropped.',
+    'party-normalised': p => `Normalised party name ${p.name} to ${p.canonical}.`,
+    'series-value-blanked': p => `Non-numeric series value ${p.value} was blanked.`,
+    'value-dropped': p => `Non-numeric value ${p.value} was dropped.`,
+    'value-coerced': p => `Coerced ${p.value} to ${p.result}.`,
+    'fill-removed': () => 'Invalid colour override was removed.',
+    'table-data-invalid': () => 'tableData needs columns and rows arrays and was discarded.',
+    'column-invalid': () => 'Column has no key or label and was dropped.',
+    'column-type-unknown': p => `Unknown column type ${p.type} treated as text.`,
+    'table-no-columns': () => 'Table has no usable columns.',
+    'row-invalid': () => 'Row is neither an array nor an object and was dropped.',
+    'cell-blanked': p => `Non-numeric cell ${p.value} was blanked.`,
+    'table-no-rows': () => 'Table has no rows.',
+    'map-data-invalid': () => 'mapData has no regions array and was discarded.',
+    'map-level-unknown': p => `Unknown level ${p.level} was replaced with "state".`,
+    'map-state-unknown': p => `Unknown state ${p.state} was ignored.`,
+    'map-needs-state': () => 'Vidhan Sabha map has no state; regions will be listed instead.',
+    'region-no-name': () => 'Region has no name and was dropped.',
+    'region-value-dropped': p => `Non-numeric ${p.key} ${p.value} was dropped.`,
+    'region-unknown': p => `Region ${p.region} does not match a known state.`,
+    'map-metric-unknown': p => `Unknown metric ${p.metric} was replaced with "${p.replacement}".`,
+    'series-invalid': () => 'Series has a missing or duplicate key and was dropped.',
+    'section-invalid': () => 'Section is not an object and was dropped.',
+    'content-missing': () => 'Missing content was replaced with an empty string.',
+    'section-type-unknown': p => `Unknown section type ${p.type}.`,
+    'section-type-normalised': p => `Normalised type ${p.type} to ${p.result}.`,
+    'section-type-inferred': p => `Section rendered as ${p.type}.`,
+    'chart-no-data': () => 'Chart section has no usable data and was converted to text.',
+    'table-no-data': () => 'Table section has no usable data and was converted to text.',
+    'map-no-regions': () => 'Map section has no usable regions and was converted to text.',
+    'section-empty': () => 'Section has no content, chart, table or map data and was dropped.',
+    'section-title-missing': p => `Missing title was replaced with "${p.title}".`,
+    'section-id-replaced': p => `Section id ${p.id} was replaced with "${p.replacement}".`,
+    'insight-no-text': () => 'Insight has no text and was dropped.',
+    'insight-icon-unknown': p => `Unknown icon ${p.icon} was replaced with "info".`,
+    'insight-color-removed': () => 'Invalid colour was removed.',
+    'not-object': () => 'Response is not a JSON object.',
+    'title-missing': () => 'Missing title was replaced with the search topic.',
+    'date-missing': () => "Missing date was replaced with today's date.",
+    'summary-missing': () => 'Executive summary is missing.',
+    'insights-missing': () => 'keyInsights is missing or not an array.',
+    'sections-missing': () => 'sections is missing or not an array.',
+    'no-sections': () => 'No usable sections remain after validation.',
+    'sources-invalid': () => 'sources is not an array and was discarded.',
+    'source-invalid': () => 'Invalid source was dropped.',
+    'id-generated': () => 'Missing id was generated.',
+    'timestamp-missing': () => 'Missing timestamp was set to now.',
+    'empty-response': () => 'The model returned an empty response.',
+    'invalid-json': p => `Response is not valid JSON: ${p.error}`,
+    'translation-unreadable': () => 'The translation could not be read.',
+    'kept-untranslated': p => `Kept in ${LANGUAGES[p.language as Language].englishName}: the translation did not keep its numbers intact.`
+  },
+  factCheckMessages: {
+    'share-sum-over': p => `Shares for ${p.label} add up to ${p.total}%.`,
+    'share-sum-under': p => `Shares for ${p.label} add up to only ${p.total}%.`,
+    'share-above-100': p => `${p.name} has a share of ${p.value}%, above 100%.`,
+    'seats-above-house': p => `${p.name} is shown with ${p.value} seats, but the house has ${p.house}.`,
+    'seats-total': p => `Seats add up to ${p.total}, more than the ${p.house} in the house.`,
+    'year-out-of-range': p => `${p.year} is outside the range of Indian elections.`,
+    'year-future': p => `${p.year} is implausibly far in the future.`,
+    'quoted-share': p => `${p.party} is quoted at ${p.quoted}%, but the charts show ${p.charted}.`
+  },
+  versionHistory: 'Version History',
+  changesSince: version => `Changes since v${version}`,
+  sectionChanges: { added: 'added', removed: 'removed', changed: 'changed', unchanged: 'unchanged' },
+  item: 'Item',
+  before: 'Before',
+  after: 'After',
+  unsupportedNote: 'Paragraphs marked with a dashed margin are not backed by any grounding source.',
+  unsupportedParagraph: 'No grounding source supports this paragraph',
+  citedTimes: count => `Cited ${count} ${count === 1 ? 'time' : 'times'}`,
+
+  logKinds: { search: 'Searched', section: 'Section', note: 'Retry' },
+  liveLog: 'Live log',
+  tokens: count => `${count} tokens`,
+  attempt: attempt => `attempt ${attempt}`,
+  waitingForModel: 'Waiting for the model…',
+  remediation: {
+    'api-key': {
+      title: 'API key problem',
+      steps: [
+        'Set GEMINI_API_KEY in .env.local and restart the dev server.',
+        'Check the key is active in Google AI Studio and allowed to use the Gemini API.',
+        'To try the app without a key, set LLM_PROVIDER=mock.'
+      ]
+    },
+    quota: {
+      title: 'Rate limit reached',
+      steps: [
+        'Wait a minute and try again; per-minute limits reset quickly.',
+        'If this keeps happening, the daily quota may be used up. Check usage in Google AI Studio.',
+        'Batch runs retry automatically with longer waits.'
+      ]
+    },
+    safety: {
+      title: 'Blocked by safety filters',
+      steps: [
+        'Rephrase the topic in neutral, analytical terms.',
+        'Avoid naming private individuals or asking for targeted content.'
+      ]
+    },
+    parse: {
+      title: 'Unreadable answer',
+      steps: [
+        'Try again; the model usually formats its answer correctly on another run.',
+        'A narrower topic gives the model less to fit into one report.'
+      ]
+    },
+    network: {
+      title: 'Network problem',
+      steps: [
+        'Check your internet connection.',
+        'A VPN, proxy or ad blocker may be blocking generativelanguage.googleapis.com.'
+      ]
+    },
+    server: {
+      title: 'Service unavailable',
+      steps: ['The Gemini API is overloaded or down. Try again in a few minutes.']
+    },
+    unknown: {
+      title: 'Report failed',
+      steps: ['Try again. If it keeps failing, the browser console has the details.']
+    }
+  },
+  showModelAnswer: "Show the model's answer",
+  hideModelAnswer: "Hide the model's answer",
+  emptyResponse: '(empty response)',
+  downloadRawAnswer: 'Download raw answer',
+  tryAgain: 'Try again',
+
+  chooseImportFiles: 'Choose report .json files or a history bundle',
+  importValidated: 'Files exported from PolitiSight are validated before they are added',
+  issueCount: count => `${count} ${count === 1 ? 'issue' : 'issues'}`,
+  importStatuses: { accepted: 'accepted', repaired: 'repaired', rejected: 'rejected', duplicate: 'already saved' },
+  sameIdAs: title => `Same id as "${title}":`,
+  keepBoth: 'Keep both',
+  replaceExisting: 'Replace existing',
+  importCount: count => count > 0 ? `Import ${count} ${count === 1 ? 'report' : 'reports'}` : 'Import reports',
+  closeKeepsQueue: 'Close (the queue keeps running)',
+  batchPlaceholder: 'One topic per line, e.g.\nBihar Vidhan Sabha 2025 outlook\nWest Bengal Vidhan Sabha 2026 outlook',
+  savedSets: 'Saved sets:',
+  deleteSet: 'Delete set',
+  nameSet: 'Name this set',
+  saveSet: 'Save set',
+  runReports: count => count > 0 ? `Run ${count} ${count === 1 ? 'report' : 'reports'}` : 'Run reports',
+  queue: 'Queue',
+  pendingOf: (pending, total) => `${pending} pending of ${total}`,
+  cancelAll: 'Cancel all',
+  clearFinished: 'Clear finished',
+  open: 'Open',
+  runAgain: 'Run again',
+  batchStatuses: { queued: 'queued', running: 'running', waiting: 'rate limited', done: 'done', failed: 'failed', cancelled: 'cancelled' },
+  retryingAt: (time, attempt) => `Retrying at ${time} (attempt ${attempt})`,
+
+  exitComparison: 'Exit Comparison',
+  noMatchingSection: title => `No matching section in "${title}"`,
+  keyInsightDifferences: 'Key Insight Differences',
+  notPresent: 'Not present',
+  overlay: title => `Overlay: ${title}`,
+
+  chatGreeting: "Namaste! I'm your PolitiSight assistant. Ask me about Indian politics or start a new analysis.",
+  chatGreetingReport: title => `I'm here to help you dig deeper into "${title}". What would you like to know?`,
+  askQuestion: 'Ask a question...',
+  assistantName: 'AI Assistant',
+  reportContextActive: 'Report Context Active',
+  online: model => `Online • ${model}`,
+  newChat: 'New chat',
+  savedChats: 'Saved chats',
+  noSavedChats: 'No saved chats yet.',
+  thisReport: 'This report',
+  generalChats: 'General',
+  otherReports: 'Other reports',
+  messageCount: count => `${count} ${count === 1 ? 'message' : 'messages'}`,
+  rename: 'Rename',
+  exportAsMarkdown: 'Export as Markdown',
+  you: 'You',
+  chatAboutReport: title => `Chat about the report "${title}"`,
+  generalChat: 'General chat',
+  chatStarted: date => `Started ${date}`,
+  chatAction: (action, status) => `Action: ${action} (${status})`,
+  delete: 'Delete',
+  confirmDeleteChat: title => `Delete the chat "${title}"?`,
+  showInReport: 'Show in report',
+  fromReport: title => `From "${title}"`,
+  answerActionFirst: 'Run or cancel the action above first',
+  chatError: "I'm sorry, I encountered an error. Please try again.",
+  actionFailed: 'The app could not run this action.',
+  actionStatuses: { pending: 'Waiting for you', done: 'Done', declined: 'Declined', failed: 'Could not run' },
+  actionExpired: 'Expired; ask again to run it',
+  run: 'Run',
+  actions: {
+    generateReport: topic => `Generate a new report on "${topic}"`,
+    openReport: title => `Open the report "${title}"`,
+    openSavedReport: 'Open a saved report',
+    showSection: 'Show a section of the report',
+    drawChart: title => title ? `Draw a chart: ${title}` : 'Draw a chart',
+    runTool: name => `Run "${name}"`
+  }
+};
+
+const hi: UiStrings = {
+  tagline: 'भारतीय राजनीतिक विश्लेषण',
+  heroTitle: ['लोकतंत्र को', 'समझिए।'],
+  heroSubtitle: 'चुनावों, मतदान रुझानों और राजनीतिक समीकरणों का रीयल-टाइम डेटा पर आधारित उन्नत AI विश्लेषण।',
+  searchPlaceholder: '2027 के चुनाव, निर्वाचन क्षेत्र या रुझानों के बारे में पूछें...',
+  trending: 'चर्चित विश्लेषण और अनुमान',
+  importReports: 'रिपोर्ट आयात करें',
+  batchReports: 'बैच रिपोर्ट',
+  exportHistory: 'इतिहास निर्यात करें',
+  recentAnalyses: 'हाल के विश्लेषण',
+  compare: 'तुलना करें',
+  cancel: 'रद्द करें',
+  viewReport: 'रिपोर्ट देखें',
+  deleteFromHistory: 'इतिहास से हटाएँ',
+  language: 'भाषा',
+  poweredBy: 'Gemini द्वारा संचालित',
+  stageTitles: {
+    researching: 'डेटा स्रोत जुटाए जा रहे हैं...',
+    analyzing: 'राजनीतिक रुझानों का विश्लेषण...',
+    formatting: 'रिपोर्ट तैयार हो रही है...',
+    verifying: 'आँकड़ों की जाँच...'
+  },
+  stageLabels: { researching: 'शोध', analyzing: 'विश्लेषण', formatting: 'रिपोर्ट', verifying: 'तथ्य-जाँच' },
+  investigating: topic => `"${topic}" की पड़ताल`,
+
+  findInReport: 'रिपोर्ट में खोजें...',
+  refreshAnalysis: 'विश्लेषण ताज़ा करें',
+  copySummary: 'सारांश कॉपी करें',
+  summaryCopied: 'रिपोर्ट का सारांश क्लिपबोर्ड पर कॉपी हो गया!',
+  exportPdf: 'PDF निर्यात करें',
+  exportData: 'डेटा निर्यात करें',
+  translate: 'अनुवाद करें',
+  translating: 'अनुवाद हो रहा है…',
+  translateFailed: 'अनुवाद विफल रहा। कृपया फिर से प्रयास करें।',
+  tableOfContents: 'विषय सूची',
+  matchingSections: 'मिलते-जुलते खंड',
+  noMatchingSections: 'कोई मिलता-जुलता खंड नहीं मिला।',
+  sources: 'स्रोत',
+  viewAllSources: count => `सभी ${count} स्रोत देखें`,
+  analysisReport: 'विश्लेषण रिपोर्ट',
+  version: version => `संस्करण ${version}`,
+  cached: age => `कैश से, ${age}`,
+  forceRefresh: 'फिर से बनाएँ',
+  translatedFrom: language => `${language} से अनूदित`,
+  showAnnotations: 'टिप्पणियाँ दिखाएँ',
+  hideAnnotations: 'टिप्पणियाँ छिपाएँ (प्रिंट और निर्यात से भी)',
+  includeAnnotations: 'टिप्पणियाँ शामिल करें',
+  annotationStatuses: { comment: 'टिप्पणी', verified: 'सत्यापित', disputed: 'विवादित', 'needs-source': 'स्रोत चाहिए' },
+  note: 'नोट',
+  addNote: 'नोट जोड़ें',
+  commentPlaceholder: 'टिप्पणी जोड़ें (निर्णय के लिए वैकल्पिक)',
+  notePlaceholder: 'इस खंड के लिए नोट जोड़ें',
+  status: 'स्थिति',
+  annotationDetached: 'यह पाठ अब रिपोर्ट में नहीं है।',
+  analystReview: 'विश्लेषक समीक्षा',
+  noteCount: count => `${count} नोट`,
+  executiveSummary: 'कार्यकारी सारांश',
+  keyInsight: index => `मुख्य निष्कर्ष ${index}`,
+  removedSection: 'हटाया गया खंड',
+  removedSections: 'हटाए गए खंड',
+  editReport: 'रिपोर्ट संपादित करें',
+  editedByAnalyst: 'विश्लेषक द्वारा संपादित',
+  editingReport: 'रिपोर्ट संपादित हो रही है',
+  undo: 'पूर्ववत करें (Ctrl+Z)',
+  redo: 'फिर से करें (Ctrl+Shift+Z)',
+  reportTitle: 'शीर्षक',
+  keyInsights: 'मुख्य निष्कर्ष',
+  insightIcon: 'चिह्न',
+  insightIcons: { 'trend-up': 'बढ़त', 'trend-down': 'गिरावट', alert: 'चेतावनी', info: 'जानकारी' },
+  insightValue: 'मान',
+  addInsight: 'निष्कर्ष जोड़ें',
+  removeInsight: 'निष्कर्ष हटाएँ',
+  sectionTitle: 'खंड का शीर्षक',
+  sectionType: 'खंड का प्रकार',
+  sectionTypes: { [SectionType.TEXT]: 'पाठ', [SectionType.BAR_CHART]: 'बार चार्ट', [SectionType.PIE_CHART]: 'पाई चार्ट', [SectionType.LINE_CHART]: 'लाइन चार्ट', [SectionType.TABLE]: 'तालिका', [SectionType.MAP]: 'नक्शा' },
+  moveUp: 'ऊपर ले जाएँ',
+  moveDown: 'नीचे ले जाएँ',
+  deleteSection: 'खंड हटाएँ',
+  addSection: 'खंड जोड़ें',
+  newSection: 'नया खंड',
+  markdown: 'Markdown',
+  rowName: 'नाम',
+  addRow: 'पंक्ति जोड़ें',
+  removeRow: 'पंक्ति हटाएँ',
+  tableKept: 'तालिका की पंक्तियाँ जैसी बनी थीं वैसी ही रखी जाती हैं।',
+  mapKept: 'नक्शे के क्षेत्र जैसे बने थे वैसे ही रखे जाते हैं।',
+  sectionNumber: n => `खंड ${n}`,
+  insightNumber: n => `निष्कर्ष ${n}`,
+  fixBeforeSaving: 'सहेजने से पहले इन्हें ठीक करें:',
+  fixesOnSave: 'सहेजने पर ये सुधार लागू होंगे:',
+  discardEdits: 'इस रिपोर्ट में किए गए बदलाव छोड़ दें?',
+  noContentMatches: query => `"${query}" से मेल खाती कोई सामग्री नहीं`,
+  clearSearch: 'खोज साफ़ करें',
+  endOfReport: 'रिपोर्ट समाप्त',
+  endOfReportNote: 'यह विश्लेषण AI द्वारा रीयल-टाइम डेटा खोज के आधार पर तैयार किया गया है। राजनीतिक परिस्थितियाँ बदलती रहती हैं; इसे एक समय-विशेष की तस्वीर मानें।',
+  startNewAnalysis: 'नया विश्लेषण शुरू करें',
+  printFooter: 'PolitiSight India द्वारा तैयार • Google Gemini द्वारा संचालित',
+  exportMarkdownFile: 'Markdown (.md)',
+  exportJsonFile: 'JSON (.json)',
+  exportCsvFiles: 'चार्ट और तालिका डेटा (.csv)',
+  shareText: (title, summary) => `यह राजनीतिक विश्लेषण रिपोर्ट देखें: "${title}"\n\nकार्यकारी सारांश:\n${summary}\n\nPolitiSight India द्वारा तैयार`,
+  simulateSwings: 'स्विंग परिदृश्य आज़माएँ',
+  hideSimulator: 'परिदृश्य सिम्युलेटर छिपाएँ',
+  savedScenarios: count => `(${count} सहेजे गए)`,
+  scenarioSimulator: 'परिदृश्य सिम्युलेटर',
+  resetSwings: 'स्विंग रीसेट करें',
+  seatModel: 'सीट मॉडल',
+  seatModels: { 'uniform-swing': 'समान स्विंग', 'cube-law': 'घन नियम' },
+  houseSize: 'सदन का आकार',
+  exponent: 'घातांक',
+  constituencySpread: 'निर्वाचन क्षेत्रों में फैलाव',
+  points: value => `${value} अंक`,
+  nameScenario: 'इस परिदृश्य का नाम दें...',
+  save: 'सहेजें',
+  deleteScenario: 'परिदृश्य हटाएँ',
+  projectedVoteShare: 'अनुमानित वोट शेयर (%)',
+  projectedSeats: total => `अनुमानित सीटें (${total} में से)`,
+
+  nonAligned: 'गुटनिरपेक्ष',
+  total: 'कुल',
+  data: 'डेटा',
+  filterColumns: 'कॉलम फ़िल्टर करें',
+  filter: 'फ़िल्टर',
+  noRowsMatch: 'फ़िल्टर से कोई पंक्ति मेल नहीं खाती।',
+  mapMetrics: { winner: 'विजेता दल', margin: 'जीत का अंतर (अंक)', swing: 'स्विंग (अंक)' },
+  mapLevels: { state: 'राज्य', pc: 'लोक सभा निर्वाचन क्षेत्र', ac: 'विधान सभा निर्वाचन क्षेत्र' },
+  mapAsTable: 'मानचित्र का डेटा तालिका के रूप में दिखाया जा रहा है।',
+  mapNeedsState: 'यह विधान सभा नक्शा नहीं बताता कि यह किस राज्य का है।',
+  noBoundaries: (level, state) => `${state ? `${state} के ` : ''}${level} की सीमाएँ शामिल नहीं हैं।`,
+  boundariesFailed: 'नक्शे की सीमाएँ लोड नहीं हो सकीं।',
+  stateColumn: 'राज्य',
+  constituencyColumn: 'निर्वाचन क्षेत्र',
+  showAllIndia: 'पूरा भारत दिखाएँ',
+  loadingBoundaries: 'सीमाएँ लोड हो रही हैं…',
+  noData: 'डेटा नहीं',
+  margin: 'अंतर',
+  swing: 'स्विंग',
+  notOnMap: regions => `मानचित्र पर नहीं: ${regions}`,
+  figuresFrom: dataset => `आँकड़े ECI परिणाम डेटासेट से: ${dataset}`,
+  historicalResults: 'पिछले परिणाम',
+  historicalResultsNote: 'पिछले चुनावों में प्रमुख दलों का वोट शेयर।',
+  voteShareTitle: election => `${election} वोट शेयर (%)`,
+  election: 'चुनाव',
+  voteSharePct: 'वोट शेयर (%)',
+  checkFigures: 'इन आँकड़ों की जाँच करें',
+  figuresInconsistent: 'आँकड़े असंगत लगते हैं',
+  inconsistent: 'असंगत',
+  unverified: 'असत्यापित',
+  validationMessages: {
+    'chart-data-invalid': () => 'चार्ट डेटा सूची के रूप में नहीं था और हटा दिया गया।',
+    'point-invalid': () => 'एक डेटा बिंदु अमान्य था और हटा दिया गया।',
+    'point-no-name': () => 'एक डेटा बिंदु का नाम नहीं था और उसे हटा दिया गया।',
+    'party-normalised': p => `दल का नाम ${p.name} बदलकर ${p.canonical} किया गया।`,
+    'series-value-blanked': p => `गैर-संख्यात्मक शृंखला मान ${p.value} खाली किया गया।`,
+    'value-dropped': p => `गैर-संख्यात्मक मान ${p.value} हटा दिया गया।`,
+    'value-coerced': p => `${p.value} को ${p.result} में बदला गया।`,
+    'fill-removed': () => 'अमान्य रंग हटा दिया गया।',
+    'table-data-invalid': () => 'तालिका में कॉलम और पंक्तियों की सूचियाँ नहीं थीं, इसलिए उसे हटा दिया गया।',
+    'column-invalid': () => 'एक कॉलम की कुंजी या लेबल नहीं था और उसे हटा दिया गया।',
+    'column-type-unknown': p => `अज्ञात कॉलम प्रकार ${p.type} को पाठ माना गया।`,
+    'table-no-columns': () => 'तालिका में कोई उपयोगी कॉलम नहीं है।',
+    'row-invalid': () => 'एक पंक्ति अमान्य थी और हटा दी गई।',
+    'cell-blanked': p => `गैर-संख्यात्मक सेल ${p.value} खाली किया गया।`,
+    'table-no-rows': () => 'तालिका में कोई पंक्ति नहीं है।',
+    'map-data-invalid': () => 'नक्शे में क्षेत्रों की सूची नहीं थी, इसलिए उसे हटा दिया गया।',
+    'map-level-unknown': p => `अज्ञात स्तर ${p.level} की जगह राज्य स्तर रखा गया।`,
+    'map-state-unknown': p => `अज्ञात राज्य ${p.state} को अनदेखा किया गया।`,
+    'map-needs-state': () => 'विधान सभा नक्शे में राज्य नहीं बताया गया; क्षेत्र सूची में दिखाए जाएँगे।',
+    'region-no-name': () => 'एक क्षेत्र का नाम नहीं था और उसे हटा दिया गया।',
+    'region-value-dropped': p => `क्षेत्र का गैर-संख्यात्मक मान ${p.value} हटा दिया गया।`,
+    'region-unknown': p => `क्षेत्र ${p.region} किसी ज्ञात राज्य से मेल नहीं खाता।`,
+    'map-metric-unknown': p => `अज्ञात मापदंड ${p.metric} की जगह "${p.replacement}" रखा गया।`,
+    'series-invalid': () => 'एक शृंखला की कुंजी गायब या दोहराई गई थी, इसलिए उसे हटा दिया गया।',
+    'section-invalid': () => 'एक खंड अमान्य था और हटा दिया गया।',
+    'content-missing': () => 'गायब सामग्री की जगह खाली पाठ रखा गया।',
+    'section-type-unknown': p => `अज्ञात खंड प्रकार ${p.type}।`,
+    'section-type-normalised': p => `प्रकार ${p.type} को ${p.result} में बदला गया।`,
+    'section-type-inferred': p => `खंड ${p.type} के रूप में दिखाया गया।`,
+    'chart-no-data': () => 'चार्ट खंड में उपयोगी डेटा नहीं है, इसलिए उसे पाठ में बदला गया।',
+    'table-no-data': () => 'तालिका खंड में उपयोगी डेटा नहीं है, इसलिए उसे पाठ में बदला गया।',
+    'map-no-regions': () => 'नक्शा खंड में उपयोगी क्षेत्र नहीं हैं, इसलिए उसे पाठ में बदला गया।',
+    'section-empty': () => 'खंड में न सामग्री है, न चार्ट, तालिका या नक्शे का डेटा, इसलिए उसे हटा दिया गया।',
+    'section-title-missing': p => `गायब शीर्षक की जगह "${p.title}" रखा गया।`,
+    'section-id-replaced': p => `खंड आईडी ${p.id} की जगह "${p.replacement}" रखी गई।`,
+    'insight-no-text': () => 'एक निष्कर्ष में पाठ नहीं था और उसे हटा दिया गया।',
+    'insight-icon-unknown': p => `अज्ञात आइकन ${p.icon} की जगह "info" रखा गया।`,
+    'insight-color-removed': () => 'अमान्य रंग हटा दिया गया।',
+    'not-object': () => 'उत्तर JSON ऑब्जेक्ट नहीं है।',
+    'title-missing': () => 'गायब शीर्षक की जगह खोज का विषय रखा गया।',
+    'date-missing': () => 'गायब तारीख की जगह आज की तारीख रखी गई।',
+    'summary-missing': () => 'कार्यकारी सारांश गायब है।',
+    'insights-missing': () => 'मुख्य निष्कर्ष गायब हैं या सूची के रूप में नहीं हैं।',
+    'sections-missing': () => 'खंड गायब हैं या सूची के रूप में नहीं हैं।',
+    'no-sections': () => 'जाँच के बाद कोई उपयोगी खंड नहीं बचा।',
+    'sources-invalid': () => 'स्रोत सूची के रूप में नहीं थे और हटा दिए गए।',
+    'source-invalid': () => 'एक अमान्य स्रोत हटा दिया गया।',
+    'id-generated': () => 'गायब आईडी बनाई गई।',
+    'timestamp-missing': () => 'गायब समय की जगह अभी का समय रखा गया।',
+    'empty-response': () => 'मॉडल ने खाली उत्तर दिया।',
+    'invalid-json': p => `उत्तर मान्य JSON नहीं है: ${p.error}`,
+    'translation-unreadable': () => 'अनुवाद पढ़ा नहीं जा सका।',
+    'kept-untranslated': p => `${LANGUAGES[p.language as Language].nativeName} में ही रखा गया: अनुवाद में संख्याएँ ज्यों की त्यों नहीं रहीं।`
+  },
+  factCheckMessages: {
+    'share-sum-over': p => `${p.label} के शेयर का योग ${p.total}% है।`,
+    'share-sum-under': p => `${p.label} के शेयर का योग केवल ${p.total}% है।`,
+    'share-above-100': p => `${p.name} का शेयर ${p.value}% है, जो 100% से अधिक है।`,
+    'seats-above-house': p => `${p.name} को ${p.value} सीटें दिखाई गई हैं, पर सदन में ${p.house} सीटें ही हैं।`,
+    'seats-total': p => `सीटों का योग ${p.total} है, जो सदन की ${p.house} सीटों से अधिक है।`,
+    'year-out-of-range': p => `${p.year} भारतीय चुनावों की अवधि से बाहर है।`,
+    'year-future': p => `${p.year} अविश्वसनीय रूप से दूर भविष्य में है।`,
+    'quoted-share': p => `${p.party} को ${p.quoted}% बताया गया है, पर चार्ट ${p.charted} दिखाते हैं।`
+  },
+  versionHistory: 'संस्करण इतिहास',
+  changesSince: version => `v${version} के बाद के बदलाव`,
+  sectionChanges: { added: 'जोड़ा गया', removed: 'हटाया गया', changed: 'बदला गया', unchanged: 'अपरिवर्तित' },
+  item: 'मद',
+  before: 'पहले',
+  after: 'बाद में',
+  unsupportedNote: 'डैश वाली किनारी से चिह्नित अनुच्छेद किसी भी स्रोत पर आधारित नहीं हैं।',
+  unsupportedParagraph: 'कोई भी स्रोत इस अनुच्छेद का समर्थन नहीं करता',
+  citedTimes: count => `${count} बार उद्धृत`,
+
+  logKinds: { search: 'खोजा', section: 'खंड', note: 'पुनः प्रयास' },
+  liveLog: 'लाइव लॉग',
+  tokens: count => `${count} टोकन`,
+  attempt: attempt => `प्रयास ${attempt}`,
+  waitingForModel: 'मॉडल की प्रतीक्षा…',
+  remediation: {
+    'api-key': {
+      title: 'API कुंजी में समस्या',
+      steps: [
+        '.env.local में GEMINI_API_KEY सेट करें और डेव सर्वर फिर से शुरू करें।',
+        'Google AI Studio में जाँचें कि कुंजी सक्रिय है और उसे Gemini API इस्तेमाल करने की अनुमति है।',
+        'बिना कुंजी के ऐप आज़माने के लिए LLM_PROVIDER=mock सेट करें।'
+      ]
+    },
+    quota: {
+      title: 'दर सीमा पूरी हो गई',
+      steps: [
+        'एक मिनट रुककर फिर प्रयास करें; प्रति-मिनट सीमाएँ जल्दी रीसेट होती हैं।',
+        'अगर ऐसा बार-बार हो, तो दैनिक कोटा खत्म हो सकता है। Google AI Studio में उपयोग देखें।',
+        'बैच रन लंबे अंतराल के साथ अपने-आप दोबारा प्रयास करते हैं।'
+      ]
+    },
+    safety: {
+      title: 'सुरक्षा फ़िल्टर द्वारा रोका गया',
+      steps: [
+        'विषय को तटस्थ, विश्लेषणात्मक शब्दों में दोबारा लिखें।',
+        'निजी व्यक्तियों के नाम या लक्षित सामग्री माँगने से बचें।'
+      ]
+    },
+    parse: {
+      title: 'उत्तर पढ़ा नहीं जा सका',
+      steps: [
+        'फिर प्रयास करें; अगली बार मॉडल आमतौर पर उत्तर सही प्रारूप में देता है।',
+        'संकरा विषय देने से मॉडल को एक रिपोर्ट में कम समेटना पड़ता है।'
+      ]
+    },
+    network: {
+      title: 'नेटवर्क समस्या',
+      steps: [
+        'अपना इंटरनेट कनेक्शन जाँचें।',
+        'कोई VPN, प्रॉक्सी या ऐड ब्लॉकर generativelanguage.googleapis.com को रोक रहा हो सकता है।'
+      ]
+    },
+    server: {
+      title: 'सेवा उपलब्ध नहीं',
+      steps: ['Gemini API पर भार अधिक है या वह बंद है। कुछ मिनट बाद फिर प्रयास करें।']
+    },
+    unknown: {
+      title: 'रिपोर्ट विफल रही',
+      steps: ['फिर प्रयास करें। अगर बार-बार विफल हो, तो ब्राउज़र कंसोल में विवरण है।']
+    }
+  },
+  showModelAnswer: 'मॉडल का उत्तर दिखाएँ',
+  hideModelAnswer: 'मॉडल का उत्तर छिपाएँ',
+  emptyResponse: '(खाली उत्तर)',
+  downloadRawAnswer: 'मूल उत्तर डाउनलोड करें',
+  tryAgain: 'फिर प्रयास करें',
+
+  chooseImportFiles: 'रिपोर्ट की .json फ़ाइलें या इतिहास बंडल चुनें',
+  importValidated: 'PolitiSight से निर्यात की गई फ़ाइलें जोड़ने से पहले जाँची जाती हैं',
+  issueCount: count => `${count} समस्याएँ`,
+  importStatuses: { accepted: 'स्वीकृत', repaired: 'सुधारी गई', rejected: 'अस्वीकृत', duplicate: 'पहले से सहेजी गई' },
+  sameIdAs: title => `"${title}" जैसी ही id:`,
+  keepBoth: 'दोनों रखें',
+  replaceExisting: 'मौजूदा को बदलें',
+  importCount: count => count > 0 ? `${count} रिपोर्ट आयात करें` : 'रिपोर्ट आयात करें',
+  closeKeepsQueue: 'बंद करें (कतार चलती रहेगी)',
+  batchPlaceholder: 'हर पंक्ति में एक विषय, जैसे\nबिहार विधान सभा 2025 का परिदृश्य\nपश्चिम बंगाल विधान सभा 2026 का परिदृश्य',
+  savedSets: 'सहेजे गए सेट:',
+  deleteSet: 'सेट हटाएँ',
+  nameSet: 'इस सेट का नाम दें',
+  saveSet: 'सेट सहेजें',
+  runReports: count => count > 0 ? `${count} रिपोर्ट चलाएँ` : 'रिपोर्ट चलाएँ',
+  queue: 'कतार',
+  pendingOf: (pending, total) => `${total} में से ${pending} बाकी`,
+  cancelAll: 'सभी रद्द करें',
+  clearFinished: 'पूरी हुई हटाएँ',
+  open: 'खोलें',
+  runAgain: 'फिर चलाएँ',
+  batchStatuses: { queued: 'कतार में', running: 'चल रही', waiting: 'दर सीमित', done: 'पूरी', failed: 'विफल', cancelled: 'रद्द' },
+  retryingAt: (time, attempt) => `${time} पर फिर प्रयास (प्रयास ${attempt})`,
+
+  exitComparison: 'तुलना से बाहर निकलें',
+  noMatchingSection: title => `"${title}" में कोई मेल खाता खंड नहीं`,
+  keyInsightDifferences: 'मुख्य निष्कर्षों में अंतर',
+  notPresent: 'मौजूद नहीं',
+  overlay: title => `तुलनात्मक चार्ट: ${title}`,
+
+  chatGreeting: 'नमस्ते! मैं आपका PolitiSight सहायक हूँ। भारतीय राजनीति के बारे में पूछें या नया विश्लेषण शुरू करें।',
+  chatGreetingReport: title => `मैं "${title}" को गहराई से समझने में आपकी मदद के लिए यहाँ हूँ। आप क्या जानना चाहेंगे?`,
+  askQuestion: 'प्रश्न पूछें...',
+  assistantName: 'AI सहायक',
+  reportContextActive: 'रिपोर्ट संदर्भ सक्रिय',
+  online: model => `ऑनलाइन • ${model}`,
+  newChat: 'नई चैट',
+  savedChats: 'सहेजी गई चैट',
+  noSavedChats: 'अभी कोई सहेजी गई चैट नहीं।',
+  thisReport: 'यह रिपोर्ट',
+  generalChats: 'सामान्य',
+  otherReports: 'अन्य रिपोर्ट',
+  messageCount: count => `${count} संदेश`,
+  rename: 'नाम बदलें',
+  exportAsMarkdown: 'Markdown के रूप में निर्यात करें',
+  you: 'आप',
+  chatAboutReport: title => `रिपोर्ट "${title}" पर चैट`,
+  generalChat: 'सामान्य चैट',
+  chatStarted: date => `${date} को शुरू हुई`,
+  chatAction: (action, status) => `कार्रवाई: ${action} (${status})`,
+  delete: 'हटाएँ',
+  confirmDeleteChat: title => `चैट "${title}" हटाएँ?`,
+  showInReport: 'रिपोर्ट में दिखाएँ',
+  fromReport: title => `"${title}" से`,
+  answerActionFirst: 'पहले ऊपर की कार्रवाई चलाएँ या रद्द करें',
+  chatError: 'क्षमा करें, एक त्रुटि हुई। कृपया फिर प्रयास करें।',
+  actionFailed: 'ऐप यह कार्रवाई नहीं चला सका।',
+  actionStatuses: { pending: 'आपकी प्रतीक्षा में', done: 'हो गया', declined: 'अस्वीकार किया', failed: 'चल नहीं सका' },
+  actionExpired: 'समय समाप्त; चलाने के लिए फिर से पूछें',
+  run: 'चलाएँ',
+  actions: {
+    generateReport: topic => `"${topic}" पर नई रिपोर्ट बनाएँ`,
+    openReport: title => `रिपोर्ट "${title}" खोलें`,
+    openSavedReport: 'सहेजी गई रिपोर्ट खोलें',
+    showSection: 'रिपोर्ट का एक खंड दिखाएँ',
+    drawChart: title => title ? `चार्ट बनाएँ: ${title}` : 'चार्ट बनाएँ',
+    runTool: name => `"${name}" चलाएँ`
+  }
+};
+
+const mr: UiStrings = {
+  tagline: 'भारतीय राजकीय विश्लेषण',
+  heroTitle: ['लोकशाही', 'उलगडा.'],
+  heroSubtitle: 'निवडणुका, मतदानाचे कल आणि राजकीय समीकरणांचे रिअल-टाइम डेटावर आधारित प्रगत AI विश्लेषण.',
+  searchPlaceholder: '2027 च्या निवडणुका, मतदारसंघ किंवा कलांबद्दल विचारा...',
+  trending: 'चर्चेतील विश्लेषण आणि अंदाज',
+  importReports: 'अहवाल आयात करा',
+  batchReports: 'बॅच अहवाल',
+  exportHistory: 'इतिहास निर्यात करा',
+  recentAnalyses: 'अलीकडील विश्लेषणे',
+  compare: 'तुलना करा',
+  cancel: 'रद्द करा',
+  viewReport: 'अहवाल पाहा',
+  deleteFromHistory: 'इतिहासातून काढा',
+  language: 'भाषा',
+  poweredBy: 'Gemini द्वारे चालवलेले',
+  stageTitles: {
+    researching: 'डेटा स्रोत गोळा करत आहे...',
+    analyzing: 'राजकीय कलांचे विश्लेषण...',
+    formatting: 'अहवाल तयार होत आहे...',
+    verifying: 'आकडेवारीची पडताळणी...'
+  },
+  stageLabels: { researching: 'संशोधन', analyzing: 'विश्लेषण', formatting: 'अहवाल', verifying: 'तथ्य-तपासणी' },
+  investigating: topic => `"${topic}" चा शोध`,
+
+  findInReport: 'अहवालात शोधा...',
+  refreshAnalysis: 'विश्लेषण अद्ययावत करा',
+  copySummary: 'सारांश कॉपी करा',
+  summaryCopied: 'अहवालाचा सारांश क्लिपबोर्डवर कॉपी झाला!',
+  exportPdf: 'PDF निर्यात करा',
+  exportData: 'डेटा निर्यात करा',
+  translate: 'भाषांतर करा',
+  translating: 'भाषांतर सुरू आहे…',
+  translateFailed: 'भाषांतर अयशस्वी झाले. कृपया पुन्हा प्रयत्न करा.',
+  tableOfContents: 'अनुक्रमणिका',
+  matchingSections: 'जुळणारे विभाग',
+  noMatchingSections: 'जुळणारे विभाग सापडले नाहीत.',
+  sources: 'स्रोत',
+  viewAllSources: count => `सर्व ${count} स्रोत पाहा`,
+  analysisReport: 'विश्लेषण अहवाल',
+  version: version => `आवृत्ती ${version}`,
+  cached: age => `कॅशमधून, ${age}`,
+  forceRefresh: 'पुन्हा तयार करा',
+  translatedFrom: language => `${language} मधून भाषांतरित`,
+  showAnnotations: 'टिपा दाखवा',
+  hideAnnotations: 'टिपा लपवा (प्रिंट आणि निर्यातीतूनही)',
+  includeAnnotations: 'टिप्पण्या समाविष्ट करा',
+  annotationStatuses: { comment: 'टिप्पणी', verified: 'पडताळलेले', disputed: 'वादग्रस्त', 'needs-source': 'स्रोत हवा' },
+  note: 'नोंद',
+  addNote: 'नोंद जोडा',
+  commentPlaceholder: 'टिप्पणी जोडा (निर्णयासाठी ऐच्छिक)',
+  notePlaceholder: 'या विभागासाठी नोंद जोडा',
+  status: 'स्थिती',
+  annotationDetached: 'हा मजकूर आता अहवालात नाही.',
+  analystReview: 'विश्लेषक पुनरावलोकन',
+  noteCount: count => `${count} नोंदी`,
+  executiveSummary: 'कार्यकारी सारांश',
+  keyInsight: index => `मुख्य निष्कर्ष ${index}`,
+  removedSection: 'काढलेला विभाग',
+  removedSections: 'काढलेले विभाग',
+  editReport: 'अहवाल संपादित करा',
+  editedByAnalyst: 'विश्लेषकाने संपादित',
+  editingReport: 'अहवाल संपादित होत आहे',
+  undo: 'पूर्ववत करा (Ctrl+Z)',
+  redo: 'पुन्हा करा (Ctrl+Shift+Z)',
+  reportTitle: 'शीर्षक',
+  keyInsights: 'मुख्य निष्कर्ष',
+  insightIcon: 'चिन्ह',
+  insightIcons: { 'trend-up': 'वाढ', 'trend-down': 'घट', alert: 'इशारा', info: 'माहिती' },
+  insightValue: 'मूल्य',
+  addInsight: 'निष्कर्ष जोडा',
+  removeInsight: 'निष्कर्ष काढा',
+  sectionTitle: 'विभागाचे शीर्षक',
+  sectionType: 'विभागाचा प्रकार',
+  sectionTypes: { [SectionType.TEXT]: 'मजकूर', [SectionType.BAR_CHART]: 'बार चार्ट', [SectionType.PIE_CHART]: 'पाय चार्ट', [SectionType.LINE_CHART]: 'लाइन चार्ट', [SectionType.TABLE]: 'तक्ता', [SectionType.MAP]: 'नकाशा' },
+  moveUp: 'वर हलवा',
+  moveDown: 'खाली हलवा',
+  deleteSection: 'विभाग हटवा',
+  addSection: 'विभाग जोडा',
+  newSection: 'नवीन विभाग',
+  markdown: 'Markdown',
+  rowName: 'नाव',
+  addRow: 'ओळ जोडा',
+  removeRow: 'ओळ काढा',
+  tableKept: 'तक्त्याच्या ओळी तयार झाल्या तशाच ठेवल्या जातात.',
+  mapKept: 'नकाशातील प्रदेश तयार झाले तसेच ठेवले जातात.',
+  sectionNumber: n => `विभाग ${n}`,
+  insightNumber: n => `निष्कर्ष ${n}`,
+  fixBeforeSaving: 'जतन करण्यापूर्वी हे दुरुस्त करा:',
+  fixesOnSave: 'जतन केल्यावर या दुरुस्त्या लागू होतील:',
+  discardEdits: 'या अहवालातील बदल रद्द करायचे?',
+  noContentMatches: query => `"${query}" शी जुळणारा मजकूर नाही`,
+  clearSearch: 'शोध साफ करा',
+  endOfReport: 'अहवाल समाप्त',
+  endOfReportNote: 'हे विश्लेषण AI ने रिअल-टाइम डेटा शोधाच्या आधारे तयार केले आहे. राजकीय परिस्थिती बदलत असते; याकडे एका विशिष्ट क्षणाचे चित्र म्हणून पाहा.',
+  startNewAnalysis: 'नवीन विश्लेषण सुरू करा',
+  printFooter: 'PolitiSight India द्वारे तयार • Google Gemini द्वारे चालवलेले',
+  exportMarkdownFile: 'Markdown (.md)',
+  exportJsonFile: 'JSON (.json)',
+  exportCsvFiles: 'चार्ट आणि तक्ता डेटा (.csv)',
+  shareText: (title, summary) => `हा राजकीय विश्लेषण अहवाल पाहा: "${title}"\n\nकार्यकारी सारांश:\n${summary}\n\nPolitiSight India द्वारे तयार`,
+  simulateSwings: 'स्विंग परिस्थिती तपासा',
+  hideSimulator: 'परिस्थिती सिम्युलेटर लपवा',
+  savedScenarios: count => `(${count} जतन केलेल्या)`,
+  scenarioSimulator: 'परिस्थिती सिम्युलेटर',
+  resetSwings: 'स्विंग रीसेट करा',
+  seatModel: 'जागा मॉडेल',
+  seatModels: { 'uniform-swing': 'समान स्विंग', 'cube-law': 'घन नियम' },
+  houseSize: 'सभागृहाचा आकार',
+  exponent: 'घातांक',
+  constituencySpread: 'मतदारसंघांमधील फरक',
+  points: value => `${value} गुण`,
+  nameScenario: 'या परिस्थितीला नाव द्या...',
+  save: 'जतन करा',
+  deleteScenario: 'परिस्थिती काढा',
+  projectedVoteShare: 'अंदाजित मतवाटा (%)',
+  projectedSeats: total => `अंदाजित जागा (${total} पैकी)`,
+
+  nonAligned: 'अलिप्त',
+  total: 'एकूण',
+  data: 'डेटा',
+  filterColumns: 'स्तंभ फिल्टर करा',
+  filter: 'फिल्टर',
+  noRowsMatch: 'फिल्टरशी जुळणारी एकही ओळ नाही.',
+  mapMetrics: { winner: 'विजयी पक्ष', margin: 'विजयाचे अंतर (गुण)', swing: 'स्विंग (गुण)' },
+  mapLevels: { state: 'राज्ये', pc: 'लोकसभा मतदारसंघ', ac: 'विधानसभा मतदारसंघ' },
+  mapAsTable: 'नकाशाचा डेटा तक्त्याच्या स्वरूपात दाखवत आहे.',
+  mapNeedsState: 'हा विधानसभा नकाशा कोणत्या राज्याचा आहे ते सांगितलेले नाही.',
+  noBoundaries: (level, state) => `${state ? `${state} मधील ` : ''}${level} च्या सीमा समाविष्ट नाहीत.`,
+  boundariesFailed: 'नकाशाच्या सीमा लोड होऊ शकल्या नाहीत.',
+  stateColumn: 'राज्य',
+  constituencyColumn: 'मतदारसंघ',
+  showAllIndia: 'संपूर्ण भारत दाखवा',
+  loadingBoundaries: 'सीमा लोड होत आहेत…',
+  noData: 'डेटा नाही',
+  margin: 'अंतर',
+  swing: 'स्विंग',
+  notOnMap: regions => `नकाशावर नाही: ${regions}`,
+  figuresFrom: dataset => `आकडे ECI निकाल डेटासेटमधून: ${dataset}`,
+  historicalResults: 'मागील निकाल',
+  historicalResultsNote: 'मागील निवडणुकांमध्ये प्रमुख पक्षांचा मतांचा वाटा.',
+  voteShareTitle: election => `${election} मतांचा वाटा (%)`,
+  election: 'निवडणूक',
+  voteSharePct: 'मतांचा वाटा (%)',
+  checkFigures: 'ही आकडेवारी तपासा',
+  figuresInconsistent: 'आकडेवारी विसंगत दिसते',
+  inconsistent: 'विसंगत',
+  unverified: 'अपडताळलेले',
+  validationMessages: {
+    'chart-data-invalid': () => 'चार्ट डेटा यादीच्या स्वरूपात नव्हता आणि काढून टाकला.',
+    'point-invalid': () => 'एक डेटा बिंदू अवैध होता आणि काढून टाकला.',
+    'point-no-name': () => 'एका डेटा बिंदूला नाव नव्हते आणि तो काढून टाकला.',
+    'party-normalised': p => `पक्षाचे नाव ${p.name} बदलून ${p.canonical} केले.`,
+    'series-value-blanked': p => `संख्या नसलेले मालिकेचे मूल्य ${p.value} रिकामे केले.`,
+    'value-dropped': p => `संख्या नसलेले मूल्य ${p.value} काढून टाकले.`,
+    'value-coerced': p => `${p.value} चे ${p.result} मध्ये रूपांतर केले.`,
+    'fill-removed': () => 'अवैध रंग काढून टाकला.',
+    'table-data-invalid': () => 'तक्त्यात स्तंभ आणि ओळींच्या याद्या नव्हत्या, म्हणून तो काढून टाकला.',
+    'column-invalid': () => 'एका स्तंभाला की किंवा लेबल नव्हते आणि तो काढून टाकला.',
+    'column-type-unknown': p => `अज्ञात स्तंभ प्रकार ${p.type} मजकूर म्हणून घेतला.`,
+    'table-no-columns': () => 'तक्त्यात वापरण्याजोगा एकही स्तंभ नाही.',
+    'row-invalid': () => 'एक ओळ अवैध होती आणि काढून टाकली.',
+    'cell-blanked': p => `संख्या नसलेला सेल ${p.value} रिकामा केला.`,
+    'table-no-rows': () => 'तक्त्यात एकही ओळ नाही.',
+    'map-data-invalid': () => 'नकाशात प्रदेशांची यादी नव्हती, म्हणून तो काढून टाकला.',
+    'map-level-unknown': p => `अज्ञात स्तर ${p.level} ऐवजी राज्य स्तर ठेवला.`,
+    'map-state-unknown': p => `अज्ञात राज्य ${p.state} दुर्लक्षित केले.`,
+    'map-needs-state': () => 'विधानसभा नकाशात राज्य सांगितलेले नाही; प्रदेश यादीत दाखवले जातील.',
+    'region-no-name': () => 'एका प्रदेशाला नाव नव्हते आणि तो काढून टाकला.',
+    'region-value-dropped': p => `प्रदेशाचे संख्या नसलेले मूल्य ${p.value} काढून टाकले.`,
+    'region-unknown': p => `प्रदेश ${p.region} कोणत्याही ज्ञात राज्याशी जुळत नाही.`,
+    'map-metric-unknown': p => `अज्ञात मापदंड ${p.metric} ऐवजी "${p.replacement}" ठेवला.`,
+    'series-invalid': () => 'एका मालिकेची की नव्हती किंवा दुहेरी होती, म्हणून ती काढून टाकली.',
+    'section-invalid': () => 'एक विभाग अवैध होता आणि काढून टाकला.',
+    'content-missing': () => 'नसलेल्या मजकुराऐवजी रिकामा मजकूर ठेवला.',
+    'section-type-unknown': p => `अज्ञात विभाग प्रकार ${p.type}.`,
+    'section-type-normalised': p => `प्रकार ${p.type} बदलून ${p.result} केला.`,
+    'section-type-inferred': p => `विभाग ${p.type} म्हणून दाखवला.`,
+    'chart-no-data': () => 'चार्ट विभागात वापरण्याजोगा डेटा नाही, म्हणून तो मजकुरात बदलला.',
+    'table-no-data': () => 'तक्ता विभागात वापरण्याजोगा डेटा नाही, म्हणून तो मजकुरात बदलला.',
+    'map-no-regions': () => 'नकाशा विभागात वापरण्याजोगे प्रदेश नाहीत, म्हणून तो मजकुरात बदलला.',
+    'section-empty': () => 'विभागात मजकूर, चार्ट, तक्ता किंवा नकाशाचा डेटा नाही, म्हणून तो काढून टाकला.',
+    'section-title-missing': p => `नसलेल्या शीर्षकाऐवजी "${p.title}" ठेवले.`,
+    'section-id-replaced': p => `विभाग आयडी ${p.id} ऐवजी "${p.replacement}" ठेवला.`,
+    'insight-no-text': () => 'एका निष्कर्षात मजकूर नव्हता आणि तो काढून टाकला.',
+    'insight-icon-unknown': p => `अज्ञात आयकॉन ${p.icon} ऐवजी "info" ठेवला.`,
+    'insight-color-removed': () => 'अवैध रंग काढून टाकला.',
+    'not-object': () => 'उत्तर JSON ऑब्जेक्ट नाही.',
+    'title-missing': () => 'नसलेल्या शीर्षकाऐवजी शोधाचा विषय ठेवला.',
+    'date-missing': () => 'नसलेल्या तारखेऐवजी आजची तारीख ठेवली.',
+    'summary-missing': () => 'कार्यकारी सारांश नाही.',
+    'insights-missing': () => 'मुख्य निष्कर्ष नाहीत किंवा यादीच्या स्वरूपात नाहीत.',
+    'sections-missing': () => 'विभाग नाहीत किंवा यादीच्या स्वरूपात नाहीत.',
+    'no-sections': () => 'तपासणीनंतर वापरण्याजोगा एकही विभाग उरला नाही.',
+    'sources-invalid': () => 'स्रोत यादीच्या स्वरूपात नव्हते आणि काढून टाकले.',
+    'source-invalid': () => 'एक अवैध स्रोत काढून टाकला.',
+    'id-generated': () => 'नसलेला आयडी तयार केला.',
+    'timestamp-missing': () => 'नसलेल्या वेळेऐवजी आताची वेळ ठेवली.',
+    'empty-response': () => 'मॉडेलने रिकामे उत्तर दिले.',
+    'invalid-json': p => `उत्तर वैध JSON नाही: ${p.error}`,
+    'translation-unreadable': () => 'भाषांतर वाचता आले नाही.',
+    'kept-untranslated': p => `${LANGUAGES[p.language as Language].nativeName} मध्येच ठेवले: भाषांतरात संख्या जशाच्या तशा राहिल्या नाहीत.`
+  },
+  factCheckMessages: {
+    'share-sum-over': p => `${p.label} च्या वाट्यांची बेरीज ${p.total}% होते.`,
+    'share-sum-under': p => `${p.label} च्या वाट्यांची बेरीज केवळ ${p.total}% होते.`,
+    'share-above-100': p => `${p.name} चा वाटा ${p.value}% आहे, जो 100% पेक्षा जास्त आहे.`,
+    'seats-above-house': p => `${p.name} ला ${p.value} जागा दाखवल्या आहेत, पण सभागृहात ${p.house} जागाच आहेत.`,
+    'seats-total': p => `जागांची बेरीज ${p.total} होते, जी सभागृहातील ${p.house} जागांपेक्षा जास्त आहे.`,
+    'year-out-of-range': p => `${p.year} हे वर्ष भारतीय निवडणुकांच्या कालखंडाबाहेर आहे.`,
+    'year-future': p => `${p.year} हे वर्ष अविश्वसनीयरीत्या दूरच्या भविष्यात आहे.`,
+    'quoted-share': p => `${p.party} चा वाटा ${p.quoted}% सांगितला आहे, पण चार्टमध्ये ${p.charted} दिसते.`
+  },
+  versionHistory: 'आवृत्ती इतिहास',
+  changesSince: version => `v${version} नंतरचे बदल`,
+  sectionChanges: { added: 'जोडला', removed: 'काढला', changed: 'बदलला', unchanged: 'अपरिवर्तित' },
+  item: 'घटक',
+  before: 'आधी',
+  after: 'नंतर',
+  unsupportedNote: 'तुटक रेषेने चिन्हांकित परिच्छेदांना कोणत्याही स्रोताचा आधार नाही.',
+  unsupportedParagraph: 'कोणताही स्रोत या परिच्छेदाला आधार देत नाही',
+  citedTimes: count => `${count} वेळा उद्धृत`,
+
+  logKinds: { search: 'शोधले', section: 'विभाग', note: 'पुन्हा प्रयत्न' },
+  liveLog: 'लाइव्ह लॉग',
+  tokens: count => `${count} टोकन`,
+  attempt: attempt => `प्रयत्न ${attempt}`,
+  waitingForModel: 'मॉडेलची प्रतीक्षा…',
+  remediation: {
+    'api-key': {
+      title: 'API की मध्ये समस्या',
+      steps: [
+        '.env.local मध्ये GEMINI_API_KEY सेट करा आणि डेव्ह सर्व्हर पुन्हा सुरू करा.',
+        'Google AI Studio मध्ये की सक्रिय आहे आणि तिला Gemini API वापरण्याची परवानगी आहे का ते तपासा.',
+        'कीशिवाय अ‍ॅप वापरून पाहण्यासाठी LLM_PROVIDER=mock सेट करा.'
+      ]
+    },
+    quota: {
+      title: 'दर मर्यादा गाठली',
+      steps: [
+        'एक मिनिट थांबून पुन्हा प्रयत्न करा; दर-मिनिट मर्यादा लवकर रीसेट होतात.',
+        'असे वारंवार होत असल्यास दैनिक कोटा संपला असू शकतो. Google AI Studio मध्ये वापर तपासा.',
+        'बॅच रन जास्त अंतराने आपोआप पुन्हा प्रयत्न करतात.'
+      ]
+    },
+    safety: {
+      title: 'सुरक्षा फिल्टरने अडवले',
+      steps: [
+        'विषय तटस्थ, विश्लेषणात्मक शब्दांत पुन्हा लिहा.',
+        'खाजगी व्यक्तींची नावे किंवा लक्ष्यित मजकूर मागणे टाळा.'
+      ]
+    },
+    parse: {
+      title: 'उत्तर वाचता आले नाही',
+      steps: [
+        'पुन्हा प्रयत्न करा; पुढच्या वेळी मॉडेल सहसा उत्तर योग्य स्वरूपात देते.',
+        'मर्यादित विषय दिल्यास मॉडेलला एका अहवालात कमी बसवावे लागते.'
+      ]
+    },
+    network: {
+      title: 'नेटवर्क समस्या',
+      steps: [
+        'तुमचे इंटरनेट कनेक्शन तपासा.',
+        'एखादा VPN, प्रॉक्सी किंवा ॲड ब्लॉकर generativelanguage.googleapis.com अडवत असू शकतो.'
+      ]
+    },
+    server: {
+      title: 'सेवा उपलब्ध नाही',
+      steps: ['Gemini API वर ताण आहे किंवा ते बंद आहे. काही मिनिटांनी पुन्हा प्रयत्न करा.']
+    },
+    unknown: {
+      title: 'अहवाल अयशस्वी',
+      steps: ['पुन्हा प्रयत्न करा. वारंवार अयशस्वी होत असल्यास ब्राउझर कन्सोलमध्ये तपशील आहेत.']
+    }
+  },
+  showModelAnswer: 'मॉडेलचे उत्तर दाखवा',
+  hideModelAnswer: 'मॉडेलचे उत्तर लपवा',
+  emptyResponse: '(रिकामे उत्तर)',
+  downloadRawAnswer: 'मूळ उत्तर डाउनलोड करा',
+  tryAgain: 'पुन्हा प्रयत्न करा',
+
+  chooseImportFiles: 'अहवालाच्या .json फाइल्स किंवा इतिहास बंडल निवडा',
+  importValidated: 'PolitiSight मधून निर्यात केलेल्या फाइल्स जोडण्यापूर्वी तपासल्या जातात',
+  issueCount: count => `${count} समस्या`,
+  importStatuses: { accepted: 'स्वीकारला', repaired: 'दुरुस्त केला', rejected: 'नाकारला', duplicate: 'आधीच जतन केलेला' },
+  sameIdAs: title => `"${title}" सारखीच id:`,
+  keepBoth: 'दोन्ही ठेवा',
+  replaceExisting: 'आधीचा बदला',
+  importCount: count => count > 0 ? `${count} अहवाल आयात करा` : 'अहवाल आयात करा',
+  closeKeepsQueue: 'बंद करा (रांग चालू राहील)',
+  batchPlaceholder: 'प्रत्येक ओळीत एक विषय, उदा.\nबिहार विधानसभा 2025 चा अंदाज\nपश्चिम बंगाल विधानसभा 2026 चा अंदाज',
+  savedSets: 'जतन केलेले संच:',
+  deleteSet: 'संच काढा',
+  nameSet: 'या संचाला नाव द्या',
+  saveSet: 'संच जतन करा',
+  runReports: count => count > 0 ? `${count} अहवाल चालवा` : 'अहवाल चालवा',
+  queue: 'रांग',
+  pendingOf: (pending, total) => `${total} पैकी ${pending} बाकी`,
+  cancelAll: 'सर्व रद्द करा',
+  clearFinished: 'पूर्ण झालेले काढा',
+  open: 'उघडा',
+  runAgain: 'पुन्हा चालवा',
+  batchStatuses: { queued: 'रांगेत', running: 'चालू', waiting: 'दर मर्यादित', done: 'पूर्ण', failed: 'अयशस्वी', cancelled: 'रद्द' },
+  retryingAt: (time, attempt) => `${time} वाजता पुन्हा प्रयत्न (प्रयत्न ${attempt})`,
+
+  exitComparison: 'तुलनेतून बाहेर पडा',
+  noMatchingSection: title => `"${title}" मध्ये जुळणारा विभाग नाही`,
+  keyInsightDifferences: 'मुख्य निष्कर्षांमधील फरक',
+  notPresent: 'उपलब्ध नाही',
+  overlay: title => `तुलनात्मक चार्ट: ${title}`,
+
+  chatGreeting: 'नमस्कार! मी तुमचा PolitiSight सहाय्यक आहे. भारतीय राजकारणाबद्दल विचारा किंवा नवीन विश्लेषण सुरू करा.',
+  chatGreetingReport: title => `"${title}" सखोल समजून घेण्यासाठी मी तुमची मदत करेन. तुम्हाला काय जाणून घ्यायचे आहे?`,
+  askQuestion: 'प्रश्न विचारा...',
+  assistantName: 'AI सहाय्यक',
+  reportContextActive: 'अहवाल संदर्भ सक्रिय',
+  online: model => `ऑनलाइन • ${model}`,
+  newChat: 'नवीन चॅट',
+  savedChats: 'जतन केलेल्या चॅट',
+  noSavedChats: 'अद्याप जतन केलेली चॅट नाही.',
+  thisReport: 'हा अहवाल',
+  generalChats: 'सामान्य',
+  otherReports: 'इतर अहवाल',
+  messageCount: count => `${count} संदेश`,
+  rename: 'नाव बदला',
+  exportAsMarkdown: 'Markdown म्हणून निर्यात करा',
+  you: 'तुम्ही',
+  chatAboutReport: title => `"${title}" अहवालावरील चॅट`,
+  generalChat: 'सामान्य चॅट',
+  chatStarted: date => `${date} रोजी सुरू झाली`,
+  chatAction: (action, status) => `कृती: ${action} (${status})`,
+  delete: 'काढा',
+  confirmDeleteChat: title => `"${title}" चॅट काढायची?`,
+  showInReport: 'अहवालात दाखवा',
+  fromReport: title => `"${title}" मधून`,
+  answerActionFirst: 'आधी वरील कृती चालवा किंवा रद्द करा',
+  chatError: 'क्षमस्व, एक त्रुटी आली. कृपया पुन्हा प्रयत्न करा.',
+  actionFailed: 'ॲप ही कृती चालवू शकले नाही.',
+  actionStatuses: { pending: 'तुमची प्रतीक्षा', done: 'पूर्ण', declined: 'नाकारली', failed: 'चालवता आली नाही' },
+  actionExpired: 'कालबाह्य; चालवण्यासाठी पुन्हा विचारा',
+  run: 'चालवा',
+  actions: {
+    generateReport: topic => `"${topic}" वर नवीन अहवाल तयार करा`,
+    openReport: title => `"${title}" अहवाल उघडा`,
+    openSavedReport: 'जतन केलेला अहवाल उघडा',
+    showSection: 'अहवालातील एक विभाग दाखवा',
+    drawChart: title => title ? `चार्ट काढा: ${title}` : 'चार्ट काढा',
+    runTool: name => `"${name}" चालवा`
+  }
+};
+
+const ta: UiStrings = {
+  tagline: 'இந்திய அரசியல் பகுப்பாய்வு',
+  heroTitle: ['ஜனநாயகத்தைப்', 'புரிந்துகொள்ளுங்கள்.'],
+  heroSubtitle: 'தேர்தல்கள், வாக்களிப்புப் போக்குகள், அரசியல் நிலவரங்கள் குறித்து நிகழ்நேரத் தரவுகளின் அடிப்படையில் மேம்பட்ட AI பகுப்பாய்வு.',
+  searchPlaceholder: '2027 தேர்தல்கள், தொகுதிகள் அல்லது போக்குகள் பற்றிக் கேளுங்கள்...',
+  trending: 'பிரபலமான பகுப்பாய்வுகளும் கணிப்புகளும்',
+  importReports: 'அறிக்கைகளை இறக்குமதி செய்',
+  batchReports: 'தொகுப்பு அறிக்கைகள்',
+  exportHistory: 'வரலாற்றை ஏற்றுமதி செய்',
+  recentAnalyses: 'சமீபத்திய பகுப்பாய்வுகள்',
+  compare: 'ஒப்பிடு',
+  cancel: 'ரத்து செய்',
+  viewReport: 'அறிக்கையைப் பார்',
+  deleteFromHistory: 'வரலாற்றிலிருந்து நீக்கு',
+  language: 'மொழி',
+  poweredBy: 'Gemini மூலம் இயக்கப்படுகிறது',
+  stageTitles: {
+    researching: 'தரவு மூலங்கள் சேகரிக்கப்படுகின்றன...',
+    analyzing: 'அரசியல் போக்குகள் பகுப்பாய்வு செய்யப்படுகின்றன...',
+    formatting: 'அறிக்கை உருவாக்கப்படுகிறது...',
+    verifying: 'எண்கள் சரிபார்க்கப்படுகின்றன...'
+  },
+  stageLabels: { researching: 'ஆய்வு', analyzing: 'பகுப்பாய்வு', formatting: 'அறிக்கை', verifying: 'சரிபார்ப்பு' },
+  investigating: topic => `"${topic}" ஆராயப்படுகிறது`,
+
+  findInReport: 'அறிக்கையில் தேடு...',
+  refreshAnalysis: 'பகுப்பாய்வைப் புதுப்பி',
+  copySummary: 'சுருக்கத்தை நகலெடு',
+  summaryCopied: 'அறிக்கைச் சுருக்கம் நகலெடுக்கப்பட்டது!',
+  exportPdf: 'PDF ஏற்றுமதி',
+  exportData: 'தரவை ஏற்றுமதி செய்',
+  translate: 'மொழிபெயர்',
+  translating: 'மொழிபெயர்க்கப்படுகிறது…',
+  translateFailed: 'மொழிபெயர்ப்பு தோல்வியடைந்தது. மீண்டும் முயலவும்.',
+  tableOfContents: 'பொருளடக்கம்',
+  matchingSections: 'பொருந்தும் பகுதிகள்',
+  noMatchingSections: 'பொருந்தும் பகுதிகள் இல்லை.',
+  sources: 'மூலங்கள்',
+  viewAllSources: count => `அனைத்து ${count} மூலங்களையும் பார்`,
+  analysisReport: 'பகுப்பாய்வு அறிக்கை',
+  version: version => `பதிப்பு ${version}`,
+  cached: age => `தற்காலிகச் சேமிப்பிலிருந்து, ${age}`,
+  forceRefresh: 'மீண்டும் உருவாக்கு',
+  translatedFrom: language => `${language} மொழியிலிருந்து மொழிபெயர்க்கப்பட்டது`,
+  showAnnotations: 'குறிப்புகளைக் காட்டு',
+  hideAnnotations: 'குறிப்புகளை மறை (அச்சு மற்றும் ஏற்றுமதியிலும்)',
+  includeAnnotations: 'குறிப்புரைகளைச் சேர்',
+  annotationStatuses: { comment: 'கருத்து', verified: 'சரிபார்க்கப்பட்டது', disputed: 'மறுக்கப்பட்டது', 'needs-source': 'ஆதாரம் தேவை' },
+  note: 'குறிப்பு',
+  addNote: 'குறிப்பைச் சேர்',
+  commentPlaceholder: 'கருத்தைச் சேர்க்கவும் (தீர்ப்புக்கு விருப்பத்தேர்வு)',
+  notePlaceholder: 'இந்தப் பகுதிக்கு ஒரு குறிப்பைச் சேர்க்கவும்',
+  status: 'நிலை',
+  annotationDetached: 'இந்த உரை இப்போது அறிக்கையில் இல்லை.',
+  analystReview: 'ஆய்வாளர் மதிப்பாய்வு',
+  noteCount: count => `${count} குறிப்புகள்`,
+  executiveSummary: 'நிர்வாகச் சுருக்கம்',
+  keyInsight: index => `முக்கிய நுண்ணறிவு ${index}`,
+  removedSection: 'நீக்கப்பட்ட பகுதி',
+  removedSections: 'நீக்கப்பட்ட பகுதிகள்',
+  editReport: 'அறிக்கையைத் திருத்து',
+  editedByAnalyst: 'ஆய்வாளரால் திருத்தப்பட்டது',
+  editingReport: 'அறிக்கை திருத்தப்படுகிறது',
+  undo: 'செயல்தவிர் (Ctrl+Z)',
+  redo: 'மீண்டும் செய் (Ctrl+Shift+Z)',
+  reportTitle: 'தலைப்பு',
+  keyInsights: 'முக்கிய நுண்ணறிவுகள்',
+  insightIcon: 'குறியீடு',
+  insightIcons: { 'trend-up': 'உயர்வு', 'trend-down': 'சரிவு', alert: 'எச்சரிக்கை', info: 'தகவல்' },
+  insightValue: 'மதிப்பு',
+  addInsight: 'நுண்ணறிவைச் சேர்',
+  removeInsight: 'நுண்ணறிவை நீக்கு',
+  sectionTitle: 'பகுதியின் தலைப்பு',
+  sectionType: 'பகுதியின் வகை',
+  sectionTypes: { [SectionType.TEXT]: 'உரை', [SectionType.BAR_CHART]: 'பட்டை வரைபடம்', [SectionType.PIE_CHART]: 'வட்ட வரைபடம்', [SectionType.LINE_CHART]: 'கோட்டு வரைபடம்', [SectionType.TABLE]: 'அட்டவணை', [SectionType.MAP]: 'நிலப்படம்' },
+  moveUp: 'மேலே நகர்த்து',
+  moveDown: 'கீழே நகர்த்து',
+  deleteSection: 'பகுதியை நீக்கு',
+  addSection: 'பகுதியைச் சேர்',
+  newSection: 'புதிய பகுதி',
+  markdown: 'Markdown',
+  rowName: 'பெயர்',
+  addRow: 'வரிசையைச் சேர்',
+  removeRow: 'வரிசையை நீக்கு',
+  tableKept: 'அட்டவணையின் வரிசைகள் உருவாக்கப்பட்டபடியே வைக்கப்படுகின்றன.',
+  mapKept: 'நிலப்படத்தின் பகுதிகள் உருவாக்கப்பட்டபடியே வைக்கப்படுகின்றன.',
+  sectionNumber: n => `பகுதி ${n}`,
+  insightNumber: n => `நுண்ணறிவு ${n}`,
+  fixBeforeSaving: 'சேமிக்கும் முன் இவற்றைச் சரிசெய்யவும்:',
+  fixesOnSave: 'சேமிக்கும்போது இந்தத் திருத்தங்கள் செய்யப்படும்:',
+  discardEdits: 'இந்த அறிக்கையில் செய்த மாற்றங்களைக் கைவிடவா?',
+  noContentMatches: query => `"${query}" உடன் பொருந்தும் உள்ளடக்கம் இல்லை`,
+  clearSearch: 'தேடலை அழி',
+  endOfReport: 'அறிக்கை நிறைவு',
+  endOfReportNote: 'இந்தப் பகுப்பாய்வு நிகழ்நேரத் தரவுத் தேடலின் அடிப்படையில் AI மூலம் உருவாக்கப்பட்டது. அரசியல் நிலவரம் மாறக்கூடியது; இதை ஒரு குறிப்பிட்ட நேரத்தின் படமாகக் கருதுங்கள்.',
+  startNewAnalysis: 'புதிய பகுப்பாய்வைத் தொடங்கு',
+  printFooter: 'PolitiSight India உருவாக்கியது • Google Gemini மூலம் இயக்கப்படுகிறது',
+  exportMarkdownFile: 'Markdown (.md)',
+  exportJsonFile: 'JSON (.json)',
+  exportCsvFiles: 'வரைபட மற்றும் அட்டவணைத் தரவு (.csv)',
+  shareText: (title, summary) => `இந்த அரசியல் பகுப்பாய்வு அறிக்கையைப் பாருங்கள்: "${title}"\n\nசுருக்கம்:\n${summary}\n\nPolitiSight India உருவாக்கியது`,
+  simulateSwings: 'வாக்கு மாற்றச் சூழல்களை முயலுங்கள்',
+  hideSimulator: 'சூழல் சிமுலேட்டரை மறை',
+  savedScenarios: count => `(${count} சேமிக்கப்பட்டவை)`,
+  scenarioSimulator: 'சூழல் சிமுலேட்டர்',
+  resetSwings: 'மாற்றங்களை மீட்டமை',
+  seatModel: 'இட மாதிரி',
+  seatModels: { 'uniform-swing': 'சீரான மாற்றம்', 'cube-law': 'கன விதி' },
+  houseSize: 'அவையின் அளவு',
+  exponent: 'அடுக்கு',
+  constituencySpread: 'தொகுதிகளுக்கு இடையிலான பரவல்',
+  points: value => `${value} புள்ளிகள்`,
+  nameScenario: 'இந்தச் சூழலுக்குப் பெயரிடுங்கள்...',
+  save: 'சேமி',
+  deleteScenario: 'சூழலை நீக்கு',
+  projectedVoteShare: 'கணிக்கப்பட்ட வாக்குப் பங்கு (%)',
+  projectedSeats: total => `கணிக்கப்பட்ட இடங்கள் (${total} இல்)`,
+
+  nonAligned: 'கூட்டணி சாராதவை',
+  total: 'மொத்தம்',
+  data: 'தரவு',
+  filterColumns: 'நெடுவரிசைகளை வடிகட்டு',
+  filter: 'வடிகட்டி',
+  noRowsMatch: 'வடிகட்டிகளுக்குப் பொருந்தும் வரிசைகள் இல்லை.',
+  mapMetrics: { winner: 'வென்ற கட்சி', margin: 'வெற்றி வித்தியாசம் (புள்ளிகள்)', swing: 'வாக்கு மாற்றம் (புள்ளிகள்)' },
+  mapLevels: { state: 'மாநிலங்கள்', pc: 'மக்களவைத் தொகுதிகள்', ac: 'சட்டமன்றத் தொகுதிகள்' },
+  mapAsTable: 'வரைபடத் தரவு அட்டவணையாகக் காட்டப்படுகிறது.',
+  mapNeedsState: 'இந்தச் சட்டமன்ற நிலப்படம் எந்த மாநிலத்துக்குரியது எனக் குறிப்பிடவில்லை.',
+  noBoundaries: (level, state) => `${state ? `${state} மாநிலத்தின் ` : ''}${level} எல்லைகள் சேர்க்கப்படவில்லை.`,
+  boundariesFailed: 'நிலப்பட எல்லைகளை ஏற்ற முடியவில்லை.',
+  stateColumn: 'மாநிலம்',
+  constituencyColumn: 'தொகுதி',
+  showAllIndia: 'முழு இந்தியாவைக் காட்டு',
+  loadingBoundaries: 'எல்லைகள் ஏற்றப்படுகின்றன…',
+  noData: 'தரவு இல்லை',
+  margin: 'வித்தியாசம்',
+  swing: 'மாற்றம்',
+  notOnMap: regions => `வரைபடத்தில் இல்லை: ${regions}`,
+  figuresFrom: dataset => `ECI முடிவுத் தரவுத்தொகுப்பிலிருந்து எண்ணிக்கைகள்: ${dataset}`,
+  historicalResults: 'கடந்த கால முடிவுகள்',
+  historicalResultsNote: 'கடந்த தேர்தல்களில் முன்னணிக் கட்சிகளின் வாக்குப் பங்கு.',
+  voteShareTitle: election => `${election} வாக்குப் பங்கு (%)`,
+  election: 'தேர்தல்',
+  voteSharePct: 'வாக்குப் பங்கு (%)',
+  checkFigures: 'இந்த எண்களைச் சரிபாருங்கள்',
+  figuresInconsistent: 'எண்கள் முரண்படுவதாகத் தெரிகிறது',
+  inconsistent: 'முரண்பாடு',
+  unverified: 'சரிபார்க்கப்படவில்லை',
+  validationMessages: {
+    'chart-data-invalid': () => 'வரைபடத் தரவு பட்டியலாக இல்லாததால் நீக்கப்பட்டது.',
+    'point-invalid': () => 'ஒரு தரவுப் புள்ளி செல்லாததால் நீக்கப்பட்டது.',
+    'point-no-name': () => 'ஒரு தரவுப் புள்ளிக்குப் பெயர் இல்லாததால் நீக்கப்பட்டது.',
+    'party-normalised': p => `கட்சிப் பெயர் ${p.name} என்பது ${p.canonical} என மாற்றப்பட்டது.`,
+    'series-value-blanked': p => `எண் அல்லாத தொடர் மதிப்பு ${p.value} காலியாக்கப்பட்டது.`,
+    'value-dropped': p => `எண் அல்லாத மதிப்பு ${p.value} நீக்கப்பட்டது.`,
+    'value-coerced': p => `${p.value} என்பது ${p.result} என மாற்றப்பட்டது.`,
+    'fill-removed': () => 'செல்லாத நிறம் நீக்கப்பட்டது.',
+    'table-data-invalid': () => 'அட்டவணையில் நெடுவரிசை, வரிசைப் பட்டியல்கள் இல்லாததால் அது நீக்கப்பட்டது.',
+    'column-invalid': () => 'ஒரு நெடுவரிசைக்குச் சாவி அல்லது தலைப்பு இல்லாததால் நீக்கப்பட்டது.',
+    'column-type-unknown': p => `அறியப்படாத நெடுவரிசை வகை ${p.type} உரையாகக் கொள்ளப்பட்டது.`,
+    'table-no-columns': () => 'அட்டவணையில் பயன்படுத்தக்கூடிய நெடுவரிசை இல்லை.',
+    'row-invalid': () => 'ஒரு வரிசை செல்லாததால் நீக்கப்பட்டது.',
+    'cell-blanked': p => `எண் அல்லாத கலம் ${p.value} காலியாக்கப்பட்டது.`,
+    'table-no-rows': () => 'அட்டவணையில் வரிசைகள் இல்லை.',
+    'map-data-invalid': () => 'நிலப்படத்தில் பகுதிகளின் பட்டியல் இல்லாததால் அது நீக்கப்பட்டது.',
+    'map-level-unknown': p => `அறியப்படாத நிலை ${p.level} மாநில நிலையாக மாற்றப்பட்டது.`,
+    'map-state-unknown': p => `அறியப்படாத மாநிலம் ${p.state} புறக்கணிக்கப்பட்டது.`,
+    'map-needs-state': () => 'சட்டமன்ற நிலப்படத்தில் மாநிலம் குறிப்பிடப்படவில்லை; பகுதிகள் பட்டியலாகக் காட்டப்படும்.',
+    'region-no-name': () => 'ஒரு பகுதிக்குப் பெயர் இல்லாததால் நீக்கப்பட்டது.',
+    'region-value-dropped': p => `பகுதியின் எண் அல்லாத மதிப்பு ${p.value} நீக்கப்பட்டது.`,
+    'region-unknown': p => `பகுதி ${p.region} அறியப்பட்ட எந்த மாநிலத்துடனும் பொருந்தவில்லை.`,
+    'map-metric-unknown': p => `அறியப்படாத அளவீடு ${p.metric} என்பது "${p.replacement}" என மாற்றப்பட்டது.`,
+    'series-invalid': () => 'ஒரு தொடரின் சாவி இல்லாததால் அல்லது இரட்டிப்பானதால் அது நீக்கப்பட்டது.',
+    'section-invalid': () => 'ஒரு பகுதி செல்லாததால் நீக்கப்பட்டது.',
+    'content-missing': () => 'இல்லாத உள்ளடக்கத்திற்குப் பதிலாக வெற்று உரை வைக்கப்பட்டது.',
+    'section-type-unknown': p => `அறியப்படாத பகுதி வகை ${p.type}.`,
+    'section-type-normalised': p => `வகை ${p.type} என்பது ${p.result} என மாற்றப்பட்டது.`,
+    'section-type-inferred': p => `பகுதி ${p.type} ஆகக் காட்டப்பட்டது.`,
+    'chart-no-data': () => 'வரைபடப் பகுதியில் பயன்படுத்தக்கூடிய தரவு இல்லாததால் அது உரையாக மாற்றப்பட்டது.',
+    'table-no-data': () => 'அட்டவணைப் பகுதியில் பயன்படுத்தக்கூடிய தரவு இல்லாததால் அது உரையாக மாற்றப்பட்டது.',
+    'map-no-regions': () => 'நிலப்படப் பகுதியில் பயன்படுத்தக்கூடிய பகுதிகள் இல்லாததால் அது உரையாக மாற்றப்பட்டது.',
+    'section-empty': () => 'பகுதியில் உள்ளடக்கமோ வரைபடம், அட்டவணை, நிலப்படத் தரவோ இல்லாததால் அது நீக்கப்பட்டது.',
+    'section-title-missing': p => `இல்லாத தலைப்புக்குப் பதிலாக "${p.title}" வைக்கப்பட்டது.`,
+    'section-id-replaced': p => `பகுதி அடையாளம் ${p.id} என்பது "${p.replacement}" என மாற்றப்பட்டது.`,
+    'insight-no-text': () => 'ஒரு நுண்ணறிவில் உரை இல்லாததால் நீக்கப்பட்டது.',
+    'insight-icon-unknown': p => `அறியப்படாத குறியீடு ${p.icon} என்பது "info" என மாற்றப்பட்டது.`,
+    'insight-color-removed': () => 'செல்லாத நிறம் நீக்கப்பட்டது.',
+    'not-object': () => 'பதில் JSON பொருள் அல்ல.',
+    'title-missing': () => 'இல்லாத தலைப்புக்குப் பதிலாகத் தேடல் தலைப்பு வைக்கப்பட்டது.',
+    'date-missing': () => 'இல்லாத தேதிக்குப் பதிலாக இன்றைய தேதி வைக்கப்பட்டது.',
+    'summary-missing': () => 'நிர்வாகச் சுருக்கம் இல்லை.',
+    'insights-missing': () => 'முக்கிய நுண்ணறிவுகள் இல்லை அல்லது பட்டியலாக இல்லை.',
+    'sections-missing': () => 'பகுதிகள் இல்லை அல்லது பட்டியலாக இல்லை.',
+    'no-sections': () => 'சரிபார்ப்புக்குப் பிறகு பயன்படுத்தக்கூடிய பகுதி எதுவும் இல்லை.',
+    'sources-invalid': () => 'மூலங்கள் பட்டியலாக இல்லாததால் நீக்கப்பட்டன.',
+    'source-invalid': () => 'செல்லாத மூலம் நீக்கப்பட்டது.',
+    'id-generated': () => 'இல்லாத அடையாளம் உருவாக்கப்பட்டது.',
+    'timestamp-missing': () => 'இல்லாத நேரத்திற்குப் பதிலாகத் தற்போதைய நேரம் வைக்கப்பட்டது.',
+    'empty-response': () => 'மாதிரி வெற்றுப் பதிலை அளித்தது.',
+    'invalid-json': p => `பதில் சரியான JSON அல்ல: ${p.error}`,
+    'translation-unreadable': () => 'மொழிபெயர்ப்பைப் படிக்க முடியவில்லை.',
+    'kept-untranslated': p => `${LANGUAGES[p.language as Language].nativeName} மொழியிலேயே வைக்கப்பட்டது: மொழிபெயர்ப்பில் எண்கள் மாறாமல் இருக்கவில்லை.`
+  },
+  factCheckMessages: {
+    'share-sum-over': p => `${p.label} பங்குகளின் கூட்டுத்தொகை ${p.total}%.`,
+    'share-sum-under': p => `${p.label} பங்குகளின் கூட்டுத்தொகை ${p.total}% மட்டுமே.`,
+    'share-above-100': p => `${p.name} பங்கு ${p.value}%, இது 100%-ஐ விட அதிகம்.`,
+    'seats-above-house': p => `${p.name} ${p.value} இடங்களுடன் காட்டப்பட்டுள்ளது, ஆனால் அவையில் ${p.house} இடங்களே உள்ளன.`,
+    'seats-total': p => `இடங்களின் கூட்டுத்தொகை ${p.total}, அவையிலுள்ள ${p.house} இடங்களை விட அதிகம்.`,
+    'year-out-of-range': p => `${p.year} இந்தியத் தேர்தல்களின் காலவரம்புக்கு வெளியே உள்ளது.`,
+    'year-future': p => `${p.year} நம்பமுடியாத அளவுக்குத் தொலைதூர எதிர்காலத்தில் உள்ளது.`,
+    'quoted-share': p => `${p.party} ${p.quoted}% எனக் குறிப்பிடப்பட்டுள்ளது, ஆனால் வரைபடங்கள் ${p.charted} எனக் காட்டுகின்றன.`
+  },
+  versionHistory: 'பதிப்பு வரலாறு',
+  changesSince: version => `v${version} முதல் மாற்றங்கள்`,
+  sectionChanges: { added: 'சேர்க்கப்பட்டது', removed: 'நீக்கப்பட்டது', changed: 'மாற்றப்பட்டது', unchanged: 'மாற்றமில்லை' },
+  item: 'உருப்படி',
+  before: 'முன்',
+  after: 'பின்',
+  unsupportedNote: 'கோடிட்ட ஓரம் கொண்ட பத்திகளுக்கு எந்த ஆதாரமும் இல்லை.',
+  unsupportedParagraph: 'எந்த ஆதாரமும் இந்தப் பத்தியை உறுதிப்படுத்தவில்லை',
+  citedTimes: count => `${count} முறை மேற்கோள்`,
+
+  logKinds: { search: 'தேடியது', section: 'பிரிவு', note: 'மீண்டும் முயற்சி' },
+  liveLog: 'நேரடிப் பதிவு',
+  tokens: count => `${count} டோக்கன்கள்`,
+  attempt: attempt => `முயற்சி ${attempt}`,
+  waitingForModel: 'மாடலுக்காகக் காத்திருக்கிறது…',
+  remediation: {
+    'api-key': {
+      title: 'API விசைச் சிக்கல்',
+      steps: [
+        '.env.local இல் GEMINI_API_KEY ஐ அமைத்து டெவ் சர்வரை மீண்டும் தொடங்குங்கள்.',
+        'Google AI Studio இல் விசை செயலில் உள்ளதா, Gemini API ஐப் பயன்படுத்த அனுமதி உள்ளதா எனச் சரிபாருங்கள்.',
+        'விசை இல்லாமல் செயலியை முயல LLM_PROVIDER=mock என அமைக்கவும்.'
+      ]
+    },
+    quota: {
+      title: 'விகித வரம்பை எட்டியது',
+      steps: [
+        'ஒரு நிமிடம் காத்திருந்து மீண்டும் முயலுங்கள்; நிமிட வரம்புகள் விரைவில் மீட்டமையும்.',
+        'இது தொடர்ந்தால் தினசரி ஒதுக்கீடு தீர்ந்திருக்கலாம். Google AI Studio இல் பயன்பாட்டைப் பாருங்கள்.',
+        'தொகுப்பு ஓட்டங்கள் நீண்ட இடைவெளியுடன் தானாக மீண்டும் முயலும்.'
+      ]
+    },
+    safety: {
+      title: 'பாதுகாப்பு வடிகட்டிகளால் தடுக்கப்பட்டது',
+      steps: [
+        'தலைப்பை நடுநிலையான, பகுப்பாய்வுச் சொற்களில் மாற்றி எழுதுங்கள்.',
+        'தனிநபர்களின் பெயர்களையோ இலக்கு வைத்த உள்ளடக்கத்தையோ கேட்பதைத் தவிருங்கள்.'
+      ]
+    },
+    parse: {
+      title: 'பதிலைப் படிக்க முடியவில்லை',
+      steps: [
+        'மீண்டும் முயலுங்கள்; அடுத்த முறை மாடல் பொதுவாகச் சரியான வடிவில் பதிலளிக்கும்.',
+        'குறுகிய தலைப்பு கொடுத்தால் மாடல் ஒரு அறிக்கையில் குறைவாக அடக்க வேண்டியிருக்கும்.'
+      ]
+    },
+    network: {
+      title: 'இணையச் சிக்கல்',
+      steps: [
+        'உங்கள் இணைய இணைப்பைச் சரிபாருங்கள்.',
+        'VPN, ப்ராக்ஸி அல்லது விளம்பரத் தடுப்பான் generativelanguage.googleapis.com ஐத் தடுக்கலாம்.'
+      ]
+    },
+    server: {
+      title: 'சேவை கிடைக்கவில்லை',
+      steps: ['Gemini API அதிகச் சுமையில் உள்ளது அல்லது இயங்கவில்லை. சில நிமிடங்களில் மீண்டும் முயலுங்கள்.']
+    },
+    unknown: {
+      title: 'அறிக்கை தோல்வியடைந்தது',
+      steps: ['மீண்டும் முயலுங்கள். தொடர்ந்து தோல்வியடைந்தால் உலாவி கன்சோலில் விவரங்கள் உள்ளன.']
+    }
+  },
+  showModelAnswer: 'மாடலின் பதிலைக் காட்டு',
+  hideModelAnswer: 'மாடலின் பதிலை மறை',
+  emptyResponse: '(வெற்றுப் பதில்)',
+  downloadRawAnswer: 'மூலப் பதிலைப் பதிவிறக்கு',
+  tryAgain: 'மீண்டும் முயல்க',
+
+  chooseImportFiles: 'அறிக்கை .json கோப்புகளையோ வரலாற்றுத் தொகுப்பையோ தேர்வு செய்யுங்கள்',
+  importValidated: 'PolitiSight இலிருந்து ஏற்றுமதி செய்த கோப்புகள் சேர்க்கப்படும் முன் சரிபார்க்கப்படும்',
+  issueCount: count => `${count} சிக்கல்கள்`,
+  importStatuses: { accepted: 'ஏற்கப்பட்டது', repaired: 'சரிசெய்யப்பட்டது', rejected: 'நிராகரிக்கப்பட்டது', duplicate: 'ஏற்கெனவே சேமிக்கப்பட்டது' },
+  sameIdAs: title => `"${title}" இன் அதே id:`,
+  keepBoth: 'இரண்டையும் வை',
+  replaceExisting: 'பழையதை மாற்று',
+  importCount: count => count > 0 ? `${count} அறிக்கைகளை இறக்குமதி செய்` : 'அறிக்கைகளை இறக்குமதி செய்',
+  closeKeepsQueue: 'மூடு (வரிசை தொடர்ந்து இயங்கும்)',
+  batchPlaceholder: 'ஒரு வரிக்கு ஒரு தலைப்பு, எ.கா.\nபீகார் சட்டமன்றம் 2025 கண்ணோட்டம்\nமேற்கு வங்க சட்டமன்றம் 2026 கண்ணோட்டம்',
+  savedSets: 'சேமித்த தொகுப்புகள்:',
+  deleteSet: 'தொகுப்பை நீக்கு',
+  nameSet: 'இந்தத் தொகுப்புக்குப் பெயரிடுங்கள்',
+  saveSet: 'தொகுப்பைச் சேமி',
+  runReports: count => count > 0 ? `${count} அறிக்கைகளை இயக்கு` : 'அறிக்கைகளை இயக்கு',
+  queue: 'வரிசை',
+  pendingOf: (pending, total) => `${total} இல் ${pending} நிலுவையில்`,
+  cancelAll: 'அனைத்தையும் ரத்துசெய்',
+  clearFinished: 'முடிந்தவற்றை அகற்று',
+  open: 'திற',
+  runAgain: 'மீண்டும் இயக்கு',
+  batchStatuses: { queued: 'வரிசையில்', running: 'இயங்குகிறது', waiting: 'விகித வரம்பு', done: 'முடிந்தது', failed: 'தோல்வி', cancelled: 'ரத்துசெய்யப்பட்டது' },
+  retryingAt: (time, attempt) => `${time} மணிக்கு மீண்டும் முயற்சி (முயற்சி ${attempt})`,
+
+  exitComparison: 'ஒப்பீட்டிலிருந்து வெளியேறு',
+  noMatchingSection: title => `"${title}" இல் பொருந்தும் பிரிவு இல்லை`,
+  keyInsightDifferences: 'முக்கிய கண்டறிதல்களில் வேறுபாடுகள்',
+  notPresent: 'இல்லை',
+  overlay: title => `ஒப்பீட்டு வரைபடம்: ${title}`,
+
+  chatGreeting: 'வணக்கம்! நான் உங்கள் PolitiSight உதவியாளர். இந்திய அரசியல் பற்றிக் கேளுங்கள் அல்லது புதிய பகுப்பாய்வைத் தொடங்குங்கள்.',
+  chatGreetingReport: title => `"${title}" பற்றி ஆழமாகப் புரிந்துகொள்ள உதவ நான் இங்கே இருக்கிறேன். நீங்கள் என்ன தெரிந்துகொள்ள விரும்புகிறீர்கள்?`,
+  askQuestion: 'ஒரு கேள்வி கேளுங்கள்...',
+  assistantName: 'AI உதவியாளர்',
+  reportContextActive: 'அறிக்கைச் சூழல் செயலில்',
+  online: model => `இணைப்பில் • ${model}`,
+  newChat: 'புதிய உரையாடல்',
+  savedChats: 'சேமித்த உரையாடல்கள்',
+  noSavedChats: 'இன்னும் சேமித்த உரையாடல்கள் இல்லை.',
+  thisReport: 'இந்த அறிக்கை',
+  generalChats: 'பொது',
+  otherReports: 'பிற அறிக்கைகள்',
+  messageCount: count => `${count} செய்திகள்`,
+  rename: 'பெயர் மாற்று',
+  exportAsMarkdown: 'Markdown ஆக ஏற்றுமதி செய்',
+  you: 'நீங்கள்',
+  chatAboutReport: title => `"${title}" அறிக்கை பற்றிய உரையாடல்`,
+  generalChat: 'பொது உரையாடல்',
+  chatStarted: date => `${date} அன்று தொடங்கியது`,
+  chatAction: (action, status) => `செயல்: ${action} (${status})`,
+  delete: 'நீக்கு',
+  confirmDeleteChat: title => `"${title}" உரையாடலை நீக்கவா?`,
+  showInReport: 'அறிக்கையில் காட்டு',
+  fromReport: title => `"${title}" இலிருந்து`,
+  answerActionFirst: 'முதலில் மேலே உள்ள செயலை இயக்குங்கள் அல்லது ரத்துசெய்யுங்கள்',
+  chatError: 'மன்னிக்கவும், ஒரு பிழை ஏற்பட்டது. மீண்டும் முயலுங்கள்.',
+  actionFailed: 'இந்தச் செயலை ஆப்பால் இயக்க முடியவில்லை.',
+  actionStatuses: { pending: 'உங்களுக்காகக் காத்திருக்கிறது', done: 'முடிந்தது', declined: 'மறுக்கப்பட்டது', failed: 'இயக்க முடியவில்லை' },
+  actionExpired: 'காலாவதியானது; இயக்க மீண்டும் கேளுங்கள்',
+  run: 'இயக்கு',
+  actions: {
+    generateReport: topic => `"${topic}" குறித்து புதிய அறிக்கையை உருவாக்கு`,
+    openReport: title => `"${title}" அறிக்கையைத் திற`,
+    openSavedReport: 'சேமித்த அறிக்கையைத் திற',
+    showSection: 'அறிக்கையின் ஒரு பிரிவைக் காட்டு',
+    drawChart: title => title ? `வரைபடம் வரை: ${title}` : 'வரைபடம் வரை',
+    runTool: name => `"${name}" ஐ இயக்கு`
+  }
+};
+
+const bn: UiStrings = {
+  tagline: 'ভারতীয় রাজনৈতিক বিশ্লেষণ',
+  heroTitle: ['গণতন্ত্রকে', 'বুঝে নিন।'],
+  heroSubtitle: 'নির্বাচন, ভোটদানের প্রবণতা ও রাজনৈতিক সমীকরণের রিয়েল-টাইম তথ্যভিত্তিক উন্নত AI বিশ্লেষণ।',
+  searchPlaceholder: '2027-এর নির্বাচন, কেন্দ্র বা প্রবণতা সম্পর্কে জিজ্ঞাসা করুন...',
+  trending: 'আলোচিত বিশ্লেষণ ও পূর্বাভাস',
+  importReports: 'রিপোর্ট আমদানি করুন',
+  batchReports: 'ব্যাচ রিপোর্ট',
+  exportHistory: 'ইতিহাস রপ্তানি করুন',
+  recentAnalyses: 'সাম্প্রতিক বিশ্লেষণ',
+  compare: 'তুলনা করুন',
+  cancel: 'বাতিল',
+  viewReport: 'রিপোর্ট দেখুন',
+  deleteFromHistory: 'ইতিহাস থেকে মুছুন',
+  language: 'ভাষা',
+  poweredBy: 'Gemini চালিত',
+  stageTitles: {
+    researching: 'তথ্যসূত্র সংগ্রহ করা হচ্ছে...',
+    analyzing: 'রাজনৈতিক প্রবণতা বিশ্লেষণ করা হচ্ছে...',
+    formatting: 'রিপোর্ট তৈরি হচ্ছে...',
+    verifying: 'পরিসংখ্যান যাচাই করা হচ্ছে...'
+  },
+  stageLabels: { researching: 'গবেষণা', analyzing: 'বিশ্লেষণ', formatting: 'রিপোর্ট', verifying: 'তথ্য যাচাই' },
+  investigating: topic => `"${topic}" অনুসন্ধান চলছে`,
+
+  findInReport: 'রিপোর্টে খুঁজুন...',
+  refreshAnalysis: 'বিশ্লেষণ হালনাগাদ করুন',
+  copySummary: 'সারাংশ কপি করুন',
+  summaryCopied: 'রিপোর্টের সারাংশ ক্লিপবোর্ডে কপি হয়েছে!',
+  exportPdf: 'PDF রপ্তানি',
+  exportData: 'ডেটা রপ্তানি করুন',
+  translate: 'অনুবাদ করুন',
+  translating: 'অনুবাদ চলছে…',
+  translateFailed: 'অনুবাদ ব্যর্থ হয়েছে। আবার চেষ্টা করুন।',
+  tableOfContents: 'সূচিপত্র',
+  matchingSections: 'মিলে যাওয়া অংশ',
+  noMatchingSections: 'মিলে যাওয়া কোনো অংশ পাওয়া যায়নি।',
+  sources: 'তথ্যসূত্র',
+  viewAllSources: count => `সব ${count}টি তথ্যসূত্র দেখুন`,
+  analysisReport: 'বিশ্লেষণ রিপোর্ট',
+  version: version => `সংস্করণ ${version}`,
+  cached: age => `ক্যাশ থেকে, ${age}`,
+  forceRefresh: 'আবার তৈরি করুন',
+  translatedFrom: language => `${language} থেকে অনূদিত`,
+  showAnnotations: 'টীকা দেখান',
+  hideAnnotations: 'টীকা লুকান (প্রিন্ট ও এক্সপোর্ট থেকেও)',
+  includeAnnotations: 'টীকা অন্তর্ভুক্ত করুন',
+  annotationStatuses: { comment: 'মন্তব্য', verified: 'যাচাইকৃত', disputed: 'বিতর্কিত', 'needs-source': 'সূত্র প্রয়োজন' },
+  note: 'নোট',
+  addNote: 'নোট যোগ করুন',
+  commentPlaceholder: 'মন্তব্য যোগ করুন (রায়ের জন্য ঐচ্ছিক)',
+  notePlaceholder: 'এই অংশের জন্য একটি নোট যোগ করুন',
+  status: 'অবস্থা',
+  annotationDetached: 'এই লেখাটি আর প্রতিবেদনে নেই।',
+  analystReview: 'বিশ্লেষকের পর্যালোচনা',
+  noteCount: count => `${count}টি নোট`,
+  executiveSummary: 'সারসংক্ষেপ',
+  keyInsight: index => `মূল অন্তর্দৃষ্টি ${index}`,
+  removedSection: 'সরানো অংশ',
+  removedSections: 'সরানো অংশগুলি',
+  editReport: 'রিপোর্ট সম্পাদনা করুন',
+  editedByAnalyst: 'বিশ্লেষক দ্বারা সম্পাদিত',
+  editingReport: 'প্রতিবেদন সম্পাদনা হচ্ছে',
+  undo: 'পূর্বাবস্থায় ফেরান (Ctrl+Z)',
+  redo: 'আবার করুন (Ctrl+Shift+Z)',
+  reportTitle: 'শিরোনাম',
+  keyInsights: 'মূল অন্তর্দৃষ্টি',
+  insightIcon: 'আইকন',
+  insightIcons: { 'trend-up': 'ঊর্ধ্বমুখী', 'trend-down': 'নিম্নমুখী', alert: 'সতর্কতা', info: 'তথ্য' },
+  insightValue: 'মান',
+  addInsight: 'অন্তর্দৃষ্টি যোগ করুন',
+  removeInsight: 'অন্তর্দৃষ্টি সরান',
+  sectionTitle: 'অংশের শিরোনাম',
+  sectionType: 'অংশের ধরন',
+  sectionTypes: { [SectionType.TEXT]: 'লেখা', [SectionType.BAR_CHART]: 'বার চার্ট', [SectionType.PIE_CHART]: 'পাই চার্ট', [SectionType.LINE_CHART]: 'লাইন চার্ট', [SectionType.TABLE]: 'সারণি', [SectionType.MAP]: 'মানচিত্র' },
+  moveUp: 'উপরে সরান',
+  moveDown: 'নিচে সরান',
+  deleteSection: 'অংশ মুছুন',
+  addSection: 'অংশ যোগ করুন',
+  newSection: 'নতুন অংশ',
+  markdown: 'Markdown',
+  rowName: 'নাম',
+  addRow: 'সারি যোগ করুন',
+  removeRow: 'সারি সরান',
+  tableKept: 'সারণির সারিগুলি যেমন তৈরি হয়েছিল তেমনই রাখা হয়।',
+  mapKept: 'মানচিত্রের অঞ্চলগুলি যেমন তৈরি হয়েছিল তেমনই রাখা হয়।',
+  sectionNumber: n => `অংশ ${n}`,
+  insightNumber: n => `অন্তর্দৃষ্টি ${n}`,
+  fixBeforeSaving: 'সংরক্ষণের আগে এগুলি ঠিক করুন:',
+  fixesOnSave: 'সংরক্ষণ করলে এই সংশোধনগুলি প্রয়োগ হবে:',
+  discardEdits: 'এই প্রতিবেদনে করা পরিবর্তনগুলি বাতিল করবেন?',
+  noContentMatches: query => `"${query}"-এর সঙ্গে মেলে এমন কিছু নেই`,
+  clearSearch: 'খোঁজ মুছুন',
+  endOfReport: 'রিপোর্ট সমাপ্ত',
+  endOfReportNote: 'এই বিশ্লেষণ রিয়েল-টাইম তথ্য অনুসন্ধানের ভিত্তিতে AI দ্বারা তৈরি। রাজনৈতিক পরিস্থিতি পরিবর্তনশীল; একে একটি নির্দিষ্ট সময়ের ছবি হিসেবে দেখুন।',
+  startNewAnalysis: 'নতুন বিশ্লেষণ শুরু করুন',
+  printFooter: 'PolitiSight India দ্বারা তৈরি • Google Gemini চালিত',
+  exportMarkdownFile: 'Markdown (.md)',
+  exportJsonFile: 'JSON (.json)',
+  exportCsvFiles: 'চার্ট ও সারণির তথ্য (.csv)',
+  shareText: (title, summary) => `এই রাজনৈতিক বিশ্লেষণ রিপোর্টটি দেখুন: "${title}"\n\nসারসংক্ষেপ:\n${summary}\n\nPolitiSight India দ্বারা তৈরি`,
+  simulateSwings: 'সুইং পরিস্থিতি যাচাই করুন',
+  hideSimulator: 'পরিস্থিতি সিমুলেটর লুকান',
+  savedScenarios: count => `(${count}টি সংরক্ষিত)`,
+  scenarioSimulator: 'পরিস্থিতি সিমুলেটর',
+  resetSwings: 'সুইং রিসেট করুন',
+  seatModel: 'আসন মডেল',
+  seatModels: { 'uniform-swing': 'সমান সুইং', 'cube-law': 'ঘন সূত্র' },
+  houseSize: 'সভার আকার',
+  exponent: 'সূচক',
+  constituencySpread: 'কেন্দ্রগুলির মধ্যে বিস্তার',
+  points: value => `${value} পয়েন্ট`,
+  nameScenario: 'এই পরিস্থিতির একটি নাম দিন...',
+  save: 'সংরক্ষণ করুন',
+  deleteScenario: 'পরিস্থিতি মুছুন',
+  projectedVoteShare: 'আনুমানিক ভোটের হার (%)',
+  projectedSeats: total => `আনুমানিক আসন (${total}টির মধ্যে)`,
+
+  nonAligned: 'জোটনিরপেক্ষ',
+  total: 'মোট',
+  data: 'তথ্য',
+  filterColumns: 'কলাম ফিল্টার করুন',
+  filter: 'ফিল্টার',
+  noRowsMatch: 'ফিল্টারের সঙ্গে কোনো সারি মেলে না।',
+  mapMetrics: { winner: 'বিজয়ী দল', margin: 'জয়ের ব্যবধান (পয়েন্ট)', swing: 'সুইং (পয়েন্ট)' },
+  mapLevels: { state: 'রাজ্য', pc: 'লোকসভা কেন্দ্র', ac: 'বিধানসভা কেন্দ্র' },
+  mapAsTable: 'মানচিত্রের তথ্য সারণি হিসেবে দেখানো হচ্ছে।',
+  mapNeedsState: 'এই বিধানসভা মানচিত্রটি কোন রাজ্যের তা উল্লেখ নেই।',
+  noBoundaries: (level, state) => `${state ? `${state}-এর ` : ''}${level}-এর সীমানা অন্তর্ভুক্ত নেই।`,
+  boundariesFailed: 'মানচিত্রের সীমানা লোড করা যায়নি।',
+  stateColumn: 'রাজ্য',
+  constituencyColumn: 'কেন্দ্র',
+  showAllIndia: 'সমগ্র ভারত দেখান',
+  loadingBoundaries: 'সীমানা লোড হচ্ছে…',
+  noData: 'তথ্য নেই',
+  margin: 'ব্যবধান',
+  swing: 'সুইং',
+  notOnMap: regions => `মানচিত্রে নেই: ${regions}`,
+  figuresFrom: dataset => `ECI ফলাফল ডেটাসেট থেকে পরিসংখ্যান: ${dataset}`,
+  historicalResults: 'অতীতের ফলাফল',
+  historicalResultsNote: 'অতীত নির্বাচনে প্রধান দলগুলির ভোটের হার।',
+  voteShareTitle: election => `${election} ভোটের হার (%)`,
+  election: 'নির্বাচন',
+  voteSharePct: 'ভোটের হার (%)',
+  checkFigures: 'এই সংখ্যাগুলি যাচাই করুন',
+  figuresInconsistent: 'সংখ্যাগুলি অসংগত মনে হচ্ছে',
+  inconsistent: 'অসংগত',
+  unverified: 'অযাচাইকৃত',
+  validationMessages: {
+    'chart-data-invalid': () => 'চার্টের ডেটা তালিকা আকারে ছিল না, তাই বাদ দেওয়া হয়েছে।',
+    'point-invalid': () => 'একটি ডেটা বিন্দু অবৈধ ছিল, তাই বাদ দেওয়া হয়েছে।',
+    'point-no-name': () => 'একটি ডেটা বিন্দুর নাম ছিল না, তাই বাদ দেওয়া হয়েছে।',
+    'party-normalised': p => `দলের নাম ${p.name} বদলে ${p.canonical} করা হয়েছে।`,
+    'series-value-blanked': p => `অসংখ্যাসূচক সিরিজ মান ${p.value} ফাঁকা করা হয়েছে।`,
+    'value-dropped': p => `অসংখ্যাসূচক মান ${p.value} বাদ দেওয়া হয়েছে।`,
+    'value-coerced': p => `${p.value} কে ${p.result} এ রূপান্তর করা হয়েছে।`,
+    'fill-removed': () => 'অবৈধ রং সরানো হয়েছে।',
+    'table-data-invalid': () => 'সারণিতে কলাম ও সারির তালিকা ছিল না, তাই বাদ দেওয়া হয়েছে।',
+    'column-invalid': () => 'একটি কলামের কী বা লেবেল ছিল না, তাই বাদ দেওয়া হয়েছে।',
+    'column-type-unknown': p => `অজানা কলামের ধরন ${p.type} লেখা হিসেবে ধরা হয়েছে।`,
+    'table-no-columns': () => 'সারণিতে ব্যবহারযোগ্য কোনো কলাম নেই।',
+    'row-invalid': () => 'একটি সারি অবৈধ ছিল, তাই বাদ দেওয়া হয়েছে।',
+    'cell-blanked': p => `অসংখ্যাসূচক ঘর ${p.value} ফাঁকা করা হয়েছে।`,
+    'table-no-rows': () => 'সারণিতে কোনো সারি নেই।',
+    'map-data-invalid': () => 'মানচিত্রে অঞ্চলের তালিকা ছিল না, তাই বাদ দেওয়া হয়েছে।',
+    'map-level-unknown': p => `অজানা স্তর ${p.level} এর বদলে রাজ্য স্তর রাখা হয়েছে।`,
+    'map-state-unknown': p => `অজানা রাজ্য ${p.state} উপেক্ষা করা হয়েছে।`,
+    'map-needs-state': () => 'বিধানসভা মানচিত্রে রাজ্য উল্লেখ নেই; অঞ্চলগুলি তালিকায় দেখানো হবে।',
+    'region-no-name': () => 'একটি অঞ্চলের নাম ছিল না, তাই বাদ দেওয়া হয়েছে।',
+    'region-value-dropped': p => `অঞ্চলের অসংখ্যাসূচক মান ${p.value} বাদ দেওয়া হয়েছে।`,
+    'region-unknown': p => `অঞ্চল ${p.region} কোনো পরিচিত রাজ্যের সঙ্গে মেলে না।`,
+    'map-metric-unknown': p => `অজানা পরিমাপ ${p.metric} এর বদলে "${p.replacement}" রাখা হয়েছে।`,
+    'series-invalid': () => 'একটি সিরিজের কী ছিল না বা দুবার ছিল, তাই বাদ দেওয়া হয়েছে।',
+    'section-invalid': () => 'একটি অংশ অবৈধ ছিল, তাই বাদ দেওয়া হয়েছে।',
+    'content-missing': () => 'অনুপস্থিত বিষয়বস্তুর বদলে ফাঁকা লেখা রাখা হয়েছে।',
+    'section-type-unknown': p => `অজানা অংশের ধরন ${p.type}।`,
+    'section-type-normalised': p => `ধরন ${p.type} বদলে ${p.result} করা হয়েছে।`,
+    'section-type-inferred': p => `অংশটি ${p.type} হিসেবে দেখানো হয়েছে।`,
+    'chart-no-data': () => 'চার্ট অংশে ব্যবহারযোগ্য ডেটা নেই, তাই লেখায় রূপান্তর করা হয়েছে।',
+    'table-no-data': () => 'সারণি অংশে ব্যবহারযোগ্য ডেটা নেই, তাই লেখায় রূপান্তর করা হয়েছে।',
+    'map-no-regions': () => 'মানচিত্র অংশে ব্যবহারযোগ্য অঞ্চল নেই, তাই লেখায় রূপান্তর করা হয়েছে।',
+    'section-empty': () => 'অংশে কোনো বিষয়বস্তু বা চার্ট, সারণি, মানচিত্রের ডেটা নেই, তাই বাদ দেওয়া হয়েছে।',
+    'section-title-missing': p => `অনুপস্থিত শিরোনামের বদলে "${p.title}" রাখা হয়েছে।`,
+    'section-id-replaced': p => `অংশের আইডি ${p.id} এর বদলে "${p.replacement}" রাখা হয়েছে।`,
+    'insight-no-text': () => 'একটি অন্তর্দৃষ্টিতে লেখা ছিল না, তাই বাদ দেওয়া হয়েছে।',
+    'insight-icon-unknown': p => `অজানা আইকন ${p.icon} এর বদলে "info" রাখা হয়েছে।`,
+    'insight-color-removed': () => 'অবৈধ রং সরানো হয়েছে।',
+    'not-object': () => 'উত্তরটি JSON অবজেক্ট নয়।',
+    'title-missing': () => 'অনুপস্থিত শিরোনামের বদলে খোঁজের বিষয় রাখা হয়েছে।',
+    'date-missing': () => 'অনুপস্থিত তারিখের বদলে আজকের তারিখ রাখা হয়েছে।',
+    'summary-missing': () => 'সারসংক্ষেপ নেই।',
+    'insights-missing': () => 'মূল অন্তর্দৃষ্টি নেই বা তালিকা আকারে নেই।',
+    'sections-missing': () => 'অংশগুলি নেই বা তালিকা আকারে নেই।',
+    'no-sections': () => 'যাচাইয়ের পরে কোনো ব্যবহারযোগ্য অংশ অবশিষ্ট নেই।',
+    'sources-invalid': () => 'তথ্যসূত্র তালিকা আকারে ছিল না, তাই বাদ দেওয়া হয়েছে।',
+    'source-invalid': () => 'একটি অবৈধ তথ্যসূত্র বাদ দেওয়া হয়েছে।',
+    'id-generated': () => 'অনুপস্থিত আইডি তৈরি করা হয়েছে।',
+    'timestamp-missing': () => 'অনুপস্থিত সময়ের বদলে এখনকার সময় রাখা হয়েছে।',
+    'empty-response': () => 'মডেল ফাঁকা উত্তর দিয়েছে।',
+    'invalid-json': p => `উত্তরটি বৈধ JSON নয়: ${p.error}`,
+    'translation-unreadable': () => 'অনুবাদটি পড়া যায়নি।',
+    'kept-untranslated': p => `${LANGUAGES[p.language as Language].nativeName} ভাষাতেই রাখা হয়েছে: অনুবাদে সংখ্যাগুলি অপরিবর্তিত থাকেনি।`
+  },
+  factCheckMessages: {
+    'share-sum-over': p => `${p.label}-এর ভাগের যোগফল ${p.total}%।`,
+    'share-sum-under': p => `${p.label}-এর ভাগের যোগফল মাত্র ${p.total}%।`,
+    'share-above-100': p => `${p.name}-এর ভাগ ${p.value}%, যা 100%-এর বেশি।`,
+    'seats-above-house': p => `${p.name}-কে ${p.value}টি আসন দেখানো হয়েছে, কিন্তু সভায় আসন ${p.house}টি।`,
+    'seats-total': p => `আসনের যোগফল ${p.total}, যা সভার ${p.house}টি আসনের চেয়ে বেশি।`,
+    'year-out-of-range': p => `${p.year} ভারতীয় নির্বাচনের সময়সীমার বাইরে।`,
+    'year-future': p => `${p.year} অবিশ্বাস্যভাবে দূর ভবিষ্যতে।`,
+    'quoted-share': p => `${p.party}-কে ${p.quoted}% বলা হয়েছে, কিন্তু চার্টে ${p.charted} দেখা যাচ্ছে।`
+  },
+  versionHistory: 'সংস্করণের ইতিহাস',
+  changesSince: version => `v${version} থেকে পরিবর্তন`,
+  sectionChanges: { added: 'যোগ হয়েছে', removed: 'সরানো হয়েছে', changed: 'বদলেছে', unchanged: 'অপরিবর্তিত' },
+  item: 'বিষয়',
+  before: 'আগে',
+  after: 'পরে',
+  unsupportedNote: 'ড্যাশ দেওয়া প্রান্তরেখায় চিহ্নিত অনুচ্ছেদগুলি কোনো তথ্যসূত্রে সমর্থিত নয়।',
+  unsupportedParagraph: 'কোনো তথ্যসূত্র এই অনুচ্ছেদকে সমর্থন করে না',
+  citedTimes: count => `${count} বার উদ্ধৃত`,
+
+  logKinds: { search: 'খোঁজা হয়েছে', section: 'অংশ', note: 'পুনরায় চেষ্টা' },
+  liveLog: 'লাইভ লগ',
+  tokens: count => `${count} টোকেন`,
+  attempt: attempt => `চেষ্টা ${attempt}`,
+  waitingForModel: 'মডেলের অপেক্ষায়…',
+  remediation: {
+    'api-key': {
+      title: 'API কী-তে সমস্যা',
+      steps: [
+        '.env.local-এ GEMINI_API_KEY সেট করে ডেভ সার্ভার আবার চালু করুন।',
+        'Google AI Studio-তে দেখুন কী-টি সক্রিয় এবং Gemini API ব্যবহারের অনুমতি আছে কিনা।',
+        'কী ছাড়া অ্যাপটি চালিয়ে দেখতে LLM_PROVIDER=mock সেট করুন।'
+      ]
+    },
+    quota: {
+      title: 'হারের সীমায় পৌঁছেছে',
+      steps: [
+        'এক মিনিট অপেক্ষা করে আবার চেষ্টা করুন; প্রতি-মিনিটের সীমা দ্রুত রিসেট হয়।',
+        'এমন বারবার হলে দৈনিক কোটা শেষ হয়ে থাকতে পারে। Google AI Studio-তে ব্যবহার দেখুন।',
+        'ব্যাচ রান দীর্ঘ বিরতি দিয়ে নিজে থেকেই আবার চেষ্টা করে।'
+      ]
+    },
+    safety: {
+      title: 'নিরাপত্তা ফিল্টারে আটকানো হয়েছে',
+      steps: [
+        'বিষয়টি নিরপেক্ষ, বিশ্লেষণমূলক ভাষায় আবার লিখুন।',
+        'ব্যক্তিগত মানুষের নাম বা নির্দিষ্ট কাউকে লক্ষ্য করা বিষয়বস্তু চাওয়া এড়িয়ে চলুন।'
+      ]
+    },
+    parse: {
+      title: 'উত্তর পড়া যায়নি',
+      steps: [
+        'আবার চেষ্টা করুন; পরের বার মডেল সাধারণত সঠিক বিন্যাসে উত্তর দেয়।',
+        'সংকীর্ণ বিষয় দিলে মডেলকে একটি রিপোর্টে কম বিষয় আঁটাতে হয়।'
+      ]
+    },
+    network: {
+      title: 'নেটওয়ার্ক সমস্যা',
+      steps: [
+        'আপনার ইন্টারনেট সংযোগ পরীক্ষা করুন।',
+        'কোনো VPN, প্রক্সি বা অ্যাড ব্লকার generativelanguage.googleapis.com আটকে দিতে পারে।'
+      ]
+    },
+    server: {
+      title: 'পরিষেবা অনুপলব্ধ',
+      steps: ['Gemini API অতিরিক্ত চাপে আছে বা বন্ধ। কয়েক মিনিট পরে আবার চেষ্টা করুন।']
+    },
+    unknown: {
+      title: 'রিপোর্ট ব্যর্থ হয়েছে',
+      steps: ['আবার চেষ্টা করুন। বারবার ব্যর্থ হলে ব্রাউজার কনসোলে বিস্তারিত আছে।']
+    }
+  },
+  showModelAnswer: 'মডেলের উত্তর দেখান',
+  hideModelAnswer: 'মডেলের উত্তর লুকান',
+  emptyResponse: '(খালি উত্তর)',
+  downloadRawAnswer: 'মূল উত্তর ডাউনলোড করুন',
+  tryAgain: 'আবার চেষ্টা করুন',
+
+  chooseImportFiles: 'রিপোর্টের .json ফাইল বা ইতিহাসের বান্ডেল বেছে নিন',
+  importValidated: 'PolitiSight থেকে এক্সপোর্ট করা ফাইল যোগ করার আগে যাচাই করা হয়',
+  issueCount: count => `${count}টি সমস্যা`,
+  importStatuses: { accepted: 'গৃহীত', repaired: 'সংশোধিত', rejected: 'বাতিল', duplicate: 'আগেই সংরক্ষিত' },
+  sameIdAs: title => `"${title}"-এর একই id:`,
+  keepBoth: 'দুটোই রাখুন',
+  replaceExisting: 'পুরোনোটি বদলান',
+  importCount: count => count > 0 ? `${count}টি রিপোর্ট ইমপোর্ট করুন` : 'রিপোর্ট ইমপোর্ট করুন',
+  closeKeepsQueue: 'বন্ধ করুন (সারি চলতে থাকবে)',
+  batchPlaceholder: 'প্রতি লাইনে একটি বিষয়, যেমন\nবিহার বিধানসভা 2025-এর সম্ভাবনা\nপশ্চিমবঙ্গ বিধানসভা 2026-এর সম্ভাবনা',
+  savedSets: 'সংরক্ষিত সেট:',
+  deleteSet: 'সেট মুছুন',
+  nameSet: 'এই সেটের একটি নাম দিন',
+  saveSet: 'সেট সংরক্ষণ করুন',
+  runReports: count => count > 0 ? `${count}টি রিপোর্ট চালান` : 'রিপোর্ট চালান',
+  queue: 'সারি',
+  pendingOf: (pending, total) => `${total}টির মধ্যে ${pending}টি বাকি`,
+  cancelAll: 'সব বাতিল করুন',
+  clearFinished: 'সম্পূর্ণগুলি সরান',
+  open: 'খুলুন',
+  runAgain: 'আবার চালান',
+  batchStatuses: { queued: 'সারিতে', running: 'চলছে', waiting: 'হার সীমিত', done: 'সম্পূর্ণ', failed: 'ব্যর্থ', cancelled: 'বাতিল' },
+  retryingAt: (time, attempt) => `${time}-এ আবার চেষ্টা (চেষ্টা ${attempt})`,
+
+  exitComparison: 'তুলনা থেকে বেরোন',
+  noMatchingSection: title => `"${title}"-এ মিলে যাওয়া কোনো অংশ নেই`,
+  keyInsightDifferences: 'মূল অন্তর্দৃষ্টির পার্থক্য',
+  notPresent: 'নেই',
+  overlay: title => `তুলনামূলক চার্ট: ${title}`,
+
+  chatGreeting: 'নমস্কার! আমি আপনার PolitiSight সহকারী। ভারতীয় রাজনীতি নিয়ে প্রশ্ন করুন বা নতুন বিশ্লেষণ শুরু করুন।',
+  chatGreetingReport: title => `"${title}" আরও গভীরভাবে বুঝতে আমি আপনাকে সাহায্য করতে এখানে আছি। আপনি কী জানতে চান?`,
+  askQuestion: 'একটি প্রশ্ন করুন...',
+  assistantName: 'AI সহকারী',
+  reportContextActive: 'রিপোর্টের প্রসঙ্গ সক্রিয়',
+  online: model => `অনলাইন • ${model}`,
+  newChat: 'নতুন চ্যাট',
+  savedChats: 'সংরক্ষিত চ্যাট',
+  noSavedChats: 'এখনও কোনো সংরক্ষিত চ্যাট নেই।',
+  thisReport: 'এই রিপোর্ট',
+  generalChats: 'সাধারণ',
+  otherReports: 'অন্যান্য রিপোর্ট',
+  messageCount: count => `${count}টি বার্তা`,
+  rename: 'নাম বদলান',
+  exportAsMarkdown: 'Markdown হিসেবে এক্সপোর্ট করুন',
+  you: 'আপনি',
+  chatAboutReport: title => `"${title}" রিপোর্ট নিয়ে চ্যাট`,
+  generalChat: 'সাধারণ চ্যাট',
+  chatStarted: date => `${date}-এ শুরু হয়েছে`,
+  chatAction: (action, status) => `কাজ: ${action} (${status})`,
+  delete: 'মুছুন',
+  confirmDeleteChat: title => `"${title}" চ্যাটটি মুছবেন?`,
+  showInReport: 'রিপোর্টে দেখান',
+  fromReport: title => `"${title}" থেকে`,
+  answerActionFirst: 'আগে উপরের কাজটি চালান বা বাতিল করুন',
+  chatError: 'দুঃখিত, একটি ত্রুটি হয়েছে। আবার চেষ্টা করুন।',
+  actionFailed: 'অ্যাপটি এই কাজটি চালাতে পারেনি।',
+  actionStatuses: { pending: 'আপনার অপেক্ষায়', done: 'সম্পন্ন', declined: 'প্রত্যাখ্যাত', failed: 'চালানো যায়নি' },
+  actionExpired: 'মেয়াদ শেষ; চালাতে আবার জিজ্ঞাসা করুন',
+  run: 'চালান',
+  actions: {
+    generateReport: topic => `"${topic}" নিয়ে নতুন রিপোর্ট তৈরি করুন`,
+    openReport: title => `"${title}" রিপোর্টটি খুলুন`,
+    openSavedReport: 'একটি সংরক্ষিত রিপোর্ট খুলুন',
+    showSection: 'রিপোর্টের একটি অংশ দেখান',
+    drawChart: title => title ? `চার্ট আঁকুন: ${title}` : 'চার্ট আঁকুন',
+    runTool: name => `"${name}" চালান`
+  }
+};
+
+export const UI_STRINGS: Record<Language, UiStrings> = { en, hi, mr, ta, bn };
+
+// "5 min ago" in the interface language, with Western digits like the rest of the app
+export const formatAge = (since: number, locale: string) => {
+  const format = new Intl.RelativeTimeFormat(`${locale}-u-nu-latn`, { numeric: 'auto', style: 'short' });
+  const minutes = Math.floor((Date.now() - since) / 60000);
+  if (minutes < 1) return format.format(0, 'second');
+  if (minutes < 60) return format.format(-minutes, 'minute');
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return format.format(-hours, 'hour');
+  return format.format(-Math.floor(hours / 24), 'day');
+};
+
+// Flags and issues saved before they carried a code, or with one this version doesn't know, fall back to the English message
+export const flagMessage = (t: UiStrings, flag: FactCheckFlag) =>
+  (flag.code && t.factCheckMessages[flag.code]?.(flag.params ?? {})) || flag.message;
+
+export const issueMessage = (t: UiStrings, issue: ValidationIssue) =>
+  (issue.code && t.validationMessages[issue.code]?.(issue.params ?? {})) || issue.message;
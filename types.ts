@@ -7,12 +7,62 @@ export interface ChartDataPoint {
   [key: string]: any;
 }
 
+export interface ChartSeries {
+  key: string;    // Data point key to plot
+  label: string;  // Legend/tooltip label
+  color?: string;
+}
+
+export interface ChartConfig {
+  xLabel?: string;
+  yLabel?: string;
+  title?: string;
+  series?: ChartSeries[]; // Multi-series charts: one numeric key per series on every data point
+  stacked?: boolean;      // Stack bar series instead of grouping them
+}
+
 export enum SectionType {
   TEXT = 'TEXT',
   BAR_CHART = 'BAR_CHART',
   PIE_CHART = 'PIE_CHART',
   LINE_CHART = 'LINE_CHART',
-  TABLE = 'TABLE'
+  TABLE = 'TABLE',
+  MAP = 'MAP'
+}
+
+export type TableColumnType = 'text' | 'number' | 'percent' | 'currency';
+
+export interface TableColumn {
+  key: string;
+  label: string;
+  type: TableColumnType;
+  unit?: string; // Suffix for number columns, e.g. "seats" or "votes"
+}
+
+export type TableCell = string | number | null;
+
+export interface TableData {
+  columns: TableColumn[];
+  rows: Array<Record<string, TableCell>>; // Keyed by column key
+}
+
+export type MapLevel = 'state' | 'pc' | 'ac'; // States, Lok Sabha or Vidhan Sabha constituencies
+
+export type MapMetric = 'winner' | 'margin' | 'swing';
+
+export interface MapRegion {
+  region: string;    // Name as written by the model
+  regionId?: string; // Boundary feature id, once matched
+  winner?: string;   // Party, canonicalised against the party registry
+  margin?: number;   // Percentage points
+  swing?: number;    // Percentage points towards the winner since the last election
+}
+
+export interface MapData {
+  level: MapLevel;
+  state?: string; // State code to zoom into; required for Vidhan Sabha maps
+  metric: MapMetric;
+  regions: MapRegion[];
 }
 
 export interface ReportSection {
@@ -21,11 +71,10 @@ export interface ReportSection {
   type: SectionType;
   content: string; // Markdown supported
   chartData?: ChartDataPoint[]; // For chart sections
-  chartConfig?: {
-    xLabel?: string;
-    yLabel?: string;
-    title?: string;
-  };
+  chartConfig?: ChartConfig;
+  tableData?: TableData; // For TABLE sections
+  mapData?: MapData; // For MAP sections
+  dataSource?: string; // Set when the figures come from the local results dataset instead of the model
 }
 
 export interface GroundingSource {
@@ -33,6 +82,86 @@ export interface GroundingSource {
   uri: string;
 }
 
+export type SeatModel = 'uniform-swing' | 'cube-law';
+
+export interface ScenarioConfig {
+  model: SeatModel;
+  totalSeats: number;
+  exponent: number;   // Cube-law exponent (3 = classic cube law)
+  dispersion: number; // Uniform swing: spread of constituency shares around the statewide share, in points
+}
+
+export interface SavedScenario {
+  id: string;
+  name: string;
+  sectionId: string;               // Section whose chartData is the baseline
+  swings: Record<string, number>;  // Party name -> swing in percentage points
+  config: ScenarioConfig;
+  createdAt: number;
+}
+
+export interface Citation {
+  field: string;           // 'executiveSummary', 'insight:<index>' or 'section:<id>'
+  text: string;            // Supported span, as it appears in the field
+  sourceIndices: number[]; // Indices into Report.sources
+}
+
+export type AnnotationStatus = 'comment' | 'verified' | 'disputed' | 'needs-source';
+
+// An analyst's comment on a span of report text, or a free-form section note when `quote` is unset
+export interface Annotation {
+  id: string;
+  field: string;   // Same keys as Citation.field
+  quote?: string;  // Selected text, as it appears in the field
+  status: AnnotationStatus;
+  comment: string;
+  createdAt: number;
+}
+
+// Values filled into a coded message, e.g. { label: 'BJP', total: 104.2 }
+export type MessageParams = Record<string, string | number>;
+
+export type ValidationCode =
+  | 'chart-data-invalid' | 'point-invalid' | 'point-no-name' | 'party-normalised' | 'series-value-blanked'
+  | 'value-dropped' | 'value-coerced' | 'fill-removed' | 'table-data-invalid' | 'column-invalid'
+  | 'column-type-unknown' | 'table-no-columns' | 'row-invalid' | 'cell-blanked' | 'table-no-rows'
+  | 'map-data-invalid' | 'map-level-unknown' | 'map-state-unknown' | 'map-needs-state' | 'region-no-name'
+  | 'region-value-dropped' | 'region-unknown' | 'map-metric-unknown' | 'series-invalid' | 'section-invalid'
+  | 'content-missing' | 'section-type-unknown' | 'section-type-normalised' | 'section-type-inferred'
+  | 'chart-no-data' | 'table-no-data' | 'map-no-regions' | 'section-empty' | 'section-title-missing'
+  | 'section-id-replaced' | 'insight-no-text' | 'insight-icon-unknown' | 'insight-color-removed' | 'not-object'
+  | 'title-missing' | 'date-missing' | 'summary-missing' | 'insights-missing' | 'sections-missing' | 'no-sections'
+  | 'sources-invalid' | 'source-invalid' | 'id-generated' | 'timestamp-missing' | 'empty-response' | 'invalid-json'
+  | 'translation-unreadable' | 'kept-untranslated';
+
+export interface ValidationIssue {
+  path: string;      // Location in the report, e.g. "sections[2].chartData[0].value"
+  severity: 'info' | 'warning' | 'fatal';
+  message: string;   // English; also sent back to the model when asking for a repair
+  code?: ValidationCode; // Shown through UI_STRINGS in the interface language
+  params?: MessageParams;
+}
+
+export type FactCheckRule = 'share-sum' | 'house-size' | 'year-range' | 'summary-mismatch';
+
+export type FactCheckCode =
+  | 'share-sum-over' | 'share-sum-under' | 'share-above-100' | 'seats-above-house' | 'seats-total'
+  | 'year-out-of-range' | 'year-future' | 'quoted-share';
+
+export interface FactCheckFlag {
+  rule: FactCheckRule;
+  severity: 'warning' | 'error';
+  message: string;        // English; the only text on flags saved before codes
+  code?: FactCheckCode;   // Shown through UI_STRINGS in the interface language
+  params?: MessageParams;
+}
+
+export interface FactCheckResult {
+  target: string; // Same keys as Citation.field
+  confidence: 'high' | 'medium' | 'low';
+  flags: FactCheckFlag[];
+}
+
 export interface Report {
   id: string;        // Unique ID for history
   createdAt: number; // Timestamp for sorting
@@ -47,13 +176,83 @@ export interface Report {
   }>;
   sections: ReportSection[];
   sources?: GroundingSource[];
+  citations?: Citation[];     // Grounding supports mapped onto report text
+  scenarios?: SavedScenario[];
+  annotations?: Annotation[];  // Analyst review comments and notes
+  validationIssues?: ValidationIssue[]; // Problems found (and repaired) in the raw model output
+  factChecks?: FactCheckResult[];       // Consistency checks on the numbers, one per checked item
+  topic?: string;             // Query the report was generated from
+  topicKey?: string;          // Normalised topic linking versions of the same analysis
+  version?: number;           // 1-based position in the topic's version chain
+  previousVersionId?: string;
+  language?: Language;        // Language of the report text; English when unset
+  translatedFrom?: { id: string, language: Language }; // Report this is a translation of
+  editedAt?: number;          // Set when an analyst last edited the report by hand
+}
+
+export type Language = 'en' | 'hi' | 'mr' | 'ta' | 'bn';
+
+export type GenerationStage = 'researching' | 'analyzing' | 'formatting' | 'verifying';
+
+export interface GenerationLogEntry {
+  kind: 'search' | 'section' | 'note';
+  text: string;
+  partial?: boolean; // Section title still streaming in
+}
+
+export interface GenerationProgress {
+  stage: GenerationStage;
+  tokens: number;   // Output tokens received so far, across attempts
+  attempt: number;
+  log: GenerationLogEntry[];
+}
+
+export type BatchJobStatus = 'queued' | 'running' | 'waiting' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchJob {
+  id: string;
+  topic: string;
+  status: BatchJobStatus;
+  attempts: number;
+  progress?: GenerationProgress;
+  retryAt?: number;  // When a rate-limited job tries again
+  reportId?: string; // Saved report, once done
+  error?: string;
+}
+
+export interface TopicSet {
+  id: string;
+  name: string;
+  topics: string[];
+  updatedAt: number;
+}
+
+export type TopicType = 'current' | 'projection' | 'historical' | 'general';
+
+export interface CacheEntry {
+  key: string;          // Normalised topic
+  topicType: TopicType;
+  report: Report;
+  cachedAt: number;
+  size: number;         // Serialised length, for eviction
+}
+
+export type ReportErrorKind = 'api-key' | 'quota' | 'safety' | 'parse' | 'network' | 'server' | 'unknown';
+
+// Serialisable summary of a failed generation, kept in UI state
+export interface ReportFailure {
+  kind: ReportErrorKind;
+  message: string;
+  rawText?: string; // Model output that could not be parsed
+  issues?: ValidationIssue[];
 }
 
 export interface SearchState {
   isSearching: boolean;
-  stage: 'idle' | 'researching' | 'analyzing' | 'formatting' | 'complete';
+  stage: 'idle' | GenerationStage | 'complete';
   query: string;
-  error?: string;
+  progress?: GenerationProgress;
+  error?: ReportFailure;
 }
 
 export interface ChatMessage {
@@ -61,4 +260,27 @@ export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   timestamp: Date;
+  isError?: boolean; // Shown in the thread but never replayed to the model
+  actions?: ChatAction[]; // Tool calls in a model reply
+}
+
+export type ChatActionStatus = 'pending' | 'done' | 'declined' | 'failed';
+
+// A tool call the assistant proposed; nothing runs until the user confirms it
+export interface ChatAction {
+  callId?: string;
+  name: string;
+  args: Record<string, unknown>;
+  status: ChatActionStatus;
+  error?: string;
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  reportId?: string;    // Unset for general threads
+  reportTitle?: string;
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
 }